@@ -0,0 +1,13 @@
+CREATE TYPE "public"."grouping_constraint_type" AS ENUM('must_link', 'cannot_link');--> statement-breakpoint
+CREATE TABLE "grouping_constraints" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workshop_id" uuid NOT NULL,
+	"type" "grouping_constraint_type" NOT NULL,
+	"participant_a_id" uuid NOT NULL,
+	"participant_b_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "grouping_constraints" ADD CONSTRAINT "grouping_constraints_workshop_id_workshops_id_fk" FOREIGN KEY ("workshop_id") REFERENCES "public"."workshops"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "grouping_constraints" ADD CONSTRAINT "grouping_constraints_participant_a_id_participants_id_fk" FOREIGN KEY ("participant_a_id") REFERENCES "public"."participants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "grouping_constraints" ADD CONSTRAINT "grouping_constraints_participant_b_id_participants_id_fk" FOREIGN KEY ("participant_b_id") REFERENCES "public"."participants"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
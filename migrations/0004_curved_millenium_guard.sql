@@ -0,0 +1,5 @@
+ALTER TABLE "workshops" ADD COLUMN "min_group_size" integer;--> statement-breakpoint
+ALTER TABLE "workshops" ADD COLUMN "max_group_size" integer;--> statement-breakpoint
+ALTER TABLE "workshops" ADD COLUMN "group_count" integer;--> statement-breakpoint
+-- Carry over existing configuration: fixed 3/4 becomes min = max, flexible (null) becomes 3-4
+UPDATE "workshops" SET "min_group_size" = COALESCE("group_size", 3), "max_group_size" = COALESCE("group_size", 4) WHERE "framework" IS NOT NULL OR "group_size" IS NOT NULL;
@@ -0,0 +1 @@
+ALTER TABLE "workshops" DROP COLUMN "group_size";
\ No newline at end of file
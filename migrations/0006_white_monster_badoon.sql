@@ -0,0 +1,3 @@
+ALTER TABLE "groups" ADD COLUMN "round_number" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "workshops" ADD COLUMN "round_count" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "workshops" ADD COLUMN "current_round" integer DEFAULT 1 NOT NULL;
\ No newline at end of file
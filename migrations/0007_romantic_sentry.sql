@@ -0,0 +1,4 @@
+CREATE TYPE "public"."grouping_objective" AS ENUM('maximize', 'minimize', 'target');--> statement-breakpoint
+ALTER TABLE "workshops" ADD COLUMN "objective" "grouping_objective" DEFAULT 'maximize' NOT NULL;--> statement-breakpoint
+ALTER TABLE "workshops" ADD COLUMN "target_distance_min" integer;--> statement-breakpoint
+ALTER TABLE "workshops" ADD COLUMN "target_distance_max" integer;
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TABLE "custom_framework_dimensions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"framework_id" uuid NOT NULL,
+	"key" text NOT NULL,
+	"label" text NOT NULL,
+	"scale_min" numeric DEFAULT '0' NOT NULL,
+	"scale_max" numeric DEFAULT '1' NOT NULL,
+	"position" integer NOT NULL,
+	CONSTRAINT "custom_framework_dimensions_framework_id_key_unique" UNIQUE("framework_id","key")
+);
+--> statement-breakpoint
+CREATE TABLE "custom_framework_scores" (
+	"dimension_id" uuid NOT NULL,
+	"country_code" text NOT NULL,
+	"score" numeric(4, 3) NOT NULL,
+	CONSTRAINT "custom_framework_scores_dimension_id_country_code_pk" PRIMARY KEY("dimension_id","country_code")
+);
+--> statement-breakpoint
+CREATE TABLE "custom_frameworks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"facilitator_id" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "workshops" ALTER COLUMN "framework" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "custom_framework_dimensions" ADD CONSTRAINT "custom_framework_dimensions_framework_id_custom_frameworks_id_fk" FOREIGN KEY ("framework_id") REFERENCES "public"."custom_frameworks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "custom_framework_scores" ADD CONSTRAINT "custom_framework_scores_dimension_id_custom_framework_dimensions_id_fk" FOREIGN KEY ("dimension_id") REFERENCES "public"."custom_framework_dimensions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "custom_framework_scores" ADD CONSTRAINT "custom_framework_scores_country_code_countries_iso_code_fk" FOREIGN KEY ("country_code") REFERENCES "public"."countries"("iso_code") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+DROP TYPE "public"."framework";
\ No newline at end of file
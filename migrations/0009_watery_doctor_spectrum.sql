@@ -0,0 +1 @@
+ALTER TABLE "workshops" ADD COLUMN "distance_weights" jsonb;
\ No newline at end of file
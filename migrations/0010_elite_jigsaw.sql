@@ -0,0 +1,2 @@
+CREATE TYPE "public"."distance_metric" AS ENUM('euclidean', 'manhattan', 'cosine', 'mahalanobis', 'kogut_singh');--> statement-breakpoint
+ALTER TABLE "workshops" ADD COLUMN "distance_metric" "distance_metric" DEFAULT 'euclidean' NOT NULL;
\ No newline at end of file
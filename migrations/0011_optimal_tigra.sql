@@ -0,0 +1,4 @@
+CREATE TYPE "public"."score_source" AS ENUM('country', 'personal', 'blend');--> statement-breakpoint
+ALTER TABLE "participants" ADD COLUMN "personal_scores" jsonb;--> statement-breakpoint
+ALTER TABLE "workshops" ADD COLUMN "score_source" "score_source" DEFAULT 'country' NOT NULL;--> statement-breakpoint
+ALTER TABLE "workshops" ADD COLUMN "personal_score_weight" integer DEFAULT 50 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "participant_countries" (
+	"participant_id" uuid NOT NULL,
+	"country_code" text NOT NULL,
+	"weight" integer NOT NULL,
+	"position" integer NOT NULL,
+	CONSTRAINT "participant_countries_participant_id_country_code_pk" PRIMARY KEY("participant_id","country_code")
+);
+--> statement-breakpoint
+ALTER TABLE "participant_countries" ADD CONSTRAINT "participant_countries_participant_id_participants_id_fk" FOREIGN KEY ("participant_id") REFERENCES "public"."participants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "participant_countries" ADD CONSTRAINT "participant_countries_country_code_countries_iso_code_fk" FOREIGN KEY ("country_code") REFERENCES "public"."countries"("iso_code") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
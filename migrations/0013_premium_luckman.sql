@@ -0,0 +1,5 @@
+ALTER TABLE "participants" ADD COLUMN "email" text;--> statement-breakpoint
+ALTER TABLE "participants" ADD COLUMN "tags" jsonb;--> statement-breakpoint
+ALTER TABLE "participants" ADD COLUMN "claim_token" text;--> statement-breakpoint
+ALTER TABLE "participants" ADD COLUMN "claimed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "participants" ADD CONSTRAINT "participants_claim_token_unique" UNIQUE("claim_token");
\ No newline at end of file
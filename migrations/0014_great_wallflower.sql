@@ -0,0 +1,24 @@
+CREATE TYPE "public"."workshop_role" AS ENUM('owner', 'co_facilitator', 'observer');--> statement-breakpoint
+CREATE TABLE "workshop_invitations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workshop_id" uuid NOT NULL,
+	"email" text NOT NULL,
+	"role" "workshop_role" NOT NULL,
+	"token" text NOT NULL,
+	"invited_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "workshop_invitations_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+CREATE TABLE "workshop_members" (
+	"workshop_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"role" "workshop_role" NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "workshop_members_workshop_id_user_id_pk" PRIMARY KEY("workshop_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "workshop_invitations" ADD CONSTRAINT "workshop_invitations_workshop_id_workshops_id_fk" FOREIGN KEY ("workshop_id") REFERENCES "public"."workshops"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workshop_members" ADD CONSTRAINT "workshop_members_workshop_id_workshops_id_fk" FOREIGN KEY ("workshop_id") REFERENCES "public"."workshops"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "workshop_invitations_workshop_email_unique" ON "workshop_invitations" USING btree ("workshop_id","email");--> statement-breakpoint
+INSERT INTO "workshop_members" ("workshop_id", "user_id", "role") SELECT "id", "facilitator_id", 'owner' FROM "workshops";
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "workshop_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"facilitator_id" text NOT NULL,
+	"organization_id" uuid,
+	"title" text NOT NULL,
+	"framework" text,
+	"min_group_size" integer,
+	"max_group_size" integer,
+	"group_count" integer,
+	"objective" "grouping_objective" DEFAULT 'maximize' NOT NULL,
+	"target_distance_min" integer,
+	"target_distance_max" integer,
+	"distance_metric" "distance_metric" DEFAULT 'euclidean' NOT NULL,
+	"distance_weights" jsonb,
+	"score_source" "score_source" DEFAULT 'country' NOT NULL,
+	"personal_score_weight" integer DEFAULT 50 NOT NULL,
+	"round_count" integer DEFAULT 1 NOT NULL,
+	"reflection_prompt" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "workshops" ADD COLUMN "reflection_prompt" text;--> statement-breakpoint
+ALTER TABLE "workshop_templates" ADD CONSTRAINT "workshop_templates_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
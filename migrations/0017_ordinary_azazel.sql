@@ -0,0 +1,10 @@
+CREATE TABLE "workshop_status_changes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workshop_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"from_status" "workshop_status" NOT NULL,
+	"to_status" "workshop_status" NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "workshop_status_changes" ADD CONSTRAINT "workshop_status_changes_workshop_id_workshops_id_fk" FOREIGN KEY ("workshop_id") REFERENCES "public"."workshops"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
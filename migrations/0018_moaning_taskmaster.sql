@@ -0,0 +1,2 @@
+ALTER TABLE "workshops" ADD COLUMN "late_joining" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "workshop_templates" ADD COLUMN "late_joining" boolean DEFAULT false NOT NULL;
\ No newline at end of file
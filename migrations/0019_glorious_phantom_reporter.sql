@@ -0,0 +1,15 @@
+CREATE TABLE "grouping_candidates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workshop_id" uuid NOT NULL,
+	"candidate_number" integer NOT NULL,
+	"algorithm" text NOT NULL,
+	"seed" text,
+	"rounds" jsonb NOT NULL,
+	"diversity" double precision NOT NULL,
+	"repeat_pairings" integer NOT NULL,
+	"unsatisfied_constraints" integer NOT NULL,
+	"created_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "grouping_candidates" ADD CONSTRAINT "grouping_candidates_workshop_id_workshops_id_fk" FOREIGN KEY ("workshop_id") REFERENCES "public"."workshops"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TYPE "public"."grouping_algorithm" AS ENUM('genetic', 'greedy', 'local_search', 'annealing');--> statement-breakpoint
+ALTER TABLE "groups" ADD COLUMN "algorithm" "grouping_algorithm";--> statement-breakpoint
+ALTER TABLE "groups" ADD COLUMN "algorithm_parameters" jsonb;--> statement-breakpoint
+ALTER TABLE "grouping_candidates" ADD COLUMN "parameters" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "workshops" ADD COLUMN "grouping_algorithm" "grouping_algorithm" DEFAULT 'genetic' NOT NULL;--> statement-breakpoint
+ALTER TABLE "workshops" ADD COLUMN "algorithm_parameters" jsonb;--> statement-breakpoint
+ALTER TABLE "workshop_templates" ADD COLUMN "grouping_algorithm" "grouping_algorithm" DEFAULT 'genetic' NOT NULL;--> statement-breakpoint
+ALTER TABLE "workshop_templates" ADD COLUMN "algorithm_parameters" jsonb;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TYPE "public"."grouping_job_status" AS ENUM('running', 'completed', 'failed', 'cancelled');--> statement-breakpoint
+CREATE TABLE "grouping_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workshop_id" uuid NOT NULL,
+	"status" "grouping_job_status" DEFAULT 'running' NOT NULL,
+	"progress" jsonb,
+	"result" jsonb,
+	"error" text,
+	"created_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "grouping_jobs" ADD CONSTRAINT "grouping_jobs_workshop_id_workshops_id_fk" FOREIGN KEY ("workshop_id") REFERENCES "public"."workshops"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
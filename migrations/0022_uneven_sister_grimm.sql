@@ -0,0 +1,3 @@
+ALTER TABLE "participants" ADD COLUMN "attributes" jsonb;--> statement-breakpoint
+ALTER TABLE "workshops" ADD COLUMN "participant_attributes" jsonb;--> statement-breakpoint
+ALTER TABLE "workshop_templates" ADD COLUMN "participant_attributes" jsonb;
\ No newline at end of file
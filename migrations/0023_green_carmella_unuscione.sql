@@ -0,0 +1,2 @@
+UPDATE "grouping_jobs" SET "status" = 'failed', "error" = 'Group generation stopped unexpectedly. Please try again.', "finished_at" = now() WHERE "status" = 'running' AND "id" NOT IN (SELECT DISTINCT ON ("workshop_id") "id" FROM "grouping_jobs" WHERE "status" = 'running' ORDER BY "workshop_id", "created_at" DESC);--> statement-breakpoint
+CREATE UNIQUE INDEX "grouping_jobs_workshop_running_unique" ON "grouping_jobs" USING btree ("workshop_id") WHERE "grouping_jobs"."status" = 'running';
\ No newline at end of file
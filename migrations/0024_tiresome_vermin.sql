@@ -0,0 +1,2 @@
+CREATE TYPE "public"."grouping_job_kind" AS ENUM('groups', 'candidates');--> statement-breakpoint
+ALTER TABLE "grouping_jobs" ADD COLUMN "kind" "grouping_job_kind" DEFAULT 'groups' NOT NULL;
\ No newline at end of file
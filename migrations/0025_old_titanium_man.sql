@@ -0,0 +1,2 @@
+ALTER TABLE "workshops" ADD COLUMN "pending_constraints" jsonb;--> statement-breakpoint
+ALTER TABLE "workshop_templates" ADD COLUMN "pending_constraints" jsonb;
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { eq } from "drizzle-orm";
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { participants } from "@/lib/db/schema";
+import { createWorkshopEventStream } from "@/lib/realtime/workshop-events";
+import { PARTICIPANT_EVENT_TYPES } from "@/types/workshop-events";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ token: string }>;
+};
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+
+    const participant = await db
+      .select({ workshopId: participants.workshopId })
+      .from(participants)
+      .where(eq(participants.sessionToken, token))
+      .limit(1);
+
+    if (participant.length === 0) {
+      return NextResponse.json(
+        { error: "Participant not found" },
+        { status: 404 }
+      );
+    }
+
+    return createWorkshopEventStream(
+      participant[0].workshopId,
+      request.signal,
+      PARTICIPANT_EVENT_TYPES
+    );
+  } catch (error) {
+    console.error("Error opening participant event stream:", error);
+    return NextResponse.json(
+      { error: "Failed to open event stream" },
+      { status: 500 }
+    );
+  }
+}
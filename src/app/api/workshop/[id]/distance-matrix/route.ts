@@ -17,9 +17,15 @@ export async function GET(
     const searchParams = new URL(request.url).searchParams;
     const frameworkParam = searchParams.get("framework");
     const framework: Framework = (frameworkParam as Framework) || "combined";
+    const candidateId = searchParams.get("candidate") ?? undefined;
 
     // Get visualization data (includes auth check)
-    const result = await getVisualizationData(id, userId, framework);
+    const result = await getVisualizationData(
+      id,
+      userId,
+      framework,
+      candidateId
+    );
 
     if (!result.success) {
       if (result.error === "workshop_not_found") {
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { getWorkshopById } from "@/lib/db/queries/workshop-queries";
+import { createWorkshopEventStream } from "@/lib/realtime/workshop-events";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id: workshopId } = await params;
+    const facilitatorId = await requireAuth();
+
+    const workshop = await getWorkshopById(workshopId, facilitatorId);
+
+    if (!workshop) {
+      return NextResponse.json(
+        { error: "Workshop not found" },
+        { status: 404 }
+      );
+    }
+
+    return createWorkshopEventStream(workshopId, request.signal);
+  } catch (error) {
+    console.error("Error opening workshop event stream:", error);
+    return NextResponse.json(
+      { error: "Failed to open event stream" },
+      { status: 500 }
+    );
+  }
+}
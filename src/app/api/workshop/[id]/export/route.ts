@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { getWorkshopExportData } from "@/lib/db/queries/export-queries";
+import {
+  EXPORT_FORMATS,
+  EXPORT_TABLES,
+  buildExportTables,
+  getExportContentType,
+  getExportFilename,
+  toCsv,
+  toXlsx,
+  type ExportFormat,
+  type ExportTableName,
+} from "@/lib/utils/workshop-export";
+
+type RouteParams = Promise<{ id: string }>;
+
+/**
+ * Downloads workshop data as ?format=xlsx (all tables), json (full bundle)
+ * or csv together with ?table=participants|groups|reflections
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const { id } = await params;
+    const userId = await requireAuth();
+
+    const searchParams = new URL(request.url).searchParams;
+    const format = (searchParams.get("format") ?? "xlsx") as ExportFormat;
+    const table = (searchParams.get("table") ??
+      "participants") as ExportTableName;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: "Invalid export format" },
+        { status: 400 }
+      );
+    }
+    if (format === "csv" && !EXPORT_TABLES.includes(table)) {
+      return NextResponse.json(
+        { error: "Invalid export table" },
+        { status: 400 }
+      );
+    }
+
+    // Get export data (includes auth check)
+    const data = await getWorkshopExportData(id, userId);
+    if (!data) {
+      return NextResponse.json(
+        { error: "Workshop not found" },
+        { status: 404 }
+      );
+    }
+
+    const headers = {
+      "Content-Type": getExportContentType(format),
+      "Content-Disposition": `attachment; filename="${getExportFilename(
+        data.workshop.title,
+        format,
+        format === "csv" ? table : undefined
+      )}"`,
+      "Cache-Control": "no-store",
+    };
+
+    if (format === "json") {
+      return new Response(JSON.stringify(data, null, 2), { headers });
+    }
+
+    const tables = buildExportTables(data, new URL(request.url).origin);
+    if (format === "xlsx") {
+      return new Response(await toXlsx(tables), { headers });
+    }
+
+    const csvTable = tables.find((t) => t.name === table);
+    // Byte order mark so spreadsheet applications detect UTF-8
+    return new Response(`\uFEFF${csvTable ? toCsv(csvTable) : ""}`, {
+      headers,
+    });
+  } catch (error) {
+    console.error("Error exporting workshop:", error);
+    return NextResponse.json(
+      { error: "Failed to export workshop" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { getLatestGroupingJob } from "@/lib/db/queries/group-queries";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id: workshopId } = await params;
+    const facilitatorId = await requireAuth();
+
+    const job = await getLatestGroupingJob(workshopId, facilitatorId);
+
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error("Error fetching grouping job:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch grouping job" },
+      { status: 500 }
+    );
+  }
+}
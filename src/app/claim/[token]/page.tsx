@@ -0,0 +1,50 @@
+import { notFound } from "next/navigation";
+import { ClaimParticipantButton } from "@/components/claim-participant-button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getParticipantByClaimToken } from "@/lib/db/queries/participant-queries";
+
+type ClaimPageProps = {
+  params: Promise<{ token: string }>;
+};
+
+export default async function ClaimPage({ params }: ClaimPageProps) {
+  const { token } = await params;
+
+  const participant = await getParticipantByClaimToken(token);
+
+  if (!participant) {
+    notFound();
+  }
+
+  return (
+    <div className="container max-w-2xl py-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Welcome, {participant.name}!</CardTitle>
+          <CardDescription>
+            You have been registered for &quot;{participant.workshopTitle}
+            &quot;
+            {participant.countryName && ` with ${participant.countryName}`}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {participant.claimed
+              ? "You have already joined. Continue to see your group."
+              : "This invitation is personal. Join to see your group once your facilitator has formed groups."}
+          </p>
+          <ClaimParticipantButton
+            claimToken={token}
+            claimed={participant.claimed}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+export default function FrameworkNotFound() {
+  return (
+    <div className="container max-w-2xl py-16">
+      <Card>
+        <CardHeader>
+          <CardTitle>Framework Not Found</CardTitle>
+          <CardDescription>
+            The framework you're looking for doesn't exist or you don't have
+            access to it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild>
+            <Link href="/dashboard/frameworks">Back to Frameworks</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { CustomFrameworkForm } from "@/components/custom-framework-form";
+import { DeleteFrameworkButton } from "@/components/delete-framework-button";
+import { FrameworkScoreUpload } from "@/components/framework-score-upload";
+import { requireAuth } from "@/lib/auth";
+import { getCustomFrameworkById } from "@/lib/db/queries/framework-queries";
+
+type PageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export default async function FrameworkPage({ params }: PageProps) {
+  const { id } = await params;
+  const userId = await requireAuth();
+
+  const framework = await getCustomFrameworkById(id, userId);
+
+  if (!framework) {
+    notFound();
+  }
+
+  return (
+    <div className="container max-w-3xl py-8 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/dashboard/frameworks">
+              <ArrowLeft className="h-4 w-4" />
+              <span className="sr-only">Back to frameworks</span>
+            </Link>
+          </Button>
+          <div className="space-y-1">
+            <h1 className="text-3xl font-bold tracking-tight">
+              {framework.name}
+            </h1>
+            {framework.description && (
+              <p className="text-muted-foreground">{framework.description}</p>
+            )}
+          </div>
+        </div>
+        <DeleteFrameworkButton
+          frameworkId={framework.id}
+          frameworkName={framework.name}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Country Scores</CardTitle>
+          <CardDescription>
+            {framework.scoredCountries.length === 0
+              ? "No countries are scored yet. Participants from unscored countries cannot be grouped with this framework."
+              : `${framework.scoredCountries.length} ${framework.scoredCountries.length === 1 ? "country is" : "countries are"} scored on every dimension.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {framework.scoredCountries.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {framework.scoredCountries.map((country) => (
+                <Badge key={country.code} variant="secondary">
+                  {country.name}
+                </Badge>
+              ))}
+            </div>
+          )}
+          {framework.incompleteCountryCodes.length > 0 && (
+            <p className="text-sm text-yellow-800 dark:text-yellow-200">
+              Missing some dimensions (not usable until complete):{" "}
+              {framework.incompleteCountryCodes.join(", ")}
+            </p>
+          )}
+          <FrameworkScoreUpload
+            frameworkId={framework.id}
+            dimensionKeys={framework.dimensions.map((d) => d.key)}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Framework Definition</CardTitle>
+          <CardDescription>
+            Rename the framework or change its dimensions. Removing a dimension
+            deletes its scores.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CustomFrameworkForm
+            frameworkId={framework.id}
+            defaultValues={{
+              name: framework.name,
+              description: framework.description ?? "",
+              dimensions: framework.dimensions.map((d) => ({
+                label: d.label,
+                scaleMin: d.scaleMin,
+                scaleMax: d.scaleMax,
+              })),
+            }}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
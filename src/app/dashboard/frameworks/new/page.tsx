@@ -0,0 +1,40 @@
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { CustomFrameworkForm } from "@/components/custom-framework-form";
+
+export default function NewFrameworkPage() {
+  return (
+    <div className="container max-w-3xl py-8 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/dashboard/frameworks">
+            <ArrowLeft className="h-4 w-4" />
+            <span className="sr-only">Back to frameworks</span>
+          </Link>
+        </Button>
+        <h1 className="text-3xl font-bold tracking-tight">New Framework</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Framework Definition</CardTitle>
+          <CardDescription>
+            Define the dimensions of your framework. Country scores can be
+            uploaded once the framework is created.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CustomFrameworkForm />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import Link from "next/link";
+import { ArrowLeft, Plus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { requireAuth } from "@/lib/auth";
+import { getCustomFrameworksByFacilitator } from "@/lib/db/queries/framework-queries";
+
+export default async function FrameworksPage() {
+  const userId = await requireAuth();
+
+  const frameworks = await getCustomFrameworksByFacilitator(userId);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/dashboard">
+              <ArrowLeft className="h-4 w-4" />
+              <span className="sr-only">Back to dashboard</span>
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">
+              Cultural Frameworks
+            </h1>
+            <p className="text-muted-foreground">
+              Define your own frameworks (e.g. GLOBE, Trompenaars, Schwartz) and
+              upload country scores
+            </p>
+          </div>
+        </div>
+        <Button asChild>
+          <Link href="/dashboard/frameworks/new">
+            <Plus className="mr-2 h-4 w-4" />
+            New Framework
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Frameworks</CardTitle>
+          <CardDescription>
+            Lewis, Hall and Hofstede are always available. Custom frameworks can
+            be selected when configuring a workshop.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {frameworks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No custom frameworks yet.
+            </p>
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {frameworks.map((framework) => (
+                <Link
+                  key={framework.id}
+                  href={`/dashboard/frameworks/${framework.id}`}
+                  className="block"
+                >
+                  <Card className="h-full transition-colors hover:bg-muted/50">
+                    <CardHeader>
+                      <CardTitle className="text-lg">
+                        {framework.name}
+                      </CardTitle>
+                      {framework.description && (
+                        <CardDescription className="line-clamp-2">
+                          {framework.description}
+                        </CardDescription>
+                      )}
+                    </CardHeader>
+                    <CardContent>
+                      <Badge variant="secondary">
+                        {framework.dimensionCount}{" "}
+                        {framework.dimensionCount === 1
+                          ? "dimension"
+                          : "dimensions"}
+                      </Badge>
+                    </CardContent>
+                  </Card>
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { notFound } from "next/navigation";
+import { AcceptInvitationButton } from "@/components/accept-invitation-button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { requireAuth } from "@/lib/auth";
+import { getInvitationByToken } from "@/lib/db/queries/member-queries";
+import {
+  WORKSHOP_ROLE_DESCRIPTIONS,
+  formatWorkshopRole,
+} from "@/lib/utils/workshop-roles";
+
+type InvitationPageProps = {
+  params: Promise<{ token: string }>;
+};
+
+export default async function InvitationPage({ params }: InvitationPageProps) {
+  const { token } = await params;
+  await requireAuth();
+
+  const invitation = await getInvitationByToken(token);
+
+  if (!invitation) {
+    notFound();
+  }
+
+  return (
+    <div className="container max-w-2xl py-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Join &quot;{invitation.workshopTitle}&quot;</CardTitle>
+          <CardDescription>
+            You have been invited as{" "}
+            {formatWorkshopRole(invitation.role).toLowerCase()} (
+            {invitation.email}).
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {WORKSHOP_ROLE_DESCRIPTIONS[invitation.role]}.
+          </p>
+          <AcceptInvitationButton token={token} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
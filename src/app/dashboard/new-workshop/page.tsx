@@ -1,156 +1,32 @@
-"use client";
+import { WorkshopCreateForm } from "@/components/workshop-create-form";
+import { requireAuth } from "@/lib/auth";
+import { getOrganizationsByUser } from "@/lib/db/queries/organization-queries";
+import { getWorkshopTemplatesByUser } from "@/lib/db/queries/template-queries";
 
-import { zodResolver } from "@hookform/resolvers/zod";
-import { useRouter } from "next/navigation";
-import { useState } from "react";
-import { useForm } from "react-hook-form";
-import { z } from "zod";
-import { Button } from "@/components/ui/button";
-import {
-  Card,
-  CardContent,
-  CardDescription,
-  CardHeader,
-  CardTitle,
-} from "@/components/ui/card";
-import {
-  Form,
-  FormControl,
-  FormDescription,
-  FormField,
-  FormItem,
-  FormLabel,
-  FormMessage,
-} from "@/components/ui/form";
-import { Input } from "@/components/ui/input";
-import { createWorkshop } from "@/lib/actions/workshop-actions";
+type PageProps = {
+  searchParams: Promise<{ organization?: string; template?: string }>;
+};
 
-const workshopSchema = z.object({
-  title: z
-    .string()
-    .min(1, "Title is required")
-    .max(200, "Title must be 200 characters or less"),
-  date: z.string().optional(),
-});
+export default async function NewWorkshopPage({ searchParams }: PageProps) {
+  const { organization, template } = await searchParams;
+  const userId = await requireAuth();
 
-type WorkshopFormData = z.infer<typeof workshopSchema>;
-
-export default function NewWorkshopPage() {
-  const router = useRouter();
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  const form = useForm<WorkshopFormData>({
-    resolver: zodResolver(workshopSchema),
-    defaultValues: {
-      title: "",
-      date: "",
-    },
-  });
-
-  async function onSubmit(data: WorkshopFormData) {
-    setIsSubmitting(true);
-    setError(null);
-
-    try {
-      const result = await createWorkshop({
-        title: data.title,
-        date: data.date || undefined,
-      });
-
-      if ("error" in result) {
-        setError(result.error);
-        setIsSubmitting(false);
-        return;
-      }
-
-      if ("success" in result && result.success) {
-        router.push(`/dashboard/workshop/${result.workshop.id}`);
-      }
-    } catch (_err) {
-      setError("An unexpected error occurred. Please try again.");
-      setIsSubmitting(false);
-    }
-  }
+  const [organizations, templates] = await Promise.all([
+    getOrganizationsByUser(userId),
+    getWorkshopTemplatesByUser(userId),
+  ]);
 
   return (
-    <div className="container max-w-2xl py-8">
-      <Card>
-        <CardHeader>
-          <CardTitle>Create New Workshop</CardTitle>
-          <CardDescription>
-            Create a new cultural diversity workshop. A unique join code will be
-            generated automatically.
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-              <FormField
-                control={form.control}
-                name="title"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Workshop Title</FormLabel>
-                    <FormControl>
-                      <Input
-                        placeholder="Enter workshop title"
-                        {...field}
-                        disabled={isSubmitting}
-                      />
-                    </FormControl>
-                    <FormDescription>
-                      A descriptive title for your workshop (max 200 characters)
-                    </FormDescription>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="date"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Workshop Date (Optional)</FormLabel>
-                    <FormControl>
-                      <Input type="date" {...field} disabled={isSubmitting} />
-                    </FormControl>
-                    <FormDescription>
-                      The scheduled date for this workshop (optional)
-                    </FormDescription>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              {error && (
-                <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
-                  {error}
-                </div>
-              )}
-
-              <div className="flex gap-4">
-                <Button
-                  type="submit"
-                  disabled={isSubmitting}
-                  className="flex-1"
-                >
-                  {isSubmitting ? "Creating..." : "Create Workshop"}
-                </Button>
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={() => router.back()}
-                  disabled={isSubmitting}
-                >
-                  Cancel
-                </Button>
-              </div>
-            </form>
-          </Form>
-        </CardContent>
-      </Card>
-    </div>
+    <WorkshopCreateForm
+      organizations={organizations.map(({ id, name }) => ({ id, name }))}
+      defaultOrganizationId={organization}
+      templates={templates.map(({ id, name, title, organizationId }) => ({
+        id,
+        name,
+        title,
+        organizationId,
+      }))}
+      defaultTemplateId={template}
+    />
   );
 }
@@ -0,0 +1,30 @@
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+export default function OrganizationNotFound() {
+  return (
+    <div className="container max-w-2xl py-16">
+      <Card>
+        <CardHeader>
+          <CardTitle>Organization Not Found</CardTitle>
+          <CardDescription>
+            The organization you're looking for doesn't exist or you are not a
+            member.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild>
+            <Link href="/dashboard/organizations">Back to Organizations</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
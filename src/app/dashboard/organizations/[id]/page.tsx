@@ -0,0 +1,191 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ArrowLeft, Plus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { OrganizationTeam } from "@/components/organization-team";
+import { OrganizationWorkshopFilters } from "@/components/organization-workshop-filters";
+import { WorkshopList } from "@/components/workshop-list";
+import { requireAuth } from "@/lib/auth";
+import {
+  type OrganizationWorkshopFilters as Filters,
+  getOrganizationById,
+  getOrganizationTeam,
+  getOrganizationWorkshops,
+} from "@/lib/db/queries/organization-queries";
+import type { WorkshopStatus } from "@/lib/db/schema/workshops";
+import { formatOrganizationRole } from "@/lib/utils/organization-roles";
+
+const WORKSHOP_STATUSES: WorkshopStatus[] = [
+  "draft",
+  "collecting",
+  "grouped",
+  "closed",
+];
+
+type PageProps = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{
+    facilitator?: string;
+    status?: string;
+    from?: string;
+    to?: string;
+  }>;
+};
+
+/**
+ * Reads the workshop filters from the query string, ignoring invalid values
+ */
+function parseFilters(query: Awaited<PageProps["searchParams"]>): Filters {
+  const isDate = (value?: string) =>
+    value !== undefined && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+  return {
+    facilitatorId: query.facilitator || undefined,
+    status: WORKSHOP_STATUSES.find((status) => status === query.status),
+    from: isDate(query.from) ? query.from : undefined,
+    to: isDate(query.to) ? query.to : undefined,
+  };
+}
+
+export default async function OrganizationPage({
+  params,
+  searchParams,
+}: PageProps) {
+  const { id } = await params;
+  const userId = await requireAuth();
+
+  const organization = await getOrganizationById(id, userId);
+
+  if (!organization) {
+    notFound();
+  }
+
+  const filters = parseFilters(await searchParams);
+  const [workshopList, team] = await Promise.all([
+    getOrganizationWorkshops(id, userId, filters),
+    getOrganizationTeam(id, userId),
+  ]);
+
+  // Reporting over the filtered workshops
+  const summary = [
+    { label: "Workshops", value: workshopList.length },
+    {
+      label: "Participants",
+      value: workshopList.reduce((sum, w) => sum + w.participantCount, 0),
+    },
+    {
+      label: "Facilitators",
+      value: new Set(workshopList.map((w) => w.facilitatorId)).size,
+    },
+    {
+      label: "Completed",
+      value: workshopList.filter((w) => w.status === "closed").length,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/dashboard/organizations">
+              <ArrowLeft className="h-4 w-4" />
+              <span className="sr-only">Back to organizations</span>
+            </Link>
+          </Button>
+          <div className="space-y-1">
+            <h1 className="text-3xl font-bold tracking-tight">
+              {organization.name}
+            </h1>
+            <Badge variant="outline">
+              {formatOrganizationRole(organization.role)}
+            </Badge>
+          </div>
+        </div>
+        <Button asChild>
+          <Link href={`/dashboard/new-workshop?organization=${id}`}>
+            <Plus className="mr-2 h-4 w-4" />
+            Create Workshop
+          </Link>
+        </Button>
+      </div>
+
+      <Tabs defaultValue="workshops" className="w-full">
+        <TabsList>
+          <TabsTrigger value="workshops">Workshops</TabsTrigger>
+          <TabsTrigger value="members">Members</TabsTrigger>
+        </TabsList>
+        <TabsContent value="workshops" className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            {summary.map((item) => (
+              <Card key={item.label}>
+                <CardHeader className="pb-2">
+                  <CardDescription>{item.label}</CardDescription>
+                  <CardTitle className="text-3xl">{item.value}</CardTitle>
+                </CardHeader>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Workshops</CardTitle>
+              <CardDescription>
+                All workshops of the organization&apos;s facilitators
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <OrganizationWorkshopFilters
+                filters={filters}
+                facilitators={
+                  team?.members.map((member) => ({
+                    userId: member.userId,
+                    name: member.name,
+                  })) ?? []
+                }
+              />
+              <WorkshopList
+                workshops={workshopList}
+                emptyMessage={
+                  Object.values(filters).some(Boolean)
+                    ? "No workshops match these filters."
+                    : "No workshops in this organization yet."
+                }
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+        <TabsContent value="members" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Members</CardTitle>
+              <CardDescription>
+                Members view all workshops of the organization; admins have
+                owner access to them and manage members.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {team && (
+                <OrganizationTeam
+                  organizationId={id}
+                  team={team}
+                  currentUserId={userId}
+                  isAdmin={organization.role === "admin"}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
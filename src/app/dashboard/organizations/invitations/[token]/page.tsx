@@ -0,0 +1,53 @@
+import { notFound } from "next/navigation";
+import { AcceptOrganizationInvitationButton } from "@/components/accept-organization-invitation-button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { requireAuth } from "@/lib/auth";
+import { getOrganizationInvitationByToken } from "@/lib/db/queries/organization-queries";
+import {
+  ORGANIZATION_ROLE_DESCRIPTIONS,
+  formatOrganizationRole,
+} from "@/lib/utils/organization-roles";
+
+type OrganizationInvitationPageProps = {
+  params: Promise<{ token: string }>;
+};
+
+export default async function OrganizationInvitationPage({
+  params,
+}: OrganizationInvitationPageProps) {
+  const { token } = await params;
+  await requireAuth();
+
+  const invitation = await getOrganizationInvitationByToken(token);
+
+  if (!invitation) {
+    notFound();
+  }
+
+  return (
+    <div className="container max-w-2xl py-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Join &quot;{invitation.organizationName}&quot;</CardTitle>
+          <CardDescription>
+            You have been invited as{" "}
+            {formatOrganizationRole(invitation.role).toLowerCase()} (
+            {invitation.email}).
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {ORGANIZATION_ROLE_DESCRIPTIONS[invitation.role]}.
+          </p>
+          <AcceptOrganizationInvitationButton token={token} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
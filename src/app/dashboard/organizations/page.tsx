@@ -0,0 +1,101 @@
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { OrganizationCreateForm } from "@/components/organization-create-form";
+import { requireAuth } from "@/lib/auth";
+import { getOrganizationsByUser } from "@/lib/db/queries/organization-queries";
+import { formatOrganizationRole } from "@/lib/utils/organization-roles";
+
+export default async function OrganizationsPage() {
+  const userId = await requireAuth();
+
+  const organizations = await getOrganizationsByUser(userId);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/dashboard">
+            <ArrowLeft className="h-4 w-4" />
+            <span className="sr-only">Back to dashboard</span>
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Organizations</h1>
+          <p className="text-muted-foreground">
+            Share workshops and reporting with your team of facilitators
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Organizations</CardTitle>
+          <CardDescription>
+            Members see all workshops of an organization; admins manage them
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {organizations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No organizations yet.
+            </p>
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {organizations.map((organization) => (
+                <Link
+                  key={organization.id}
+                  href={`/dashboard/organizations/${organization.id}`}
+                  className="block"
+                >
+                  <Card className="h-full transition-colors hover:bg-muted/50">
+                    <CardHeader>
+                      <CardTitle className="text-lg">
+                        {organization.name}
+                      </CardTitle>
+                      <div>
+                        <Badge variant="outline">
+                          {formatOrganizationRole(organization.role)}
+                        </Badge>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="text-sm text-muted-foreground">
+                      {organization.workshopCount}{" "}
+                      {organization.workshopCount === 1
+                        ? "workshop"
+                        : "workshops"}{" "}
+                      • {organization.memberCount}{" "}
+                      {organization.memberCount === 1
+                        ? "facilitator"
+                        : "facilitators"}
+                    </CardContent>
+                  </Card>
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Create Organization</CardTitle>
+          <CardDescription>
+            You become its admin and can invite other facilitators
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <OrganizationCreateForm />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { currentUser } from "@clerk/nextjs/server";
-import { Plus } from "lucide-react";
+import { Building2, FileStack, Layers, Mail, Plus } from "lucide-react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import {
@@ -10,14 +10,38 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { WorkshopList } from "@/components/workshop-list";
-import { requireAuth } from "@/lib/auth";
+import { getVerifiedEmails, requireAuth } from "@/lib/auth";
 import { getWorkshopsByFacilitator } from "@/lib/db/queries/workshop-queries";
+import { getPendingInvitations } from "@/lib/db/queries/member-queries";
+import { getPendingOrganizationInvitations } from "@/lib/db/queries/organization-queries";
+import { formatOrganizationRole } from "@/lib/utils/organization-roles";
+import { formatWorkshopRole } from "@/lib/utils/workshop-roles";
 
 export default async function DashboardPage() {
   const user = await currentUser();
   const userId = await requireAuth();
 
   const workshops = await getWorkshopsByFacilitator(userId);
+  // Invitations can only be accepted with a verified email address
+  const verifiedEmails = user ? getVerifiedEmails(user) : [];
+  const [workshopInvitations, organizationInvitations] = await Promise.all([
+    getPendingInvitations(verifiedEmails),
+    getPendingOrganizationInvitations(verifiedEmails),
+  ]);
+  const invitations = [
+    ...organizationInvitations.map((invitation) => ({
+      token: invitation.token,
+      title: invitation.organizationName,
+      role: `${formatOrganizationRole(invitation.role)} of the organization`,
+      href: `/dashboard/organizations/invitations/${invitation.token}`,
+    })),
+    ...workshopInvitations.map((invitation) => ({
+      token: invitation.token,
+      title: invitation.workshopTitle,
+      role: formatWorkshopRole(invitation.role),
+      href: `/dashboard/invitations/${invitation.token}`,
+    })),
+  ];
 
   return (
     <div className="space-y-6">
@@ -32,14 +56,71 @@ export default async function DashboardPage() {
             !
           </p>
         </div>
-        <Button asChild>
-          <Link href="/dashboard/new-workshop">
-            <Plus className="mr-2 h-4 w-4" />
-            Create Workshop
-          </Link>
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/organizations">
+              <Building2 className="mr-2 h-4 w-4" />
+              Organizations
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/templates">
+              <FileStack className="mr-2 h-4 w-4" />
+              Templates
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/frameworks">
+              <Layers className="mr-2 h-4 w-4" />
+              Frameworks
+            </Link>
+          </Button>
+          <Button asChild>
+            <Link href="/dashboard/new-workshop">
+              <Plus className="mr-2 h-4 w-4" />
+              Create Workshop
+            </Link>
+          </Button>
+        </div>
       </div>
 
+      {invitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Invitations</CardTitle>
+            <CardDescription>
+              Workshops and organizations other facilitators have shared with
+              you
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y">
+              {invitations.map((invitation) => (
+                <li
+                  key={invitation.token}
+                  className="flex items-center justify-between gap-4 py-3"
+                >
+                  <div className="min-w-0">
+                    <div className="truncate text-sm font-medium">
+                      {invitation.title}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {invitation.role}
+                    </div>
+                  </div>
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={invitation.href}>
+                      <Mail className="mr-2 h-4 w-4" />
+                      View Invitation
+                    </Link>
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Your Workshops</CardTitle>
@@ -0,0 +1,136 @@
+import Link from "next/link";
+import { ArrowLeft, Plus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { DeleteTemplateButton } from "@/components/delete-template-button";
+import { requireAuth } from "@/lib/auth";
+import { getWorkshopTemplatesByUser } from "@/lib/db/queries/template-queries";
+import { getFrameworkLabel } from "@/lib/utils/framework-labels";
+import { formatGroupSizing, toGroupSizing } from "@/lib/utils/group-sizing";
+import { formatParticipantAttributes } from "@/lib/utils/participant-attributes";
+import { isCustomFramework } from "@/types/cultural";
+
+export default async function TemplatesPage() {
+  const userId = await requireAuth();
+
+  const templates = await getWorkshopTemplatesByUser(userId);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/dashboard">
+            <ArrowLeft className="h-4 w-4" />
+            <span className="sr-only">Back to dashboard</span>
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Templates</h1>
+          <p className="text-muted-foreground">
+            Start new workshops from a saved configuration
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Templates</CardTitle>
+          <CardDescription>
+            Save a template from the overview of any workshop. Templates shared
+            with an organization are available to all its members.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {templates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No templates yet.</p>
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {templates.map((template) => {
+                const sizing = toGroupSizing(template);
+                const framework = template.framework;
+
+                return (
+                  <Card key={template.id} className="flex h-full flex-col">
+                    <CardHeader>
+                      <CardTitle className="text-lg">{template.name}</CardTitle>
+                      <CardDescription className="truncate">
+                        {template.title}
+                      </CardDescription>
+                      {template.organizationName && (
+                        <div>
+                          <Badge variant="outline">
+                            {template.organizationName}
+                          </Badge>
+                        </div>
+                      )}
+                    </CardHeader>
+                    <CardContent className="flex-1 space-y-1 text-sm text-muted-foreground">
+                      <p>
+                        {framework
+                          ? getFrameworkLabel(
+                              framework,
+                              isCustomFramework(framework) &&
+                                template.customFrameworkName
+                                ? [
+                                    {
+                                      frameworkId: framework,
+                                      name: template.customFrameworkName,
+                                    },
+                                  ]
+                                : []
+                            )
+                          : "No framework"}
+                      </p>
+                      {sizing && <p>{formatGroupSizing(sizing)}</p>}
+                      <p>
+                        {template.roundCount}{" "}
+                        {template.roundCount === 1 ? "round" : "rounds"}
+                      </p>
+                      {template.participantAttributes && (
+                        <p>
+                          Attributes:{" "}
+                          {formatParticipantAttributes(
+                            template.participantAttributes
+                          )}
+                        </p>
+                      )}
+                      {template.reflectionPrompt && (
+                        <p className="line-clamp-2 italic">
+                          &ldquo;{template.reflectionPrompt}&rdquo;
+                        </p>
+                      )}
+                    </CardContent>
+                    <CardFooter className="gap-2">
+                      <Button size="sm" asChild>
+                        <Link
+                          href={`/dashboard/new-workshop?template=${template.id}`}
+                        >
+                          <Plus className="mr-2 h-4 w-4" />
+                          Use Template
+                        </Link>
+                      </Button>
+                      {template.canDelete && (
+                        <DeleteTemplateButton
+                          templateId={template.id}
+                          templateName={template.name}
+                        />
+                      )}
+                    </CardFooter>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -12,18 +12,17 @@ import { Button } from "@/components/ui/button";
 import { GroupingConfigForm } from "@/components/grouping-config-form";
 import { GenerateGroupsButton } from "@/components/generate-groups-button";
 import { requireAuth } from "@/lib/auth";
-import { getWorkshopById } from "@/lib/db/queries/workshop-queries";
+import {
+  getWorkshopById,
+  getWorkshopParticipants,
+} from "@/lib/db/queries/workshop-queries";
+import { getWorkshopConstraints } from "@/lib/db/queries/group-queries";
+import { getCustomFrameworksByFacilitator } from "@/lib/db/queries/framework-queries";
 import { eq, count } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { groups } from "@/lib/db/schema";
-import type { GroupSize } from "@/lib/actions/grouping-actions";
-
-function toGroupSize(value: number | null): GroupSize {
-  if (value === 3 || value === 4 || value === null) {
-    return value;
-  }
-  return null;
-}
+import { toGroupSizing } from "@/lib/utils/group-sizing";
+import { toGroupingObjective } from "@/lib/utils/grouping-objective";
 
 type PageProps = {
   params: Promise<{ id: string }>;
@@ -33,7 +32,7 @@ export default async function ConfigureGroupingPage({ params }: PageProps) {
   const { id } = await params;
   const userId = await requireAuth();
 
-  const workshop = await getWorkshopById(id, userId);
+  const workshop = await getWorkshopById(id, userId, "co_facilitator");
 
   if (!workshop) {
     notFound();
@@ -47,6 +46,13 @@ export default async function ConfigureGroupingPage({ params }: PageProps) {
 
   const hasGroups = (groupsResult[0]?.count ?? 0) > 0;
   const isDisabled = hasGroups || workshop.status === "closed";
+  const sizing = toGroupSizing(workshop);
+
+  const workshopParticipants = await getWorkshopParticipants(id, userId);
+  const constraints = await getWorkshopConstraints(id);
+  const customFrameworks = await getCustomFrameworksByFacilitator(
+    workshop.facilitatorId
+  );
 
   return (
     <div className="container max-w-3xl py-8 space-y-6">
@@ -69,9 +75,9 @@ export default async function ConfigureGroupingPage({ params }: PageProps) {
         <CardHeader>
           <CardTitle>Grouping Configuration</CardTitle>
           <CardDescription>
-            Configure the cultural framework and group size for generating
-            diverse groups. This can only be changed before groups are
-            generated.
+            Configure the cultural framework, group size, objective, weights,
+            rounds and pairing constraints for generating groups. This can only
+            be changed before groups are generated.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -96,24 +102,42 @@ export default async function ConfigureGroupingPage({ params }: PageProps) {
             workshopId={id}
             currentConfig={{
               framework: workshop.framework,
-              groupSize: toGroupSize(workshop.groupSize),
+              sizing,
+              objective: toGroupingObjective(workshop),
+              metric: workshop.distanceMetric,
+              scoreSource: workshop.scoreSource,
+              personalScoreWeight: workshop.personalScoreWeight,
+              weights: workshop.distanceWeights,
+              roundCount: workshop.roundCount,
+              algorithm: workshop.groupingAlgorithm,
+              algorithmParameters: workshop.algorithmParameters,
+              constraints,
+              pendingConstraints: workshop.pendingConstraints,
             }}
+            participants={workshopParticipants.map((p) => ({
+              id: p.id,
+              name: p.name,
+            }))}
+            selfAssessedCount={
+              workshopParticipants.filter((p) => p.selfAssessed).length
+            }
+            customFrameworks={customFrameworks}
             disabled={isDisabled}
           />
         </CardContent>
       </Card>
 
       {!hasGroups &&
-        workshop.status !== "closed" &&
+        (workshop.status === "draft" || workshop.status === "collecting") &&
         workshop.framework &&
-        workshop.groupSize !== null && (
+        sizing && (
           <Card>
             <CardHeader>
               <CardTitle>Generate Groups</CardTitle>
               <CardDescription>
                 Once your configuration is saved, you can generate groups. The
-                algorithm will create maximally diverse groups based on cultural
-                distances.
+                algorithm will form groups based on cultural distances and the
+                selected objective.
               </CardDescription>
             </CardHeader>
             <CardContent>
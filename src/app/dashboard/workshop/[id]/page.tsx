@@ -10,29 +10,74 @@ import {
 } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
+import { DuplicateWorkshopButton } from "@/components/duplicate-workshop-button";
+import { LateJoiningToggle } from "@/components/late-joining-toggle";
+import { ParticipantAttributesForm } from "@/components/participant-attributes-form";
+import { ReflectionPromptForm } from "@/components/reflection-prompt-form";
+import { SaveTemplateForm } from "@/components/save-template-form";
+import { WorkshopExportButtons } from "@/components/workshop-export-buttons";
 import { WorkshopJoinCode } from "@/components/workshop-join-code";
+import { WorkshopLiveUpdates } from "@/components/workshop-live-updates";
 import { WorkshopQRCode } from "@/components/workshop-qr-code";
 import { WorkshopStateControls } from "@/components/workshop-state-controls";
+import { WorkshopStatusLog } from "@/components/workshop-status-log";
 import { WorkshopStatusBadge } from "@/components/workshop-status-badge";
+import { WorkshopOrganizationSelect } from "@/components/workshop-organization-select";
+import { WorkshopTeam } from "@/components/workshop-team";
+import { ParticipantImport } from "@/components/participant-import";
 import { ParticipantList } from "@/components/participant-list";
 import { CountryDistribution } from "@/components/country-distribution";
 import { GenerateGroupsButton } from "@/components/generate-groups-button";
+import { GroupEditor } from "@/components/group-editor";
+import { GroupQualityReport } from "@/components/group-quality-report";
+import { GroupAttributeBreakdown } from "@/components/group-attribute-breakdown";
+import { GroupingCandidates } from "@/components/grouping-candidates";
+import { RoundControls } from "@/components/round-controls";
 import { VisualizationWrapper } from "@/components/cultural-visualizations/visualization-wrapper";
 import { ReflectionList } from "@/components/reflection-list";
 import { requireAuth } from "@/lib/auth";
-import { getWorkshopById } from "@/lib/db/queries/workshop-queries";
+import {
+  getWorkshopById,
+  getWorkshopStatusChanges,
+} from "@/lib/db/queries/workshop-queries";
 import { getWorkshopReflectionsWithMissing } from "@/lib/db/queries/reflection-queries";
+import {
+  getGroupAttributeBreakdown,
+  getGroupEditorData,
+  getGroupQualityReport,
+  getGroupingCandidates,
+} from "@/lib/db/queries/group-queries";
+import { getWorkshopTeam } from "@/lib/db/queries/member-queries";
+import { getOrganizationsByUser } from "@/lib/db/queries/organization-queries";
 import { db } from "@/lib/db";
-import { groups } from "@/lib/db/schema";
-import { eq, count } from "drizzle-orm";
-import type { Framework } from "@/types/cultural";
+import { groups, organizations } from "@/lib/db/schema";
+import { and, count, eq, isNotNull } from "drizzle-orm";
+import { formatGroupSizing, toGroupSizing } from "@/lib/utils/group-sizing";
+import {
+  formatGroupingObjective,
+  toGroupingObjective,
+} from "@/lib/utils/grouping-objective";
+import { getCustomFrameworksByFacilitator } from "@/lib/db/queries/framework-queries";
+import { getFrameworkLabel } from "@/lib/utils/framework-labels";
+import { formatDistanceWeights } from "@/lib/utils/distance-weights";
+import { formatDistanceMetric } from "@/lib/utils/distance-metrics";
+import { formatGroupingAlgorithm } from "@/lib/utils/grouping-algorithm";
+import { formatScoreSource } from "@/lib/utils/score-source";
+import { formatParticipantAttributes } from "@/lib/utils/participant-attributes";
+import { hasWorkshopRole } from "@/lib/utils/workshop-roles";
 
 type PageProps = {
   params: Promise<{ id: string }>;
+  // Candidate grouping to preview on the network graph
+  searchParams: Promise<{ candidate?: string }>;
 };
 
-export default async function WorkshopPage({ params }: PageProps) {
+export default async function WorkshopPage({
+  params,
+  searchParams,
+}: PageProps) {
   const { id } = await params;
+  const { candidate: candidateParam } = await searchParams;
   const userId = await requireAuth();
 
   const workshop = await getWorkshopById(id, userId);
@@ -49,6 +94,90 @@ export default async function WorkshopPage({ params }: PageProps) {
 
   const hasGroups = (groupsResult[0]?.count ?? 0) > 0;
 
+  // Algorithm that generated the groups; groups added in the editor have none
+  const generatedWith = hasGroups
+    ? ((
+        await db
+          .select({
+            algorithm: groups.algorithm,
+            parameters: groups.algorithmParameters,
+          })
+          .from(groups)
+          .where(and(eq(groups.workshopId, id), isNotNull(groups.algorithm)))
+          .limit(1)
+      )[0] ?? null)
+    : null;
+  // Observers get a read-only view
+  const canEdit = hasWorkshopRole(workshop.role, "co_facilitator");
+  const team = await getWorkshopTeam(id, userId);
+  const statusChanges = await getWorkshopStatusChanges(id, userId);
+  const isOwner = workshop.role === "owner";
+
+  // Organization sharing the workshop, and where it can be moved or its
+  // configuration shared as a template
+  const organization = workshop.organizationId
+    ? ((
+        await db
+          .select({ id: organizations.id, name: organizations.name })
+          .from(organizations)
+          .where(eq(organizations.id, workshop.organizationId))
+      )[0] ?? null)
+    : null;
+  const userOrganizations = await getOrganizationsByUser(userId);
+  const sizing = toGroupSizing(workshop);
+  const customFrameworks = await getCustomFrameworksByFacilitator(
+    workshop.facilitatorId
+  );
+
+  // Get groups with members and distances for the group editor, per round
+  const roundNumbers = Array.from(
+    { length: workshop.roundCount },
+    (_, i) => i + 1
+  );
+  const groupEditorRounds = hasGroups
+    ? await Promise.all(
+        roundNumbers.map((round) => getGroupEditorData(id, userId, round))
+      )
+    : [];
+  const groupEditorData = groupEditorRounds.filter(
+    (data): data is NonNullable<typeof data> => data !== null
+  );
+
+  // Quality report of the groups of every round
+  const groupQualityRounds = hasGroups
+    ? await Promise.all(
+        roundNumbers.map(async (round) => ({
+          roundNumber: round,
+          report: await getGroupQualityReport(id, userId, round),
+        }))
+      )
+    : [];
+  const groupQualityReports = groupQualityRounds.flatMap(
+    ({ roundNumber, report }) => (report ? [{ roundNumber, report }] : [])
+  );
+
+  // Custom attribute distribution within the groups of every round
+  const attributeBreakdownRounds = hasGroups
+    ? await Promise.all(
+        roundNumbers.map(async (round) => ({
+          roundNumber: round,
+          breakdown: await getGroupAttributeBreakdown(id, userId, round),
+        }))
+      )
+    : [];
+  const attributeBreakdowns = attributeBreakdownRounds.flatMap(
+    ({ roundNumber, breakdown }) =>
+      breakdown ? [{ roundNumber, breakdown }] : []
+  );
+
+  // Draft groupings to compare, and the one previewed on the network graph
+  const groupingCandidates = await getGroupingCandidates(id, userId);
+  const previewCandidate = groupingCandidates.find(
+    (candidate) => candidate.id === candidateParam
+  );
+  const canRegroup =
+    workshop.status === "draft" || workshop.status === "collecting";
+
   // Get reflections if groups are generated
   const groupedReflections =
     hasGroups && (workshop.status === "grouped" || workshop.status === "closed")
@@ -56,212 +185,641 @@ export default async function WorkshopPage({ params }: PageProps) {
       : [];
 
   return (
-    <div className="container max-w-4xl py-8 space-y-6">
-      <div className="flex items-start justify-between">
-        <div className="space-y-2">
-          <div className="flex items-center gap-3">
-            <h1 className="text-3xl font-bold tracking-tight">
-              {workshop.title}
-            </h1>
-            <WorkshopStatusBadge status={workshop.status} />
-          </div>
-          {workshop.date && (
-            <div className="flex items-center gap-2 text-muted-foreground">
-              <Calendar className="h-4 w-4" />
-              <span>
-                {new Date(`${workshop.date}T00:00:00`).toLocaleDateString(
-                  "en-US",
-                  {
-                    year: "numeric",
-                    month: "long",
-                    day: "numeric",
-                  }
-                )}
-              </span>
+    <WorkshopLiveUpdates workshopId={workshop.id}>
+      <div className="container max-w-4xl py-8 space-y-6">
+        <div className="flex items-start justify-between">
+          <div className="space-y-2">
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-bold tracking-tight">
+                {workshop.title}
+              </h1>
+              <WorkshopStatusBadge status={workshop.status} />
             </div>
-          )}
+            {workshop.date && (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Calendar className="h-4 w-4" />
+                <span>
+                  {new Date(`${workshop.date}T00:00:00`).toLocaleDateString(
+                    "en-US",
+                    {
+                      year: "numeric",
+                      month: "long",
+                      day: "numeric",
+                    }
+                  )}
+                </span>
+              </div>
+            )}
+          </div>
         </div>
-      </div>
 
-      <Tabs defaultValue="overview" className="w-full">
-        <TabsList>
-          <TabsTrigger value="overview">Overview</TabsTrigger>
-          <TabsTrigger value="participants">Participants</TabsTrigger>
-          <TabsTrigger value="visualizations">Cultural Distances</TabsTrigger>
-          {hasGroups &&
-            (workshop.status === "grouped" || workshop.status === "closed") && (
-              <TabsTrigger value="reflections">Reflections</TabsTrigger>
+        <Tabs
+          // Remount when previewing a candidate to open its network graph
+          key={previewCandidate?.id ?? "committed"}
+          defaultValue={previewCandidate ? "visualizations" : "overview"}
+          className="w-full"
+        >
+          <TabsList>
+            <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="participants">Participants</TabsTrigger>
+            {groupEditorData.length > 0 && (
+              <TabsTrigger value="groups">Groups</TabsTrigger>
             )}
-        </TabsList>
-        <TabsContent value="overview" className="space-y-6">
-          <div className="grid gap-6 md:grid-cols-2">
-            <Card>
-              <CardHeader>
-                <CardTitle>Join Code</CardTitle>
-                <CardDescription>
-                  Share this code with participants so they can join your
-                  workshop
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-6">
-                <WorkshopJoinCode joinCode={workshop.joinCode} />
-                <div className="border-t pt-6">
-                  <WorkshopQRCode joinCode={workshop.joinCode} />
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <CardTitle>Workshop Details</CardTitle>
-                <CardDescription>
-                  Information about this workshop
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div>
-                  <div className="text-sm font-medium text-muted-foreground">
-                    Status
-                  </div>
-                  <div className="mt-1">
-                    <WorkshopStatusBadge status={workshop.status} />
+            <TabsTrigger value="visualizations">Cultural Distances</TabsTrigger>
+            {hasGroups &&
+              (workshop.status === "grouped" ||
+                workshop.status === "closed") && (
+                <TabsTrigger value="reflections">Reflections</TabsTrigger>
+              )}
+            <TabsTrigger value="team">Team</TabsTrigger>
+          </TabsList>
+          <TabsContent value="overview" className="space-y-6">
+            <div className="grid gap-6 md:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Join Code</CardTitle>
+                  <CardDescription>
+                    Share this code with participants so they can join your
+                    workshop
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <WorkshopJoinCode joinCode={workshop.joinCode} />
+                  <div className="border-t pt-6">
+                    <WorkshopQRCode joinCode={workshop.joinCode} />
                   </div>
-                </div>
-                {workshop.framework && (
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Workshop Details</CardTitle>
+                  <CardDescription>
+                    Information about this workshop
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
                   <div>
                     <div className="text-sm font-medium text-muted-foreground">
-                      Framework
+                      Status
+                    </div>
+                    <div className="mt-1">
+                      <WorkshopStatusBadge status={workshop.status} />
                     </div>
-                    <div className="mt-1 text-sm">{workshop.framework}</div>
                   </div>
-                )}
-                {workshop.groupSize !== undefined && (
+                  {organization && (
+                    <div>
+                      <div className="text-sm font-medium text-muted-foreground">
+                        Organization
+                      </div>
+                      <div className="mt-1 text-sm">{organization.name}</div>
+                    </div>
+                  )}
+                  {workshop.framework && (
+                    <div>
+                      <div className="text-sm font-medium text-muted-foreground">
+                        Framework
+                      </div>
+                      <div className="mt-1 text-sm">
+                        {getFrameworkLabel(
+                          workshop.framework,
+                          customFrameworks
+                        )}
+                      </div>
+                    </div>
+                  )}
+                  {sizing && (
+                    <div>
+                      <div className="text-sm font-medium text-muted-foreground">
+                        Group Size
+                      </div>
+                      <div className="mt-1 text-sm">
+                        {formatGroupSizing(sizing)}
+                      </div>
+                    </div>
+                  )}
+                  {workshop.framework && (
+                    <div>
+                      <div className="text-sm font-medium text-muted-foreground">
+                        Objective
+                      </div>
+                      <div className="mt-1 text-sm">
+                        {formatGroupingObjective(toGroupingObjective(workshop))}
+                      </div>
+                    </div>
+                  )}
+                  {workshop.framework && (
+                    <div>
+                      <div className="text-sm font-medium text-muted-foreground">
+                        Participant Scores
+                      </div>
+                      <div className="mt-1 text-sm">
+                        {formatScoreSource(workshop)}
+                      </div>
+                    </div>
+                  )}
+                  {workshop.framework && (
+                    <div>
+                      <div className="text-sm font-medium text-muted-foreground">
+                        Distance Metric
+                      </div>
+                      <div className="mt-1 text-sm">
+                        {formatDistanceMetric(workshop.distanceMetric)}
+                      </div>
+                    </div>
+                  )}
+                  {workshop.framework && (
+                    <div>
+                      <div className="text-sm font-medium text-muted-foreground">
+                        Grouping Algorithm
+                      </div>
+                      <div className="mt-1 text-sm">
+                        {formatGroupingAlgorithm(
+                          workshop.groupingAlgorithm,
+                          workshop.algorithmParameters
+                        )}
+                      </div>
+                    </div>
+                  )}
+                  {workshop.framework && workshop.distanceWeights && (
+                    <div>
+                      <div className="text-sm font-medium text-muted-foreground">
+                        Weights
+                      </div>
+                      <div className="mt-1 text-sm">
+                        {formatDistanceWeights(
+                          workshop.distanceWeights,
+                          workshop.framework,
+                          customFrameworks.find(
+                            (f) => f.frameworkId === workshop.framework
+                          )?.dimensions
+                        )}
+                      </div>
+                    </div>
+                  )}
                   <div>
                     <div className="text-sm font-medium text-muted-foreground">
-                      Group Size
+                      Created
                     </div>
                     <div className="mt-1 text-sm">
-                      {workshop.groupSize === null
-                        ? "Flexible (3-4 participants)"
-                        : `${workshop.groupSize} participants per group`}
+                      {new Date(workshop.createdAt).toLocaleDateString(
+                        "en-US",
+                        {
+                          year: "numeric",
+                          month: "long",
+                          day: "numeric",
+                          hour: "numeric",
+                          minute: "2-digit",
+                        }
+                      )}
                     </div>
                   </div>
-                )}
-                <div>
-                  <div className="text-sm font-medium text-muted-foreground">
-                    Created
-                  </div>
-                  <div className="mt-1 text-sm">
-                    {new Date(workshop.createdAt).toLocaleDateString("en-US", {
-                      year: "numeric",
-                      month: "long",
-                      day: "numeric",
-                      hour: "numeric",
-                      minute: "2-digit",
-                    })}
-                  </div>
-                </div>
-                {workshop.status !== "closed" && (
-                  <div className="border-t pt-4">
-                    <div className="text-sm font-medium text-muted-foreground mb-2">
-                      Workshop State
+                  {(canEdit || workshop.reflectionPrompt) && (
+                    <div>
+                      <div className="text-sm font-medium text-muted-foreground">
+                        Reflection Prompt
+                      </div>
+                      <div className="mt-1 text-sm">
+                        {canEdit ? (
+                          <ReflectionPromptForm
+                            workshopId={workshop.id}
+                            reflectionPrompt={workshop.reflectionPrompt}
+                          />
+                        ) : (
+                          workshop.reflectionPrompt
+                        )}
+                      </div>
                     </div>
-                    <WorkshopStateControls
-                      workshopId={workshop.id}
-                      currentStatus={workshop.status}
-                    />
-                  </div>
-                )}
-                {!hasGroups && workshop.status !== "closed" && (
-                  <div className="space-y-4">
-                    {(!workshop.framework || workshop.groupSize === null) && (
-                      <div className="border-t pt-4">
-                        <Button asChild variant="outline">
-                          <Link href={`/dashboard/workshop/${id}/configure`}>
-                            <Settings className="mr-2 h-4 w-4" />
-                            Configure Grouping
-                          </Link>
-                        </Button>
+                  )}
+                  {(canEdit || workshop.lateJoining) && (
+                    <div>
+                      <div className="text-sm font-medium text-muted-foreground">
+                        Late Joiners
                       </div>
-                    )}
-                    {workshop.framework && workshop.groupSize !== null && (
-                      <div className="space-y-4 border-t pt-4">
-                        <div>
-                          <div className="text-sm font-medium mb-2">
-                            Ready to Generate Groups
-                          </div>
-                          <p className="text-sm text-muted-foreground mb-4">
-                            Your grouping configuration is complete. Click the
-                            button below to generate diverse groups based on
-                            cultural distances.
-                          </p>
-                          <GenerateGroupsButton workshopId={workshop.id} />
-                        </div>
-                        <div>
-                          <Button asChild variant="outline" size="sm">
+                      <div className="mt-1 text-sm">
+                        {canEdit ? (
+                          <LateJoiningToggle
+                            workshopId={workshop.id}
+                            lateJoining={workshop.lateJoining}
+                          />
+                        ) : (
+                          "Allowed after grouping"
+                        )}
+                      </div>
+                    </div>
+                  )}
+                  {canEdit && (
+                    <div className="border-t pt-4">
+                      <div className="text-sm font-medium text-muted-foreground mb-2">
+                        Workshop State
+                      </div>
+                      <WorkshopStateControls
+                        workshopId={workshop.id}
+                        currentStatus={workshop.status}
+                      />
+                    </div>
+                  )}
+                  {hasGroups && workshop.roundCount > 1 && (
+                    <div className="border-t pt-4">
+                      <div className="text-sm font-medium text-muted-foreground mb-2">
+                        Current Round
+                      </div>
+                      <RoundControls
+                        workshopId={workshop.id}
+                        currentRound={workshop.currentRound}
+                        roundCount={workshop.roundCount}
+                        disabled={!canEdit || workshop.status === "closed"}
+                      />
+                    </div>
+                  )}
+                  {canEdit && !hasGroups && canRegroup && (
+                    <div className="space-y-4">
+                      {(!workshop.framework || !sizing) && (
+                        <div className="border-t pt-4">
+                          <Button asChild variant="outline">
                             <Link href={`/dashboard/workshop/${id}/configure`}>
                               <Settings className="mr-2 h-4 w-4" />
-                              Change Configuration
+                              Configure Grouping
                             </Link>
                           </Button>
                         </div>
-                      </div>
-                    )}
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          </div>
-        </TabsContent>
-        <TabsContent value="participants" className="space-y-6">
-          <div className="grid gap-6 md:grid-cols-3">
-            <div className="md:col-span-2">
+                      )}
+                      {workshop.framework && sizing && (
+                        <div className="space-y-4 border-t pt-4">
+                          <div>
+                            <div className="text-sm font-medium mb-2">
+                              Ready to Generate Groups
+                            </div>
+                            <p className="text-sm text-muted-foreground mb-4">
+                              Your grouping configuration is complete. Click the
+                              button below to generate groups based on cultural
+                              distances and your grouping objective.
+                            </p>
+                            <GenerateGroupsButton workshopId={workshop.id} />
+                          </div>
+                          <div>
+                            <Button asChild variant="outline" size="sm">
+                              <Link
+                                href={`/dashboard/workshop/${id}/configure`}
+                              >
+                                <Settings className="mr-2 h-4 w-4" />
+                                Change Configuration
+                              </Link>
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {(canEdit || workshop.participantAttributes) && (
               <Card>
                 <CardHeader>
-                  <CardTitle>Participants</CardTitle>
+                  <CardTitle>Participant Attributes</CardTitle>
                   <CardDescription>
-                    View all participants who have joined your workshop
+                    Collect attributes such as department or seniority when
+                    participants join, and mix them within groups on top of
+                    cultural distance
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <ParticipantList workshopId={workshop.id} />
+                  {canEdit && workshop.status !== "closed" ? (
+                    <ParticipantAttributesForm
+                      workshopId={workshop.id}
+                      attributes={workshop.participantAttributes}
+                    />
+                  ) : (
+                    <p className="text-sm">
+                      {formatParticipantAttributes(
+                        workshop.participantAttributes
+                      )}
+                    </p>
+                  )}
                 </CardContent>
               </Card>
+            )}
+
+            {(groupingCandidates.length > 0 ||
+              (canEdit && canRegroup && workshop.framework && sizing)) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Candidate Groupings</CardTitle>
+                  <CardDescription>
+                    Compare groupings from different algorithms and seeds,
+                    preview them on the network graph, then commit one
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <GroupingCandidates
+                    workshopId={workshop.id}
+                    candidates={groupingCandidates}
+                    hasGroups={hasGroups}
+                    roundCount={workshop.roundCount}
+                    previewId={previewCandidate?.id}
+                    readOnly={!canEdit || !canRegroup}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Event Log</CardTitle>
+                <CardDescription>
+                  Every status change of the workshop, newest first
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <WorkshopStatusLog changes={statusChanges} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Export</CardTitle>
+                <CardDescription>
+                  Download participants, group assignments with diversity
+                  scores, and reflections
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <WorkshopExportButtons
+                  workshopId={workshop.id}
+                  hasGroups={hasGroups}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Reuse</CardTitle>
+                <CardDescription>
+                  Start another workshop with the same framework, grouping
+                  settings and reflection prompt. Participants and their
+                  constraints are not copied.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <DuplicateWorkshopButton workshopId={workshop.id} />
+                <div className="border-t pt-6">
+                  <SaveTemplateForm
+                    workshopId={workshop.id}
+                    defaultName={workshop.title}
+                    organizations={userOrganizations.map((o) => ({
+                      id: o.id,
+                      name: o.name,
+                    }))}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+          <TabsContent value="participants" className="space-y-6">
+            <div className="grid gap-6 md:grid-cols-3">
+              <div className="md:col-span-2">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Participants</CardTitle>
+                    <CardDescription>
+                      View all participants who have joined your workshop
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ParticipantList
+                      workshopId={workshop.id}
+                      canRemove={canEdit && workshop.status !== "closed"}
+                      canInvite={canEdit}
+                    />
+                  </CardContent>
+                </Card>
+              </div>
+              <div className="space-y-6">
+                <CountryDistribution workshopId={workshop.id} />
+                {canEdit &&
+                  (workshop.status === "draft" ||
+                    workshop.status === "collecting") && (
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Import Participants</CardTitle>
+                        <CardDescription>
+                          Pre-register a known roster
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <ParticipantImport workshopId={workshop.id} />
+                      </CardContent>
+                    </Card>
+                  )}
+              </div>
             </div>
-            <div>
-              <CountryDistribution workshopId={workshop.id} />
-            </div>
-          </div>
-        </TabsContent>
-        <TabsContent value="visualizations" className="space-y-6">
-          <VisualizationWrapper
-            workshopId={workshop.id}
-            framework={(workshop.framework as Framework) || "combined"}
-          />
-        </TabsContent>
-        {hasGroups &&
-          (workshop.status === "grouped" || workshop.status === "closed") && (
-            <TabsContent value="reflections" className="space-y-6">
+          </TabsContent>
+          {groupEditorData.length > 0 && (
+            <TabsContent value="groups" className="space-y-6">
               <Card>
                 <CardHeader>
-                  <CardTitle>Participant Reflections</CardTitle>
+                  <CardTitle>Groups</CardTitle>
                   <CardDescription>
-                    Review all participant reflections organized by group.
+                    Adjust group assignments. Diversity scores use the same
+                    cultural distances as group generation.
+                    {generatedWith?.algorithm &&
+                      ` Generated with ${formatGroupingAlgorithm(
+                        generatedWith.algorithm,
+                        generatedWith.parameters
+                      )}.`}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  {groupedReflections.length === 0 ? (
-                    <div className="text-center py-8 text-muted-foreground">
-                      <p>No reflections found for this workshop.</p>
-                    </div>
+                  {groupEditorData.length === 1 ? (
+                    <GroupEditor
+                      workshopId={workshop.id}
+                      data={groupEditorData[0]}
+                      readOnly={!canEdit || workshop.status === "closed"}
+                    />
                   ) : (
-                    <ReflectionList reflections={groupedReflections} />
+                    <Tabs defaultValue={`round-${workshop.currentRound}`}>
+                      <TabsList>
+                        {groupEditorData.map((data) => (
+                          <TabsTrigger
+                            key={data.roundNumber}
+                            value={`round-${data.roundNumber}`}
+                          >
+                            Round {data.roundNumber}
+                          </TabsTrigger>
+                        ))}
+                      </TabsList>
+                      {groupEditorData.map((data) => (
+                        <TabsContent
+                          key={data.roundNumber}
+                          value={`round-${data.roundNumber}`}
+                        >
+                          <GroupEditor
+                            workshopId={workshop.id}
+                            data={data}
+                            readOnly={!canEdit || workshop.status === "closed"}
+                          />
+                        </TabsContent>
+                      ))}
+                    </Tabs>
                   )}
                 </CardContent>
               </Card>
+              {groupQualityReports.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Group Quality</CardTitle>
+                    <CardDescription>
+                      Cultural distances within each group compared with a
+                      random assignment, and the dimensions members differ most
+                      in.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {groupQualityReports.length === 1 ? (
+                      <GroupQualityReport
+                        report={groupQualityReports[0].report}
+                      />
+                    ) : (
+                      <Tabs defaultValue={`round-${workshop.currentRound}`}>
+                        <TabsList>
+                          {groupQualityReports.map(({ roundNumber }) => (
+                            <TabsTrigger
+                              key={roundNumber}
+                              value={`round-${roundNumber}`}
+                            >
+                              Round {roundNumber}
+                            </TabsTrigger>
+                          ))}
+                        </TabsList>
+                        {groupQualityReports.map(({ roundNumber, report }) => (
+                          <TabsContent
+                            key={roundNumber}
+                            value={`round-${roundNumber}`}
+                          >
+                            <GroupQualityReport report={report} />
+                          </TabsContent>
+                        ))}
+                      </Tabs>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+              {attributeBreakdowns.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Attribute Breakdown</CardTitle>
+                    <CardDescription>
+                      How participant attributes are spread across the groups.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {attributeBreakdowns.length === 1 ? (
+                      <GroupAttributeBreakdown
+                        breakdown={attributeBreakdowns[0].breakdown}
+                      />
+                    ) : (
+                      <Tabs defaultValue={`round-${workshop.currentRound}`}>
+                        <TabsList>
+                          {attributeBreakdowns.map(({ roundNumber }) => (
+                            <TabsTrigger
+                              key={roundNumber}
+                              value={`round-${roundNumber}`}
+                            >
+                              Round {roundNumber}
+                            </TabsTrigger>
+                          ))}
+                        </TabsList>
+                        {attributeBreakdowns.map(
+                          ({ roundNumber, breakdown }) => (
+                            <TabsContent
+                              key={roundNumber}
+                              value={`round-${roundNumber}`}
+                            >
+                              <GroupAttributeBreakdown breakdown={breakdown} />
+                            </TabsContent>
+                          )
+                        )}
+                      </Tabs>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
             </TabsContent>
           )}
-      </Tabs>
-    </div>
+          <TabsContent value="visualizations" className="space-y-6">
+            <VisualizationWrapper
+              workshopId={workshop.id}
+              framework={workshop.framework || "combined"}
+              candidate={previewCandidate}
+            />
+          </TabsContent>
+          {hasGroups &&
+            (workshop.status === "grouped" || workshop.status === "closed") && (
+              <TabsContent value="reflections" className="space-y-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Participant Reflections</CardTitle>
+                    <CardDescription>
+                      Review all participant reflections organized by group.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {groupedReflections.length === 0 ? (
+                      <div className="text-center py-8 text-muted-foreground">
+                        <p>No reflections found for this workshop.</p>
+                      </div>
+                    ) : (
+                      <ReflectionList reflections={groupedReflections} />
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            )}
+          <TabsContent value="team" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Team</CardTitle>
+                <CardDescription>
+                  Facilitators with access to this workshop. Co-facilitators run
+                  the workshop; observers can follow along read-only.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {team && (
+                  <WorkshopTeam
+                    workshopId={workshop.id}
+                    team={team}
+                    currentUserId={userId}
+                    isOwner={isOwner}
+                  />
+                )}
+              </CardContent>
+            </Card>
+            {isOwner && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Organization</CardTitle>
+                  <CardDescription>
+                    Share this workshop with an organization
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <WorkshopOrganizationSelect
+                    workshopId={workshop.id}
+                    organization={organization}
+                    organizations={userOrganizations.map((o) => ({
+                      id: o.id,
+                      name: o.name,
+                    }))}
+                  />
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+        </Tabs>
+      </div>
+    </WorkshopLiveUpdates>
   );
 }
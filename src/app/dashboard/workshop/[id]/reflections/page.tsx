@@ -19,7 +19,7 @@ export default async function ReflectionsPage({ params }: PageProps) {
   const { id } = await params;
   const userId = await requireAuth();
 
-  // Verify facilitator owns workshop
+  // Verify facilitator has access to the workshop
   const workshop = await getWorkshopById(id, userId);
 
   if (!workshop) {
@@ -21,8 +21,9 @@ export default async function JoinPage({ params }: JoinPageProps) {
     notFound();
   }
 
-  // Check workshop status
-  if (workshop.status !== "collecting") {
+  // Check workshop status; grouped workshops may allow late joiners
+  const isLateJoin = workshop.status === "grouped" && workshop.lateJoining;
+  if (workshop.status !== "collecting" && !isLateJoin) {
     return (
       <div className="container max-w-2xl py-8">
         <div className="rounded-lg border bg-card p-6 text-card-foreground shadow-sm">
@@ -47,8 +48,18 @@ export default async function JoinPage({ params }: JoinPageProps) {
       <div className="mb-6">
         <h1 className="mb-2 text-3xl font-bold">Join Workshop</h1>
         <p className="text-muted-foreground">{workshop.title}</p>
+        {isLateJoin && (
+          <p className="mt-2 text-sm text-muted-foreground">
+            Groups have already been formed. You will be added to one of them
+            when you join.
+          </p>
+        )}
       </div>
-      <ParticipantJoinForm joinCode={code} countries={countries} />
+      <ParticipantJoinForm
+        joinCode={code}
+        countries={countries}
+        attributes={workshop.participantAttributes ?? []}
+      />
     </div>
   );
 }
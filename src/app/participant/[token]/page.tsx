@@ -3,6 +3,8 @@ import Link from "next/link";
 import { getParticipantGroup } from "@/lib/db/queries/participant-queries";
 import { ParticipantGroupCard } from "@/components/participant-group-card";
 import { GroupAssignmentPoller } from "@/components/group-assignment-poller";
+import { LeaveWorkshopButton } from "@/components/leave-workshop-button";
+import { ParticipantLiveUpdates } from "@/components/participant-live-updates";
 import {
   Card,
   CardContent,
@@ -45,6 +47,7 @@ export default async function ParticipantPage({
               </p>
               <GroupAssignmentPoller token={token} />
             </div>
+            <LeaveWorkshopButton token={token} />
           </CardContent>
         </Card>
       </div>
@@ -61,8 +64,10 @@ export default async function ParticipantPage({
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          <ParticipantLiveUpdates token={token} />
           <ParticipantGroupCard
             group={data.group}
+            round={data.round}
             members={data.members}
             currentParticipantId={data.participant.id}
           />
@@ -83,6 +88,7 @@ export default async function ParticipantPage({
             <Link href={`/participant/${token}/reflect`}>
               <Button className="w-full">Submit Reflection</Button>
             </Link>
+            <LeaveWorkshopButton token={token} />
           </div>
         </CardContent>
       </Card>
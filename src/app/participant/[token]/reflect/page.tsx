@@ -49,7 +49,7 @@ export default async function ReflectionPage({ params }: ReflectionPageProps) {
 
   return (
     <div className="container max-w-2xl py-8">
-      <ReflectionForm token={token} />
+      <ReflectionForm token={token} prompt={data.reflectionPrompt} />
     </div>
   );
 }
@@ -126,8 +126,10 @@ export default function PrivacyPage() {
                         <strong className="font-semibold text-foreground">
                           Participant Data:
                         </strong>{" "}
-                        Country of origin, anonymous participant tokens, group
-                        assignments, and reflection submissions
+                        Country of origin, answers to attributes the facilitator
+                        chooses to collect (such as department), anonymous
+                        participant tokens, group assignments, and reflection
+                        submissions
                       </li>
                       <li>
                         <strong className="font-semibold text-foreground">
@@ -0,0 +1,42 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { acceptWorkshopInvitation } from "@/lib/actions/member-actions";
+
+type AcceptInvitationButtonProps = {
+  token: string;
+};
+
+export function AcceptInvitationButton({ token }: AcceptInvitationButtonProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  function handleAccept() {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await acceptWorkshopInvitation(token);
+
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+
+      router.push(`/dashboard/workshop/${result.workshopId}`);
+    });
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="text-sm font-medium text-destructive">{error}</div>
+      )}
+      <Button onClick={handleAccept} disabled={isPending} className="w-full">
+        {isPending ? "Accepting..." : "Accept Invitation"}
+      </Button>
+    </div>
+  );
+}
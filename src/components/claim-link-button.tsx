@@ -0,0 +1,36 @@
+"use client";
+
+import { Check, Link as LinkIcon } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+
+type ClaimLinkButtonProps = {
+  claimToken: string;
+};
+
+export function ClaimLinkButton({ claimToken }: ClaimLinkButtonProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(
+        `${window.location.origin}/claim/${claimToken}`
+      );
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+    }
+  };
+
+  return (
+    <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+      {copied ? (
+        <Check className="mr-2 h-4 w-4 text-green-600" />
+      ) : (
+        <LinkIcon className="mr-2 h-4 w-4" />
+      )}
+      {copied ? "Copied" : "Copy invite link"}
+    </Button>
+  );
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { claimParticipant } from "@/lib/actions/participant-actions";
+
+type ClaimParticipantButtonProps = {
+  claimToken: string;
+  // Already claimed: the button only continues to the participant page
+  claimed: boolean;
+};
+
+export function ClaimParticipantButton({
+  claimToken,
+  claimed,
+}: ClaimParticipantButtonProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  function handleClaim() {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await claimParticipant(claimToken);
+
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+
+      router.push(`/participant/${result.token}`);
+    });
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="text-sm font-medium text-destructive">{error}</div>
+      )}
+      <Button onClick={handleClaim} disabled={isPending} className="w-full">
+        {isPending
+          ? "Joining..."
+          : claimed
+            ? "Continue to Workshop"
+            : "Join Workshop"}
+      </Button>
+    </div>
+  );
+}
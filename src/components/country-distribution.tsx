@@ -3,6 +3,10 @@
 import useSWR from "swr";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import {
+  FALLBACK_POLL_INTERVAL_MS,
+  useWorkshopLiveStatus,
+} from "@/components/workshop-live-updates";
 import { getCountryFlag } from "@/lib/utils/country-flag";
 
 type CountryDistributionItem = {
@@ -24,10 +28,12 @@ type CountryDistributionProps = {
 };
 
 export function CountryDistribution({ workshopId }: CountryDistributionProps) {
+  const { isConnected } = useWorkshopLiveStatus();
   const { data, isLoading, error } = useSWR<CountryDistributionItem[]>(
     `/api/workshop/${workshopId}/country-distribution`,
     fetcher,
-    { refreshInterval: 5000 }
+    // Live updates revalidate on demand; poll only as a fallback
+    { refreshInterval: isConnected ? 0 : FALLBACK_POLL_INTERVAL_MS }
   );
 
   if (isLoading) {
@@ -13,7 +13,12 @@ import {
   Cell,
 } from "recharts";
 import type { GraphData } from "@/lib/utils/visualization-data";
-import type { Framework, CulturalScores } from "@/types/cultural";
+import {
+  getCustomFrameworkDimensions,
+  isCustomFramework,
+  type CulturalScores,
+  type Framework,
+} from "@/types/cultural";
 import {
   Select,
   SelectContent,
@@ -136,6 +141,11 @@ export function CountryParameterBarChart({
         label: d.label,
         framework: "hofstede",
       }));
+    } else if (isCustomFramework(framework)) {
+      return getCustomFrameworkDimensions(
+        data.nodes.map((node) => node.culturalScores),
+        framework
+      ).map((d) => ({ ...d, framework }));
     } else {
       // Combined framework: show all parameters with framework prefix
       return [
@@ -156,12 +166,19 @@ export function CountryParameterBarChart({
         })),
       ];
     }
-  }, [framework]);
+  }, [framework, data.nodes]);
 
-  const [selectedParameter, setSelectedParameter] = useState<string>(
+  const [chosenParameter, setSelectedParameter] = useState<string>(
     parameterOptions[0]?.key || ""
   );
 
+  // Fall back to the first parameter when the framework changes
+  const selectedParameter = parameterOptions.some(
+    (opt) => opt.key === chosenParameter
+  )
+    ? chosenParameter
+    : parameterOptions[0]?.key || "";
+
   // Extract unique countries from nodes (group by countryCode)
   const uniqueCountries = useMemo(() => {
     const countryMap = new Map<
@@ -181,7 +198,8 @@ export function CountryParameterBarChart({
           country: node.country || node.name || key,
           countryCode: node.countryCode || key,
           groupNumber: node.groupNumber,
-          culturalScores: node.culturalScores,
+          // Personal scores vary within a country; chart the country's own
+          culturalScores: node.countryScores ?? node.culturalScores,
         });
       }
     }
@@ -216,11 +234,17 @@ export function CountryParameterBarChart({
 
       let score: number | undefined;
 
-      const scores = country.culturalScores[parsedParameter.framework];
-      if (scores) {
-        score = scores[parsedParameter.parameter as keyof typeof scores] as
-          | number
-          | undefined;
+      if (isCustomFramework(parsedParameter.framework)) {
+        score = country.culturalScores.custom?.[
+          parsedParameter.framework
+        ]?.find((d) => d.key === parsedParameter.parameter)?.score;
+      } else {
+        const scores = country.culturalScores[parsedParameter.framework];
+        if (scores) {
+          score = scores[parsedParameter.parameter as keyof typeof scores] as
+            | number
+            | undefined;
+        }
       }
 
       if (score !== undefined) {
@@ -12,7 +12,11 @@ import {
   ResponsiveContainer,
 } from "recharts";
 import type { GraphData } from "@/lib/utils/visualization-data";
-import type { Framework } from "@/types/cultural";
+import {
+  getCustomFrameworkDimensions,
+  isCustomFramework,
+  type Framework,
+} from "@/types/cultural";
 import {
   Select,
   SelectContent,
@@ -179,6 +183,11 @@ export function CulturalProfileRadar({
       dimensions = [...HALL_DIMENSIONS];
     } else if (framework === "hofstede") {
       dimensions = [...HOFSTEDE_DIMENSIONS];
+    } else if (isCustomFramework(framework)) {
+      dimensions = getCustomFrameworkDimensions(
+        filteredNodes.map((node) => node.culturalScores),
+        framework
+      );
     } else if (framework === "combined") {
       // Combine all available dimensions
       dimensions = [
@@ -224,6 +233,10 @@ export function CulturalProfileRadar({
           else if (dim.key === "longTermOrientation")
             score = hofstedeScores.longTermOrientation;
           else if (dim.key === "indulgence") score = hofstedeScores.indulgence;
+        } else if (isCustomFramework(framework)) {
+          score = node.culturalScores.custom?.[framework]?.find(
+            (d) => d.key === dim.key
+          )?.score;
         } else if (framework === "combined") {
           // For combined, check all frameworks
           if (
@@ -8,6 +8,7 @@ import type {
 import { scaleSequential } from "d3-scale";
 import { interpolateViridis } from "d3-scale-chromatic";
 import { cn } from "@/lib/utils";
+import { formatDistanceMetric } from "@/lib/utils/distance-metrics";
 
 type DistanceMatrixHeatmapProps = {
   data: HeatmapData;
@@ -173,6 +174,10 @@ export function DistanceMatrixHeatmap({
           <span>{data.minDistance.toFixed(2)}</span>
           <span>{data.maxDistance.toFixed(2)}</span>
         </div>
+        <p className="text-xs text-muted-foreground">
+          {formatDistanceMetric(data.metric)} distance; the largest possible
+          value is {data.maxPossibleDistance.toFixed(2)}.
+        </p>
       </div>
 
       {/* Hovered Cell Info */}
@@ -4,6 +4,7 @@
 
 import { X } from "lucide-react";
 import type { GraphNode, GraphLink } from "@/lib/utils/visualization-data";
+import type { Framework } from "@/types/cultural";
 import { NodeTooltipContent, EdgeTooltipContent } from "./utils/graph-tooltips";
 
 type GraphTooltipProps = {
@@ -14,7 +15,7 @@ type GraphTooltipProps = {
   sourceNode?: GraphNode;
   targetNode?: GraphNode;
   edgeMode: "aggregate" | "dimensional";
-  framework?: "lewis" | "hall" | "hofstede" | "combined";
+  framework?: Framework;
   dimensionLabel?: string;
   sourceValue?: number;
   targetValue?: number;
@@ -2,8 +2,12 @@
  * Tooltip content components for network graph visualization
  */
 
-import type { GraphNode, GraphLink } from "@/lib/utils/visualization-data";
-import type { Framework } from "@/types/cultural";
+import type {
+  DimensionalDistance,
+  GraphNode,
+  GraphLink,
+} from "@/lib/utils/visualization-data";
+import { isCustomFramework, type Framework } from "@/types/cultural";
 
 type NodeTooltipProps = {
   node: GraphNode;
@@ -126,6 +130,17 @@ export function NodeTooltipContent({ node, framework }: NodeTooltipProps) {
         </span>
       </div>
     );
+  } else if (isCustomFramework(framework) && scores.custom?.[framework]) {
+    for (const dimension of scores.custom[framework]) {
+      scoreItems.push(
+        <div key={dimension.key} className="flex justify-between text-xs">
+          <span className="text-muted-foreground">{dimension.label}</span>
+          <span className="font-mono font-medium text-foreground">
+            {dimension.score}
+          </span>
+        </div>
+      );
+    }
   } else if (framework === "combined") {
     // Show all available frameworks
     if (scores.hofstede) {
@@ -308,6 +323,9 @@ export function EdgeTooltipContent({
 
     // Calculate similarity percentage (inverse of distance)
     const similarity = (1 - linkDistance) * 100;
+    const weight = link.dimensionalDistances?.find(
+      (d) => d.label === dimensionLabel
+    )?.weight;
 
     return (
       <div className="space-y-2">
@@ -342,23 +360,75 @@ export function EdgeTooltipContent({
               (distance: {linkDistance.toFixed(3)})
             </span>
           </div>
+          {weight !== undefined && weight !== 1 && (
+            <div className="text-xs">
+              <span className="text-muted-foreground">Weight: </span>
+              <span className="font-mono font-medium text-foreground">
+                ×{weight}
+              </span>
+            </div>
+          )}
         </div>
       </div>
     );
   }
 
   // Aggregate mode
+  const dimensionalDistances = link.dimensionalDistances ?? [];
+  const isWeighted = dimensionalDistances.some((d) => (d.weight ?? 1) !== 1);
+  const drivers = getDistanceDrivers(dimensionalDistances);
+
   return (
     <div className="space-y-1">
-      <div className="font-semibold text-foreground">Cultural Distance</div>
+      <div className="font-semibold text-foreground">
+        {isWeighted ? "Weighted Cultural Distance" : "Cultural Distance"}
+      </div>
       <div className="text-xs">
         <span className="font-mono font-medium text-foreground">
           {linkDistance.toFixed(3)}
         </span>
       </div>
+      {drivers.length > 0 && (
+        <div className="border-t border-border pt-2 mt-2 space-y-1">
+          <div className="text-xs font-medium text-muted-foreground mb-1">
+            Biggest differences
+          </div>
+          {drivers.map((driver) => (
+            <div
+              key={driver.dimension}
+              className="flex justify-between gap-3 text-xs"
+            >
+              <span className="text-muted-foreground">{driver.label}</span>
+              <span className="font-mono font-medium text-foreground">
+                {driver.distance.toFixed(2)}
+                {(driver.weight ?? 1) !== 1 && (
+                  <span className="text-muted-foreground">
+                    {" "}
+                    ×{driver.weight}
+                  </span>
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
       <div className="text-xs text-muted-foreground pt-1 border-t border-border">
         (thicker = more similar)
       </div>
     </div>
   );
 }
+
+/**
+ * Picks the dimensions contributing most to a pair's distance, ranked by
+ * their weighted difference. Dimensions weighted 0 are left out.
+ */
+function getDistanceDrivers(
+  dimensionalDistances: DimensionalDistance[],
+  limit = 3
+): DimensionalDistance[] {
+  return dimensionalDistances
+    .filter((d) => (d.weight ?? 1) > 0 && d.distance > 0)
+    .sort((a, b) => b.distance * (b.weight ?? 1) - a.distance * (a.weight ?? 1))
+    .slice(0, limit);
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import useSWR from "swr";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
@@ -21,7 +21,14 @@ import { NetworkGraph } from "./network-graph";
 import { DistanceMatrixHeatmap } from "./distance-matrix-heatmap";
 import { CulturalProfileRadar } from "./cultural-profile-radar";
 import type { Framework } from "@/types/cultural";
-import type { GraphData } from "@/lib/utils/visualization-data";
+import {
+  getFrameworkOptions,
+  type CustomFrameworkOption,
+} from "@/lib/utils/framework-labels";
+import {
+  expandCompactGraphData,
+  type CompactGraphData,
+} from "@/lib/utils/visualization-data";
 import { Loader2, Info } from "lucide-react";
 
 type VisualizationContainerProps = {
@@ -32,47 +39,8 @@ type VisualizationContainerProps = {
 type VisualizationData = {
   framework: Framework;
   availableFrameworks: Framework[];
-  graphData: {
-    nodes: Array<{
-      id: string;
-      name: string;
-      country: string;
-      countryCode: string;
-      groupId?: string;
-      groupNumber?: number;
-    }>;
-    links: Array<{
-      source: string;
-      target: string;
-      distance: number;
-    }>;
-  };
-  heatmapData: {
-    participants: Array<{
-      id: string;
-      name: string;
-      countryCode: string;
-      countryName: string;
-    }>;
-    data: Array<{
-      x: string;
-      y: string;
-      value: number;
-      participantX: string;
-      participantY: string;
-      countryX: string;
-      countryY: string;
-    }>;
-    minDistance: number;
-    maxDistance: number;
-  };
-};
-
-const frameworkLabels: Record<Framework, string> = {
-  lewis: "Lewis Framework",
-  hall: "Hall Framework",
-  hofstede: "Hofstede Framework",
-  combined: "Combined Framework",
+  customFrameworks: CustomFrameworkOption[];
+  graph: CompactGraphData;
 };
 
 const fetcher = async (url: string): Promise<VisualizationData> => {
@@ -99,6 +67,11 @@ export function VisualizationContainer({
     }
   );
 
+  const expanded = useMemo(
+    () => (data ? expandCompactGraphData(data.graph, data.framework) : null),
+    [data]
+  );
+
   const handleFrameworkChange = (value: string) => {
     setFramework(value as Framework);
     setSelectedNodeId(undefined);
@@ -136,7 +109,7 @@ export function VisualizationContainer({
     );
   }
 
-  if (!data) {
+  if (!data || !expanded) {
     return (
       <Card>
         <CardContent className="py-12">
@@ -160,7 +133,8 @@ export function VisualizationContainer({
               </CardDescription>
             </div>
             <div className="flex items-center gap-2">
-              {data.availableFrameworks.length < 4 && (
+              {data.availableFrameworks.length <
+                getFrameworkOptions(data.customFrameworks).length && (
                 <div
                   className="group relative"
                   title="Some frameworks are unavailable because not all participants' countries have complete cultural data. Only frameworks with complete data for all countries are shown."
@@ -173,18 +147,18 @@ export function VisualizationContainer({
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {(
-                    ["lewis", "hall", "hofstede", "combined"] as Framework[]
-                  ).map((fw) => {
-                    const isAvailable = data.availableFrameworks.includes(fw);
+                  {getFrameworkOptions(data.customFrameworks).map((option) => {
+                    const isAvailable = data.availableFrameworks.includes(
+                      option.value
+                    );
                     return (
                       <SelectItem
-                        key={fw}
-                        value={fw}
+                        key={option.value}
+                        value={option.value}
                         disabled={!isAvailable}
                         className={!isAvailable ? "opacity-50" : ""}
                       >
-                        {frameworkLabels[fw]}
+                        {option.label}
                         {!isAvailable && " (unavailable)"}
                       </SelectItem>
                     );
@@ -204,7 +178,7 @@ export function VisualizationContainer({
             <TabsContent value="network" className="mt-4">
               <div className="rounded-lg border bg-background p-4">
                 <NetworkGraph
-                  data={data.graphData}
+                  data={expanded.graphData}
                   selectedNodeId={selectedNodeId}
                   onNodeClick={handleNodeClick}
                 />
@@ -214,7 +188,7 @@ export function VisualizationContainer({
                   Nodes represent participants. Edges show cultural distances.
                   Click a node to highlight its connections.
                 </p>
-                {data.graphData.nodes.some(
+                {expanded.graphData.nodes.some(
                   (n) => n.groupNumber !== undefined
                 ) && (
                   <p className="mt-2">Nodes are colored by group assignment.</p>
@@ -223,7 +197,7 @@ export function VisualizationContainer({
             </TabsContent>
             <TabsContent value="heatmap" className="mt-4">
               <div className="rounded-lg border bg-background p-4">
-                <DistanceMatrixHeatmap data={data.heatmapData} />
+                <DistanceMatrixHeatmap data={expanded.heatmapData} />
               </div>
               <div className="mt-4 text-sm text-muted-foreground">
                 <p>
@@ -235,7 +209,7 @@ export function VisualizationContainer({
             <TabsContent value="radar" className="mt-4">
               <div className="rounded-lg border bg-background p-4">
                 <CulturalProfileRadar
-                  data={data.graphData as GraphData}
+                  data={expanded.graphData}
                   framework={framework}
                 />
               </div>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Select,
@@ -14,13 +14,16 @@ import { DistanceMatrixHeatmap } from "./distance-matrix-heatmap";
 import { CulturalProfileRadar } from "./cultural-profile-radar";
 import { CountryParameterBarChart } from "./country-parameter-bar-chart";
 import type { Framework } from "@/types/cultural";
+import { getFrameworkOptions } from "@/lib/utils/framework-labels";
 import type { VisualizationData } from "@/lib/db/queries/visualization-queries";
-import type { GraphData } from "@/lib/utils/visualization-data";
+import { expandCompactGraphData } from "@/lib/utils/visualization-data";
 import useSWR from "swr";
 
 type VisualizationViewProps = {
   initialData: VisualizationData;
   workshopId: string;
+  // Candidate grouping the graph is colored by, if previewing one
+  candidateId?: string;
 };
 
 const fetcher = async (url: string): Promise<VisualizationData> => {
@@ -32,16 +35,10 @@ const fetcher = async (url: string): Promise<VisualizationData> => {
   return res.json();
 };
 
-const frameworkLabels: Record<Framework, string> = {
-  lewis: "Lewis Framework",
-  hall: "Hall Framework",
-  hofstede: "Hofstede Framework",
-  combined: "Combined Framework",
-};
-
 export function VisualizationView({
   initialData,
   workshopId,
+  candidateId,
 }: VisualizationViewProps) {
   const [framework, setFramework] = useState<Framework>(initialData.framework);
   const [selectedNodeId, setSelectedNodeId] = useState<string | undefined>();
@@ -49,7 +46,9 @@ export function VisualizationView({
   // Use SWR for framework switching (client-side updates)
   const { data, error } = useSWR<VisualizationData>(
     framework !== initialData.framework
-      ? `/api/workshop/${workshopId}/distance-matrix?framework=${framework}`
+      ? `/api/workshop/${workshopId}/distance-matrix?framework=${framework}${
+          candidateId ? `&candidate=${candidateId}` : ""
+        }`
       : null,
     fetcher,
     {
@@ -60,6 +59,14 @@ export function VisualizationView({
   );
 
   const visualizationData = data || initialData;
+  const { graphData, heatmapData } = useMemo(
+    () =>
+      expandCompactGraphData(
+        visualizationData.graph,
+        visualizationData.framework
+      ),
+    [visualizationData]
+  );
 
   const handleFrameworkChange = (value: string) => {
     setFramework(value as Framework);
@@ -83,6 +90,8 @@ export function VisualizationView({
 
   const availableFrameworks =
     visualizationData.availableFrameworks || initialData.availableFrameworks;
+  const customFrameworks =
+    visualizationData.customFrameworks || initialData.customFrameworks;
 
   return (
     <div className="space-y-3">
@@ -99,29 +108,27 @@ export function VisualizationView({
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              {(["lewis", "hall", "hofstede", "combined"] as Framework[]).map(
-                (fw) => {
-                  const isAvailable = availableFrameworks.includes(fw);
-                  return (
-                    <SelectItem
-                      key={fw}
-                      value={fw}
-                      disabled={!isAvailable}
-                      className={!isAvailable ? "opacity-50" : ""}
-                    >
-                      {frameworkLabels[fw]}
-                      {!isAvailable && " (unavailable)"}
-                    </SelectItem>
-                  );
-                }
-              )}
+              {getFrameworkOptions(customFrameworks).map((option) => {
+                const isAvailable = availableFrameworks.includes(option.value);
+                return (
+                  <SelectItem
+                    key={option.value}
+                    value={option.value}
+                    disabled={!isAvailable}
+                    className={!isAvailable ? "opacity-50" : ""}
+                  >
+                    {option.label}
+                    {!isAvailable && " (unavailable)"}
+                  </SelectItem>
+                );
+              })}
             </SelectContent>
           </Select>
         </div>
         <TabsContent value="network" className="mt-4">
           <div className="rounded-lg border bg-background p-4">
             <NetworkGraph
-              data={visualizationData.graphData}
+              data={graphData}
               selectedNodeId={selectedNodeId}
               onNodeClick={handleNodeClick}
               framework={visualizationData.framework}
@@ -132,14 +139,14 @@ export function VisualizationView({
               Nodes represent participants. Edges show cultural distances. Click
               a node to highlight its connections.
             </p>
-            {visualizationData.graphData.nodes.some(
-              (n) => n.groupNumber !== undefined
-            ) && <p className="mt-2">Nodes are colored by group assignment.</p>}
+            {graphData.nodes.some((n) => n.groupNumber !== undefined) && (
+              <p className="mt-2">Nodes are colored by group assignment.</p>
+            )}
           </div>
         </TabsContent>
         <TabsContent value="heatmap" className="mt-4">
           <div className="rounded-lg border bg-background p-4">
-            <DistanceMatrixHeatmap data={visualizationData.heatmapData} />
+            <DistanceMatrixHeatmap data={heatmapData} />
           </div>
           <div className="mt-4 text-sm text-muted-foreground">
             <p>
@@ -150,10 +157,7 @@ export function VisualizationView({
         </TabsContent>
         <TabsContent value="radar" className="mt-4">
           <div className="rounded-lg border bg-background p-4">
-            <CulturalProfileRadar
-              data={visualizationData.graphData as GraphData}
-              framework={framework}
-            />
+            <CulturalProfileRadar data={graphData} framework={framework} />
           </div>
           <div className="mt-4 text-sm text-muted-foreground">
             <p>
@@ -165,10 +169,7 @@ export function VisualizationView({
         </TabsContent>
         <TabsContent value="bar" className="mt-4">
           <div className="rounded-lg border bg-background p-4">
-            <CountryParameterBarChart
-              data={visualizationData.graphData as GraphData}
-              framework={framework}
-            />
+            <CountryParameterBarChart data={graphData} framework={framework} />
           </div>
           <div className="mt-4 text-sm text-muted-foreground">
             <p>
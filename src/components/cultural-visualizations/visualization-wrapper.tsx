@@ -15,14 +15,22 @@ import {
 type VisualizationWrapperProps = {
   workshopId: string;
   framework: Framework;
+  // Candidate grouping to preview instead of the committed groups
+  candidate?: { id: string; candidateNumber: number };
 };
 
 async function VisualizationData({
   workshopId,
   framework,
+  candidate,
 }: VisualizationWrapperProps) {
   const userId = await requireAuth();
-  const result = await getVisualizationData(workshopId, userId, framework);
+  const result = await getVisualizationData(
+    workshopId,
+    userId,
+    framework,
+    candidate?.id
+  );
 
   if (!result.success) {
     if (result.error === "workshop_not_found") {
@@ -56,25 +64,36 @@ async function VisualizationData({
   }
 
   return (
-    <VisualizationView initialData={result.data} workshopId={workshopId} />
+    <VisualizationView
+      initialData={result.data}
+      workshopId={workshopId}
+      candidateId={candidate?.id}
+    />
   );
 }
 
 export function VisualizationWrapper({
   workshopId,
   framework,
+  candidate,
 }: VisualizationWrapperProps) {
   return (
     <Card>
       <CardHeader>
         <CardTitle>Cultural Distance Visualization</CardTitle>
         <CardDescription>
-          Explore cultural distances between participants
+          {candidate
+            ? `Previewing candidate ${candidate.candidateNumber}; groups are not committed yet`
+            : "Explore cultural distances between participants"}
         </CardDescription>
       </CardHeader>
       <CardContent>
         <Suspense fallback={<VisualizationSkeleton />}>
-          <VisualizationData workshopId={workshopId} framework={framework} />
+          <VisualizationData
+            workshopId={workshopId}
+            framework={framework}
+            candidate={candidate}
+          />
         </Suspense>
       </CardContent>
     </Card>
@@ -0,0 +1,275 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Plus, X } from "lucide-react";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  createCustomFramework,
+  updateCustomFramework,
+} from "@/lib/actions/framework-actions";
+import {
+  MAX_FRAMEWORK_DIMENSIONS,
+  toDimensionKey,
+  type CustomFrameworkDefinition,
+} from "@/lib/utils/custom-framework";
+
+const frameworkSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name must be 100 characters or less"),
+  description: z
+    .string()
+    .max(500, "Description must be 500 characters or less"),
+  dimensions: z
+    .array(
+      z
+        .object({
+          label: z.string().trim().min(1, "Dimension name is required"),
+          scaleMin: z.number(),
+          scaleMax: z.number(),
+        })
+        .refine((d) => d.scaleMin < d.scaleMax, {
+          message: "Maximum must exceed minimum",
+          path: ["scaleMax"],
+        })
+    )
+    .min(1, "Add at least one dimension")
+    .max(MAX_FRAMEWORK_DIMENSIONS),
+});
+
+type FrameworkFormData = z.infer<typeof frameworkSchema>;
+
+type CustomFrameworkFormProps = {
+  // Edits an existing framework when set, otherwise creates a new one
+  frameworkId?: string;
+  defaultValues?: CustomFrameworkDefinition;
+};
+
+const EMPTY_DIMENSION = { label: "", scaleMin: 0, scaleMax: 100 };
+
+export function CustomFrameworkForm({
+  frameworkId,
+  defaultValues,
+}: CustomFrameworkFormProps) {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  const form = useForm<FrameworkFormData>({
+    resolver: zodResolver(frameworkSchema),
+    defaultValues: {
+      name: defaultValues?.name ?? "",
+      description: defaultValues?.description ?? "",
+      dimensions: defaultValues?.dimensions ?? [EMPTY_DIMENSION],
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "dimensions",
+  });
+
+  async function onSubmit(data: FrameworkFormData) {
+    setIsSubmitting(true);
+    setError(null);
+    setSuccess(false);
+
+    try {
+      const result = frameworkId
+        ? await updateCustomFramework(frameworkId, data)
+        : await createCustomFramework(data);
+
+      if ("error" in result) {
+        setError(result.error);
+        setIsSubmitting(false);
+        return;
+      }
+
+      if ("frameworkId" in result) {
+        router.push(`/dashboard/frameworks/${result.frameworkId}`);
+        return;
+      }
+
+      setSuccess(true);
+      setIsSubmitting(false);
+      router.refresh();
+    } catch (_err) {
+      setError("An unexpected error occurred. Please try again.");
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="e.g. GLOBE Societal Practices"
+                  {...field}
+                  disabled={isSubmitting}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description (Optional)</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="Source of the scores, year, notes for co-facilitators"
+                  {...field}
+                  disabled={isSubmitting}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label>Dimensions</Label>
+            <p className="text-sm text-muted-foreground">
+              Name each dimension and the range of the raw scores you will
+              upload (e.g. 1 to 7 for GLOBE, 0 to 100 for Hofstede-style
+              indices). Scores are normalized to 0-1 on upload. Changing a scale
+              clears the uploaded scores of that dimension.
+            </p>
+          </div>
+
+          {fields.map((item, index) => (
+            <div key={item.id} className="flex items-start gap-2">
+              <FormField
+                control={form.control}
+                name={`dimensions.${index}.label`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input
+                        placeholder="Dimension name"
+                        {...field}
+                        disabled={isSubmitting}
+                      />
+                    </FormControl>
+                    <FormDescription className="text-xs">
+                      CSV column: {toDimensionKey(field.value) || "—"}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`dimensions.${index}.scaleMin`}
+                render={({ field }) => (
+                  <FormItem className="w-24">
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="any"
+                        aria-label="Scale minimum"
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                        disabled={isSubmitting}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`dimensions.${index}.scaleMax`}
+                render={({ field }) => (
+                  <FormItem className="w-24">
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="any"
+                        aria-label="Scale maximum"
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                        disabled={isSubmitting}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => remove(index)}
+                disabled={isSubmitting || fields.length === 1}
+              >
+                <X className="h-4 w-4" />
+                <span className="sr-only">Remove dimension</span>
+              </Button>
+            </div>
+          ))}
+
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => append(EMPTY_DIMENSION)}
+            disabled={isSubmitting || fields.length >= MAX_FRAMEWORK_DIMENSIONS}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Dimension
+          </Button>
+        </div>
+
+        {error && (
+          <div className="text-sm font-medium text-destructive">{error}</div>
+        )}
+
+        {success && (
+          <div className="text-sm font-medium text-green-600 dark:text-green-400">
+            Framework saved successfully!
+          </div>
+        )}
+
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting
+            ? "Saving..."
+            : frameworkId
+              ? "Save Framework"
+              : "Create Framework"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
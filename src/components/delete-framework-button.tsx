@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { deleteCustomFramework } from "@/lib/actions/framework-actions";
+
+type DeleteFrameworkButtonProps = {
+  frameworkId: string;
+  frameworkName: string;
+};
+
+export function DeleteFrameworkButton({
+  frameworkId,
+  frameworkName,
+}: DeleteFrameworkButtonProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDeleteConfirm = async () => {
+    setIsDeleting(true);
+    setError(null);
+
+    const result = await deleteCustomFramework(frameworkId);
+
+    if ("error" in result) {
+      setError(result.error);
+      setIsDeleting(false);
+      return;
+    }
+
+    router.push("/dashboard/frameworks");
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!isDeleting) {
+      setOpen(nextOpen);
+      setError(null);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)}>
+        <Trash2 className="mr-2 h-4 w-4" />
+        Delete
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Framework</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete &quot;{frameworkName}&quot; and
+              all its uploaded scores? Frameworks selected by a workshop cannot
+              be deleted.
+            </DialogDescription>
+          </DialogHeader>
+          {error && (
+            <div className="text-sm font-medium text-destructive">{error}</div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isDeleting}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDeleteConfirm}
+              disabled={isDeleting}
+            >
+              {isDeleting ? "Deleting..." : "Delete Framework"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { deleteWorkshopTemplate } from "@/lib/actions/template-actions";
+
+type DeleteTemplateButtonProps = {
+  templateId: string;
+  templateName: string;
+};
+
+export function DeleteTemplateButton({
+  templateId,
+  templateName,
+}: DeleteTemplateButtonProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDeleteConfirm = async () => {
+    setIsDeleting(true);
+    setError(null);
+
+    const result = await deleteWorkshopTemplate(templateId);
+
+    if ("error" in result) {
+      setError(result.error);
+      setIsDeleting(false);
+      return;
+    }
+
+    setIsDeleting(false);
+    setOpen(false);
+    router.refresh();
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!isDeleting) {
+      setOpen(nextOpen);
+      setError(null);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+        <Trash2 className="mr-2 h-4 w-4" />
+        Delete
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Template</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete &quot;{templateName}&quot;?
+              Workshops created from it are not affected.
+            </DialogDescription>
+          </DialogHeader>
+          {error && (
+            <div className="text-sm font-medium text-destructive">{error}</div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isDeleting}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDeleteConfirm}
+              disabled={isDeleting}
+            >
+              {isDeleting ? "Deleting..." : "Delete Template"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  DEFAULT_WEIGHT,
+  MAX_WEIGHT,
+  getDimensionWeights,
+  getFrameworkWeight,
+  getWeightableDimensions,
+  type DistanceWeights,
+  type WeightedFramework,
+} from "@/lib/utils/distance-weights";
+import {
+  isCustomFramework,
+  type BuiltInFramework,
+  type Framework,
+  type FrameworkDimension,
+} from "@/types/cultural";
+
+type DistanceWeightsFieldProps = {
+  framework: Framework;
+  // Dimensions of the selected custom framework, if any
+  customDimensions?: FrameworkDimension[];
+  value: DistanceWeights;
+  onChange: (weights: DistanceWeights) => void;
+  disabled?: boolean;
+};
+
+const FRAMEWORK_NAMES: Record<BuiltInFramework, string> = {
+  lewis: "Lewis",
+  hall: "Hall",
+  hofstede: "Hofstede",
+};
+
+const BUILT_IN_FRAMEWORKS: BuiltInFramework[] = ["lewis", "hall", "hofstede"];
+
+export function DistanceWeightsField({
+  framework,
+  customDimensions = [],
+  value,
+  onChange,
+  disabled = false,
+}: DistanceWeightsFieldProps) {
+  const weightable = getWeightableDimensions(framework, customDimensions);
+  const isCombined = framework === "combined";
+
+  const isDefault =
+    (!isCombined ||
+      BUILT_IN_FRAMEWORKS.every(
+        (fw) => getFrameworkWeight(value, fw) === DEFAULT_WEIGHT
+      )) &&
+    weightable.every((entry) =>
+      entry.dimensions.every(
+        (dimension) =>
+          (getDimensionWeights(value, entry.framework)?.[dimension.key] ??
+            DEFAULT_WEIGHT) === DEFAULT_WEIGHT
+      )
+    );
+
+  function handleFrameworkChange(fw: BuiltInFramework, weight: number) {
+    onChange({ ...value, frameworks: { ...value.frameworks, [fw]: weight } });
+  }
+
+  function handleDimensionChange(
+    fw: WeightedFramework,
+    key: string,
+    weight: number
+  ) {
+    onChange({
+      ...value,
+      dimensions: {
+        ...value.dimensions,
+        [fw]: { ...value.dimensions?.[fw], [key]: weight },
+      },
+    });
+  }
+
+  if (weightable.every((entry) => entry.dimensions.length === 0)) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        This framework has no dimensions to weight.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {isCombined && (
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Frameworks</div>
+          <div className="grid gap-3 sm:grid-cols-3">
+            {BUILT_IN_FRAMEWORKS.map((fw) => (
+              <WeightInput
+                key={fw}
+                id={`weight-${fw}`}
+                label={FRAMEWORK_NAMES[fw]}
+                value={getFrameworkWeight(value, fw)}
+                onChange={(weight) => handleFrameworkChange(fw, weight)}
+                disabled={disabled}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {weightable.map((entry) => (
+        <div key={entry.framework} className="space-y-2">
+          <div className="text-sm font-medium">
+            {isCombined && !isCustomFramework(entry.framework)
+              ? `${FRAMEWORK_NAMES[entry.framework]} dimensions`
+              : "Dimensions"}
+          </div>
+          <div className="grid gap-3 sm:grid-cols-3">
+            {entry.dimensions.map((dimension) => (
+              <WeightInput
+                key={dimension.key}
+                id={`weight-${entry.framework}-${dimension.key}`}
+                label={dimension.label}
+                value={
+                  getDimensionWeights(value, entry.framework)?.[
+                    dimension.key
+                  ] ?? DEFAULT_WEIGHT
+                }
+                onChange={(weight) =>
+                  handleDimensionChange(entry.framework, dimension.key, weight)
+                }
+                disabled={disabled}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {!isDefault && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          onClick={() => onChange({})}
+        >
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Reset to equal weights
+        </Button>
+      )}
+    </div>
+  );
+}
+
+type WeightInputProps = {
+  id: string;
+  label: string;
+  value: number;
+  onChange: (weight: number) => void;
+  disabled: boolean;
+};
+
+function WeightInput({
+  id,
+  label,
+  value,
+  onChange,
+  disabled,
+}: WeightInputProps) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="font-normal text-muted-foreground">
+        {label}
+      </Label>
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        max={MAX_WEIGHT}
+        step={0.5}
+        value={Number.isNaN(value) ? "" : value}
+        onChange={(event) => onChange(event.target.valueAsNumber)}
+        disabled={disabled}
+      />
+    </div>
+  );
+}
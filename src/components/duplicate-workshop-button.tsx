@@ -0,0 +1,46 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { duplicateWorkshop } from "@/lib/actions/workshop-actions";
+
+type DuplicateWorkshopButtonProps = {
+  workshopId: string;
+};
+
+export function DuplicateWorkshopButton({
+  workshopId,
+}: DuplicateWorkshopButtonProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  function handleDuplicate() {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await duplicateWorkshop(workshopId);
+
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+
+      router.push(`/dashboard/workshop/${result.workshop.id}`);
+    });
+  }
+
+  return (
+    <div className="space-y-2">
+      <Button variant="outline" onClick={handleDuplicate} disabled={isPending}>
+        <Copy className="mr-2 h-4 w-4" />
+        {isPending ? "Duplicating..." : "Duplicate Workshop"}
+      </Button>
+      {error && (
+        <div className="text-sm font-medium text-destructive">{error}</div>
+      )}
+    </div>
+  );
+}
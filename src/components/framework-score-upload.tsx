@@ -0,0 +1,107 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { uploadCustomFrameworkScores } from "@/lib/actions/framework-actions";
+
+type FrameworkScoreUploadProps = {
+  frameworkId: string;
+  dimensionKeys: string[];
+};
+
+export function FrameworkScoreUpload({
+  frameworkId,
+  dimensionKeys,
+}: FrameworkScoreUploadProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [csv, setCsv] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const exampleHeader = ["country_code", ...dimensionKeys].join(",");
+
+  async function handleFileChange(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setCsv(await file.text());
+    setError(null);
+    setMessage(null);
+  }
+
+  function handleUpload() {
+    setError(null);
+    setMessage(null);
+
+    startTransition(async () => {
+      const result = await uploadCustomFrameworkScores(frameworkId, csv);
+
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+
+      setMessage(
+        `Updated scores for ${result.countryCount} ${result.countryCount === 1 ? "country" : "countries"}`
+      );
+      setCsv("");
+      router.refresh();
+    });
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="score-file">CSV file</Label>
+        <Input
+          id="score-file"
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          disabled={isPending}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="score-csv">Or paste CSV</Label>
+        <Textarea
+          id="score-csv"
+          value={csv}
+          onChange={(e) => setCsv(e.target.value)}
+          placeholder={`${exampleHeader}\nUS,...`}
+          rows={8}
+          className="font-mono text-xs"
+          disabled={isPending}
+        />
+        <p className="text-sm text-muted-foreground">
+          One row per country with its ISO code. Columns may use dimension names
+          or keys; empty cells are skipped and existing scores are overwritten.
+        </p>
+      </div>
+
+      {error && (
+        <div className="text-sm font-medium text-destructive">{error}</div>
+      )}
+
+      {message && (
+        <div className="text-sm font-medium text-green-600 dark:text-green-400">
+          {message}
+        </div>
+      )}
+
+      <Button
+        type="button"
+        onClick={handleUpload}
+        disabled={isPending || csv.trim() === ""}
+      >
+        <Upload className="mr-2 h-4 w-4" />
+        {isPending ? "Uploading..." : "Upload Scores"}
+      </Button>
+    </div>
+  );
+}
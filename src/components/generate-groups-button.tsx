@@ -3,8 +3,12 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Users } from "lucide-react";
-import { generateWorkshopGroups } from "@/lib/actions/grouping-actions";
-import { useRouter } from "next/navigation";
+import {
+  cancelGroupingJob,
+  generateWorkshopGroups,
+} from "@/lib/actions/grouping-actions";
+import { GroupingJobProgress } from "@/components/grouping-job-progress";
+import { useGroupingJob } from "@/hooks/use-grouping-job";
 
 type GenerateGroupsButtonProps = {
   workshopId: string;
@@ -15,12 +19,19 @@ export function GenerateGroupsButton({
   workshopId,
   disabled = false,
 }: GenerateGroupsButtonProps) {
-  const [isGenerating, setIsGenerating] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const router = useRouter();
+  const { job, mutate } = useGroupingJob(workshopId, "groups");
+
+  // Candidate jobs block generation too, but show their progress with the
+  // candidates
+  const groupsJob = job?.kind === "groups" ? job : null;
+  const isRunning = job?.status === "running";
+  const isGenerating = groupsJob?.status === "running";
 
   async function handleGenerate() {
-    setIsGenerating(true);
+    setIsStarting(true);
     setError(null);
 
     try {
@@ -28,37 +39,82 @@ export function GenerateGroupsButton({
 
       if ("error" in result) {
         setError(result.error);
-        setIsGenerating(false);
         return;
       }
 
-      // Success - refresh the page to show groups
-      router.refresh();
+      await mutate();
+    } catch (_err) {
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsStarting(false);
+    }
+  }
+
+  async function handleCancel() {
+    if (!groupsJob) return;
+    setIsCancelling(true);
+    setError(null);
+
+    try {
+      const result = await cancelGroupingJob(workshopId, groupsJob.id);
+
+      if ("error" in result) {
+        setError(result.error);
+      }
+      await mutate();
     } catch (_err) {
       setError("An unexpected error occurred. Please try again.");
-      setIsGenerating(false);
+    } finally {
+      setIsCancelling(false);
     }
   }
 
   return (
     <div className="space-y-2">
-      <Button
-        onClick={handleGenerate}
-        disabled={isGenerating || disabled}
-        className="w-full sm:w-auto"
-      >
-        {isGenerating ? (
-          <>
-            <Users className="mr-2 h-4 w-4 animate-pulse" />
-            Generating Groups...
-          </>
-        ) : (
-          <>
-            <Users className="mr-2 h-4 w-4" />
-            Generate Groups
-          </>
+      <div className="flex flex-wrap gap-2">
+        <Button
+          onClick={handleGenerate}
+          disabled={isStarting || isRunning || disabled}
+          className="w-full sm:w-auto"
+        >
+          {isStarting || isGenerating ? (
+            <>
+              <Users className="mr-2 h-4 w-4 animate-pulse" />
+              Generating Groups...
+            </>
+          ) : (
+            <>
+              <Users className="mr-2 h-4 w-4" />
+              Generate Groups
+            </>
+          )}
+        </Button>
+        {isGenerating && (
+          <Button
+            variant="outline"
+            onClick={handleCancel}
+            disabled={isCancelling}
+          >
+            {isCancelling ? "Cancelling..." : "Cancel"}
+          </Button>
         )}
-      </Button>
+      </div>
+      {isGenerating && <GroupingJobProgress progress={groupsJob.progress} />}
+      {job?.kind === "candidates" && isRunning && (
+        <p className="text-sm text-muted-foreground">
+          Candidate groupings are being generated.
+        </p>
+      )}
+      {groupsJob?.status === "cancelled" && !error && (
+        <p className="text-sm text-muted-foreground">
+          Group generation was cancelled.
+        </p>
+      )}
+      {groupsJob?.status === "failed" && !error && (
+        <div className="text-sm font-medium text-destructive">
+          {groupsJob.error}
+        </div>
+      )}
       {error && (
         <div className="text-sm font-medium text-destructive">{error}</div>
       )}
@@ -1,8 +1,10 @@
 "use client";
 
-import { useEffect, useRef } from "react";
+import { useCallback, useEffect, useRef } from "react";
 import useSWR from "swr";
 import { useRouter } from "next/navigation";
+import { useWorkshopEvents } from "@/hooks/use-workshop-events";
+import type { WorkshopEvent } from "@/types/workshop-events";
 
 type GroupAssignmentResponse = {
   participant: {
@@ -43,11 +45,30 @@ export function GroupAssignmentPoller({ token }: GroupAssignmentPollerProps) {
   const router = useRouter();
   const hasRefreshedRef = useRef(false);
 
+  const handleEvent = useCallback(
+    (event: WorkshopEvent) => {
+      const groupsChanged =
+        event.type === "groups_generated" || event.type === "groups_updated";
+      if (groupsChanged && !hasRefreshedRef.current) {
+        // Groups assigned, refresh page
+        hasRefreshedRef.current = true;
+        router.refresh();
+      }
+    },
+    [router]
+  );
+
+  const { isConnected } = useWorkshopEvents(
+    `/api/participant/${token}/events`,
+    handleEvent
+  );
+
   const { data } = useSWR<GroupAssignmentResponse | null>(
     `/api/participant/${token}/group`,
     fetcher,
     {
-      refreshInterval: 5000, // Poll every 5 seconds
+      // Poll every 5 seconds only while the live stream is unavailable
+      refreshInterval: isConnected ? 0 : 5000,
     }
   );
 
@@ -62,7 +83,9 @@ export function GroupAssignmentPoller({ token }: GroupAssignmentPollerProps) {
   return (
     <div className="text-sm text-muted-foreground flex items-center gap-2">
       <span className="inline-block h-2 w-2 bg-primary rounded-full animate-pulse" />
-      Checking for group assignment...
+      {isConnected
+        ? "Waiting for group assignment..."
+        : "Checking for group assignment..."}
     </div>
   );
 }
@@ -0,0 +1,64 @@
+import { Badge } from "@/components/ui/badge";
+import type {
+  AttributeSummary,
+  GroupAttributeBreakdown as Breakdown,
+} from "@/lib/utils/participant-attributes";
+
+type GroupAttributeBreakdownProps = {
+  breakdown: Breakdown[];
+};
+
+/**
+ * Describes an attribute within a group, e.g. "Sales 2 · Engineering 1" or
+ * "Average 6.5 (2–12)"
+ */
+function formatSummary(summary: AttributeSummary) {
+  if (summary.type === "categorical") {
+    return summary.counts.length > 0
+      ? summary.counts.map((c) => `${c.value} ${c.count}`).join(" · ")
+      : "—";
+  }
+  if (summary.average === null) {
+    return "—";
+  }
+  const average = `Average ${Number(summary.average.toFixed(1))}`;
+  return summary.min === summary.max
+    ? average
+    : `${average} (${summary.min}–${summary.max})`;
+}
+
+export function GroupAttributeBreakdown({
+  breakdown,
+}: GroupAttributeBreakdownProps) {
+  return (
+    <ul className="divide-y rounded-md border">
+      {breakdown.map((group) => (
+        <li key={group.groupNumber} className="p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="font-medium">Group {group.groupNumber}</span>
+            <Badge variant="secondary">
+              {group.memberCount}{" "}
+              {group.memberCount === 1 ? "member" : "members"}
+            </Badge>
+          </div>
+          <dl className="grid gap-1 text-sm sm:grid-cols-[auto_1fr] sm:gap-x-4">
+            {group.attributes.map((summary) => (
+              <div key={summary.key} className="contents">
+                <dt className="text-muted-foreground">{summary.label}</dt>
+                <dd>
+                  {formatSummary(summary)}
+                  {summary.missing > 0 && (
+                    <span className="text-muted-foreground">
+                      {" "}
+                      · {summary.missing} not answered
+                    </span>
+                  )}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </li>
+      ))}
+    </ul>
+  );
+}
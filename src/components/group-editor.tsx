@@ -0,0 +1,447 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertTriangle, ArrowRightLeft, Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  createWorkshopGroup,
+  deleteWorkshopGroup,
+  moveParticipantToGroup,
+  swapGroupMembers,
+} from "@/lib/actions/group-editor-actions";
+import type {
+  GroupEditorData,
+  GroupEditorGroup,
+  GroupEditorMember,
+} from "@/lib/db/queries/group-queries";
+import {
+  calculateFitness,
+  calculateGroupFitness,
+  findUnsatisfiedConstraints,
+} from "@/lib/utils/group-assignment";
+import { deserializeDistanceMatrix } from "@/lib/utils/distance-matrix";
+import { getCountryFlag } from "@/lib/utils/country-flag";
+import { cn } from "@/lib/utils";
+
+const UNASSIGNED = "unassigned";
+
+type GroupEditorProps = {
+  workshopId: string;
+  data: GroupEditorData;
+  readOnly?: boolean;
+};
+
+/**
+ * Returns the ID of the group containing a participant, or UNASSIGNED.
+ */
+function findGroupId(groups: GroupEditorGroup[], participantId: string) {
+  return (
+    groups.find((g) => g.members.some((m) => m.id === participantId))?.id ??
+    UNASSIGNED
+  );
+}
+
+export function GroupEditor({
+  workshopId,
+  data,
+  readOnly = false,
+}: GroupEditorProps) {
+  const router = useRouter();
+  const [groups, setGroups] = useState(data.groups);
+  const [unassigned, setUnassigned] = useState(data.unassigned);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Server data wins whenever the page re-renders (e.g. after live updates)
+  useEffect(() => {
+    setGroups(data.groups);
+    setUnassigned(data.unassigned);
+  }, [data.groups, data.unassigned]);
+
+  const distanceMatrix = useMemo(
+    () => (data.distances ? deserializeDistanceMatrix(data.distances) : null),
+    [data.distances]
+  );
+
+  const assignment = groups.map((g) => ({
+    participants: g.members.map((m) => m.id),
+  }));
+
+  const totalFitness = distanceMatrix
+    ? calculateFitness(assignment, distanceMatrix)
+    : null;
+
+  const unsatisfiedConstraints = findUnsatisfiedConstraints(
+    assignment,
+    data.constraints
+  );
+  const nameById = new Map(
+    [...groups.flatMap((g) => g.members), ...unassigned].map((m) => [
+      m.id,
+      m.name,
+    ])
+  );
+
+  const disabled = readOnly || isSaving;
+
+  async function runEdit(
+    optimistic: () => void,
+    action: () => Promise<{ success: true } | { error: string }>
+  ) {
+    const previousGroups = groups;
+    const previousUnassigned = unassigned;
+
+    setError(null);
+    setIsSaving(true);
+    setSelectedId(null);
+    optimistic();
+
+    try {
+      const result = await action();
+      if ("error" in result) {
+        setGroups(previousGroups);
+        setUnassigned(previousUnassigned);
+        setError(result.error);
+        return;
+      }
+      router.refresh();
+    } catch (_err) {
+      setGroups(previousGroups);
+      setUnassigned(previousUnassigned);
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function moveParticipant(participantId: string, targetGroupId: string) {
+    const sourceGroupId = findGroupId(groups, participantId);
+    if (sourceGroupId === targetGroupId || targetGroupId === UNASSIGNED) {
+      return;
+    }
+
+    const member =
+      sourceGroupId === UNASSIGNED
+        ? unassigned.find((m) => m.id === participantId)
+        : groups
+            .find((g) => g.id === sourceGroupId)
+            ?.members.find((m) => m.id === participantId);
+    if (!member) return;
+
+    runEdit(
+      () => {
+        setUnassigned((current) =>
+          current.filter((m) => m.id !== participantId)
+        );
+        setGroups((current) =>
+          current.map((g) => {
+            if (g.id === sourceGroupId) {
+              return {
+                ...g,
+                members: g.members.filter((m) => m.id !== participantId),
+              };
+            }
+            if (g.id === targetGroupId) {
+              return { ...g, members: [...g.members, member] };
+            }
+            return g;
+          })
+        );
+      },
+      () => moveParticipantToGroup(workshopId, participantId, targetGroupId)
+    );
+  }
+
+  function swapParticipants(participantAId: string, participantBId: string) {
+    const groupAId = findGroupId(groups, participantAId);
+    const groupBId = findGroupId(groups, participantBId);
+
+    // Unassigned participants can only be moved, not swapped
+    if (groupAId === UNASSIGNED) {
+      moveParticipant(participantAId, groupBId);
+      return;
+    }
+    if (groupBId === UNASSIGNED || groupAId === groupBId) {
+      return;
+    }
+
+    const memberA = groups
+      .find((g) => g.id === groupAId)
+      ?.members.find((m) => m.id === participantAId);
+    const memberB = groups
+      .find((g) => g.id === groupBId)
+      ?.members.find((m) => m.id === participantBId);
+    if (!memberA || !memberB) return;
+
+    runEdit(
+      () => {
+        setGroups((current) =>
+          current.map((g) => ({
+            ...g,
+            members: g.members.map((m) => {
+              if (m.id === participantAId) return memberB;
+              if (m.id === participantBId) return memberA;
+              return m;
+            }),
+          }))
+        );
+      },
+      () =>
+        swapGroupMembers(
+          workshopId,
+          participantAId,
+          participantBId,
+          data.roundNumber
+        )
+    );
+  }
+
+  function handleMemberClick(participantId: string) {
+    if (!selectedId) {
+      setSelectedId(participantId);
+      return;
+    }
+    if (selectedId === participantId) {
+      setSelectedId(null);
+      return;
+    }
+    swapParticipants(selectedId, participantId);
+  }
+
+  async function handleCreateGroup() {
+    setError(null);
+    setIsSaving(true);
+    try {
+      const result = await createWorkshopGroup(workshopId, data.roundNumber);
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+      router.refresh();
+    } catch (_err) {
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function handleDeleteGroup(groupId: string) {
+    runEdit(
+      () => {
+        setGroups((current) =>
+          current
+            .filter((g) => g.id !== groupId)
+            .map((g, index) => ({ ...g, groupNumber: index + 1 }))
+        );
+      },
+      () => deleteWorkshopGroup(workshopId, groupId)
+    );
+  }
+
+  function renderMember(member: GroupEditorMember) {
+    return (
+      <li key={member.id}>
+        <button
+          type="button"
+          draggable={!disabled}
+          disabled={disabled}
+          aria-pressed={selectedId === member.id}
+          onClick={() => handleMemberClick(member.id)}
+          onDragStart={(event) => {
+            event.dataTransfer.setData("text/plain", member.id);
+            event.dataTransfer.effectAllowed = "move";
+          }}
+          onDragOver={(event) => event.preventDefault()}
+          onDrop={(event) => {
+            event.preventDefault();
+            event.stopPropagation();
+            setDropTarget(null);
+            const draggedId = event.dataTransfer.getData("text/plain");
+            if (draggedId && draggedId !== member.id) {
+              swapParticipants(draggedId, member.id);
+            }
+          }}
+          className={cn(
+            "flex w-full items-center gap-2 rounded-md bg-muted/50 p-2 text-left text-sm",
+            !disabled && "cursor-grab hover:bg-muted",
+            selectedId === member.id && "ring-2 ring-primary"
+          )}
+        >
+          <span className="text-lg">{getCountryFlag(member.countryCode)}</span>
+          <span className="truncate">{member.name}</span>
+        </button>
+      </li>
+    );
+  }
+
+  function dropZoneProps(groupId: string) {
+    return {
+      onDragOver: (event: React.DragEvent) => {
+        if (disabled) return;
+        event.preventDefault();
+        setDropTarget(groupId);
+      },
+      onDragLeave: () => setDropTarget(null),
+      onDrop: (event: React.DragEvent) => {
+        event.preventDefault();
+        setDropTarget(null);
+        const draggedId = event.dataTransfer.getData("text/plain");
+        if (draggedId) {
+          moveParticipant(draggedId, groupId);
+        }
+      },
+    };
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="text-sm">
+          <span className="font-medium">Total diversity score: </span>
+          {totalFitness === null ? (
+            <span className="text-muted-foreground">
+              Unavailable (missing cultural data)
+            </span>
+          ) : (
+            <span className="font-mono">{totalFitness.toFixed(3)}</span>
+          )}
+        </div>
+        {!readOnly && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCreateGroup}
+            disabled={disabled}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Group
+          </Button>
+        )}
+      </div>
+
+      {!readOnly && (
+        <p className="text-sm text-muted-foreground">
+          Drag a participant onto a group to move them, or onto another
+          participant to swap. You can also select two participants to swap
+          them, or select one and use &quot;Move here&quot;.
+        </p>
+      )}
+
+      {error && (
+        <div className="text-sm font-medium text-destructive">{error}</div>
+      )}
+
+      {unsatisfiedConstraints.length > 0 && (
+        <div className="p-4 bg-yellow-50 dark:bg-yellow-950 border border-yellow-200 dark:border-yellow-800 rounded-md space-y-2">
+          <p className="flex items-center gap-2 text-sm font-medium text-yellow-800 dark:text-yellow-200">
+            <AlertTriangle className="h-4 w-4" />
+            {unsatisfiedConstraints.length === 1
+              ? "1 constraint is not satisfied"
+              : `${unsatisfiedConstraints.length} constraints are not satisfied`}
+          </p>
+          <ul className="list-disc pl-6 text-sm text-yellow-800 dark:text-yellow-200">
+            {unsatisfiedConstraints.map((constraint) => (
+              <li
+                key={`${constraint.participantAId}-${constraint.participantBId}`}
+              >
+                {nameById.get(constraint.participantAId) ?? "Unknown"}{" "}
+                {constraint.type === "must_link"
+                  ? "should be with"
+                  : "should not be with"}{" "}
+                {nameById.get(constraint.participantBId) ?? "Unknown"}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        {groups.map((group) => {
+          const groupFitness = distanceMatrix
+            ? calculateGroupFitness(
+                group.members.map((m) => m.id),
+                distanceMatrix
+              )
+            : null;
+
+          return (
+            <Card
+              key={group.id}
+              {...dropZoneProps(group.id)}
+              className={cn(dropTarget === group.id && "ring-2 ring-primary")}
+            >
+              <CardHeader className="space-y-2 pb-3">
+                <div className="flex items-center justify-between gap-2">
+                  <CardTitle className="text-base">
+                    Group {group.groupNumber}
+                  </CardTitle>
+                  <Badge variant="secondary">
+                    {group.members.length}{" "}
+                    {group.members.length === 1 ? "member" : "members"}
+                  </Badge>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Diversity:{" "}
+                  <span className="font-mono">
+                    {groupFitness === null ? "—" : groupFitness.toFixed(3)}
+                  </span>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <ul className="space-y-2">{group.members.map(renderMember)}</ul>
+                {group.members.length === 0 && (
+                  <p className="text-sm text-muted-foreground">Empty group</p>
+                )}
+                {!readOnly && (
+                  <div className="flex gap-2 pt-2">
+                    {selectedId &&
+                      findGroupId(groups, selectedId) !== group.id && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={disabled}
+                          onClick={() => moveParticipant(selectedId, group.id)}
+                        >
+                          <ArrowRightLeft className="mr-2 h-4 w-4" />
+                          Move here
+                        </Button>
+                      )}
+                    {group.members.length === 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={disabled}
+                        onClick={() => handleDeleteGroup(group.id)}
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Delete
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {unassigned.length > 0 && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Unassigned</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+              {unassigned.map(renderMember)}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { Badge } from "@/components/ui/badge";
+import type { GroupQualityReport as Report } from "@/lib/utils/group-quality";
+
+type GroupQualityReportProps = {
+  report: Report;
+};
+
+/**
+ * Formats a distance for display, or a dash if it cannot be computed
+ */
+function formatDistance(distance: number | null) {
+  return distance === null ? "—" : distance.toFixed(3);
+}
+
+/**
+ * Relative difference to the random baseline, e.g. "+24% vs. random"
+ */
+function formatBaselineDifference(
+  value: number | null,
+  baseline: number | null
+) {
+  if (value === null || !baseline) {
+    return null;
+  }
+  const difference = Math.round(((value - baseline) / baseline) * 100);
+  return `${difference >= 0 ? "+" : ""}${difference}% vs. random`;
+}
+
+export function GroupQualityReport({ report }: GroupQualityReportProps) {
+  const summary = [
+    {
+      label: "Average distance",
+      value: formatDistance(report.averageDistance),
+      detail: formatBaselineDifference(
+        report.averageDistance,
+        report.baselineDistance
+      ),
+    },
+    {
+      label: "Random assignment",
+      value: formatDistance(report.baselineDistance),
+      detail: "Expected average distance",
+    },
+    {
+      label: "Closest pair",
+      value: formatDistance(report.minDistance),
+      detail: `Maximum possible: ${report.maxPossibleDistance.toFixed(3)}`,
+    },
+    {
+      label: "Fitness",
+      value: report.fitness.toFixed(3),
+      detail: `Random: ${report.baselineFitness.toFixed(3)}`,
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {summary.map((item) => (
+          <div key={item.label} className="rounded-md border p-3 space-y-1">
+            <p className="text-xs text-muted-foreground">{item.label}</p>
+            <p className="font-mono text-lg">{item.value}</p>
+            {item.detail && (
+              <p className="text-xs text-muted-foreground">{item.detail}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <ul className="divide-y rounded-md border">
+        {report.groups.map((group) => (
+          <li key={group.groupNumber} className="p-3 space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">Group {group.groupNumber}</span>
+                <Badge variant="secondary">
+                  {group.memberCount}{" "}
+                  {group.memberCount === 1 ? "member" : "members"}
+                </Badge>
+              </div>
+              <div className="text-xs text-muted-foreground space-x-3">
+                <span>
+                  Average:{" "}
+                  <span className="font-mono">
+                    {formatDistance(group.averageDistance)}
+                  </span>
+                </span>
+                <span>
+                  Closest pair:{" "}
+                  <span className="font-mono">
+                    {formatDistance(group.minDistance)}
+                  </span>
+                </span>
+              </div>
+            </div>
+            {group.topDimensions.length > 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Members differ most in{" "}
+                {group.topDimensions
+                  .map((d) => `${d.label} (${Math.round(d.share * 100)}%)`)
+                  .join(", ")}
+                .
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Not enough members with cultural data to compare.
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Eye, Layers } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { GroupingJobProgress } from "@/components/grouping-job-progress";
+import { useGroupingJob } from "@/hooks/use-grouping-job";
+import { cn } from "@/lib/utils";
+import {
+  cancelGroupingJob,
+  commitGroupingCandidate,
+  discardGroupingCandidates,
+  generateGroupingCandidates,
+} from "@/lib/actions/grouping-actions";
+import {
+  formatGroupingAlgorithm,
+  type AlgorithmParameters,
+  type GroupingAlgorithm,
+} from "@/lib/utils/grouping-algorithm";
+
+type GroupingCandidate = {
+  id: string;
+  candidateNumber: number;
+  algorithm: GroupingAlgorithm;
+  parameters: AlgorithmParameters;
+  diversity: number;
+  repeatPairings: number;
+  unsatisfiedConstraints: number;
+  groupCount: number;
+  smallestGroup: number;
+  largestGroup: number;
+};
+
+type GroupingCandidatesProps = {
+  workshopId: string;
+  candidates: GroupingCandidate[];
+  // Whether committing replaces groups that already exist
+  hasGroups: boolean;
+  roundCount: number;
+  // Candidate currently previewed on the network graph
+  previewId?: string;
+  readOnly?: boolean;
+};
+
+export function GroupingCandidates({
+  workshopId,
+  candidates,
+  hasGroups,
+  roundCount,
+  previewId,
+  readOnly = false,
+}: GroupingCandidatesProps) {
+  const router = useRouter();
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [commitTarget, setCommitTarget] = useState<GroupingCandidate | null>(
+    null
+  );
+  const { job, mutate } = useGroupingJob(workshopId, "candidates");
+
+  // Group generation blocks candidates too, but shows its progress with the
+  // groups
+  const candidateJob = job?.kind === "candidates" ? job : null;
+  const isRunning = job?.status === "running";
+  const isGenerating = candidateJob?.status === "running";
+
+  // Highest diversity among the candidates, to highlight the best
+  const bestDiversity = Math.max(...candidates.map((c) => c.diversity));
+
+  async function runAction(
+    action: () => Promise<{ success: true } | { error: string }>
+  ) {
+    setIsPending(true);
+    setError(null);
+
+    const result = await action();
+
+    setIsPending(false);
+    if ("error" in result) {
+      setError(result.error);
+      return false;
+    }
+    router.refresh();
+    return true;
+  }
+
+  async function handleGenerate() {
+    setIsPending(true);
+    setError(null);
+
+    const result = await generateGroupingCandidates(workshopId);
+
+    setIsPending(false);
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+    await mutate();
+  }
+
+  async function handleCancel() {
+    if (!candidateJob) return;
+    setIsPending(true);
+    setError(null);
+
+    const result = await cancelGroupingJob(workshopId, candidateJob.id);
+
+    setIsPending(false);
+    if ("error" in result) {
+      setError(result.error);
+    }
+    await mutate();
+  }
+
+  async function handleCommitConfirm() {
+    if (!commitTarget) return;
+    const committed = await runAction(() =>
+      commitGroupingCandidate(workshopId, commitTarget.id)
+    );
+    if (committed) {
+      setCommitTarget(null);
+      router.push(`/dashboard/workshop/${workshopId}`);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {!readOnly && (
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={handleGenerate}
+            disabled={isPending || isRunning}
+          >
+            <Layers
+              className={cn("mr-2 h-4 w-4", isGenerating && "animate-pulse")}
+            />
+            {isGenerating
+              ? "Generating Candidates..."
+              : candidates.length > 0
+                ? "Regenerate Candidates"
+                : "Generate Candidates"}
+          </Button>
+          {isGenerating && (
+            <Button
+              variant="outline"
+              onClick={handleCancel}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+          )}
+          {previewId && (
+            <Button variant="ghost" asChild>
+              <Link href={`/dashboard/workshop/${workshopId}`}>
+                Stop Preview
+              </Link>
+            </Button>
+          )}
+          {candidates.length > 0 && (
+            <Button
+              variant="ghost"
+              onClick={() =>
+                runAction(() => discardGroupingCandidates(workshopId))
+              }
+              disabled={isPending}
+            >
+              Discard Candidates
+            </Button>
+          )}
+        </div>
+      )}
+
+      {isGenerating && <GroupingJobProgress progress={candidateJob.progress} />}
+      {candidateJob?.status === "cancelled" && !error && (
+        <p className="text-sm text-muted-foreground">
+          Candidate generation was cancelled.
+        </p>
+      )}
+      {candidateJob?.status === "failed" && !error && (
+        <div className="text-sm font-medium text-destructive">
+          {candidateJob.error}
+        </div>
+      )}
+      {error && (
+        <div className="text-sm font-medium text-destructive">{error}</div>
+      )}
+
+      {candidates.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No candidates yet. Generate several groupings to compare them before
+          committing one.
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-md border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50 text-left text-xs text-muted-foreground">
+              <tr>
+                <th className="p-2 font-medium">Candidate</th>
+                <th className="p-2 font-medium">Diversity</th>
+                <th className="p-2 font-medium">Group sizes</th>
+                {roundCount > 1 && (
+                  <th className="p-2 font-medium">Repeat pairings</th>
+                )}
+                <th className="p-2 font-medium">Constraint violations</th>
+                <th className="p-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {candidates.map((candidate) => (
+                <tr
+                  key={candidate.id}
+                  className={
+                    candidate.id === previewId ? "bg-muted/30" : undefined
+                  }
+                >
+                  <td className="p-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">
+                        #{candidate.candidateNumber}
+                      </span>
+                      <Badge variant="outline">
+                        {formatGroupingAlgorithm(
+                          candidate.algorithm,
+                          candidate.parameters
+                        )}
+                      </Badge>
+                      {candidate.diversity === bestDiversity && (
+                        <Badge variant="secondary">Most diverse</Badge>
+                      )}
+                    </div>
+                  </td>
+                  <td className="p-2 font-mono">
+                    {candidate.diversity.toFixed(3)}
+                  </td>
+                  <td className="p-2">
+                    {candidate.groupCount} groups of{" "}
+                    {candidate.smallestGroup === candidate.largestGroup
+                      ? candidate.smallestGroup
+                      : `${candidate.smallestGroup}–${candidate.largestGroup}`}
+                  </td>
+                  {roundCount > 1 && (
+                    <td className="p-2">{candidate.repeatPairings}</td>
+                  )}
+                  <td className="p-2">{candidate.unsatisfiedConstraints}</td>
+                  <td className="p-2">
+                    <div className="flex justify-end gap-2">
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link
+                          href={`/dashboard/workshop/${workshopId}?candidate=${candidate.id}`}
+                        >
+                          <Eye className="mr-2 h-4 w-4" />
+                          Preview
+                        </Link>
+                      </Button>
+                      {!readOnly && (
+                        <Button
+                          size="sm"
+                          onClick={() => setCommitTarget(candidate)}
+                          disabled={isPending || isRunning}
+                        >
+                          Commit
+                        </Button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Dialog
+        open={commitTarget !== null}
+        onOpenChange={(open) => {
+          if (!open && !isPending) {
+            setCommitTarget(null);
+            setError(null);
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Commit Candidate #{commitTarget?.candidateNumber}
+            </DialogTitle>
+            <DialogDescription>
+              {hasGroups
+                ? "The current groups are replaced by this candidate and the other candidates are discarded."
+                : "The workshop's groups are created from this candidate and the other candidates are discarded."}
+            </DialogDescription>
+          </DialogHeader>
+          {error && (
+            <div className="text-sm font-medium text-destructive">{error}</div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setCommitTarget(null)}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleCommitConfirm} disabled={isPending}>
+              {isPending ? "Committing..." : "Commit Groups"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
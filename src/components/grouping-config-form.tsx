@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -15,17 +16,142 @@ import {
 } from "@/components/ui/form";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { DistanceWeightsField } from "@/components/distance-weights-field";
+import { GroupingConstraintsField } from "@/components/grouping-constraints-field";
+import { saveGroupingConfig } from "@/lib/actions/grouping-actions";
 import {
-  saveGroupingConfig,
-  type GroupSize,
-} from "@/lib/actions/grouping-actions";
-import type { Framework } from "@/types/cultural";
+  MAX_ROUND_COUNT,
+  type GroupingConstraint,
+} from "@/lib/utils/group-assignment";
+import type { PendingConstraint } from "@/lib/utils/pending-constraints";
+import {
+  DEFAULT_GROUP_SIZING,
+  MAX_GROUP_COUNT,
+  MAX_GROUP_SIZE,
+  MIN_GROUP_SIZE,
+  type GroupSizing,
+} from "@/lib/utils/group-sizing";
+import {
+  DEFAULT_TARGET_BAND,
+  type GroupingObjective,
+} from "@/lib/utils/grouping-objective";
+import type { DistanceWeights } from "@/lib/utils/distance-weights";
+import {
+  DEFAULT_DISTANCE_METRIC,
+  DISTANCE_METRICS,
+  formatDistanceMetric,
+  type DistanceMetric,
+} from "@/lib/utils/distance-metrics";
+import {
+  ALGORITHM_PARAMETER_LIMITS,
+  DEFAULT_ALGORITHM_PARAMETERS,
+  DEFAULT_GROUPING_ALGORITHM,
+  GROUPING_ALGORITHMS,
+  formatGroupingAlgorithm,
+  type AlgorithmParameters,
+  type GroupingAlgorithm,
+} from "@/lib/utils/grouping-algorithm";
+import {
+  DEFAULT_PERSONAL_SCORE_WEIGHT,
+  DEFAULT_SCORE_SOURCE,
+  type ScoreSource,
+} from "@/lib/utils/score-source";
+import {
+  isCustomFramework,
+  type CustomFrameworkId,
+  type Framework,
+  type FrameworkDimension,
+} from "@/types/cultural";
 
-const configSchema = z.object({
-  framework: z.enum(["lewis", "hall", "hofstede", "combined"]),
-  groupSize: z.union([z.literal(3), z.literal(4), z.null()]),
-});
+const DEFAULT_GROUP_COUNT = 4;
+
+const DISTANCE_METRIC_DESCRIPTIONS: Record<DistanceMetric, string> = {
+  euclidean: "Straight-line distance between score profiles (default)",
+  manhattan: "Sum of absolute differences per dimension",
+  cosine: "Compares the shape of profiles rather than their magnitude",
+  mahalanobis:
+    "Accounts for correlated dimensions across all countries in the database",
+  kogut_singh:
+    "Squared differences scaled by each dimension's variance across countries",
+};
+
+const GROUPING_ALGORITHM_DESCRIPTIONS: Record<GroupingAlgorithm, string> = {
+  genetic: "Evolves a population of groupings (default)",
+  greedy: "Builds groups one at a time; fastest, but rarely optimal",
+  local_search:
+    "Greedy groups improved by swapping participants (Kernighan–Lin)",
+  annealing:
+    "Random swaps that may temporarily worsen groups to escape local optima; scales to large workshops",
+};
+
+const configSchema = z
+  .object({
+    framework: z.custom<Framework>(
+      (value) =>
+        typeof value === "string" &&
+        (["lewis", "hall", "hofstede", "combined"].includes(value) ||
+          isCustomFramework(value)),
+      "Select a framework"
+    ),
+    sizingMode: z.enum(["size", "count"]),
+    minGroupSize: z.number().int().min(MIN_GROUP_SIZE).max(MAX_GROUP_SIZE),
+    maxGroupSize: z.number().int().min(MIN_GROUP_SIZE).max(MAX_GROUP_SIZE),
+    groupCount: z.number().int().min(1).max(MAX_GROUP_COUNT),
+    objective: z.enum(["maximize", "minimize", "target"]),
+    targetMinPercent: z.number().int().min(0).max(100),
+    targetMaxPercent: z.number().int().min(0).max(100),
+    metric: z.enum(DISTANCE_METRICS as [DistanceMetric, ...DistanceMetric[]]),
+    scoreSource: z.enum(["country", "personal", "blend"]),
+    personalScoreWeight: z.number().int().min(0).max(100),
+    weights: z.custom<DistanceWeights>(),
+    roundCount: z.number().int().min(1).max(MAX_ROUND_COUNT),
+    algorithm: z.enum(
+      GROUPING_ALGORITHMS as [GroupingAlgorithm, ...GroupingAlgorithm[]]
+    ),
+    populationSize: z
+      .number()
+      .int()
+      .min(ALGORITHM_PARAMETER_LIMITS.populationSize.min)
+      .max(ALGORITHM_PARAMETER_LIMITS.populationSize.max),
+    generations: z
+      .number()
+      .int()
+      .min(ALGORITHM_PARAMETER_LIMITS.generations.min)
+      .max(ALGORITHM_PARAMETER_LIMITS.generations.max),
+    timeoutMs: z
+      .number()
+      .int()
+      .min(ALGORITHM_PARAMETER_LIMITS.timeoutMs.min)
+      .max(ALGORITHM_PARAMETER_LIMITS.timeoutMs.max),
+    iterations: z
+      .number()
+      .int()
+      .min(ALGORITHM_PARAMETER_LIMITS.iterations.min)
+      .max(ALGORITHM_PARAMETER_LIMITS.iterations.max),
+    initialTemperature: z
+      .number()
+      .min(ALGORITHM_PARAMETER_LIMITS.initialTemperature.min)
+      .max(ALGORITHM_PARAMETER_LIMITS.initialTemperature.max),
+    localSearch: z.boolean(),
+    constraints: z.array(
+      z.object({
+        type: z.enum(["must_link", "cannot_link"]),
+        participantAId: z.string().uuid(),
+        participantBId: z.string().uuid(),
+      })
+    ),
+  })
+  .refine((data) => data.minGroupSize <= data.maxGroupSize, {
+    message: "Minimum cannot exceed maximum",
+    path: ["maxGroupSize"],
+  })
+  .refine((data) => data.targetMinPercent <= data.targetMaxPercent, {
+    message: "Minimum cannot exceed maximum",
+    path: ["targetMaxPercent"],
+  });
 
 type ConfigFormData = z.infer<typeof configSchema>;
 
@@ -33,36 +159,140 @@ type GroupingConfigFormProps = {
   workshopId: string;
   currentConfig?: {
     framework?: Framework | null;
-    groupSize?: GroupSize;
+    sizing?: GroupSizing | null;
+    objective?: GroupingObjective;
+    metric?: DistanceMetric;
+    scoreSource?: ScoreSource;
+    personalScoreWeight?: number;
+    weights?: DistanceWeights | null;
+    roundCount?: number;
+    algorithm?: GroupingAlgorithm;
+    algorithmParameters?: AlgorithmParameters | null;
+    constraints?: GroupingConstraint[];
+    pendingConstraints?: PendingConstraint[] | null;
   };
+  participants?: Array<{ id: string; name: string }>;
+  // Participants who answered the self-assessment questionnaire
+  selfAssessedCount?: number;
+  customFrameworks?: Array<{
+    frameworkId: CustomFrameworkId;
+    name: string;
+    dimensionCount: number;
+    dimensions: FrameworkDimension[];
+  }>;
   disabled?: boolean;
 };
 
 export function GroupingConfigForm({
   workshopId,
   currentConfig,
+  participants = [],
+  selfAssessedCount = 0,
+  customFrameworks = [],
   disabled = false,
 }: GroupingConfigFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
 
+  const currentSizing = currentConfig?.sizing ?? DEFAULT_GROUP_SIZING;
+  const currentObjective = currentConfig?.objective;
+  const currentTargetBand =
+    currentObjective?.type === "target"
+      ? currentObjective
+      : DEFAULT_TARGET_BAND;
+  const currentParameters = {
+    ...DEFAULT_ALGORITHM_PARAMETERS,
+    ...currentConfig?.algorithmParameters,
+  };
+
   const form = useForm<ConfigFormData>({
     resolver: zodResolver(configSchema),
     defaultValues: {
-      framework:
-        (currentConfig?.framework as Framework | undefined) || "combined",
-      groupSize: currentConfig?.groupSize ?? null,
+      framework: currentConfig?.framework || "combined",
+      sizingMode: currentSizing.mode,
+      minGroupSize:
+        currentSizing.mode === "size"
+          ? currentSizing.minSize
+          : DEFAULT_GROUP_SIZING.minSize,
+      maxGroupSize:
+        currentSizing.mode === "size"
+          ? currentSizing.maxSize
+          : DEFAULT_GROUP_SIZING.maxSize,
+      groupCount:
+        currentSizing.mode === "count"
+          ? currentSizing.groupCount
+          : DEFAULT_GROUP_COUNT,
+      objective: currentObjective?.type ?? "maximize",
+      targetMinPercent: currentTargetBand.minPercent,
+      targetMaxPercent: currentTargetBand.maxPercent,
+      metric: currentConfig?.metric ?? DEFAULT_DISTANCE_METRIC,
+      scoreSource: currentConfig?.scoreSource ?? DEFAULT_SCORE_SOURCE,
+      personalScoreWeight:
+        currentConfig?.personalScoreWeight ?? DEFAULT_PERSONAL_SCORE_WEIGHT,
+      weights: currentConfig?.weights ?? {},
+      roundCount: currentConfig?.roundCount ?? 1,
+      algorithm: currentConfig?.algorithm ?? DEFAULT_GROUPING_ALGORITHM,
+      populationSize: currentParameters.populationSize,
+      generations: currentParameters.generations,
+      timeoutMs: currentParameters.timeoutMs,
+      iterations: currentParameters.iterations,
+      initialTemperature: currentParameters.initialTemperature,
+      localSearch: currentParameters.localSearch,
+      constraints: currentConfig?.constraints ?? [],
     },
   });
 
+  const sizingMode = form.watch("sizingMode");
+  const objectiveType = form.watch("objective");
+  const selectedFramework = form.watch("framework");
+  const scoreSource = form.watch("scoreSource");
+  const algorithm = form.watch("algorithm");
+
   async function onSubmit(data: ConfigFormData) {
     setIsSubmitting(true);
     setError(null);
     setSuccess(false);
 
+    const sizing: GroupSizing =
+      data.sizingMode === "count"
+        ? { mode: "count", groupCount: data.groupCount }
+        : {
+            mode: "size",
+            minSize: data.minGroupSize,
+            maxSize: data.maxGroupSize,
+          };
+
+    const objective: GroupingObjective =
+      data.objective === "target"
+        ? {
+            type: "target",
+            minPercent: data.targetMinPercent,
+            maxPercent: data.targetMaxPercent,
+          }
+        : { type: data.objective };
+
     try {
-      const result = await saveGroupingConfig(workshopId, data);
+      const result = await saveGroupingConfig(workshopId, {
+        framework: data.framework,
+        sizing,
+        objective,
+        metric: data.metric,
+        weights: data.weights,
+        scoreSource: data.scoreSource,
+        personalScoreWeight: data.personalScoreWeight,
+        roundCount: data.roundCount,
+        algorithm: data.algorithm,
+        algorithmParameters: {
+          populationSize: data.populationSize,
+          generations: data.generations,
+          timeoutMs: data.timeoutMs,
+          iterations: data.iterations,
+          initialTemperature: data.initialTemperature,
+          localSearch: data.localSearch,
+        },
+        constraints: data.constraints,
+      });
 
       if ("error" in result) {
         setError(result.error);
@@ -90,7 +320,14 @@ export function GroupingConfigForm({
               <FormDescription>
                 Choose which cultural framework to use for grouping
                 participants. Each framework emphasizes different cultural
-                dimensions.
+                dimensions. Custom frameworks can be defined under{" "}
+                <Link
+                  href="/dashboard/frameworks"
+                  className="underline underline-offset-4"
+                >
+                  Frameworks
+                </Link>
+                .
               </FormDescription>
               <FormControl>
                 <RadioGroup
@@ -126,13 +363,33 @@ export function GroupingConfigForm({
                       Hofstede Framework
                     </Label>
                   </div>
+                  {customFrameworks.map((framework) => (
+                    <div
+                      key={framework.frameworkId}
+                      className="flex items-center space-x-2"
+                    >
+                      <RadioGroupItem
+                        value={framework.frameworkId}
+                        id={framework.frameworkId}
+                      />
+                      <Label
+                        htmlFor={framework.frameworkId}
+                        className="font-normal cursor-pointer"
+                      >
+                        {framework.name}{" "}
+                        <span className="text-muted-foreground">
+                          (custom, {framework.dimensionCount} dimensions)
+                        </span>
+                      </Label>
+                    </div>
+                  ))}
                   <div className="flex items-center space-x-2">
                     <RadioGroupItem value="combined" id="combined" />
                     <Label
                       htmlFor="combined"
                       className="font-normal cursor-pointer"
                     >
-                      Combined (All Frameworks)
+                      Combined (Lewis, Hall and Hofstede)
                     </Label>
                   </div>
                 </RadioGroup>
@@ -144,50 +401,247 @@ export function GroupingConfigForm({
 
         <FormField
           control={form.control}
-          name="groupSize"
+          name="scoreSource"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Participant Scores</FormLabel>
+              <FormDescription>
+                Participants can describe their own working style when joining.{" "}
+                {selfAssessedCount} of {participants.length} participants did.
+                Those who skipped the questionnaire are always scored by
+                country.
+              </FormDescription>
+              <FormControl>
+                <RadioGroup
+                  onValueChange={field.onChange}
+                  value={field.value}
+                  disabled={disabled}
+                  className="space-y-3"
+                >
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="country" id="score-source-country" />
+                    <Label
+                      htmlFor="score-source-country"
+                      className="font-normal cursor-pointer"
+                    >
+                      Country scores
+                    </Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem
+                      value="personal"
+                      id="score-source-personal"
+                    />
+                    <Label
+                      htmlFor="score-source-personal"
+                      className="font-normal cursor-pointer"
+                    >
+                      Personal scores (self-assessment)
+                    </Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="blend" id="score-source-blend" />
+                    <Label
+                      htmlFor="score-source-blend"
+                      className="font-normal cursor-pointer"
+                    >
+                      Blend of country and personal scores
+                    </Label>
+                  </div>
+                </RadioGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {scoreSource === "blend" && (
+          <FormField
+            control={form.control}
+            name="personalScoreWeight"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Personal share (%)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    disabled={disabled}
+                    {...field}
+                    onChange={(event) =>
+                      field.onChange(event.target.valueAsNumber)
+                    }
+                  />
+                </FormControl>
+                <FormDescription>
+                  Weight of the self-assessment in each Lewis, Hall and Hofstede
+                  score; the rest comes from the country. Custom frameworks
+                  always use country scores.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="sizingMode"
           render={({ field }) => (
             <FormItem>
               <FormLabel>Group Size</FormLabel>
               <FormDescription>
-                Select the desired number of participants per group. Flexible
-                option prefers 4 participants but allows 3 when needed.
+                Set a range of participants per group, or a fixed number of
+                groups (e.g. one per table). Group sizes are balanced so they
+                differ by at most one.
               </FormDescription>
               <FormControl>
                 <RadioGroup
-                  onValueChange={(value) =>
-                    field.onChange(
-                      value === "flexible" ? null : Number.parseInt(value, 10)
-                    )
-                  }
-                  value={field.value?.toString() ?? "flexible"}
+                  onValueChange={field.onChange}
+                  value={field.value}
+                  disabled={disabled}
+                  className="space-y-3"
+                >
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="size" id="sizing-size" />
+                    <Label
+                      htmlFor="sizing-size"
+                      className="font-normal cursor-pointer"
+                    >
+                      Participants per group
+                    </Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="count" id="sizing-count" />
+                    <Label
+                      htmlFor="sizing-count"
+                      className="font-normal cursor-pointer"
+                    >
+                      Fixed number of groups
+                    </Label>
+                  </div>
+                </RadioGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {sizingMode === "size" ? (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="minGroupSize"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Minimum</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={MIN_GROUP_SIZE}
+                      max={MAX_GROUP_SIZE}
+                      disabled={disabled}
+                      {...field}
+                      onChange={(event) =>
+                        field.onChange(event.target.valueAsNumber)
+                      }
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="maxGroupSize"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Maximum</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={MIN_GROUP_SIZE}
+                      max={MAX_GROUP_SIZE}
+                      disabled={disabled}
+                      {...field}
+                      onChange={(event) =>
+                        field.onChange(event.target.valueAsNumber)
+                      }
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        ) : (
+          <FormField
+            control={form.control}
+            name="groupCount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Number of Groups</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={MAX_GROUP_COUNT}
+                    disabled={disabled}
+                    {...field}
+                    onChange={(event) =>
+                      field.onChange(event.target.valueAsNumber)
+                    }
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="objective"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Grouping Objective</FormLabel>
+              <FormDescription>
+                Choose whether groups should mix cultures, bring similar
+                cultures together, or keep cultural distances within a band.
+              </FormDescription>
+              <FormControl>
+                <RadioGroup
+                  onValueChange={field.onChange}
+                  value={field.value}
                   disabled={disabled}
                   className="space-y-3"
                 >
                   <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="3" id="size3" />
+                    <RadioGroupItem value="maximize" id="objective-maximize" />
                     <Label
-                      htmlFor="size3"
+                      htmlFor="objective-maximize"
                       className="font-normal cursor-pointer"
                     >
-                      3 participants
+                      Maximize diversity
                     </Label>
                   </div>
                   <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="4" id="size4" />
+                    <RadioGroupItem value="minimize" id="objective-minimize" />
                     <Label
-                      htmlFor="size4"
+                      htmlFor="objective-minimize"
                       className="font-normal cursor-pointer"
                     >
-                      4 participants
+                      Similar cultures (minimize distance)
                     </Label>
                   </div>
                   <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="flexible" id="flexible" />
+                    <RadioGroupItem value="target" id="objective-target" />
                     <Label
-                      htmlFor="flexible"
+                      htmlFor="objective-target"
                       className="font-normal cursor-pointer"
                     >
-                      Flexible (3-4 participants)
+                      Target distance range
                     </Label>
                   </div>
                 </RadioGroup>
@@ -197,6 +651,382 @@ export function GroupingConfigForm({
           )}
         />
 
+        {objectiveType === "target" && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="targetMinPercent"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Minimum distance (%)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      disabled={disabled}
+                      {...field}
+                      onChange={(event) =>
+                        field.onChange(event.target.valueAsNumber)
+                      }
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="targetMaxPercent"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Maximum distance (%)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      disabled={disabled}
+                      {...field}
+                      onChange={(event) =>
+                        field.onChange(event.target.valueAsNumber)
+                      }
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Percent of the largest possible cultural distance in the
+                    selected framework.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        <FormField
+          control={form.control}
+          name="metric"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Distance Metric</FormLabel>
+              <FormDescription>
+                How differences on each dimension are combined into one cultural
+                distance.
+              </FormDescription>
+              <FormControl>
+                <RadioGroup
+                  onValueChange={field.onChange}
+                  value={field.value}
+                  disabled={disabled}
+                  className="space-y-3"
+                >
+                  {DISTANCE_METRICS.map((metric) => (
+                    <div key={metric} className="flex items-start space-x-2">
+                      <RadioGroupItem
+                        value={metric}
+                        id={`metric-${metric}`}
+                        className="mt-1"
+                      />
+                      <Label
+                        htmlFor={`metric-${metric}`}
+                        className="font-normal cursor-pointer"
+                      >
+                        <span>
+                          {formatDistanceMetric(metric)}{" "}
+                          <span className="text-muted-foreground">
+                            – {DISTANCE_METRIC_DESCRIPTIONS[metric]}
+                          </span>
+                        </span>
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="weights"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Weights (optional)</FormLabel>
+              <FormDescription>
+                Emphasize the dimensions that matter most for this workshop,
+                e.g. power distance for a leadership training. A weight of 2
+                counts twice as much as 1; 0 ignores a dimension.
+              </FormDescription>
+              <FormControl>
+                <DistanceWeightsField
+                  framework={selectedFramework}
+                  customDimensions={
+                    customFrameworks.find(
+                      (f) => f.frameworkId === selectedFramework
+                    )?.dimensions
+                  }
+                  value={field.value}
+                  onChange={field.onChange}
+                  disabled={disabled}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="roundCount"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Number of Rounds</FormLabel>
+              <FormDescription>
+                Generate several breakout rounds. Each round stays culturally
+                diverse while participants meet as many new people as possible.
+              </FormDescription>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_ROUND_COUNT}
+                  disabled={disabled}
+                  className="w-32"
+                  {...field}
+                  onChange={(event) =>
+                    field.onChange(event.target.valueAsNumber)
+                  }
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="algorithm"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Grouping Algorithm</FormLabel>
+              <FormDescription>
+                How groups are searched for. The algorithm and its settings are
+                recorded with the generated groups.
+              </FormDescription>
+              <FormControl>
+                <RadioGroup
+                  onValueChange={field.onChange}
+                  value={field.value}
+                  disabled={disabled}
+                  className="space-y-3"
+                >
+                  {GROUPING_ALGORITHMS.map((option) => (
+                    <div key={option} className="flex items-start space-x-2">
+                      <RadioGroupItem
+                        value={option}
+                        id={`algorithm-${option}`}
+                        className="mt-1"
+                      />
+                      <Label
+                        htmlFor={`algorithm-${option}`}
+                        className="font-normal cursor-pointer"
+                      >
+                        <span>
+                          {formatGroupingAlgorithm(option)}{" "}
+                          <span className="text-muted-foreground">
+                            – {GROUPING_ALGORITHM_DESCRIPTIONS[option]}
+                          </span>
+                        </span>
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {algorithm === "genetic" && (
+          <div className="grid gap-4 sm:grid-cols-3">
+            <FormField
+              control={form.control}
+              name="populationSize"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Population size</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={ALGORITHM_PARAMETER_LIMITS.populationSize.min}
+                      max={ALGORITHM_PARAMETER_LIMITS.populationSize.max}
+                      disabled={disabled}
+                      {...field}
+                      onChange={(event) =>
+                        field.onChange(event.target.valueAsNumber)
+                      }
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="generations"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Generations</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={ALGORITHM_PARAMETER_LIMITS.generations.min}
+                      max={ALGORITHM_PARAMETER_LIMITS.generations.max}
+                      disabled={disabled}
+                      {...field}
+                      onChange={(event) =>
+                        field.onChange(event.target.valueAsNumber)
+                      }
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="timeoutMs"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Time limit (ms)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={ALGORITHM_PARAMETER_LIMITS.timeoutMs.min}
+                      max={ALGORITHM_PARAMETER_LIMITS.timeoutMs.max}
+                      disabled={disabled}
+                      {...field}
+                      onChange={(event) =>
+                        field.onChange(event.target.valueAsNumber)
+                      }
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Stops early with the best grouping so far.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        {algorithm === "annealing" && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="iterations"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Iterations</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={ALGORITHM_PARAMETER_LIMITS.iterations.min}
+                      max={ALGORITHM_PARAMETER_LIMITS.iterations.max}
+                      disabled={disabled}
+                      {...field}
+                      onChange={(event) =>
+                        field.onChange(event.target.valueAsNumber)
+                      }
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="initialTemperature"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Initial temperature</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={ALGORITHM_PARAMETER_LIMITS.initialTemperature.min}
+                      max={ALGORITHM_PARAMETER_LIMITS.initialTemperature.max}
+                      step={0.05}
+                      disabled={disabled}
+                      {...field}
+                      onChange={(event) =>
+                        field.onChange(event.target.valueAsNumber)
+                      }
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Relative to the average distance; higher values explore more
+                    before settling.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        {algorithm !== "local_search" && (
+          <FormField
+            control={form.control}
+            name="localSearch"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between gap-4 rounded-md border p-3">
+                <div className="space-y-1">
+                  <FormLabel>Local search polish</FormLabel>
+                  <FormDescription>
+                    Improve the result by swapping participants between groups
+                    (Kernighan–Lin). Adds little time, even for large workshops.
+                  </FormDescription>
+                </div>
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    disabled={disabled}
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="constraints"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Constraints (optional)</FormLabel>
+              <FormDescription>
+                Keep specific participants together or apart. Constraints are
+                honored whenever possible; any that cannot be satisfied are
+                reported after groups are generated.
+              </FormDescription>
+              <FormControl>
+                <GroupingConstraintsField
+                  participants={participants}
+                  value={field.value}
+                  onChange={field.onChange}
+                  pending={currentConfig?.pendingConstraints ?? []}
+                  disabled={disabled}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         {error && (
           <div className="text-sm font-medium text-destructive">{error}</div>
         )}
@@ -0,0 +1,205 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  GroupingConstraint,
+  GroupingConstraintType,
+} from "@/lib/utils/group-assignment";
+import type { PendingConstraint } from "@/lib/utils/pending-constraints";
+
+type ConstraintParticipant = {
+  id: string;
+  name: string;
+};
+
+type GroupingConstraintsFieldProps = {
+  participants: ConstraintParticipant[];
+  value: GroupingConstraint[];
+  onChange: (constraints: GroupingConstraint[]) => void;
+  // Constraints from a template or duplicated workshop whose participants
+  // have not joined yet
+  pending?: PendingConstraint[];
+  disabled?: boolean;
+};
+
+const CONSTRAINT_LABELS: Record<GroupingConstraintType, string> = {
+  must_link: "must be with",
+  cannot_link: "must not be with",
+};
+
+export function GroupingConstraintsField({
+  participants,
+  value,
+  onChange,
+  pending = [],
+  disabled = false,
+}: GroupingConstraintsFieldProps) {
+  const [participantAId, setParticipantAId] = useState("");
+  const [type, setType] = useState<GroupingConstraintType>("cannot_link");
+  const [participantBId, setParticipantBId] = useState("");
+
+  const nameById = new Map(participants.map((p) => [p.id, p.name]));
+
+  const isDuplicate = value.some(
+    (c) =>
+      (c.participantAId === participantAId &&
+        c.participantBId === participantBId) ||
+      (c.participantAId === participantBId &&
+        c.participantBId === participantAId)
+  );
+  const canAdd =
+    participantAId !== "" &&
+    participantBId !== "" &&
+    participantAId !== participantBId &&
+    !isDuplicate;
+
+  function handleAdd() {
+    if (!canAdd) return;
+    onChange([...value, { type, participantAId, participantBId }]);
+    setParticipantAId("");
+    setParticipantBId("");
+  }
+
+  function handleRemove(index: number) {
+    onChange(value.filter((_, i) => i !== index));
+  }
+
+  const pendingList = pending.length > 0 && (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        Added automatically once both participants join:
+      </p>
+      <ul className="space-y-2">
+        {pending.map((constraint) => (
+          <li
+            key={`${constraint.participantAName}-${constraint.participantBName}`}
+            className="rounded-md border border-dashed p-2 text-sm"
+          >
+            <span className="font-medium">{constraint.participantAName}</span>{" "}
+            {CONSTRAINT_LABELS[constraint.type]}{" "}
+            <span className="font-medium">{constraint.participantBName}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  if (participants.length < 2) {
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          Constraints can be added once at least two participants have joined.
+        </p>
+        {pendingList}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {pendingList}
+      {value.length > 0 && (
+        <ul className="space-y-2">
+          {value.map((constraint, index) => (
+            <li
+              key={`${constraint.participantAId}-${constraint.participantBId}`}
+              className="flex items-center justify-between gap-2 rounded-md bg-muted/50 p-2 text-sm"
+            >
+              <span>
+                <span className="font-medium">
+                  {nameById.get(constraint.participantAId) ?? "Unknown"}
+                </span>{" "}
+                {CONSTRAINT_LABELS[constraint.type]}{" "}
+                <span className="font-medium">
+                  {nameById.get(constraint.participantBId) ?? "Unknown"}
+                </span>
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={disabled}
+                onClick={() => handleRemove(index)}
+              >
+                <X className="h-4 w-4" />
+                <span className="sr-only">Remove constraint</span>
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid gap-2 sm:grid-cols-[1fr_auto_1fr_auto]">
+        <Select
+          value={participantAId}
+          onValueChange={setParticipantAId}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Participant" />
+          </SelectTrigger>
+          <SelectContent>
+            {participants.map((p) => (
+              <SelectItem key={p.id} value={p.id}>
+                {p.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={type}
+          onValueChange={(next) => setType(next as GroupingConstraintType)}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="cannot_link">
+              {CONSTRAINT_LABELS.cannot_link}
+            </SelectItem>
+            <SelectItem value="must_link">
+              {CONSTRAINT_LABELS.must_link}
+            </SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={participantBId}
+          onValueChange={setParticipantBId}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Participant" />
+          </SelectTrigger>
+          <SelectContent>
+            {participants
+              .filter((p) => p.id !== participantAId)
+              .map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.name}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          disabled={disabled || !canAdd}
+          onClick={handleAdd}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import type { GroupingJobProgress as Progress } from "@/lib/db/schema/grouping-jobs";
+
+// What a step of each algorithm is called in the progress line
+const STEP_LABELS: Record<Progress["algorithm"], string> = {
+  genetic: "Generation",
+  greedy: "Step",
+  local_search: "Pass",
+  annealing: "Iteration",
+};
+
+/**
+ * Describes the progress of a running job, e.g.
+ * "Candidate 2 of 4 · Round 1 of 3 · Generation 40 of 100 · Best fitness 12.345"
+ */
+function formatProgress(progress: Progress) {
+  const parts = [
+    `${STEP_LABELS[progress.algorithm]} ${progress.step.toLocaleString()} of ${progress.totalSteps.toLocaleString()}`,
+  ];
+  if (progress.roundCount > 1) {
+    parts.unshift(`Round ${progress.round} of ${progress.roundCount}`);
+  }
+  if (progress.candidate && progress.candidateCount) {
+    parts.unshift(
+      `Candidate ${progress.candidate} of ${progress.candidateCount}`
+    );
+  }
+  if (progress.bestFitness !== null) {
+    parts.push(`Best fitness ${progress.bestFitness.toFixed(3)}`);
+  }
+  return parts.join(" · ");
+}
+
+/**
+ * Share of the job done, across all rounds and candidates
+ */
+function getProgressPercent(progress: Progress) {
+  const roundShare = Math.min(progress.step / progress.totalSteps, 1);
+  const candidateShare =
+    (progress.round - 1 + roundShare) / progress.roundCount;
+  if (!progress.candidate || !progress.candidateCount) {
+    return Math.round(candidateShare * 100);
+  }
+  return Math.round(
+    ((progress.candidate - 1 + candidateShare) / progress.candidateCount) * 100
+  );
+}
+
+type GroupingJobProgressProps = {
+  // Null until the job first reports
+  progress: Progress | null;
+};
+
+export function GroupingJobProgress({ progress }: GroupingJobProgressProps) {
+  return (
+    <div className="space-y-1">
+      <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+        <div
+          className="h-full bg-primary transition-all"
+          style={{
+            width: `${progress ? getProgressPercent(progress) : 0}%`,
+          }}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {progress ? formatProgress(progress) : "Starting..."}
+      </p>
+    </div>
+  );
+}
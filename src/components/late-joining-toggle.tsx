@@ -0,0 +1,60 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { updateLateJoining } from "@/lib/actions/workshop-actions";
+
+type LateJoiningToggleProps = {
+  workshopId: string;
+  lateJoining: boolean;
+};
+
+export function LateJoiningToggle({
+  workshopId,
+  lateJoining,
+}: LateJoiningToggleProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  function handleToggle() {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await updateLateJoining(workshopId, !lateJoining);
+
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+
+      router.refresh();
+    });
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        {lateJoining
+          ? "Participants can join after grouping and are added to the existing group where they add the most diversity."
+          : "Joining closes once the workshop is grouped."}
+      </p>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={handleToggle}
+        disabled={isPending}
+      >
+        {isPending
+          ? "Saving..."
+          : lateJoining
+            ? "Close Joining After Grouping"
+            : "Allow Late Joiners"}
+      </Button>
+      {error && (
+        <div className="text-sm font-medium text-destructive">{error}</div>
+      )}
+    </div>
+  );
+}
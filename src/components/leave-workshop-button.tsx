@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { leaveWorkshop } from "@/lib/actions/participant-actions";
+
+type LeaveWorkshopButtonProps = {
+  token: string;
+};
+
+export function LeaveWorkshopButton({ token }: LeaveWorkshopButtonProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [isLeaving, setIsLeaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLeaveConfirm = async () => {
+    setIsLeaving(true);
+    setError(null);
+
+    const result = await leaveWorkshop(token);
+
+    if ("error" in result) {
+      setError(result.error);
+      setIsLeaving(false);
+      return;
+    }
+
+    router.push("/");
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!isLeaving) {
+      setOpen(nextOpen);
+      setError(null);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        className="w-full text-muted-foreground"
+        onClick={() => setOpen(true)}
+      >
+        Leave Workshop
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Leave Workshop</DialogTitle>
+            <DialogDescription>
+              You will be removed from the workshop and your group. A reflection
+              you submitted is deleted. You can join again with the join code.
+            </DialogDescription>
+          </DialogHeader>
+          {error && (
+            <div className="text-sm font-medium text-destructive">{error}</div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isLeaving}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleLeaveConfirm}
+              disabled={isLeaving}
+            >
+              {isLeaving ? "Leaving..." : "Leave Workshop"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
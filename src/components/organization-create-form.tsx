@@ -0,0 +1,56 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { createOrganization } from "@/lib/actions/organization-actions";
+
+export function OrganizationCreateForm() {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+
+    startTransition(async () => {
+      const result = await createOrganization(name);
+
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+
+      router.push(`/dashboard/organizations/${result.organizationId}`);
+    });
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="organization-name">Name</Label>
+        <Input
+          id="organization-name"
+          placeholder="Acme Training Team"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          maxLength={100}
+          disabled={isPending}
+          required
+        />
+      </div>
+      {error && (
+        <div className="text-sm font-medium text-destructive">{error}</div>
+      )}
+      <Button type="submit" disabled={isPending || !name.trim()}>
+        <Plus className="mr-2 h-4 w-4" />
+        {isPending ? "Creating..." : "Create Organization"}
+      </Button>
+    </form>
+  );
+}
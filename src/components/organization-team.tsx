@@ -0,0 +1,281 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Check, Link as LinkIcon, Trash2, UserPlus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  inviteOrganizationMember,
+  removeOrganizationMember,
+  revokeOrganizationInvitation,
+  updateOrganizationMemberRole,
+} from "@/lib/actions/organization-actions";
+import type { OrganizationTeam as OrganizationTeamData } from "@/lib/db/queries/organization-queries";
+import {
+  ORGANIZATION_ROLE_DESCRIPTIONS,
+  ORGANIZATION_ROLES,
+  formatOrganizationRole,
+  type OrganizationRole,
+} from "@/lib/utils/organization-roles";
+
+type OrganizationTeamProps = {
+  organizationId: string;
+  team: OrganizationTeamData;
+  currentUserId: string;
+  // Admins manage the organization; everyone else can only leave
+  isAdmin: boolean;
+};
+
+export function OrganizationTeam({
+  organizationId,
+  team,
+  currentUserId,
+  isAdmin,
+}: OrganizationTeamProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<OrganizationRole>("member");
+  const [error, setError] = useState<string | null>(null);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+
+  function runAction(
+    action: () => Promise<{ success: true } | { error: string }>,
+    onSuccess?: () => void
+  ) {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await action();
+
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+
+      onSuccess?.();
+      router.refresh();
+    });
+  }
+
+  function handleInvite(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    runAction(
+      () => inviteOrganizationMember(organizationId, { email, role }),
+      () => setEmail("")
+    );
+  }
+
+  function handleLeave() {
+    runAction(
+      () => removeOrganizationMember(organizationId, currentUserId),
+      () => router.push("/dashboard/organizations")
+    );
+  }
+
+  async function handleCopyLink(token: string) {
+    try {
+      await navigator.clipboard.writeText(
+        `${window.location.origin}/dashboard/organizations/invitations/${token}`
+      );
+      setCopiedToken(token);
+      setTimeout(() => setCopiedToken(null), 2000);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <ul className="divide-y">
+        {team.members.map((member) => (
+          <li
+            key={member.userId}
+            className="flex flex-wrap items-center justify-between gap-2 py-3"
+          >
+            <div className="min-w-0">
+              <div className="truncate text-sm font-medium">
+                {member.name}
+                {member.userId === currentUserId && " (you)"}
+              </div>
+              {member.email && (
+                <div className="truncate text-xs text-muted-foreground">
+                  {member.email}
+                </div>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              {isAdmin ? (
+                <Select
+                  value={member.role}
+                  onValueChange={(value) =>
+                    runAction(() =>
+                      updateOrganizationMemberRole(
+                        organizationId,
+                        member.userId,
+                        value as OrganizationRole
+                      )
+                    )
+                  }
+                  disabled={isPending}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ORGANIZATION_ROLES.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {formatOrganizationRole(option)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Badge variant="outline">
+                  {formatOrganizationRole(member.role)}
+                </Badge>
+              )}
+              {isAdmin && member.userId !== currentUserId && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Remove from organization"
+                  onClick={() =>
+                    runAction(() =>
+                      removeOrganizationMember(organizationId, member.userId)
+                    )
+                  }
+                  disabled={isPending}
+                  className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {isAdmin && team.invitations.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-sm font-medium text-muted-foreground">
+            Pending Invitations
+          </div>
+          <ul className="divide-y">
+            {team.invitations.map((invitation) => (
+              <li
+                key={invitation.id}
+                className="flex flex-wrap items-center justify-between gap-2 py-3"
+              >
+                <div className="min-w-0">
+                  <div className="truncate text-sm">{invitation.email}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatOrganizationRole(invitation.role)}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleCopyLink(invitation.token)}
+                  >
+                    {copiedToken === invitation.token ? (
+                      <Check className="mr-2 h-4 w-4 text-green-600" />
+                    ) : (
+                      <LinkIcon className="mr-2 h-4 w-4" />
+                    )}
+                    {copiedToken === invitation.token ? "Copied" : "Copy link"}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Revoke invitation"
+                    onClick={() =>
+                      runAction(() =>
+                        revokeOrganizationInvitation(
+                          organizationId,
+                          invitation.id
+                        )
+                      )
+                    }
+                    disabled={isPending}
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {isAdmin && (
+        <form onSubmit={handleInvite} className="space-y-4 border-t pt-4">
+          <div className="grid gap-4 sm:grid-cols-[1fr_auto]">
+            <div className="space-y-2">
+              <Label htmlFor="organization-invite-email">Email</Label>
+              <Input
+                id="organization-invite-email"
+                type="email"
+                placeholder="colleague@example.com"
+                value={email}
+                onChange={(event) => setEmail(event.target.value)}
+                disabled={isPending}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="organization-invite-role">Role</Label>
+              <Select
+                value={role}
+                onValueChange={(value) => setRole(value as OrganizationRole)}
+                disabled={isPending}
+              >
+                <SelectTrigger id="organization-invite-role" className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ORGANIZATION_ROLES.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {formatOrganizationRole(option)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {ORGANIZATION_ROLE_DESCRIPTIONS[role]}. Share the invitation link;
+            it can only be accepted by an account with this email address.
+          </p>
+          <Button type="submit" disabled={isPending || !email.trim()}>
+            <UserPlus className="mr-2 h-4 w-4" />
+            {isPending ? "Inviting..." : "Invite"}
+          </Button>
+        </form>
+      )}
+
+      {error && (
+        <div className="text-sm font-medium text-destructive">{error}</div>
+      )}
+
+      {!isAdmin && (
+        <Button variant="outline" onClick={handleLeave} disabled={isPending}>
+          Leave Organization
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { usePathname, useRouter } from "next/navigation";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { OrganizationWorkshopFilters as Filters } from "@/lib/db/queries/organization-queries";
+import type { WorkshopStatus } from "@/lib/db/schema/workshops";
+
+// Select value that disables a filter
+const ALL = "all";
+
+const STATUS_OPTIONS: Array<{ value: WorkshopStatus; label: string }> = [
+  { value: "draft", label: "Draft" },
+  { value: "collecting", label: "Collecting" },
+  { value: "grouped", label: "Grouped" },
+  { value: "closed", label: "Closed" },
+];
+
+type OrganizationWorkshopFiltersProps = {
+  filters: Filters;
+  facilitators: Array<{ userId: string; name: string }>;
+};
+
+export function OrganizationWorkshopFilters({
+  filters,
+  facilitators,
+}: OrganizationWorkshopFiltersProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+
+  function applyFilters(changes: Partial<Record<keyof Filters, string>>) {
+    const next: Partial<Record<keyof Filters, string>> = {
+      ...filters,
+      ...changes,
+    };
+    const params = new URLSearchParams();
+    if (next.facilitatorId) params.set("facilitator", next.facilitatorId);
+    if (next.status) params.set("status", next.status);
+    if (next.from) params.set("from", next.from);
+    if (next.to) params.set("to", next.to);
+
+    const query = params.toString();
+    router.push(query ? `${pathname}?${query}` : pathname);
+  }
+
+  const hasFilters = Boolean(
+    filters.facilitatorId || filters.status || filters.from || filters.to
+  );
+
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="filter-facilitator">Facilitator</Label>
+        <Select
+          value={filters.facilitatorId ?? ALL}
+          onValueChange={(value) =>
+            applyFilters({ facilitatorId: value === ALL ? "" : value })
+          }
+        >
+          <SelectTrigger id="filter-facilitator" className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All facilitators</SelectItem>
+            {facilitators.map((facilitator) => (
+              <SelectItem key={facilitator.userId} value={facilitator.userId}>
+                {facilitator.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="filter-status">Status</Label>
+        <Select
+          value={filters.status ?? ALL}
+          onValueChange={(value) =>
+            applyFilters({ status: value === ALL ? "" : value })
+          }
+        >
+          <SelectTrigger id="filter-status" className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All statuses</SelectItem>
+            {STATUS_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="filter-from">From</Label>
+        <Input
+          id="filter-from"
+          type="date"
+          value={filters.from ?? ""}
+          onChange={(event) => applyFilters({ from: event.target.value })}
+          className="w-40"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="filter-to">To</Label>
+        <Input
+          id="filter-to"
+          type="date"
+          value={filters.to ?? ""}
+          onChange={(event) => applyFilters({ to: event.target.value })}
+          className="w-40"
+        />
+      </div>
+      {hasFilters && (
+        <Button variant="ghost" onClick={() => router.push(pathname)}>
+          <X className="mr-2 h-4 w-4" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { updateParticipantAttributes } from "@/lib/actions/workshop-actions";
+import {
+  DEFAULT_ATTRIBUTE_WEIGHT,
+  MAX_ATTRIBUTE_LABEL_LENGTH,
+  MAX_ATTRIBUTE_WEIGHT,
+  MAX_PARTICIPANT_ATTRIBUTES,
+  type ParticipantAttribute,
+  type ParticipantAttributeType,
+} from "@/lib/utils/participant-attributes";
+
+type ParticipantAttributesFormProps = {
+  workshopId: string;
+  attributes: ParticipantAttribute[] | null;
+};
+
+const ATTRIBUTE_TYPE_LABELS: Record<ParticipantAttributeType, string> = {
+  categorical: "Choice",
+  numeric: "Number",
+};
+
+export function ParticipantAttributesForm({
+  workshopId,
+  attributes,
+}: ParticipantAttributesFormProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [draft, setDraft] = useState<ParticipantAttribute[]>(attributes ?? []);
+  const [error, setError] = useState<string | null>(null);
+
+  const isChanged = JSON.stringify(draft) !== JSON.stringify(attributes ?? []);
+
+  function handleChange(index: number, changes: Partial<ParticipantAttribute>) {
+    setDraft(draft.map((a, i) => (i === index ? { ...a, ...changes } : a)));
+  }
+
+  function handleAdd() {
+    setDraft([
+      ...draft,
+      {
+        key: "",
+        label: "",
+        type: "categorical",
+        options: [],
+        weight: DEFAULT_ATTRIBUTE_WEIGHT,
+        required: false,
+      },
+    ]);
+  }
+
+  function handleSave() {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await updateParticipantAttributes(
+        workshopId,
+        // Trailing commas leave empty options behind
+        draft.map((a) => ({
+          ...a,
+          options: a.options.filter((o) => o.trim() !== ""),
+        }))
+      );
+
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+
+      router.refresh();
+    });
+  }
+
+  return (
+    <div className="space-y-3">
+      {draft.length > 0 && (
+        <ul className="space-y-3">
+          {draft.map((attribute, index) => (
+            <li
+              // Attributes have no key until saved
+              key={attribute.key || `new-${index}`}
+              className="space-y-3 rounded-md border p-3"
+            >
+              <div className="flex items-start gap-2">
+                <div className="grid flex-1 gap-3 sm:grid-cols-2">
+                  <div className="space-y-1">
+                    <Label htmlFor={`attribute-${index}-label`}>Name</Label>
+                    <Input
+                      id={`attribute-${index}-label`}
+                      value={attribute.label}
+                      onChange={(e) =>
+                        handleChange(index, { label: e.target.value })
+                      }
+                      placeholder="Department"
+                      maxLength={MAX_ATTRIBUTE_LABEL_LENGTH}
+                      disabled={isPending}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor={`attribute-${index}-type`}>Answer</Label>
+                    <Select
+                      value={attribute.type}
+                      onValueChange={(type) =>
+                        handleChange(index, {
+                          type: type as ParticipantAttributeType,
+                        })
+                      }
+                      disabled={isPending}
+                    >
+                      <SelectTrigger id={`attribute-${index}-type`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(ATTRIBUTE_TYPE_LABELS).map(
+                          ([type, label]) => (
+                            <SelectItem key={type} value={type}>
+                              {label}
+                            </SelectItem>
+                          )
+                        )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="mt-6"
+                  onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+                  disabled={isPending}
+                >
+                  <X className="h-4 w-4" />
+                  <span className="sr-only">Remove attribute</span>
+                </Button>
+              </div>
+
+              {attribute.type === "categorical" && (
+                <div className="space-y-1">
+                  <Label htmlFor={`attribute-${index}-options`}>Options</Label>
+                  <Input
+                    id={`attribute-${index}-options`}
+                    value={attribute.options.join(",")}
+                    onChange={(e) =>
+                      handleChange(index, {
+                        options: e.target.value.split(","),
+                      })
+                    }
+                    placeholder="Sales, Engineering, Marketing"
+                    disabled={isPending}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Separate options with commas
+                  </p>
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor={`attribute-${index}-weight`}>
+                    Mixing weight (%)
+                  </Label>
+                  <Input
+                    id={`attribute-${index}-weight`}
+                    type="number"
+                    min={0}
+                    max={MAX_ATTRIBUTE_WEIGHT}
+                    className="w-28"
+                    value={
+                      Number.isNaN(attribute.weight) ? "" : attribute.weight
+                    }
+                    onChange={(e) =>
+                      handleChange(index, { weight: e.target.valueAsNumber })
+                    }
+                    disabled={isPending}
+                  />
+                </div>
+                <div className="flex items-center gap-2 pb-2">
+                  <Switch
+                    id={`attribute-${index}-required`}
+                    checked={attribute.required}
+                    onCheckedChange={(required) =>
+                      handleChange(index, { required })
+                    }
+                    disabled={isPending}
+                  />
+                  <Label
+                    htmlFor={`attribute-${index}-required`}
+                    className="font-normal"
+                  >
+                    Required
+                  </Label>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="text-sm text-muted-foreground">
+        Asked when participants join. Groups mix participants who differ in
+        weighted attributes, e.g. spreading departments or balancing seniority;
+        at 100%, differing completely counts as much as the largest cultural
+        distance. A weight of 0 only collects the answers.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleAdd}
+          disabled={isPending || draft.length >= MAX_PARTICIPANT_ATTRIBUTES}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add attribute
+        </Button>
+        {isChanged && (
+          <Button size="sm" onClick={handleSave} disabled={isPending}>
+            {isPending ? "Saving..." : "Save Attributes"}
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="text-sm font-medium text-destructive">{error}</div>
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,6 @@
+import { ClaimLinkButton } from "@/components/claim-link-button";
+import { RemoveParticipantButton } from "@/components/remove-participant-button";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { getCountryFlag } from "@/lib/utils/country-flag";
 
@@ -7,21 +10,77 @@ type ParticipantCardProps = {
     name: string;
     countryName: string;
     countryCode: string;
+    // Answered the self-assessment questionnaire
+    selfAssessed?: boolean;
+    // Countries of a multicultural participant, including the primary one
+    countryCount?: number;
+    // Pre-registered by import; unclaimed until the invite link is opened
+    email?: string | null;
+    tags?: string[] | null;
+    invited?: boolean;
+    claimToken?: string | null;
+    claimedAt?: string | Date | null;
   };
+  // Shows the remove action to facilitators who can edit the workshop
+  removableFrom?: string;
+  // Shows the invite link to facilitators who can invite participants
+  canInvite?: boolean;
 };
 
-export function ParticipantCard({ participant }: ParticipantCardProps) {
+export function ParticipantCard({
+  participant,
+  removableFrom,
+  canInvite = false,
+}: ParticipantCardProps) {
+  const isInvited = !!participant.invited && !participant.claimedAt;
+
   return (
     <Card>
       <CardContent className="flex items-center justify-between p-4">
         <div>
           <p className="font-medium">{participant.name}</p>
+          {participant.email && (
+            <p className="text-sm text-muted-foreground">{participant.email}</p>
+          )}
           <p className="text-sm text-muted-foreground">
             {participant.countryName}
+            {(participant.countryCount ?? 0) > 1 &&
+              ` +${(participant.countryCount ?? 0) - 1} more`}
           </p>
+          <div className="flex flex-wrap gap-1">
+            {participant.selfAssessed && (
+              <Badge variant="outline" className="mt-1">
+                Self-assessed
+              </Badge>
+            )}
+            {isInvited && (
+              <Badge variant="secondary" className="mt-1">
+                Invited
+              </Badge>
+            )}
+            {participant.tags?.map((tag) => (
+              <Badge key={tag} variant="outline" className="mt-1">
+                {tag}
+              </Badge>
+            ))}
+          </div>
+          {canInvite && isInvited && participant.claimToken && (
+            <div className="mt-2">
+              <ClaimLinkButton claimToken={participant.claimToken} />
+            </div>
+          )}
         </div>
-        <div className="text-2xl">
-          {getCountryFlag(participant.countryCode)}
+        <div className="flex items-center gap-2">
+          <div className="text-2xl">
+            {getCountryFlag(participant.countryCode)}
+          </div>
+          {removableFrom && (
+            <RemoveParticipantButton
+              workshopId={removableFrom}
+              participantId={participant.id}
+              participantName={participant.name}
+            />
+          )}
         </div>
       </CardContent>
     </Card>
@@ -1,4 +1,10 @@
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { getCountryFlag } from "@/lib/utils/country-flag";
 import { cn } from "@/lib/utils";
@@ -7,6 +13,10 @@ type ParticipantGroupCardProps = {
   group: {
     groupNumber: number;
   };
+  round?: {
+    current: number;
+    total: number;
+  };
   members: Array<{
     id: string;
     name: string;
@@ -18,6 +28,7 @@ type ParticipantGroupCardProps = {
 
 export function ParticipantGroupCard({
   group,
+  round,
   members,
   currentParticipantId,
 }: ParticipantGroupCardProps) {
@@ -25,6 +36,11 @@ export function ParticipantGroupCard({
     <Card>
       <CardHeader>
         <CardTitle>Group {group.groupNumber}</CardTitle>
+        {round && round.total > 1 && (
+          <CardDescription>
+            Round {round.current} of {round.total}
+          </CardDescription>
+        )}
       </CardHeader>
       <CardContent>
         <div className="space-y-2">
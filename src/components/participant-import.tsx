@@ -0,0 +1,105 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Upload } from "lucide-react";
+import { useSWRConfig } from "swr";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { importParticipants } from "@/lib/actions/participant-actions";
+import type { ImportRowError } from "@/lib/utils/participant-import";
+
+type ParticipantImportProps = {
+  workshopId: string;
+};
+
+export function ParticipantImport({ workshopId }: ParticipantImportProps) {
+  const { mutate } = useSWRConfig();
+  const [isPending, startTransition] = useTransition();
+  const [file, setFile] = useState<File | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [rowErrors, setRowErrors] = useState<ImportRowError[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  function handleFileChange(event: React.ChangeEvent<HTMLInputElement>) {
+    setFile(event.target.files?.[0] ?? null);
+    setError(null);
+    setRowErrors([]);
+    setMessage(null);
+  }
+
+  function handleImport() {
+    if (!file) return;
+    setError(null);
+    setRowErrors([]);
+    setMessage(null);
+
+    startTransition(async () => {
+      const formData = new FormData();
+      formData.append("file", file);
+      const result = await importParticipants(workshopId, formData);
+
+      if ("error" in result) {
+        setError(result.error);
+        setRowErrors(result.rowErrors ?? []);
+        return;
+      }
+
+      setMessage(
+        `Imported ${result.importedCount} ${result.importedCount === 1 ? "participant" : "participants"}. Share their invite links from the participant list or the participants export.`
+      );
+      mutate(`/api/workshop/${workshopId}/participants`);
+      mutate(`/api/workshop/${workshopId}/country-distribution`);
+    });
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="participant-file">CSV or XLSX file</Label>
+        <Input
+          id="participant-file"
+          type="file"
+          accept=".csv,text/csv,.xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          onChange={handleFileChange}
+          disabled={isPending}
+        />
+        <p className="text-sm text-muted-foreground">
+          Columns: name, country (ISO code or name), and optionally email and
+          tags (separated by semicolons). Each participant gets a personal
+          invite link instead of using the join code.
+        </p>
+      </div>
+
+      {error && (
+        <div className="space-y-2">
+          <div className="text-sm font-medium text-destructive">{error}</div>
+          {rowErrors.length > 0 && (
+            <ul className="max-h-48 list-disc overflow-y-auto pl-6 text-sm text-destructive">
+              {rowErrors.map((rowError) => (
+                <li key={rowError.row}>
+                  Row {rowError.row}: {rowError.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {message && (
+        <div className="text-sm font-medium text-green-600 dark:text-green-400">
+          {message}
+        </div>
+      )}
+
+      <Button
+        type="button"
+        onClick={handleImport}
+        disabled={isPending || !file}
+      >
+        <Upload className="mr-2 h-4 w-4" />
+        {isPending ? "Importing..." : "Import Participants"}
+      </Button>
+    </div>
+  );
+}
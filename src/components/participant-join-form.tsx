@@ -3,7 +3,8 @@
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm } from "react-hook-form";
+import { Plus, X } from "lucide-react";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import {
@@ -16,25 +17,85 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { CountrySelect } from "@/components/country-select";
+import { SelfAssessmentField } from "@/components/self-assessment-field";
 import { joinWorkshop } from "@/lib/actions/participant-actions";
+import {
+  MAX_COUNTRY_WEIGHT,
+  MAX_PARTICIPANT_COUNTRIES,
+  toPercentShares,
+} from "@/lib/utils/participant-countries";
+import {
+  validateAttributeValues,
+  type ParticipantAttribute,
+  type ParticipantAttributeValues,
+} from "@/lib/utils/participant-attributes";
+import {
+  validateSelfAssessmentAnswers,
+  type SelfAssessmentAnswers,
+} from "@/lib/utils/self-assessment";
 
-const joinSchema = z.object({
-  name: z
-    .string()
-    .min(1, "Name is required")
-    .max(100, "Name must be 100 characters or less"),
-  countryCode: z.string().min(2, "Country is required"),
-});
+const joinSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, "Name is required")
+      .max(100, "Name must be 100 characters or less"),
+    countries: z
+      .array(
+        z.object({
+          countryCode: z.string().min(2, "Country is required"),
+          weight: z.number().int().min(1).max(MAX_COUNTRY_WEIGHT),
+        })
+      )
+      .min(1)
+      .max(MAX_PARTICIPANT_COUNTRIES),
+    // Answers to the workshop's custom attributes as entered, keyed by
+    // attribute key
+    attributes: z.record(z.string(), z.string()),
+    takeSelfAssessment: z.boolean(),
+    selfAssessment: z.custom<SelfAssessmentAnswers>(),
+  })
+  .refine(
+    (data) =>
+      new Set(data.countries.map((c) => c.countryCode)).size ===
+      data.countries.length,
+    {
+      message: "Each country can only be selected once",
+      path: ["countries"],
+    }
+  )
+  .refine(
+    (data) =>
+      !data.takeSelfAssessment ||
+      validateSelfAssessmentAnswers(data.selfAssessment) === null,
+    {
+      message: "Please answer every question, or turn the questionnaire off",
+      path: ["selfAssessment"],
+    }
+  );
 
 type JoinFormData = z.infer<typeof joinSchema>;
 
+// Countries start equally weighted; weights are relative
+const DEFAULT_COUNTRY_WEIGHT = 50;
+
 type Country = {
   isoCode: string;
   name: string;
@@ -43,11 +104,32 @@ type Country = {
 type ParticipantJoinFormProps = {
   joinCode: string;
   countries: Country[];
+  // Custom attributes the workshop collects
+  attributes?: ParticipantAttribute[];
 };
 
+/**
+ * Converts entered answers to attribute values, leaving out empty answers
+ */
+function toAttributeValues(
+  attributes: ParticipantAttribute[],
+  entered: Record<string, string>
+): ParticipantAttributeValues {
+  const values: ParticipantAttributeValues = {};
+  for (const attribute of attributes) {
+    const value = entered[attribute.key]?.trim();
+    if (value) {
+      values[attribute.key] =
+        attribute.type === "numeric" ? Number(value) : value;
+    }
+  }
+  return values;
+}
+
 export function ParticipantJoinForm({
   joinCode,
   countries,
+  attributes = [],
 }: ParticipantJoinFormProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -57,16 +139,51 @@ export function ParticipantJoinForm({
     resolver: zodResolver(joinSchema),
     defaultValues: {
       name: "",
-      countryCode: "",
+      countries: [{ countryCode: "", weight: DEFAULT_COUNTRY_WEIGHT }],
+      attributes: {},
+      takeSelfAssessment: false,
+      selfAssessment: {},
     },
   });
 
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "countries",
+  });
+
+  const takeSelfAssessment = form.watch("takeSelfAssessment");
+  const selectedCountries = form.watch("countries");
+  const percentShares = toPercentShares(
+    selectedCountries.map((c) => ({
+      countryCode: c.countryCode,
+      weight: Number.isNaN(c.weight) ? 0 : c.weight,
+    }))
+  );
+
   async function onSubmit(data: JoinFormData) {
     setIsSubmitting(true);
     setError(null);
 
+    const attributeValues = toAttributeValues(attributes, data.attributes);
+    const attributesError = validateAttributeValues(
+      attributes,
+      attributeValues
+    );
+    if (attributesError) {
+      setError(attributesError);
+      setIsSubmitting(false);
+      return;
+    }
+
     try {
-      const result = await joinWorkshop(joinCode, data);
+      const result = await joinWorkshop(joinCode, {
+        name: data.name,
+        countries: data.countries,
+        attributes: attributeValues,
+        selfAssessment: data.takeSelfAssessment
+          ? data.selfAssessment
+          : undefined,
+      });
 
       if ("error" in result) {
         setError(result.error);
@@ -114,26 +231,199 @@ export function ParticipantJoinForm({
               )}
             />
 
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label>
+                  {fields.length === 1 ? "Your Country" : "Your Countries"}
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Identify with more than one culture? Add each country and how
+                  strongly it shapes you.
+                </p>
+              </div>
+
+              {fields.map((item, index) => (
+                <div key={item.id} className="flex items-start gap-2">
+                  <FormField
+                    control={form.control}
+                    name={`countries.${index}.countryCode`}
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <FormControl>
+                          <CountrySelect
+                            value={field.value}
+                            onValueChange={field.onChange}
+                            countries={countries}
+                            disabled={isSubmitting}
+                            placeholder={
+                              index === 0
+                                ? "Select your country"
+                                : "Select another country"
+                            }
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {fields.length > 1 && (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name={`countries.${index}.weight`}
+                        render={({ field }) => (
+                          <FormItem className="w-24">
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={1}
+                                max={MAX_COUNTRY_WEIGHT}
+                                aria-label="Country weight"
+                                {...field}
+                                onChange={(e) =>
+                                  field.onChange(e.target.valueAsNumber)
+                                }
+                                disabled={isSubmitting}
+                              />
+                            </FormControl>
+                            <FormDescription className="text-xs">
+                              {percentShares[index]?.weight ?? 0}%
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => remove(index)}
+                        disabled={isSubmitting}
+                      >
+                        <X className="h-4 w-4" />
+                        <span className="sr-only">Remove country</span>
+                      </Button>
+                    </>
+                  )}
+                </div>
+              ))}
+
+              {form.formState.errors.countries?.root?.message && (
+                <p className="text-sm font-medium text-destructive">
+                  {form.formState.errors.countries.root.message}
+                </p>
+              )}
+
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  append({ countryCode: "", weight: DEFAULT_COUNTRY_WEIGHT })
+                }
+                disabled={
+                  isSubmitting || fields.length >= MAX_PARTICIPANT_COUNTRIES
+                }
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add another country
+              </Button>
+            </div>
+
+            {attributes.map((attribute) => (
+              <FormField
+                key={attribute.key}
+                control={form.control}
+                name={`attributes.${attribute.key}`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {attribute.label}
+                      {!attribute.required && (
+                        <span className="font-normal text-muted-foreground">
+                          {" "}
+                          (optional)
+                        </span>
+                      )}
+                    </FormLabel>
+                    <FormControl>
+                      {attribute.type === "categorical" ? (
+                        <Select
+                          value={field.value ?? ""}
+                          onValueChange={field.onChange}
+                          disabled={isSubmitting}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select an option" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {attribute.options.map((option) => (
+                              <SelectItem key={option} value={option}>
+                                {option}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Input
+                          type="number"
+                          inputMode="decimal"
+                          {...field}
+                          value={field.value ?? ""}
+                          disabled={isSubmitting}
+                        />
+                      )}
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
             <FormField
               control={form.control}
-              name="countryCode"
+              name="takeSelfAssessment"
               render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Your Country</FormLabel>
+                <FormItem className="flex items-center justify-between gap-4 rounded-md border p-3">
+                  <div className="space-y-1">
+                    <FormLabel>Describe your own working style</FormLabel>
+                    <FormDescription>
+                      Optional: 12 quick statements (about 2 minutes). Your
+                      answers can be used instead of, or together with, your
+                      country's cultural profile.
+                    </FormDescription>
+                  </div>
                   <FormControl>
-                    <CountrySelect
-                      value={field.value}
-                      onValueChange={field.onChange}
-                      countries={countries}
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
                       disabled={isSubmitting}
-                      placeholder="Select your country"
                     />
                   </FormControl>
-                  <FormMessage />
                 </FormItem>
               )}
             />
 
+            {takeSelfAssessment && (
+              <FormField
+                control={form.control}
+                name="selfAssessment"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>How much do you agree?</FormLabel>
+                    <FormControl>
+                      <SelfAssessmentField
+                        value={field.value}
+                        onChange={field.onChange}
+                        disabled={isSubmitting}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             {error && (
               <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
                 {error}
@@ -3,6 +3,10 @@
 import useSWR from "swr";
 import { ParticipantCard } from "@/components/participant-card";
 import { Badge } from "@/components/ui/badge";
+import {
+  FALLBACK_POLL_INTERVAL_MS,
+  useWorkshopLiveStatus,
+} from "@/components/workshop-live-updates";
 
 type Participant = {
   id: string;
@@ -10,6 +14,13 @@ type Participant = {
   countryName: string;
   countryCode: string;
   joinedAt: Date;
+  selfAssessed: boolean;
+  countryCount: number;
+  email: string | null;
+  tags: string[] | null;
+  invited: boolean;
+  claimToken: string | null;
+  claimedAt: string | null;
 };
 
 const fetcher = async (url: string): Promise<Participant[]> => {
@@ -26,13 +37,23 @@ const fetcher = async (url: string): Promise<Participant[]> => {
 
 type ParticipantListProps = {
   workshopId: string;
+  // Whether the facilitator can remove participants
+  canRemove?: boolean;
+  // Whether the facilitator can copy invite links of imported participants
+  canInvite?: boolean;
 };
 
-export function ParticipantList({ workshopId }: ParticipantListProps) {
+export function ParticipantList({
+  workshopId,
+  canRemove = false,
+  canInvite = false,
+}: ParticipantListProps) {
+  const { isConnected } = useWorkshopLiveStatus();
   const { data, isLoading, error } = useSWR<Participant[]>(
     `/api/workshop/${workshopId}/participants`,
     fetcher,
-    { refreshInterval: 5000 }
+    // Live updates revalidate on demand; poll only as a fallback
+    { refreshInterval: isConnected ? 0 : FALLBACK_POLL_INTERVAL_MS }
   );
 
   if (isLoading) {
@@ -81,7 +102,12 @@ export function ParticipantList({ workshopId }: ParticipantListProps) {
       </div>
       <div className="grid gap-4">
         {data.map((participant) => (
-          <ParticipantCard key={participant.id} participant={participant} />
+          <ParticipantCard
+            key={participant.id}
+            participant={participant}
+            removableFrom={canRemove ? workshopId : undefined}
+            canInvite={canInvite}
+          />
         ))}
       </div>
     </div>
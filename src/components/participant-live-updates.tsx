@@ -0,0 +1,32 @@
+"use client";
+
+import { useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { useWorkshopEvents } from "@/hooks/use-workshop-events";
+import type { WorkshopEvent } from "@/types/workshop-events";
+
+type ParticipantLiveUpdatesProps = {
+  token: string;
+};
+
+/**
+ * Keeps an assigned participant's group view current.
+ * Refreshes the page when the facilitator edits groups or starts the next
+ * round. Renders nothing.
+ */
+export function ParticipantLiveUpdates({ token }: ParticipantLiveUpdatesProps) {
+  const router = useRouter();
+
+  const handleEvent = useCallback(
+    (event: WorkshopEvent) => {
+      if (event.type === "groups_updated" || event.type === "round_changed") {
+        router.refresh();
+      }
+    },
+    [router]
+  );
+
+  useWorkshopEvents(`/api/participant/${token}/events`, handleEvent);
+
+  return null;
+}
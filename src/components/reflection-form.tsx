@@ -38,9 +38,11 @@ const reflectionSchema = z.object({
 
 type ReflectionFormProps = {
   token: string;
+  // Question set by the facilitator; null for the default
+  prompt: string | null;
 };
 
-export function ReflectionForm({ token }: ReflectionFormProps) {
+export function ReflectionForm({ token, prompt }: ReflectionFormProps) {
   const [submitted, setSubmitted] = useState(false);
   const [existingReflection, setExistingReflection] = useState<string | null>(
     null
@@ -145,7 +147,9 @@ export function ReflectionForm({ token }: ReflectionFormProps) {
               name="content"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Your Reflection</FormLabel>
+                  <FormLabel className={prompt ? "whitespace-pre-wrap" : ""}>
+                    {prompt ?? "Your Reflection"}
+                  </FormLabel>
                   <FormControl>
                     <Textarea
                       {...field}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { updateReflectionPrompt } from "@/lib/actions/workshop-actions";
+import { MAX_REFLECTION_PROMPT_LENGTH } from "@/lib/utils/workshop-configuration";
+
+type ReflectionPromptFormProps = {
+  workshopId: string;
+  reflectionPrompt: string | null;
+};
+
+export function ReflectionPromptForm({
+  workshopId,
+  reflectionPrompt,
+}: ReflectionPromptFormProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [prompt, setPrompt] = useState(reflectionPrompt ?? "");
+  const [error, setError] = useState<string | null>(null);
+
+  const isChanged = prompt.trim() !== (reflectionPrompt ?? "");
+
+  function handleSave() {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await updateReflectionPrompt(workshopId, prompt);
+
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+
+      router.refresh();
+    });
+  }
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={prompt}
+        onChange={(event) => setPrompt(event.target.value)}
+        placeholder="What did you learn about how your group members communicate?"
+        rows={3}
+        maxLength={MAX_REFLECTION_PROMPT_LENGTH}
+        disabled={isPending}
+        className="resize-none"
+      />
+      <p className="text-sm text-muted-foreground">
+        Shown to participants when they write their reflection. Leave empty for
+        an open reflection.
+      </p>
+      {error && (
+        <div className="text-sm font-medium text-destructive">{error}</div>
+      )}
+      {isChanged && (
+        <Button size="sm" onClick={handleSave} disabled={isPending}>
+          {isPending ? "Saving..." : "Save Prompt"}
+        </Button>
+      )}
+    </div>
+  );
+}
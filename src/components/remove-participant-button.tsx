@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSWRConfig } from "swr";
+import { UserMinus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { removeParticipant } from "@/lib/actions/participant-actions";
+
+type RemoveParticipantButtonProps = {
+  workshopId: string;
+  participantId: string;
+  participantName: string;
+};
+
+export function RemoveParticipantButton({
+  workshopId,
+  participantId,
+  participantName,
+}: RemoveParticipantButtonProps) {
+  const router = useRouter();
+  const { mutate } = useSWRConfig();
+  const [open, setOpen] = useState(false);
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRemoveConfirm = async () => {
+    setIsRemoving(true);
+    setError(null);
+
+    const result = await removeParticipant(workshopId, participantId);
+
+    if ("error" in result) {
+      setError(result.error);
+      setIsRemoving(false);
+      return;
+    }
+
+    setIsRemoving(false);
+    setOpen(false);
+    mutate(`/api/workshop/${workshopId}/participants`);
+    mutate(`/api/workshop/${workshopId}/country-distribution`);
+    router.refresh();
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!isRemoving) {
+      setOpen(nextOpen);
+      setError(null);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        onClick={() => setOpen(true)}
+      >
+        <UserMinus className="h-4 w-4" />
+        <span className="sr-only">Remove {participantName}</span>
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remove Participant</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to remove &quot;{participantName}&quot;?
+              Their reflection is deleted, and if their group becomes too small,
+              other participants are moved to rebalance it.
+            </DialogDescription>
+          </DialogHeader>
+          {error && (
+            <div className="text-sm font-medium text-destructive">{error}</div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isRemoving}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleRemoveConfirm}
+              disabled={isRemoving}
+            >
+              {isRemoving ? "Removing..." : "Remove Participant"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { setCurrentRound } from "@/lib/actions/grouping-actions";
+
+type RoundControlsProps = {
+  workshopId: string;
+  currentRound: number;
+  roundCount: number;
+  disabled?: boolean;
+};
+
+export function RoundControls({
+  workshopId,
+  currentRound,
+  roundCount,
+  disabled = false,
+}: RoundControlsProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRoundChange = (roundNumber: number) => {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await setCurrentRound(workshopId, roundNumber);
+
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+
+      router.refresh();
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => handleRoundChange(currentRound - 1)}
+          disabled={disabled || isPending || currentRound <= 1}
+        >
+          <ChevronLeft className="h-4 w-4" />
+          <span className="sr-only">Previous round</span>
+        </Button>
+        <span className="text-sm font-medium min-w-24 text-center">
+          Round {currentRound} of {roundCount}
+        </span>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => handleRoundChange(currentRound + 1)}
+          disabled={disabled || isPending || currentRound >= roundCount}
+        >
+          <ChevronRight className="h-4 w-4" />
+          <span className="sr-only">Next round</span>
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { saveWorkshopTemplate } from "@/lib/actions/template-actions";
+
+// Select value of templates only the facilitator can use
+const PERSONAL_TEMPLATE = "personal";
+
+type SaveTemplateFormProps = {
+  workshopId: string;
+  defaultName: string;
+  // Organizations the template can be shared with
+  organizations: Array<{ id: string; name: string }>;
+};
+
+export function SaveTemplateForm({
+  workshopId,
+  defaultName,
+  organizations,
+}: SaveTemplateFormProps) {
+  const [isPending, startTransition] = useTransition();
+  const [name, setName] = useState(defaultName);
+  const [organizationId, setOrganizationId] = useState(PERSONAL_TEMPLATE);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    setMessage(null);
+
+    startTransition(async () => {
+      const result = await saveWorkshopTemplate(workshopId, {
+        name,
+        organizationId:
+          organizationId === PERSONAL_TEMPLATE ? null : organizationId,
+      });
+
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+
+      setMessage(`Saved template "${name.trim()}".`);
+    });
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-[1fr_auto]">
+        <div className="space-y-2">
+          <Label htmlFor="template-name">Template name</Label>
+          <Input
+            id="template-name"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            maxLength={100}
+            disabled={isPending}
+            required
+          />
+        </div>
+        {organizations.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor="template-organization">Share with</Label>
+            <Select
+              value={organizationId}
+              onValueChange={setOrganizationId}
+              disabled={isPending}
+            >
+              <SelectTrigger id="template-organization" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PERSONAL_TEMPLATE}>Only me</SelectItem>
+                {organizations.map((organization) => (
+                  <SelectItem key={organization.id} value={organization.id}>
+                    {organization.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+      {error && (
+        <div className="text-sm font-medium text-destructive">{error}</div>
+      )}
+      {message && (
+        <div className="text-sm font-medium text-green-600 dark:text-green-400">
+          {message}
+        </div>
+      )}
+      <Button
+        type="submit"
+        variant="outline"
+        disabled={isPending || !name.trim()}
+      >
+        <Save className="mr-2 h-4 w-4" />
+        {isPending ? "Saving..." : "Save as Template"}
+      </Button>
+    </form>
+  );
+}
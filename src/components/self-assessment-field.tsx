@@ -0,0 +1,66 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  AGREEMENT_SCALE,
+  SELF_ASSESSMENT_QUESTIONS,
+  type SelfAssessmentAnswers,
+} from "@/lib/utils/self-assessment";
+
+type SelfAssessmentFieldProps = {
+  value: SelfAssessmentAnswers;
+  onChange: (answers: SelfAssessmentAnswers) => void;
+  disabled?: boolean;
+};
+
+export function SelfAssessmentField({
+  value,
+  onChange,
+  disabled = false,
+}: SelfAssessmentFieldProps) {
+  const answeredCount = SELF_ASSESSMENT_QUESTIONS.filter(
+    (question) => value[question.id] !== undefined
+  ).length;
+
+  return (
+    <div className="space-y-5">
+      <p className="text-xs text-muted-foreground">
+        {answeredCount} of {SELF_ASSESSMENT_QUESTIONS.length} answered
+      </p>
+      {SELF_ASSESSMENT_QUESTIONS.map((question, index) => (
+        <fieldset key={question.id} className="space-y-2">
+          <legend className="text-sm">
+            {index + 1}. {question.statement}
+          </legend>
+          <RadioGroup
+            value={value[question.id]?.toString() ?? ""}
+            onValueChange={(rating) =>
+              onChange({ ...value, [question.id]: Number(rating) })
+            }
+            disabled={disabled}
+            className="grid-cols-5 gap-1"
+          >
+            {AGREEMENT_SCALE.map((option) => (
+              <div
+                key={option.value}
+                className="flex flex-col items-center gap-1 text-center"
+              >
+                <RadioGroupItem
+                  value={option.value.toString()}
+                  id={`${question.id}-${option.value}`}
+                />
+                <Label
+                  htmlFor={`${question.id}-${option.value}`}
+                  className="text-xs font-normal text-muted-foreground cursor-pointer"
+                >
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </fieldset>
+      ))}
+    </div>
+  );
+}
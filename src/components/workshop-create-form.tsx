@@ -0,0 +1,297 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { createWorkshop } from "@/lib/actions/workshop-actions";
+
+const workshopSchema = z.object({
+  title: z
+    .string()
+    .min(1, "Title is required")
+    .max(200, "Title must be 200 characters or less"),
+  date: z.string().optional(),
+  organizationId: z.string(),
+  templateId: z.string(),
+});
+
+// Select value of workshops that do not belong to an organization
+const PERSONAL_WORKSHOP = "personal";
+
+// Select value of workshops that start without a template
+const NO_TEMPLATE = "none";
+
+type WorkshopFormData = z.infer<typeof workshopSchema>;
+
+type WorkshopCreateFormProps = {
+  organizations: Array<{ id: string; name: string }>;
+  defaultOrganizationId?: string;
+  templates: Array<{
+    id: string;
+    name: string;
+    title: string;
+    organizationId: string | null;
+  }>;
+  defaultTemplateId?: string;
+};
+
+export function WorkshopCreateForm({
+  organizations,
+  defaultOrganizationId,
+  templates,
+  defaultTemplateId,
+}: WorkshopCreateFormProps) {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const defaultTemplate = templates.find((t) => t.id === defaultTemplateId);
+
+  const form = useForm<WorkshopFormData>({
+    resolver: zodResolver(workshopSchema),
+    defaultValues: {
+      title: defaultTemplate?.title ?? "",
+      date: "",
+      organizationId:
+        organizations.find(
+          (o) =>
+            o.id === (defaultOrganizationId ?? defaultTemplate?.organizationId)
+        )?.id ?? PERSONAL_WORKSHOP,
+      templateId: defaultTemplate?.id ?? NO_TEMPLATE,
+    },
+  });
+
+  // Prefill the title and organization from the selected template
+  function handleTemplateChange(templateId: string) {
+    form.setValue("templateId", templateId);
+
+    const template = templates.find((t) => t.id === templateId);
+    if (!template) return;
+
+    form.setValue("title", template.title, { shouldValidate: true });
+    const organization = organizations.find(
+      (o) => o.id === template.organizationId
+    );
+    if (organization) {
+      form.setValue("organizationId", organization.id);
+    }
+  }
+
+  async function onSubmit(data: WorkshopFormData) {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const result = await createWorkshop({
+        title: data.title,
+        date: data.date || undefined,
+        organizationId:
+          data.organizationId === PERSONAL_WORKSHOP
+            ? undefined
+            : data.organizationId,
+        templateId:
+          data.templateId === NO_TEMPLATE ? undefined : data.templateId,
+      });
+
+      if ("error" in result) {
+        setError(result.error);
+        setIsSubmitting(false);
+        return;
+      }
+
+      if ("success" in result && result.success) {
+        router.push(`/dashboard/workshop/${result.workshop.id}`);
+      }
+    } catch (_err) {
+      setError("An unexpected error occurred. Please try again.");
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="container max-w-2xl py-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Create New Workshop</CardTitle>
+          <CardDescription>
+            Create a new cultural diversity workshop. A unique join code will be
+            generated automatically.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              {templates.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="templateId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Template</FormLabel>
+                      <Select
+                        value={field.value}
+                        onValueChange={handleTemplateChange}
+                        disabled={isSubmitting}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_TEMPLATE}>
+                            No template
+                          </SelectItem>
+                          {templates.map((template) => (
+                            <SelectItem key={template.id} value={template.id}>
+                              {template.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Copies the framework, grouping settings and reflection
+                        prompt of the template
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Workshop Title</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Enter workshop title"
+                        {...field}
+                        disabled={isSubmitting}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      A descriptive title for your workshop (max 200 characters)
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Workshop Date (Optional)</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} disabled={isSubmitting} />
+                    </FormControl>
+                    <FormDescription>
+                      The scheduled date for this workshop (optional)
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {organizations.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="organizationId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Organization</FormLabel>
+                      <Select
+                        value={field.value}
+                        onValueChange={field.onChange}
+                        disabled={isSubmitting}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={PERSONAL_WORKSHOP}>
+                            Personal workshop
+                          </SelectItem>
+                          {organizations.map((organization) => (
+                            <SelectItem
+                              key={organization.id}
+                              value={organization.id}
+                            >
+                              {organization.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Workshops of an organization are visible to all of its
+                        members
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {error && (
+                <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+                  {error}
+                </div>
+              )}
+
+              <div className="flex gap-4">
+                <Button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="flex-1"
+                >
+                  {isSubmitting ? "Creating..." : "Create Workshop"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => router.back()}
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
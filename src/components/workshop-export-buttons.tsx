@@ -0,0 +1,50 @@
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ExportTableName } from "@/lib/utils/workshop-export";
+
+type WorkshopExportButtonsProps = {
+  workshopId: string;
+  // Group and reflection CSVs are only offered once groups exist
+  hasGroups: boolean;
+};
+
+const CSV_LABELS: Record<ExportTableName, string> = {
+  participants: "Participants CSV",
+  groups: "Groups CSV",
+  reflections: "Reflections CSV",
+};
+
+export function WorkshopExportButtons({
+  workshopId,
+  hasGroups,
+}: WorkshopExportButtonsProps) {
+  const exportUrl = `/api/workshop/${workshopId}/export`;
+  const csvTables: ExportTableName[] = hasGroups
+    ? ["participants", "groups", "reflections"]
+    : ["participants"];
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button asChild variant="outline" size="sm">
+        <a href={`${exportUrl}?format=xlsx`} download>
+          <Download className="mr-2 h-4 w-4" />
+          Excel (XLSX)
+        </a>
+      </Button>
+      {csvTables.map((table) => (
+        <Button key={table} asChild variant="outline" size="sm">
+          <a href={`${exportUrl}?format=csv&table=${table}`} download>
+            <Download className="mr-2 h-4 w-4" />
+            {CSV_LABELS[table]}
+          </a>
+        </Button>
+      ))}
+      <Button asChild variant="outline" size="sm">
+        <a href={`${exportUrl}?format=json`} download>
+          <Download className="mr-2 h-4 w-4" />
+          JSON
+        </a>
+      </Button>
+    </div>
+  );
+}
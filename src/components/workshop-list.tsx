@@ -4,6 +4,7 @@ import { useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { Calendar, Trash2, Users } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -23,6 +24,11 @@ import {
 import { WorkshopStatusBadge } from "@/components/workshop-status-badge";
 import { deleteWorkshop } from "@/lib/actions/workshop-actions";
 import type { WorkshopStatus } from "@/lib/db/schema/workshops";
+import { formatGroupSizing, toGroupSizing } from "@/lib/utils/group-sizing";
+import {
+  formatWorkshopRole,
+  type WorkshopRole,
+} from "@/lib/utils/workshop-roles";
 
 type Workshop = {
   id: string;
@@ -31,16 +37,31 @@ type Workshop = {
   joinCode: string;
   status: WorkshopStatus;
   framework: string | null;
-  groupSize: number | null;
+  customFrameworkName: string | null;
+  minGroupSize: number | null;
+  maxGroupSize: number | null;
+  groupCount: number | null;
   createdAt: Date;
   participantCount: number;
+  role: WorkshopRole;
+  // Shown in organization views, where workshops of all facilitators appear
+  facilitatorName?: string;
 };
 
+function getGroupSizingLabel(workshop: Workshop): string {
+  const sizing = toGroupSizing(workshop);
+  return sizing ? ` • ${formatGroupSizing(sizing)}` : "";
+}
+
 type WorkshopListProps = {
   workshops: Workshop[];
+  emptyMessage?: string;
 };
 
-export function WorkshopList({ workshops }: WorkshopListProps) {
+export function WorkshopList({
+  workshops,
+  emptyMessage = "No workshops yet. Create your first workshop to get started.",
+}: WorkshopListProps) {
   const router = useRouter();
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [workshopToDelete, setWorkshopToDelete] = useState<Workshop | null>(
@@ -84,11 +105,7 @@ export function WorkshopList({ workshops }: WorkshopListProps) {
   };
 
   if (workshops.length === 0) {
-    return (
-      <p className="text-sm text-muted-foreground">
-        No workshops yet. Create your first workshop to get started.
-      </p>
-    );
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
   }
 
   return (
@@ -109,24 +126,31 @@ export function WorkshopList({ workshops }: WorkshopListProps) {
                     </CardTitle>
                     <div className="flex flex-wrap items-center gap-2">
                       <WorkshopStatusBadge status={workshop.status} />
+                      {workshop.role !== "owner" && (
+                        <Badge variant="outline">
+                          {formatWorkshopRole(workshop.role)}
+                        </Badge>
+                      )}
                       <span className="text-xs text-muted-foreground">
                         Code: {workshop.joinCode}
                       </span>
                     </div>
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={(e) => {
-                      e.preventDefault();
-                      e.stopPropagation();
-                      handleDeleteClick(workshop);
-                    }}
-                    title="Delete workshop"
-                    className="text-destructive hover:text-destructive hover:bg-destructive/10 flex-shrink-0"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                  {workshop.role === "owner" && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        handleDeleteClick(workshop);
+                      }}
+                      title="Delete workshop"
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10 flex-shrink-0"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
               </CardHeader>
               <CardContent className="space-y-2 flex-1">
@@ -149,13 +173,18 @@ export function WorkshopList({ workshops }: WorkshopListProps) {
                     </span>
                   </div>
                 </div>
+                {workshop.facilitatorName && (
+                  <CardDescription className="text-xs">
+                    Facilitator: {workshop.facilitatorName}
+                  </CardDescription>
+                )}
                 {workshop.framework && (
                   <CardDescription className="text-xs">
                     Framework:{" "}
-                    {workshop.framework.charAt(0).toUpperCase() +
-                      workshop.framework.slice(1)}
-                    {workshop.groupSize &&
-                      ` • Group size: ${workshop.groupSize}`}
+                    {workshop.customFrameworkName ??
+                      workshop.framework.charAt(0).toUpperCase() +
+                        workshop.framework.slice(1)}
+                    {getGroupSizingLabel(workshop)}
                   </CardDescription>
                 )}
               </CardContent>
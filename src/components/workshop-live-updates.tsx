@@ -0,0 +1,86 @@
+"use client";
+
+import { createContext, useCallback, useContext } from "react";
+import { useRouter } from "next/navigation";
+import { useSWRConfig } from "swr";
+import { useWorkshopEvents } from "@/hooks/use-workshop-events";
+import type { WorkshopEvent } from "@/types/workshop-events";
+
+/**
+ * Polling interval used by dashboard widgets while the live stream is down
+ */
+export const FALLBACK_POLL_INTERVAL_MS = 5000;
+
+type WorkshopLiveStatus = {
+  isConnected: boolean;
+};
+
+const WorkshopLiveContext = createContext<WorkshopLiveStatus>({
+  isConnected: false,
+});
+
+/**
+ * Returns the live connection state of the surrounding workshop dashboard.
+ * Outside of a `WorkshopLiveUpdates` provider the stream is reported as
+ * disconnected, so consumers keep polling.
+ */
+export function useWorkshopLiveStatus(): WorkshopLiveStatus {
+  return useContext(WorkshopLiveContext);
+}
+
+type WorkshopLiveUpdatesProps = {
+  workshopId: string;
+  children: React.ReactNode;
+};
+
+export function WorkshopLiveUpdates({
+  workshopId,
+  children,
+}: WorkshopLiveUpdatesProps) {
+  const router = useRouter();
+  const { mutate } = useSWRConfig();
+
+  const handleEvent = useCallback(
+    (event: WorkshopEvent) => {
+      switch (event.type) {
+        case "participant_joined":
+        case "participants_imported":
+          mutate(`/api/workshop/${workshopId}/participants`);
+          mutate(`/api/workshop/${workshopId}/country-distribution`);
+          break;
+        case "participant_left":
+          mutate(`/api/workshop/${workshopId}/participants`);
+          mutate(`/api/workshop/${workshopId}/country-distribution`);
+          // Groups may have been rebalanced
+          router.refresh();
+          break;
+        case "grouping_job_updated":
+          // Progress of background group generation
+          mutate(`/api/workshop/${workshopId}/grouping-job`);
+          break;
+        case "groups_generated":
+        case "groups_updated":
+        case "candidates_generated":
+        case "status_changed":
+        case "round_changed":
+        case "reflection_submitted":
+          // Server-rendered sections (groups, candidates, reflections, state
+          // controls)
+          router.refresh();
+          break;
+      }
+    },
+    [workshopId, mutate, router]
+  );
+
+  const { isConnected } = useWorkshopEvents(
+    `/api/workshop/${workshopId}/events`,
+    handleEvent
+  );
+
+  return (
+    <WorkshopLiveContext.Provider value={{ isConnected }}>
+      {children}
+    </WorkshopLiveContext.Provider>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { setWorkshopOrganization } from "@/lib/actions/organization-actions";
+
+// Select value of workshops that do not belong to an organization
+const PERSONAL_WORKSHOP = "personal";
+
+type WorkshopOrganizationSelectProps = {
+  workshopId: string;
+  organization: { id: string; name: string } | null;
+  // Organizations the workshop can be moved to
+  organizations: Array<{ id: string; name: string }>;
+};
+
+export function WorkshopOrganizationSelect({
+  workshopId,
+  organization,
+  organizations,
+}: WorkshopOrganizationSelectProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the current organization selectable after leaving it
+  const options =
+    organization && !organizations.some((o) => o.id === organization.id)
+      ? [organization, ...organizations]
+      : organizations;
+
+  function handleChange(value: string) {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await setWorkshopOrganization(
+        workshopId,
+        value === PERSONAL_WORKSHOP ? null : value
+      );
+
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+
+      router.refresh();
+    });
+  }
+
+  return (
+    <div className="space-y-2">
+      <Select
+        value={organization?.id ?? PERSONAL_WORKSHOP}
+        onValueChange={handleChange}
+        disabled={isPending}
+      >
+        <SelectTrigger className="w-64">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={PERSONAL_WORKSHOP}>Personal workshop</SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option.id} value={option.id}>
+              {option.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-sm text-muted-foreground">
+        All members of the organization can view this workshop; its admins can
+        manage it.
+      </p>
+      {error && (
+        <div className="text-sm font-medium text-destructive">{error}</div>
+      )}
+    </div>
+  );
+}
@@ -3,9 +3,39 @@
 import { useRouter } from "next/navigation";
 import { useState, useTransition } from "react";
 import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { updateWorkshopStatus } from "@/lib/actions/workshop-actions";
 import type { WorkshopStatus } from "@/lib/db/schema/workshops";
 
+// Backward transitions, which need confirmation
+type Reopening = {
+  status: WorkshopStatus;
+  label: string;
+  description: string;
+};
+
+const REOPENINGS: Partial<Record<WorkshopStatus, Reopening>> = {
+  grouped: {
+    status: "collecting",
+    label: "Reopen Collecting",
+    description:
+      "New participants can join again. All groups of every round and the reflections submitted so far are deleted; generate the groups again once everyone has joined.",
+  },
+  closed: {
+    status: "grouped",
+    label: "Reopen Workshop",
+    description:
+      "The workshop goes back to grouped. Groups can be edited and participants can submit reflections again.",
+  },
+};
+
 type WorkshopStateControlsProps = {
   workshopId: string;
   currentStatus: WorkshopStatus;
@@ -18,6 +48,9 @@ export function WorkshopStateControls({
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
   const [error, setError] = useState<string | null>(null);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const reopening = REOPENINGS[currentStatus];
 
   const handleStatusUpdate = async (newStatus: WorkshopStatus) => {
     setError(null);
@@ -30,13 +63,21 @@ export function WorkshopStateControls({
         return;
       }
 
+      setConfirmOpen(false);
       router.refresh();
     });
   };
 
+  const handleConfirmOpenChange = (open: boolean) => {
+    if (!isPending) {
+      setConfirmOpen(open);
+      setError(null);
+    }
+  };
+
   return (
     <div className="space-y-2">
-      <div className="flex gap-2">
+      <div className="flex flex-wrap gap-2">
         {currentStatus === "draft" && (
           <Button
             onClick={() => handleStatusUpdate("collecting")}
@@ -62,8 +103,53 @@ export function WorkshopStateControls({
             Close Workshop
           </Button>
         )}
+        {reopening && (
+          <Button
+            onClick={() => setConfirmOpen(true)}
+            disabled={isPending}
+            variant="outline"
+          >
+            {reopening.label}
+          </Button>
+        )}
       </div>
-      {error && <p className="text-sm text-destructive">{error}</p>}
+      {error && !confirmOpen && (
+        <p className="text-sm text-destructive">{error}</p>
+      )}
+
+      {reopening && (
+        <Dialog open={confirmOpen} onOpenChange={handleConfirmOpenChange}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{reopening.label}</DialogTitle>
+              <DialogDescription>{reopening.description}</DialogDescription>
+            </DialogHeader>
+            {error && (
+              <div className="text-sm font-medium text-destructive">
+                {error}
+              </div>
+            )}
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => handleConfirmOpenChange(false)}
+                disabled={isPending}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant={
+                  reopening.status === "collecting" ? "destructive" : "default"
+                }
+                onClick={() => handleStatusUpdate(reopening.status)}
+                disabled={isPending}
+              >
+                {isPending ? "Reopening..." : reopening.label}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
     </div>
   );
 }
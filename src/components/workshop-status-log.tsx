@@ -0,0 +1,49 @@
+import { ArrowRight } from "lucide-react";
+import { WorkshopStatusBadge } from "@/components/workshop-status-badge";
+import type { WorkshopStatus } from "@/lib/db/schema/workshops";
+
+type WorkshopStatusChange = {
+  id: string;
+  userName: string;
+  fromStatus: WorkshopStatus;
+  toStatus: WorkshopStatus;
+  createdAt: Date;
+};
+
+type WorkshopStatusLogProps = {
+  changes: WorkshopStatusChange[];
+};
+
+export function WorkshopStatusLog({ changes }: WorkshopStatusLogProps) {
+  if (changes.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">No status changes yet.</p>
+    );
+  }
+
+  return (
+    <ul className="divide-y">
+      {changes.map((change) => (
+        <li
+          key={change.id}
+          className="flex flex-wrap items-center justify-between gap-2 py-3 first:pt-0 last:pb-0"
+        >
+          <div className="flex items-center gap-2">
+            <WorkshopStatusBadge status={change.fromStatus} />
+            <ArrowRight className="h-4 w-4 text-muted-foreground" />
+            <WorkshopStatusBadge status={change.toStatus} />
+          </div>
+          <div className="text-sm text-muted-foreground">
+            {change.userName} •{" "}
+            {new Date(change.createdAt).toLocaleString("en-US", {
+              month: "short",
+              day: "numeric",
+              hour: "numeric",
+              minute: "2-digit",
+            })}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
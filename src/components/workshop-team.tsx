@@ -0,0 +1,282 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Check, Link as LinkIcon, Trash2, UserPlus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  inviteWorkshopMember,
+  removeWorkshopMember,
+  revokeWorkshopInvitation,
+  updateWorkshopMemberRole,
+} from "@/lib/actions/member-actions";
+import type { WorkshopTeam as WorkshopTeamData } from "@/lib/db/queries/member-queries";
+import {
+  WORKSHOP_ROLE_DESCRIPTIONS,
+  WORKSHOP_ROLES,
+  formatWorkshopRole,
+  type WorkshopRole,
+} from "@/lib/utils/workshop-roles";
+
+type WorkshopTeamProps = {
+  workshopId: string;
+  team: WorkshopTeamData;
+  currentUserId: string;
+  // Owners manage the team; everyone else can only leave
+  isOwner: boolean;
+};
+
+export function WorkshopTeam({
+  workshopId,
+  team,
+  currentUserId,
+  isOwner,
+}: WorkshopTeamProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<WorkshopRole>("co_facilitator");
+  const [error, setError] = useState<string | null>(null);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+  // Organization members can view the workshop without being on its team
+  const isMember = team.members.some(
+    (member) => member.userId === currentUserId
+  );
+
+  function runAction(
+    action: () => Promise<{ success: true } | { error: string }>,
+    onSuccess?: () => void
+  ) {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await action();
+
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+
+      onSuccess?.();
+      router.refresh();
+    });
+  }
+
+  function handleInvite(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    runAction(
+      () => inviteWorkshopMember(workshopId, { email, role }),
+      () => setEmail("")
+    );
+  }
+
+  function handleLeave() {
+    runAction(
+      () => removeWorkshopMember(workshopId, currentUserId),
+      () => router.push("/dashboard")
+    );
+  }
+
+  async function handleCopyLink(token: string) {
+    try {
+      await navigator.clipboard.writeText(
+        `${window.location.origin}/dashboard/invitations/${token}`
+      );
+      setCopiedToken(token);
+      setTimeout(() => setCopiedToken(null), 2000);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <ul className="divide-y">
+        {team.members.map((member) => (
+          <li
+            key={member.userId}
+            className="flex flex-wrap items-center justify-between gap-2 py-3"
+          >
+            <div className="min-w-0">
+              <div className="truncate text-sm font-medium">
+                {member.name}
+                {member.userId === currentUserId && " (you)"}
+              </div>
+              {member.email && (
+                <div className="truncate text-xs text-muted-foreground">
+                  {member.email}
+                </div>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              {isOwner ? (
+                <Select
+                  value={member.role}
+                  onValueChange={(value) =>
+                    runAction(() =>
+                      updateWorkshopMemberRole(
+                        workshopId,
+                        member.userId,
+                        value as WorkshopRole
+                      )
+                    )
+                  }
+                  disabled={isPending}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WORKSHOP_ROLES.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {formatWorkshopRole(option)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Badge variant="outline">
+                  {formatWorkshopRole(member.role)}
+                </Badge>
+              )}
+              {isOwner && member.userId !== currentUserId && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Remove from workshop"
+                  onClick={() =>
+                    runAction(() =>
+                      removeWorkshopMember(workshopId, member.userId)
+                    )
+                  }
+                  disabled={isPending}
+                  className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {isOwner && team.invitations.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-sm font-medium text-muted-foreground">
+            Pending Invitations
+          </div>
+          <ul className="divide-y">
+            {team.invitations.map((invitation) => (
+              <li
+                key={invitation.id}
+                className="flex flex-wrap items-center justify-between gap-2 py-3"
+              >
+                <div className="min-w-0">
+                  <div className="truncate text-sm">{invitation.email}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatWorkshopRole(invitation.role)}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleCopyLink(invitation.token)}
+                  >
+                    {copiedToken === invitation.token ? (
+                      <Check className="mr-2 h-4 w-4 text-green-600" />
+                    ) : (
+                      <LinkIcon className="mr-2 h-4 w-4" />
+                    )}
+                    {copiedToken === invitation.token ? "Copied" : "Copy link"}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Revoke invitation"
+                    onClick={() =>
+                      runAction(() =>
+                        revokeWorkshopInvitation(workshopId, invitation.id)
+                      )
+                    }
+                    disabled={isPending}
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {isOwner && (
+        <form onSubmit={handleInvite} className="space-y-4 border-t pt-4">
+          <div className="grid gap-4 sm:grid-cols-[1fr_auto]">
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                placeholder="colleague@example.com"
+                value={email}
+                onChange={(event) => setEmail(event.target.value)}
+                disabled={isPending}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-role">Role</Label>
+              <Select
+                value={role}
+                onValueChange={(value) => setRole(value as WorkshopRole)}
+                disabled={isPending}
+              >
+                <SelectTrigger id="invite-role" className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WORKSHOP_ROLES.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {formatWorkshopRole(option)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {WORKSHOP_ROLE_DESCRIPTIONS[role]}. Share the invitation link; it
+            can only be accepted by an account with this email address.
+          </p>
+          <Button type="submit" disabled={isPending || !email.trim()}>
+            <UserPlus className="mr-2 h-4 w-4" />
+            {isPending ? "Inviting..." : "Invite"}
+          </Button>
+        </form>
+      )}
+
+      {error && (
+        <div className="text-sm font-medium text-destructive">{error}</div>
+      )}
+
+      {!isOwner && isMember && (
+        <Button variant="outline" onClick={handleLeave} disabled={isPending}>
+          Leave Workshop
+        </Button>
+      )}
+    </div>
+  );
+}
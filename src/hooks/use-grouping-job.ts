@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import useSWR from "swr";
+import { useWorkshopLiveStatus } from "@/components/workshop-live-updates";
+import type {
+  GroupingJobKind,
+  GroupingJobProgress,
+  GroupingJobResult,
+  GroupingJobStatus,
+} from "@/lib/db/schema/grouping-jobs";
+
+export type GroupingJob = {
+  id: string;
+  kind: GroupingJobKind;
+  status: GroupingJobStatus;
+  progress: GroupingJobProgress | null;
+  result: GroupingJobResult | null;
+  error: string | null;
+};
+
+// Polling interval while a job runs and the live stream is down
+const JOB_POLL_INTERVAL_MS = 1000;
+
+const fetcher = async (url: string): Promise<GroupingJob | null> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error("Failed to fetch grouping job");
+  }
+  return response.json();
+};
+
+/**
+ * Follows the latest background grouping job of a workshop, over live
+ * updates or by polling while the stream is down. Refreshes the page once a
+ * job of the given kind, seen running, completes.
+ *
+ * @param workshopId - ID of the workshop
+ * @param kind - Kind of job whose completion refreshes the page
+ * @returns Latest job, or null if there is none, and a function to refetch it
+ */
+export function useGroupingJob(workshopId: string, kind: GroupingJobKind) {
+  const router = useRouter();
+  const { isConnected } = useWorkshopLiveStatus();
+
+  const { data: job, mutate } = useSWR<GroupingJob | null>(
+    `/api/workshop/${workshopId}/grouping-job`,
+    fetcher,
+    {
+      // Live updates revalidate on demand; poll only while a job runs
+      refreshInterval: (latest) =>
+        latest?.status === "running" && !isConnected ? JOB_POLL_INTERVAL_MS : 0,
+    }
+  );
+
+  // Show the new groups or candidates once a job seen running completes
+  const previousStatus = useRef<GroupingJobStatus | undefined>(undefined);
+  useEffect(() => {
+    if (
+      previousStatus.current === "running" &&
+      job?.status === "completed" &&
+      job.kind === kind
+    ) {
+      router.refresh();
+    }
+    previousStatus.current = job?.status;
+  }, [job?.status, job?.kind, kind, router]);
+
+  return { job: job ?? null, mutate };
+}
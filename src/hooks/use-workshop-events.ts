@@ -0,0 +1,59 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { isWorkshopEvent, type WorkshopEvent } from "@/types/workshop-events";
+
+/**
+ * Subscribes to a workshop Server-Sent Events stream.
+ * The browser's EventSource reconnects automatically; `isConnected` is false
+ * while the stream is down so callers can fall back to polling.
+ *
+ * @param url - SSE endpoint URL, or null to disable the subscription
+ * @param onEvent - Callback invoked for each received event
+ * @returns Connection state of the stream
+ */
+export function useWorkshopEvents(
+  url: string | null,
+  onEvent: (event: WorkshopEvent) => void
+): { isConnected: boolean } {
+  const [isConnected, setIsConnected] = useState(false);
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!url || typeof EventSource === "undefined") {
+      return;
+    }
+
+    const source = new EventSource(url);
+
+    source.onopen = () => {
+      setIsConnected(true);
+    };
+
+    source.onerror = () => {
+      setIsConnected(false);
+    };
+
+    source.onmessage = (message) => {
+      try {
+        const parsed: unknown = JSON.parse(message.data);
+        if (isWorkshopEvent(parsed)) {
+          onEventRef.current(parsed);
+        }
+      } catch (error) {
+        console.error("Failed to parse workshop event:", error);
+      }
+    };
+
+    return () => {
+      source.close();
+      setIsConnected(false);
+    };
+  }, [url]);
+
+  return { isConnected };
+}
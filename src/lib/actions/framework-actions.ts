@@ -0,0 +1,337 @@
+"use server";
+
+import { randomUUID } from "node:crypto";
+import { and, count, eq, inArray, notInArray, sql } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import {
+  countries,
+  customFrameworkDimensions,
+  customFrameworkScores,
+  customFrameworks,
+  workshops,
+} from "@/lib/db/schema";
+import {
+  toDimensionKey,
+  validateCustomFrameworkDefinition,
+  type CustomFrameworkDefinition,
+} from "@/lib/utils/custom-framework";
+import { parseFrameworkScoresCsv } from "@/lib/utils/framework-scores-csv";
+import { toCustomFrameworkId } from "@/types/cultural";
+
+type FrameworkActionResult = { success: true } | { error: string };
+
+type CreateFrameworkResult =
+  | { success: true; frameworkId: string }
+  | { error: string };
+
+type UploadScoresResult =
+  | { success: true; countryCount: number }
+  | { error: string };
+
+/**
+ * Fetches a custom framework if the facilitator owns it.
+ */
+async function findOwnedFramework(frameworkId: string, facilitatorId: string) {
+  return await db.query.customFrameworks.findFirst({
+    where: and(
+      eq(customFrameworks.id, frameworkId),
+      eq(customFrameworks.facilitatorId, facilitatorId)
+    ),
+  });
+}
+
+/**
+ * Creates a custom cultural framework with its dimensions.
+ *
+ * @param definition - Framework name, description and dimensions
+ * @returns Success with the new framework ID, or error message
+ */
+export async function createCustomFramework(
+  definition: CustomFrameworkDefinition
+): Promise<CreateFrameworkResult> {
+  const userId = await requireAuth();
+
+  const validationError = validateCustomFrameworkDefinition(definition);
+  if (validationError) {
+    return { error: validationError };
+  }
+
+  try {
+    const frameworkId = randomUUID();
+
+    // Neon HTTP driver doesn't support transactions, so the framework and its
+    // dimensions are inserted in one batch
+    await db.batch([
+      db.insert(customFrameworks).values({
+        id: frameworkId,
+        facilitatorId: userId,
+        name: definition.name.trim(),
+        description: definition.description?.trim() || null,
+      }),
+      db.insert(customFrameworkDimensions).values(
+        definition.dimensions.map((dimension, index) => ({
+          frameworkId,
+          key: toDimensionKey(dimension.label),
+          label: dimension.label.trim(),
+          scaleMin: String(dimension.scaleMin),
+          scaleMax: String(dimension.scaleMax),
+          position: index,
+        }))
+      ),
+    ]);
+
+    return { success: true, frameworkId };
+  } catch (error) {
+    console.error("Error creating framework:", error);
+    return { error: "Failed to create framework. Please try again." };
+  }
+}
+
+/**
+ * Updates a custom framework's name, description and dimensions.
+ * Dimensions are matched by key: new ones are added, missing ones are
+ * deleted with their scores, and scores of a dimension whose scale changed
+ * are cleared because they were normalized with the old scale.
+ *
+ * @param frameworkId - Database ID of the framework
+ * @param definition - Updated framework definition
+ * @returns Success or error message
+ */
+export async function updateCustomFramework(
+  frameworkId: string,
+  definition: CustomFrameworkDefinition
+): Promise<FrameworkActionResult> {
+  const userId = await requireAuth();
+
+  // Verify facilitator owns framework
+  const framework = await findOwnedFramework(frameworkId, userId);
+  if (!framework) {
+    return { error: "Framework not found" };
+  }
+
+  const validationError = validateCustomFrameworkDefinition(definition);
+  if (validationError) {
+    return { error: validationError };
+  }
+
+  const existingDimensions = await db
+    .select()
+    .from(customFrameworkDimensions)
+    .where(eq(customFrameworkDimensions.frameworkId, frameworkId));
+  const existingByKey = new Map(existingDimensions.map((d) => [d.key, d]));
+
+  const keys = definition.dimensions.map((d) => toDimensionKey(d.label));
+
+  const dimensionWrites: BatchItem<"pg">[] = [];
+  for (const [index, dimension] of definition.dimensions.entries()) {
+    const key = keys[index];
+    const existing = existingByKey.get(key);
+
+    if (!existing) {
+      dimensionWrites.push(
+        db.insert(customFrameworkDimensions).values({
+          frameworkId,
+          key,
+          label: dimension.label.trim(),
+          scaleMin: String(dimension.scaleMin),
+          scaleMax: String(dimension.scaleMax),
+          position: index,
+        })
+      );
+      continue;
+    }
+
+    dimensionWrites.push(
+      db
+        .update(customFrameworkDimensions)
+        .set({
+          label: dimension.label.trim(),
+          scaleMin: String(dimension.scaleMin),
+          scaleMax: String(dimension.scaleMax),
+          position: index,
+        })
+        .where(eq(customFrameworkDimensions.id, existing.id))
+    );
+
+    const scaleChanged =
+      Number(existing.scaleMin) !== dimension.scaleMin ||
+      Number(existing.scaleMax) !== dimension.scaleMax;
+    if (scaleChanged) {
+      dimensionWrites.push(
+        db
+          .delete(customFrameworkScores)
+          .where(eq(customFrameworkScores.dimensionId, existing.id))
+      );
+    }
+  }
+
+  try {
+    // Neon HTTP driver doesn't support transactions, so all changes are
+    // written in one batch
+    await db.batch([
+      db
+        .update(customFrameworks)
+        .set({
+          name: definition.name.trim(),
+          description: definition.description?.trim() || null,
+          updatedAt: new Date(),
+        })
+        .where(eq(customFrameworks.id, frameworkId)),
+      // Remove dimensions that are no longer defined (scores cascade)
+      db
+        .delete(customFrameworkDimensions)
+        .where(
+          and(
+            eq(customFrameworkDimensions.frameworkId, frameworkId),
+            notInArray(customFrameworkDimensions.key, keys)
+          )
+        ),
+      ...dimensionWrites,
+    ]);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating framework:", error);
+    return { error: "Failed to update framework. Please try again." };
+  }
+}
+
+/**
+ * Deletes a custom framework with its dimensions and scores.
+ * Frameworks still selected by a workshop cannot be deleted.
+ *
+ * @param frameworkId - Database ID of the framework
+ * @returns Success or error message
+ */
+export async function deleteCustomFramework(
+  frameworkId: string
+): Promise<FrameworkActionResult> {
+  const userId = await requireAuth();
+
+  // Verify facilitator owns framework
+  const framework = await findOwnedFramework(frameworkId, userId);
+  if (!framework) {
+    return { error: "Framework not found" };
+  }
+
+  const usage = await db
+    .select({ count: count() })
+    .from(workshops)
+    .where(eq(workshops.framework, toCustomFrameworkId(frameworkId)));
+
+  const workshopCount = usage[0]?.count ?? 0;
+  if (workshopCount > 0) {
+    return {
+      error: `This framework is used by ${workshopCount} workshop${workshopCount === 1 ? "" : "s"}`,
+    };
+  }
+
+  try {
+    await db
+      .delete(customFrameworks)
+      .where(eq(customFrameworks.id, frameworkId));
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting framework:", error);
+    return { error: "Failed to delete framework. Please try again." };
+  }
+}
+
+/**
+ * Uploads country scores for a custom framework from CSV text.
+ * Raw scores are normalized to 0-1 using each dimension's scale and
+ * replace any previous score of the same country and dimension.
+ *
+ * @param frameworkId - Database ID of the framework
+ * @param csv - CSV with a country code column and one column per dimension
+ * @returns Success with the number of countries updated, or error message
+ */
+export async function uploadCustomFrameworkScores(
+  frameworkId: string,
+  csv: string
+): Promise<UploadScoresResult> {
+  const userId = await requireAuth();
+
+  // Verify facilitator owns framework
+  const framework = await findOwnedFramework(frameworkId, userId);
+  if (!framework) {
+    return { error: "Framework not found" };
+  }
+
+  const dimensions = await db
+    .select()
+    .from(customFrameworkDimensions)
+    .where(eq(customFrameworkDimensions.frameworkId, frameworkId));
+
+  const parsed = parseFrameworkScoresCsv(
+    csv,
+    dimensions.map((d) => ({
+      id: d.id,
+      key: d.key,
+      label: d.label,
+      scaleMin: Number(d.scaleMin),
+      scaleMax: Number(d.scaleMax),
+    }))
+  );
+
+  if ("error" in parsed) {
+    return { error: parsed.error };
+  }
+
+  // Validate country codes exist
+  const countryCodes = parsed.rows.map((row) => row.countryCode);
+  const knownCountries = new Set(
+    (
+      await db
+        .select({ isoCode: countries.isoCode })
+        .from(countries)
+        .where(inArray(countries.isoCode, countryCodes))
+    ).map((c) => c.isoCode)
+  );
+
+  const unknownCountries = countryCodes.filter((c) => !knownCountries.has(c));
+  if (unknownCountries.length > 0) {
+    return {
+      error: `Unknown country codes: ${unknownCountries.slice(0, 5).join(", ")}${unknownCountries.length > 5 ? "…" : ""}`,
+    };
+  }
+
+  const values = parsed.rows.flatMap((row) =>
+    [...row.scores].map(([dimensionId, score]) => ({
+      dimensionId,
+      countryCode: row.countryCode,
+      score: score.toFixed(3),
+    }))
+  );
+
+  if (values.length === 0) {
+    return { error: "The file contains no scores" };
+  }
+
+  try {
+    await db.batch([
+      db
+        .insert(customFrameworkScores)
+        .values(values)
+        .onConflictDoUpdate({
+          target: [
+            customFrameworkScores.dimensionId,
+            customFrameworkScores.countryCode,
+          ],
+          set: { score: sql`excluded.score` },
+        }),
+      db
+        .update(customFrameworks)
+        .set({ updatedAt: new Date() })
+        .where(eq(customFrameworks.id, frameworkId)),
+    ]);
+
+    return { success: true, countryCount: parsed.rows.length };
+  } catch (error) {
+    console.error("Error uploading framework scores:", error);
+    return { error: "Failed to upload scores. Please try again." };
+  }
+}
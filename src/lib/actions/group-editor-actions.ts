@@ -0,0 +1,403 @@
+"use server";
+
+import { and, asc, count, eq, max, ne } from "drizzle-orm";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { getWorkshopById } from "@/lib/db/queries/workshop-queries";
+import {
+  groups,
+  groupMembers,
+  participants,
+  reflections,
+} from "@/lib/db/schema";
+import { publishWorkshopEvent } from "@/lib/realtime/workshop-events";
+
+type GroupEditResult = { success: true } | { error: string };
+
+type CreateGroupResult = { success: true; groupId: string } | { error: string };
+
+/**
+ * Checks that the facilitator can run the workshop and can still edit its
+ * groups, and that a given round number is one of the workshop's rounds.
+ * Returns an error message, or null if editing is allowed.
+ */
+async function getGroupEditError(
+  workshopId: string,
+  facilitatorId: string,
+  roundNumber?: number
+): Promise<string | null> {
+  const workshop = await getWorkshopById(
+    workshopId,
+    facilitatorId,
+    "co_facilitator"
+  );
+
+  if (!workshop) {
+    return "Workshop not found";
+  }
+
+  if (workshop.status === "closed") {
+    return "Cannot edit groups of a closed workshop";
+  }
+
+  if (
+    roundNumber !== undefined &&
+    (!Number.isInteger(roundNumber) ||
+      roundNumber < 1 ||
+      roundNumber > workshop.roundCount)
+  ) {
+    return "Round not found";
+  }
+
+  return null;
+}
+
+/**
+ * Finds the group of a participant within a rotation round of a workshop.
+ * Returns undefined if the participant does not belong to the workshop,
+ * null if they are not assigned to a group in that round.
+ */
+async function findParticipantGroup(
+  workshopId: string,
+  participantId: string,
+  roundNumber: number
+): Promise<string | null | undefined> {
+  const participant = await db
+    .select({ id: participants.id })
+    .from(participants)
+    .where(
+      and(
+        eq(participants.id, participantId),
+        eq(participants.workshopId, workshopId)
+      )
+    )
+    .limit(1);
+
+  if (participant.length === 0) {
+    return undefined;
+  }
+
+  const membership = await db
+    .select({ groupId: groupMembers.groupId })
+    .from(groupMembers)
+    .innerJoin(groups, eq(groupMembers.groupId, groups.id))
+    .where(
+      and(
+        eq(groupMembers.participantId, participantId),
+        eq(groups.workshopId, workshopId),
+        eq(groups.roundNumber, roundNumber)
+      )
+    )
+    .limit(1);
+
+  return membership[0]?.groupId ?? null;
+}
+
+/**
+ * Moves a participant into another group of the same workshop and round.
+ * Unassigned participants (e.g. late joiners) are added to the group.
+ * A reflection submitted in the old group follows the participant.
+ *
+ * @param workshopId - ID of the workshop
+ * @param participantId - ID of the participant to move
+ * @param targetGroupId - ID of the destination group
+ * @returns Success or error message
+ */
+export async function moveParticipantToGroup(
+  workshopId: string,
+  participantId: string,
+  targetGroupId: string
+): Promise<GroupEditResult> {
+  const userId = await requireAuth();
+
+  // Verify facilitator can run the workshop and it is still editable
+  const editError = await getGroupEditError(workshopId, userId);
+  if (editError) {
+    return { error: editError };
+  }
+
+  const targetGroup = await db
+    .select({ id: groups.id, roundNumber: groups.roundNumber })
+    .from(groups)
+    .where(and(eq(groups.id, targetGroupId), eq(groups.workshopId, workshopId)))
+    .limit(1);
+
+  if (targetGroup.length === 0) {
+    return { error: "Group not found" };
+  }
+
+  const currentGroupId = await findParticipantGroup(
+    workshopId,
+    participantId,
+    targetGroup[0].roundNumber
+  );
+
+  if (currentGroupId === undefined) {
+    return { error: "Participant not found" };
+  }
+
+  if (currentGroupId === targetGroupId) {
+    return { success: true };
+  }
+
+  try {
+    if (currentGroupId) {
+      // Neon HTTP driver doesn't support transactions, so the membership and
+      // reflection move together in one batch
+      await db.batch([
+        db
+          .update(groupMembers)
+          .set({ groupId: targetGroupId })
+          .where(
+            and(
+              eq(groupMembers.groupId, currentGroupId),
+              eq(groupMembers.participantId, participantId)
+            )
+          ),
+        db
+          .update(reflections)
+          .set({ groupId: targetGroupId })
+          .where(
+            and(
+              eq(reflections.participantId, participantId),
+              eq(reflections.groupId, currentGroupId)
+            )
+          ),
+      ]);
+    } else {
+      await db
+        .insert(groupMembers)
+        .values({ groupId: targetGroupId, participantId });
+    }
+
+    publishWorkshopEvent(workshopId, { type: "groups_updated" });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error moving participant:", error);
+    return { error: "Failed to move participant. Please try again." };
+  }
+}
+
+/**
+ * Swaps two participants between their groups within a rotation round.
+ * Reflections submitted in the swapped groups follow their authors.
+ *
+ * @param workshopId - ID of the workshop
+ * @param participantAId - ID of the first participant
+ * @param participantBId - ID of the second participant
+ * @param roundNumber - Round whose groups are edited
+ * @returns Success or error message
+ */
+export async function swapGroupMembers(
+  workshopId: string,
+  participantAId: string,
+  participantBId: string,
+  roundNumber: number
+): Promise<GroupEditResult> {
+  const userId = await requireAuth();
+
+  // Verify facilitator can run the workshop and it is still editable
+  const editError = await getGroupEditError(workshopId, userId);
+  if (editError) {
+    return { error: editError };
+  }
+
+  const groupAId = await findParticipantGroup(
+    workshopId,
+    participantAId,
+    roundNumber
+  );
+  const groupBId = await findParticipantGroup(
+    workshopId,
+    participantBId,
+    roundNumber
+  );
+
+  if (!groupAId || !groupBId) {
+    return { error: "Both participants must be assigned to a group" };
+  }
+
+  if (groupAId === groupBId) {
+    return { success: true };
+  }
+
+  try {
+    // Both participants move in one batch, or neither does
+    await db.batch([
+      db
+        .update(groupMembers)
+        .set({ groupId: groupBId })
+        .where(
+          and(
+            eq(groupMembers.groupId, groupAId),
+            eq(groupMembers.participantId, participantAId)
+          )
+        ),
+      db
+        .update(groupMembers)
+        .set({ groupId: groupAId })
+        .where(
+          and(
+            eq(groupMembers.groupId, groupBId),
+            eq(groupMembers.participantId, participantBId)
+          )
+        ),
+      db
+        .update(reflections)
+        .set({ groupId: groupBId })
+        .where(
+          and(
+            eq(reflections.participantId, participantAId),
+            eq(reflections.groupId, groupAId)
+          )
+        ),
+      db
+        .update(reflections)
+        .set({ groupId: groupAId })
+        .where(
+          and(
+            eq(reflections.participantId, participantBId),
+            eq(reflections.groupId, groupBId)
+          )
+        ),
+    ]);
+
+    publishWorkshopEvent(workshopId, { type: "groups_updated" });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error swapping participants:", error);
+    return { error: "Failed to swap participants. Please try again." };
+  }
+}
+
+/**
+ * Creates a new empty group numbered after the last group of a round.
+ *
+ * @param workshopId - ID of the workshop
+ * @param roundNumber - Round to add the group to (1 to the round count)
+ * @returns Success with the new group ID, or error message
+ */
+export async function createWorkshopGroup(
+  workshopId: string,
+  roundNumber: number
+): Promise<CreateGroupResult> {
+  const userId = await requireAuth();
+
+  // Verify facilitator can run the workshop, it is still editable and has
+  // the round
+  const editError = await getGroupEditError(workshopId, userId, roundNumber);
+  if (editError) {
+    return { error: editError };
+  }
+
+  const lastGroup = await db
+    .select({ groupNumber: max(groups.groupNumber) })
+    .from(groups)
+    .where(
+      and(
+        eq(groups.workshopId, workshopId),
+        eq(groups.roundNumber, roundNumber)
+      )
+    );
+
+  try {
+    const [group] = await db
+      .insert(groups)
+      .values({
+        workshopId,
+        groupNumber: (lastGroup[0]?.groupNumber ?? 0) + 1,
+        roundNumber,
+      })
+      .returning({ id: groups.id });
+
+    publishWorkshopEvent(workshopId, { type: "groups_updated" });
+
+    return { success: true, groupId: group.id };
+  } catch (error) {
+    console.error("Error creating group:", error);
+    return { error: "Failed to create group. Please try again." };
+  }
+}
+
+/**
+ * Deletes an empty group and renumbers the remaining groups of its round
+ * sequentially.
+ *
+ * @param workshopId - ID of the workshop
+ * @param groupId - ID of the group to delete
+ * @returns Success or error message
+ */
+export async function deleteWorkshopGroup(
+  workshopId: string,
+  groupId: string
+): Promise<GroupEditResult> {
+  const userId = await requireAuth();
+
+  // Verify facilitator can run the workshop and it is still editable
+  const editError = await getGroupEditError(workshopId, userId);
+  if (editError) {
+    return { error: editError };
+  }
+
+  const group = await db
+    .select({ id: groups.id, roundNumber: groups.roundNumber })
+    .from(groups)
+    .where(and(eq(groups.id, groupId), eq(groups.workshopId, workshopId)))
+    .limit(1);
+
+  if (group.length === 0) {
+    return { error: "Group not found" };
+  }
+
+  // Only empty groups can be deleted; members must be moved out first
+  const memberResult = await db
+    .select({ count: count() })
+    .from(groupMembers)
+    .where(eq(groupMembers.groupId, groupId));
+
+  if ((memberResult[0]?.count ?? 0) > 0) {
+    return { error: "Move all participants out of the group first" };
+  }
+
+  // Keep group numbers contiguous for participants
+  const remaining = await db
+    .select({ id: groups.id, groupNumber: groups.groupNumber })
+    .from(groups)
+    .where(
+      and(
+        eq(groups.workshopId, workshopId),
+        eq(groups.roundNumber, group[0].roundNumber),
+        ne(groups.id, groupId)
+      )
+    )
+    .orderBy(asc(groups.groupNumber));
+
+  const renumbered = remaining.flatMap((g, index) =>
+    g.groupNumber !== index + 1
+      ? [
+          db
+            .update(groups)
+            .set({ groupNumber: index + 1 })
+            .where(eq(groups.id, g.id)),
+        ]
+      : []
+  );
+
+  try {
+    // Neon HTTP driver doesn't support transactions; the batch deletes and
+    // renumbers together
+    await db.batch([
+      db.delete(groups).where(eq(groups.id, groupId)),
+      ...renumbered,
+    ]);
+
+    publishWorkshopEvent(workshopId, { type: "groups_updated" });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting group:", error);
+    return { error: "Failed to delete group. Please try again." };
+  }
+}
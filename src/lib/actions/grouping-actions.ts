@@ -1,30 +1,109 @@
 "use server";
 
-import { and, count, eq, inArray } from "drizzle-orm";
+import { after } from "next/server";
+import { and, count, eq } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
 import { requireAuth } from "@/lib/auth";
 import { db } from "@/lib/db";
-import { groups, groupMembers, participants, workshops } from "@/lib/db/schema";
-import { generateGroups } from "@/lib/utils/group-assignment";
-import { getCulturalDataForCountries } from "@/lib/db/queries/country-queries";
-import { validateFrameworkScores } from "@/types/cultural";
-import type { Framework } from "@/types/cultural";
-
-export type GroupSize = 3 | 4 | null;
+import {
+  customFrameworkDimensions,
+  customFrameworks,
+  groups,
+  groupingCandidates,
+  groupingConstraints,
+  groupingJobs,
+  participants,
+  workshops,
+} from "@/lib/db/schema";
+import {
+  MAX_ROUND_COUNT,
+  type GroupingConstraint,
+} from "@/lib/utils/group-assignment";
+import type { WorkshopStatus } from "@/lib/db/schema/workshops";
+import { getWorkshopById } from "@/lib/db/queries/workshop-queries";
+import { publishWorkshopEvent } from "@/lib/realtime/workshop-events";
+import {
+  createGroupingJob,
+  hasRunningGroupingJob,
+  loadGroupingInput,
+  runCandidateJob,
+  runGroupingJob,
+  saveGeneratedRounds,
+} from "@/lib/jobs/grouping-jobs";
+import {
+  validateGroupSizing,
+  type GroupSizing,
+} from "@/lib/utils/group-sizing";
+import {
+  validateGroupingObjective,
+  type GroupingObjective,
+} from "@/lib/utils/grouping-objective";
+import {
+  GROUPING_ALGORITHMS,
+  DEFAULT_GROUPING_ALGORITHM,
+  resolveAlgorithmParameters,
+  validateAlgorithmParameters,
+  type AlgorithmParameters,
+  type GroupingAlgorithm,
+} from "@/lib/utils/grouping-algorithm";
+import {
+  normalizeDistanceWeights,
+  validateDistanceWeights,
+  type DistanceWeights,
+} from "@/lib/utils/distance-weights";
+import {
+  DEFAULT_DISTANCE_METRIC,
+  DISTANCE_METRICS,
+  type DistanceMetric,
+} from "@/lib/utils/distance-metrics";
+import {
+  DEFAULT_PERSONAL_SCORE_WEIGHT,
+  DEFAULT_SCORE_SOURCE,
+  validateScoreSource,
+  type ScoreSource,
+} from "@/lib/utils/score-source";
+import { getCustomFrameworkDbId, isCustomFramework } from "@/types/cultural";
+import type { Framework, FrameworkDimension } from "@/types/cultural";
 
 type GroupingConfig = {
   framework: Framework;
-  groupSize: GroupSize;
+  sizing: GroupSizing;
+  objective: GroupingObjective;
+  // How dimension differences are combined; defaults to Euclidean
+  metric?: DistanceMetric;
+  // Framework and dimension weights; omitted or null weighs equally
+  weights?: DistanceWeights | null;
+  // Country, self-assessment or blended scores; defaults to country
+  scoreSource?: ScoreSource;
+  // Percent of personal scores when blending
+  personalScoreWeight?: number;
+  // Number of rotation rounds to generate
+  roundCount: number;
+  // Grouping algorithm and its parameters; defaults to the genetic
+  // algorithm with default parameters
+  algorithm?: GroupingAlgorithm;
+  algorithmParameters?: AlgorithmParameters | null;
+  constraints?: GroupingConstraint[];
 };
 
 type SaveGroupingConfigResult = { success: true } | { error: string };
 
+/**
+ * Seeds of a randomized algorithm tried per candidate generation, by
+ * default and at most (a greedy candidate is always added)
+ */
+const DEFAULT_CANDIDATE_COUNT = 3;
+const MAX_CANDIDATE_COUNT = 5;
+
 /**
  * Saves grouping configuration for a workshop.
- * Validates that groups haven't been generated yet and that there are
- * enough participants for the selected group size.
+ * Validates that groups haven't been generated yet, that the group sizing
+ * is valid, and that there are enough participants for it.
  *
  * @param workshopId - ID of the workshop to configure
- * @param config - Grouping configuration (framework and group size)
+ * @param config - Grouping configuration (framework, group sizing, objective,
+ * distance metric and weights, score source, rounds, algorithm and optional must-link / cannot-link constraints;
+ * replaces saved constraints)
  * @returns Success or error message
  */
 export async function saveGroupingConfig(
@@ -33,13 +112,8 @@ export async function saveGroupingConfig(
 ): Promise<SaveGroupingConfigResult> {
   const userId = await requireAuth();
 
-  // Verify facilitator owns workshop
-  const workshop = await db.query.workshops.findFirst({
-    where: and(
-      eq(workshops.id, workshopId),
-      eq(workshops.facilitatorId, userId)
-    ),
-  });
+  // Verify facilitator can run the workshop
+  const workshop = await getWorkshopById(workshopId, userId, "co_facilitator");
 
   if (!workshop) {
     return { error: "Workshop not found" };
@@ -57,6 +131,28 @@ export async function saveGroupingConfig(
     };
   }
 
+  // Validate group sizing
+  const sizingError = validateGroupSizing(config.sizing);
+  if (sizingError) {
+    return { error: sizingError };
+  }
+
+  // Validate grouping objective
+  const objectiveError = validateGroupingObjective(config.objective);
+  if (objectiveError) {
+    return { error: objectiveError };
+  }
+
+  if (
+    !Number.isInteger(config.roundCount) ||
+    config.roundCount < 1 ||
+    config.roundCount > MAX_ROUND_COUNT
+  ) {
+    return {
+      error: `Number of rounds must be between 1 and ${MAX_ROUND_COUNT}`,
+    };
+  }
+
   // Validate minimum participant count
   const participantResult = await db
     .select({ count: count() })
@@ -64,11 +160,17 @@ export async function saveGroupingConfig(
     .where(eq(participants.workshopId, workshopId));
 
   const participantCount = participantResult[0]?.count ?? 0;
-  const minRequired = config.groupSize ?? 3;
+  const minRequired =
+    config.sizing.mode === "size"
+      ? config.sizing.minSize
+      : config.sizing.groupCount * 2; // At least pairs in every group
 
   if (participantCount < minRequired) {
     return {
-      error: `Need at least ${minRequired} participants for this group size`,
+      error:
+        config.sizing.mode === "size"
+          ? `Need at least ${minRequired} participants for this group size`
+          : `Need at least ${minRequired} participants for this number of groups`,
     };
   }
 
@@ -77,16 +179,177 @@ export async function saveGroupingConfig(
     return { error: "Cannot configure a closed workshop" };
   }
 
+  // Validate framework is built-in or a custom framework of the workshop's
+  // creator
+  let customDimensions: FrameworkDimension[] = [];
+  if (isCustomFramework(config.framework)) {
+    const customFramework = await db.query.customFrameworks.findFirst({
+      where: and(
+        eq(customFrameworks.id, getCustomFrameworkDbId(config.framework)),
+        eq(customFrameworks.facilitatorId, workshop.facilitatorId)
+      ),
+    });
+    if (!customFramework) {
+      return { error: "Framework not found" };
+    }
+    customDimensions = await db
+      .select({
+        key: customFrameworkDimensions.key,
+        label: customFrameworkDimensions.label,
+      })
+      .from(customFrameworkDimensions)
+      .where(eq(customFrameworkDimensions.frameworkId, customFramework.id));
+  } else if (
+    !["lewis", "hall", "hofstede", "combined"].includes(config.framework)
+  ) {
+    return { error: "Invalid framework" };
+  }
+
+  // Validate distance metric
+  const metric = config.metric ?? DEFAULT_DISTANCE_METRIC;
+  if (!DISTANCE_METRICS.includes(metric)) {
+    return { error: "Invalid distance metric" };
+  }
+
+  // Validate grouping algorithm
+  const algorithm = config.algorithm ?? DEFAULT_GROUPING_ALGORITHM;
+  if (!GROUPING_ALGORITHMS.includes(algorithm)) {
+    return { error: "Invalid grouping algorithm" };
+  }
+  const parametersError = validateAlgorithmParameters(
+    config.algorithmParameters ?? {}
+  );
+  if (parametersError) {
+    return { error: parametersError };
+  }
+
+  // Validate score source
+  const scoreSourceConfig = {
+    scoreSource: config.scoreSource ?? DEFAULT_SCORE_SOURCE,
+    personalScoreWeight:
+      config.personalScoreWeight ?? DEFAULT_PERSONAL_SCORE_WEIGHT,
+  };
+  const scoreSourceError = validateScoreSource(scoreSourceConfig);
+  if (scoreSourceError) {
+    return { error: scoreSourceError };
+  }
+
+  // Validate distance weights
+  if (config.weights) {
+    const weightsError = validateDistanceWeights(
+      config.weights,
+      config.framework,
+      customDimensions
+    );
+    if (weightsError) {
+      return { error: weightsError };
+    }
+  }
+
+  // Validate constraints reference distinct participants of this workshop
+  const constraints = config.constraints ?? [];
+  if (constraints.length > 0) {
+    const workshopParticipantIds = new Set(
+      (
+        await db
+          .select({ id: participants.id })
+          .from(participants)
+          .where(eq(participants.workshopId, workshopId))
+      ).map((p) => p.id)
+    );
+
+    const seenPairs = new Set<string>();
+    for (const constraint of constraints) {
+      if (
+        !workshopParticipantIds.has(constraint.participantAId) ||
+        !workshopParticipantIds.has(constraint.participantBId)
+      ) {
+        return { error: "Constraints must reference workshop participants" };
+      }
+      if (constraint.participantAId === constraint.participantBId) {
+        return { error: "A constraint needs two different participants" };
+      }
+      const pairKey = [constraint.participantAId, constraint.participantBId]
+        .sort()
+        .join(":");
+      if (seenPairs.has(pairKey)) {
+        return {
+          error: "Each pair of participants can only have one constraint",
+        };
+      }
+      seenPairs.add(pairKey);
+    }
+  }
+
   // Save configuration
   try {
-    await db
-      .update(workshops)
-      .set({
-        framework: config.framework,
-        groupSize: config.groupSize,
-        updatedAt: new Date(),
-      })
-      .where(eq(workshops.id, workshopId));
+    const constraintWrites: BatchItem<"pg">[] = [];
+    if (config.constraints) {
+      // Replace saved constraints
+      constraintWrites.push(
+        db
+          .delete(groupingConstraints)
+          .where(eq(groupingConstraints.workshopId, workshopId))
+      );
+
+      if (constraints.length > 0) {
+        constraintWrites.push(
+          db.insert(groupingConstraints).values(
+            constraints.map((constraint) => ({
+              workshopId,
+              type: constraint.type,
+              participantAId: constraint.participantAId,
+              participantBId: constraint.participantBId,
+            }))
+          )
+        );
+      }
+    }
+
+    // Neon HTTP driver doesn't support transactions, so the configuration
+    // and its constraints are written in one batch
+    await db.batch([
+      db
+        .update(workshops)
+        .set({
+          framework: config.framework,
+          minGroupSize:
+            config.sizing.mode === "size" ? config.sizing.minSize : null,
+          maxGroupSize:
+            config.sizing.mode === "size" ? config.sizing.maxSize : null,
+          groupCount:
+            config.sizing.mode === "count" ? config.sizing.groupCount : null,
+          objective: config.objective.type,
+          targetDistanceMin:
+            config.objective.type === "target"
+              ? config.objective.minPercent
+              : null,
+          targetDistanceMax:
+            config.objective.type === "target"
+              ? config.objective.maxPercent
+              : null,
+          distanceMetric: metric,
+          distanceWeights: normalizeDistanceWeights(
+            config.weights,
+            config.framework,
+            customDimensions
+          ),
+          ...scoreSourceConfig,
+          roundCount: config.roundCount,
+          groupingAlgorithm: algorithm,
+          algorithmParameters: resolveAlgorithmParameters(
+            algorithm,
+            config.algorithmParameters
+          ),
+          updatedAt: new Date(),
+        })
+        .where(eq(workshops.id, workshopId)),
+      // Candidates were generated for the previous configuration
+      db
+        .delete(groupingCandidates)
+        .where(eq(groupingCandidates.workshopId, workshopId)),
+      ...constraintWrites,
+    ]);
 
     return { success: true };
   } catch (error) {
@@ -98,166 +361,389 @@ export async function saveGroupingConfig(
 }
 
 type GenerateWorkshopGroupsResult =
-  | { success: true; groupCount: number }
+  | { success: true; jobId: string }
   | { error: string };
 
+type CancelGroupingJobResult = { success: true } | { error: string };
+
 /**
- * Generates groups for a workshop based on cultural distances.
- * Clears existing groups and creates new ones in a transaction.
+ * Starts generating groups for a workshop in the background, based on
+ * cultural distances and the configured objective (diverse, similar or
+ * target distance band).
+ * The job creates one set of groups per configured round, minimizing repeat
+ * pairings across rounds, honors saved must-link / cannot-link constraints
+ * where possible, reports its progress and replaces the existing groups
+ * when done, starting the workshop at round 1.
  *
  * @param workshopId - ID of the workshop to generate groups for
- * @returns Success with group count, or error message
+ * @returns Success with the ID of the grouping job, or error message
  */
 export async function generateWorkshopGroups(
   workshopId: string
 ): Promise<GenerateWorkshopGroupsResult> {
   const userId = await requireAuth();
 
-  // Verify facilitator owns workshop
-  const workshop = await db.query.workshops.findFirst({
-    where: and(
-      eq(workshops.id, workshopId),
-      eq(workshops.facilitatorId, userId)
-    ),
-  });
+  // Verify facilitator can run the workshop
+  const workshop = await getWorkshopById(workshopId, userId, "co_facilitator");
 
   if (!workshop) {
     return { error: "Workshop not found" };
   }
 
   // Validate workshop status
-  if (workshop.status === "closed") {
-    return { error: "Cannot generate groups for a closed workshop" };
+  const statusError = getRegroupStatusError(workshop.status);
+  if (statusError) {
+    return { error: statusError };
   }
 
-  // Validate configuration is set
-  if (!workshop.framework) {
-    return { error: "Cultural framework must be configured first" };
+  const input = await loadGroupingInput(workshop);
+  if ("error" in input) {
+    return input;
   }
 
-  if (
-    workshop.groupSize !== 3 &&
-    workshop.groupSize !== 4 &&
-    workshop.groupSize !== null
-  ) {
-    return { error: "Group size must be configured first" };
-  }
+  try {
+    const jobId = await createGroupingJob(workshopId, userId);
+    if (!jobId) {
+      return { error: "Groups are already being generated" };
+    }
 
-  // Get all participants
-  const workshopParticipants = await db
-    .select({
-      id: participants.id,
-      countryCode: participants.countryCode,
-    })
-    .from(participants)
-    .where(eq(participants.workshopId, workshopId));
+    // Generate after responding, so the dashboard can show progress
+    after(() =>
+      runGroupingJob(
+        { id: jobId, workshopId, roundCount: workshop.roundCount },
+        input
+      )
+    );
 
-  if (workshopParticipants.length < 3) {
-    return { error: "Need at least 3 participants to form groups" };
-  }
+    publishWorkshopEvent(workshopId, {
+      type: "grouping_job_updated",
+      jobId,
+      status: "running",
+    });
 
-  // Get cultural scores for all participants in a single batch query
-  const countryCodes = workshopParticipants.map((p) => p.countryCode);
-  const culturalDataMap = await getCulturalDataForCountries(countryCodes);
+    return { success: true, jobId };
+  } catch (error) {
+    console.error("Error starting grouping job:", error);
+    return {
+      error: "Failed to start generating groups. Please try again.",
+    };
+  }
+}
 
-  // Build participants with scores and validate framework data
-  const framework = workshop.framework as Framework;
-  const participantsWithScores = [];
+/**
+ * Cancels a running grouping job. The job stops at its next progress
+ * report and the existing groups and candidates are kept.
+ *
+ * @param workshopId - ID of the workshop
+ * @param jobId - ID of the grouping job to cancel
+ * @returns Success or error message
+ */
+export async function cancelGroupingJob(
+  workshopId: string,
+  jobId: string
+): Promise<CancelGroupingJobResult> {
+  const userId = await requireAuth();
 
-  for (const participant of workshopParticipants) {
-    const culturalScores = culturalDataMap.get(participant.countryCode) ?? {};
+  // Verify facilitator can run the workshop
+  const workshop = await getWorkshopById(workshopId, userId, "co_facilitator");
 
-    // Validate framework scores
-    const validation = validateFrameworkScores(
-      culturalScores,
-      framework,
-      participant.countryCode
-    );
+  if (!workshop) {
+    return { error: "Workshop not found" };
+  }
 
-    if (!validation.valid) {
-      return { error: validation.error };
+  try {
+    const [cancelled] = await db
+      .update(groupingJobs)
+      .set({
+        status: "cancelled",
+        updatedAt: new Date(),
+        finishedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(groupingJobs.id, jobId),
+          eq(groupingJobs.workshopId, workshopId),
+          eq(groupingJobs.status, "running")
+        )
+      )
+      .returning({ id: groupingJobs.id });
+
+    if (!cancelled) {
+      return { error: "Group generation has already finished" };
     }
 
-    participantsWithScores.push({
-      id: participant.id,
-      culturalScores,
+    publishWorkshopEvent(workshopId, {
+      type: "grouping_job_updated",
+      jobId,
+      status: "cancelled",
     });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error cancelling grouping job:", error);
+    return { error: "Failed to cancel group generation. Please try again." };
+  }
+}
+
+type GenerateGroupingCandidatesResult =
+  | { success: true; jobId: string }
+  | { error: string };
+
+type GroupingCandidateActionResult = { success: true } | { error: string };
+
+/**
+ * Starts generating candidate groupings in the background, to compare
+ * before committing one (see runCandidateJob). Candidates replace earlier
+ * candidates when the job completes; the workshop's groups are not changed.
+ *
+ * @param workshopId - ID of the workshop
+ * @param seedCount - Number of seeds to try for a randomized algorithm
+ * @returns Success with the ID of the grouping job, or error message
+ */
+export async function generateGroupingCandidates(
+  workshopId: string,
+  seedCount = DEFAULT_CANDIDATE_COUNT
+): Promise<GenerateGroupingCandidatesResult> {
+  const userId = await requireAuth();
+
+  // Verify facilitator can run the workshop
+  const workshop = await getWorkshopById(workshopId, userId, "co_facilitator");
+
+  if (!workshop) {
+    return { error: "Workshop not found" };
+  }
+
+  const statusError = getRegroupStatusError(workshop.status);
+  if (statusError) {
+    return { error: statusError };
+  }
+
+  if (
+    !Number.isInteger(seedCount) ||
+    seedCount < 1 ||
+    seedCount > MAX_CANDIDATE_COUNT
+  ) {
+    return {
+      error: `Number of candidates must be between 1 and ${MAX_CANDIDATE_COUNT}`,
+    };
+  }
+
+  const input = await loadGroupingInput(workshop);
+  if ("error" in input) {
+    return input;
   }
 
-  // Generate groups
-  let generatedGroups: Array<{ participants: string[] }> | undefined;
   try {
-    generatedGroups = generateGroups(
-      participantsWithScores,
-      framework,
-      workshop.groupSize,
-      workshopId // Pass workshop ID for GA seeding
+    const jobId = await createGroupingJob(workshopId, userId, "candidates");
+    if (!jobId) {
+      return { error: "Groups are already being generated" };
+    }
+
+    // Generate after responding, so the dashboard can show progress
+    after(() =>
+      runCandidateJob(
+        {
+          id: jobId,
+          workshopId,
+          roundCount: workshop.roundCount,
+          createdBy: userId,
+        },
+        input,
+        seedCount
+      )
     );
+
+    publishWorkshopEvent(workshopId, {
+      type: "grouping_job_updated",
+      jobId,
+      status: "running",
+    });
+
+    return { success: true, jobId };
   } catch (error) {
-    console.error("Error generating groups:", error);
+    console.error("Error starting candidate job:", error);
     return {
-      error:
-        error instanceof Error
-          ? error.message
-          : "Failed to generate groups. Please try again.",
+      error: "Failed to start generating candidates. Please try again.",
     };
   }
+}
+
+/**
+ * Commits a candidate grouping: replaces the workshop's groups with the
+ * candidate's groups of every round and discards all candidates.
+ * Fails if participants joined or left since the candidate was generated.
+ *
+ * @param workshopId - ID of the workshop
+ * @param candidateId - ID of the candidate to commit
+ * @returns Success or error message
+ */
+export async function commitGroupingCandidate(
+  workshopId: string,
+  candidateId: string
+): Promise<GroupingCandidateActionResult> {
+  const userId = await requireAuth();
+
+  // Verify facilitator can run the workshop
+  const workshop = await getWorkshopById(workshopId, userId, "co_facilitator");
+
+  if (!workshop) {
+    return { error: "Workshop not found" };
+  }
 
-  if (!generatedGroups) {
+  const statusError = getRegroupStatusError(workshop.status);
+  if (statusError) {
+    return { error: statusError };
+  }
+
+  if (await hasRunningGroupingJob(workshopId)) {
     return {
-      error: "Unable to generate groups. Need at least 3 participants.",
+      error: "Groups are being generated. Cancel or wait for it to finish.",
     };
   }
 
-  // Clear existing groups and members in a transaction
-  try {
-    await db.transaction(async (tx) => {
-      // First, get all group IDs for this workshop
-      const existingGroups = await tx
-        .select({ id: groups.id })
-        .from(groups)
-        .where(eq(groups.workshopId, workshopId));
-
-      if (existingGroups.length > 0) {
-        const groupIds = existingGroups.map((g) => g.id);
-
-        // Delete group members
-        await tx
-          .delete(groupMembers)
-          .where(inArray(groupMembers.groupId, groupIds));
-
-        // Delete groups
-        await tx.delete(groups).where(eq(groups.workshopId, workshopId));
-      }
+  const candidate = await db.query.groupingCandidates.findFirst({
+    where: and(
+      eq(groupingCandidates.id, candidateId),
+      eq(groupingCandidates.workshopId, workshopId)
+    ),
+  });
+  if (!candidate) {
+    return { error: "Candidate not found" };
+  }
 
-      // Create new groups
-      const createdGroups = [];
-      for (let i = 0; i < generatedGroups.length; i++) {
-        const [group] = await tx
-          .insert(groups)
-          .values({
-            workshopId,
-            groupNumber: i + 1,
-          })
-          .returning();
-
-        createdGroups.push(group);
-
-        // Create group member records
-        for (const participantId of generatedGroups[i].participants) {
-          await tx.insert(groupMembers).values({
-            groupId: group.id,
-            participantId,
-          });
-        }
-      }
+  // The candidate must group exactly the current participants
+  const currentIds = (
+    await db
+      .select({ id: participants.id })
+      .from(participants)
+      .where(eq(participants.workshopId, workshopId))
+  ).map((p) => p.id);
+  const currentIdSet = new Set(currentIds);
+  const isStale =
+    candidate.rounds.length !== workshop.roundCount ||
+    candidate.rounds.some((roundGroups) => {
+      const ids = roundGroups.flat();
+      return (
+        ids.length !== currentIds.length ||
+        ids.some((id) => !currentIdSet.has(id))
+      );
     });
-
-    return { success: true, groupCount: generatedGroups.length };
-  } catch (error) {
-    console.error("Error saving groups to database:", error);
+  if (isStale) {
     return {
-      error: "Failed to save groups to database. Please try again.",
+      error:
+        "Participants changed since this candidate was generated. Generate new candidates.",
     };
   }
+
+  try {
+    await saveGeneratedRounds(
+      workshopId,
+      candidate.rounds.map((roundGroups) =>
+        roundGroups.map((participantIds) => ({ participants: participantIds }))
+      ),
+      { algorithm: candidate.algorithm, parameters: candidate.parameters }
+    );
+    await db
+      .delete(groupingCandidates)
+      .where(eq(groupingCandidates.workshopId, workshopId));
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error committing grouping candidate:", error);
+    return { error: "Failed to save groups to database. Please try again." };
+  }
+}
+
+/**
+ * Discards all candidate groupings of a workshop.
+ *
+ * @param workshopId - ID of the workshop
+ * @returns Success or error message
+ */
+export async function discardGroupingCandidates(
+  workshopId: string
+): Promise<GroupingCandidateActionResult> {
+  const userId = await requireAuth();
+
+  // Verify facilitator can run the workshop
+  const workshop = await getWorkshopById(workshopId, userId, "co_facilitator");
+
+  if (!workshop) {
+    return { error: "Workshop not found" };
+  }
+
+  try {
+    await db
+      .delete(groupingCandidates)
+      .where(eq(groupingCandidates.workshopId, workshopId));
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error discarding grouping candidates:", error);
+    return { error: "Failed to discard candidates. Please try again." };
+  }
+}
+
+type SetCurrentRoundResult = { success: true } | { error: string };
+
+/**
+ * Sets the rotation round participants currently see.
+ *
+ * @param workshopId - ID of the workshop
+ * @param roundNumber - Round to show (1 to the workshop's round count)
+ * @returns Success or error message
+ */
+export async function setCurrentRound(
+  workshopId: string,
+  roundNumber: number
+): Promise<SetCurrentRoundResult> {
+  const userId = await requireAuth();
+
+  // Verify facilitator can run the workshop
+  const workshop = await getWorkshopById(workshopId, userId, "co_facilitator");
+
+  if (!workshop) {
+    return { error: "Workshop not found" };
+  }
+
+  if (workshop.status === "closed") {
+    return { error: "Cannot change rounds of a closed workshop" };
+  }
+
+  if (
+    !Number.isInteger(roundNumber) ||
+    roundNumber < 1 ||
+    roundNumber > workshop.roundCount
+  ) {
+    return { error: "Round not found" };
+  }
+
+  try {
+    await db
+      .update(workshops)
+      .set({ currentRound: roundNumber, updatedAt: new Date() })
+      .where(eq(workshops.id, workshopId));
+
+    publishWorkshopEvent(workshopId, { type: "round_changed", roundNumber });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error changing round:", error);
+    return { error: "Failed to change round. Please try again." };
+  }
+}
+
+/**
+ * Returns why groups of a workshop in this status cannot be generated or
+ * replaced by a candidate: participants of a grouped workshop may already
+ * have submitted reflections for their groups
+ */
+function getRegroupStatusError(status: WorkshopStatus): string | null {
+  if (status === "closed") {
+    return "Cannot generate groups for a closed workshop";
+  }
+  if (status === "grouped") {
+    return "Reopen collecting to regroup the workshop";
+  }
+  return null;
 }
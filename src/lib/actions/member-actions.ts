@@ -0,0 +1,287 @@
+"use server";
+
+import { randomUUID } from "node:crypto";
+import { and, count, eq } from "drizzle-orm";
+import { getVerifiedEmails, requireAuth, requireCurrentUser } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { workshopInvitations, workshopMembers } from "@/lib/db/schema";
+import { getInvitationByToken } from "@/lib/db/queries/member-queries";
+import { getWorkshopById } from "@/lib/db/queries/workshop-queries";
+import { WORKSHOP_ROLES, type WorkshopRole } from "@/lib/utils/workshop-roles";
+
+type InviteMemberData = {
+  email: string;
+  role: WorkshopRole;
+};
+
+type InviteMemberResult = { success: true; token: string } | { error: string };
+
+type MemberActionResult = { success: true } | { error: string };
+
+type AcceptInvitationResult =
+  | { success: true; workshopId: string }
+  | { error: string };
+
+/**
+ * Invites a facilitator to a workshop by email. Inviting the same email
+ * again updates the role of the pending invitation.
+ *
+ * @param workshopId - ID of the workshop
+ * @param data - Email of the invitee and the role they get
+ * @returns Success with the invitation token (for the invite link), or error
+ */
+export async function inviteWorkshopMember(
+  workshopId: string,
+  data: InviteMemberData
+): Promise<InviteMemberResult> {
+  const userId = await requireAuth();
+
+  // Only owners manage the team
+  const workshop = await getWorkshopById(workshopId, userId, "owner");
+  if (!workshop) {
+    return { error: "Workshop not found" };
+  }
+
+  const email = data.email?.trim().toLowerCase() ?? "";
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return { error: "Please enter a valid email address" };
+  }
+
+  if (!WORKSHOP_ROLES.includes(data.role)) {
+    return { error: "Invalid role" };
+  }
+
+  try {
+    const [invitation] = await db
+      .insert(workshopInvitations)
+      .values({
+        workshopId,
+        email,
+        role: data.role,
+        token: randomUUID(),
+        invitedBy: userId,
+      })
+      .onConflictDoUpdate({
+        target: [workshopInvitations.workshopId, workshopInvitations.email],
+        set: { role: data.role },
+      })
+      .returning({ token: workshopInvitations.token });
+
+    return { success: true, token: invitation.token };
+  } catch (error) {
+    console.error("Error inviting workshop member:", error);
+    return { error: "Failed to send invitation. Please try again." };
+  }
+}
+
+/**
+ * Revokes a pending invitation.
+ *
+ * @param workshopId - ID of the workshop
+ * @param invitationId - ID of the invitation
+ * @returns Success or error message
+ */
+export async function revokeWorkshopInvitation(
+  workshopId: string,
+  invitationId: string
+): Promise<MemberActionResult> {
+  const userId = await requireAuth();
+
+  // Only owners manage the team
+  const workshop = await getWorkshopById(workshopId, userId, "owner");
+  if (!workshop) {
+    return { error: "Workshop not found" };
+  }
+
+  try {
+    await db
+      .delete(workshopInvitations)
+      .where(
+        and(
+          eq(workshopInvitations.id, invitationId),
+          eq(workshopInvitations.workshopId, workshopId)
+        )
+      );
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error revoking invitation:", error);
+    return { error: "Failed to revoke invitation. Please try again." };
+  }
+}
+
+/**
+ * Accepts a workshop invitation for the signed-in facilitator.
+ * The invitation email must be one of their verified email addresses.
+ * Existing members keep their current role.
+ *
+ * @param token - Invitation token
+ * @returns Success with the workshop ID, or error message
+ */
+export async function acceptWorkshopInvitation(
+  token: string
+): Promise<AcceptInvitationResult> {
+  const user = await requireCurrentUser();
+
+  const invitation = await getInvitationByToken(token);
+  if (!invitation) {
+    return { error: "This invitation is no longer valid" };
+  }
+
+  if (!getVerifiedEmails(user).includes(invitation.email)) {
+    return {
+      error: `This invitation was sent to ${invitation.email}. Sign in with that email address to accept it.`,
+    };
+  }
+
+  try {
+    // One batch, as Neon HTTP has no transactions: the invitation is only
+    // used up if the membership is written
+    await db.batch([
+      db
+        .insert(workshopMembers)
+        .values({
+          workshopId: invitation.workshopId,
+          userId: user.id,
+          role: invitation.role,
+        })
+        .onConflictDoNothing(),
+      db
+        .delete(workshopInvitations)
+        .where(eq(workshopInvitations.id, invitation.id)),
+    ]);
+
+    return { success: true, workshopId: invitation.workshopId };
+  } catch (error) {
+    console.error("Error accepting invitation:", error);
+    return { error: "Failed to accept invitation. Please try again." };
+  }
+}
+
+/**
+ * Changes the role of a workshop member. The last owner cannot be demoted.
+ *
+ * @param workshopId - ID of the workshop
+ * @param memberUserId - User ID of the member
+ * @param role - New role
+ * @returns Success or error message
+ */
+export async function updateWorkshopMemberRole(
+  workshopId: string,
+  memberUserId: string,
+  role: WorkshopRole
+): Promise<MemberActionResult> {
+  const userId = await requireAuth();
+
+  // Only owners manage the team
+  const workshop = await getWorkshopById(workshopId, userId, "owner");
+  if (!workshop) {
+    return { error: "Workshop not found" };
+  }
+
+  if (!WORKSHOP_ROLES.includes(role)) {
+    return { error: "Invalid role" };
+  }
+
+  const lastOwnerError = await getLastOwnerError(workshopId, memberUserId);
+  if (lastOwnerError && role !== "owner") {
+    return { error: lastOwnerError };
+  }
+
+  try {
+    await db
+      .update(workshopMembers)
+      .set({ role })
+      .where(
+        and(
+          eq(workshopMembers.workshopId, workshopId),
+          eq(workshopMembers.userId, memberUserId)
+        )
+      );
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating member role:", error);
+    return { error: "Failed to update role. Please try again." };
+  }
+}
+
+/**
+ * Removes a member from a workshop. Owners can remove anyone; every member
+ * can remove themselves (leave). The last owner cannot be removed.
+ *
+ * @param workshopId - ID of the workshop
+ * @param memberUserId - User ID of the member to remove
+ * @returns Success or error message
+ */
+export async function removeWorkshopMember(
+  workshopId: string,
+  memberUserId: string
+): Promise<MemberActionResult> {
+  const userId = await requireAuth();
+
+  // Owners manage the team; other members may only leave
+  const workshop = await getWorkshopById(
+    workshopId,
+    userId,
+    memberUserId === userId ? "observer" : "owner"
+  );
+  if (!workshop) {
+    return { error: "Workshop not found" };
+  }
+
+  const lastOwnerError = await getLastOwnerError(workshopId, memberUserId);
+  if (lastOwnerError) {
+    return { error: lastOwnerError };
+  }
+
+  try {
+    await db
+      .delete(workshopMembers)
+      .where(
+        and(
+          eq(workshopMembers.workshopId, workshopId),
+          eq(workshopMembers.userId, memberUserId)
+        )
+      );
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error removing member:", error);
+    return { error: "Failed to remove member. Please try again." };
+  }
+}
+
+/**
+ * Returns an error if the user is the only owner of the workshop, whose
+ * owner role must therefore be kept
+ */
+async function getLastOwnerError(
+  workshopId: string,
+  memberUserId: string
+): Promise<string | null> {
+  const member = await db.query.workshopMembers.findFirst({
+    where: and(
+      eq(workshopMembers.workshopId, workshopId),
+      eq(workshopMembers.userId, memberUserId)
+    ),
+  });
+
+  if (member?.role !== "owner") {
+    return null;
+  }
+
+  const [owners] = await db
+    .select({ count: count() })
+    .from(workshopMembers)
+    .where(
+      and(
+        eq(workshopMembers.workshopId, workshopId),
+        eq(workshopMembers.role, "owner")
+      )
+    );
+
+  return owners.count <= 1
+    ? "A workshop needs at least one owner. Make someone else owner first."
+    : null;
+}
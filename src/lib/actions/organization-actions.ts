@@ -0,0 +1,404 @@
+"use server";
+
+import { randomUUID } from "node:crypto";
+import { and, count, eq } from "drizzle-orm";
+import { getVerifiedEmails, requireAuth, requireCurrentUser } from "@/lib/auth";
+import { db } from "@/lib/db";
+import {
+  organizationInvitations,
+  organizationMembers,
+  organizations,
+  workshops,
+} from "@/lib/db/schema";
+import {
+  getOrganizationById,
+  getOrganizationInvitationByToken,
+} from "@/lib/db/queries/organization-queries";
+import { getWorkshopById } from "@/lib/db/queries/workshop-queries";
+import {
+  ORGANIZATION_ROLES,
+  type OrganizationRole,
+} from "@/lib/utils/organization-roles";
+
+type CreateOrganizationResult =
+  | { success: true; organizationId: string }
+  | { error: string };
+
+type InviteOrganizationMemberData = {
+  email: string;
+  role: OrganizationRole;
+};
+
+type InviteOrganizationMemberResult =
+  | { success: true; token: string }
+  | { error: string };
+
+type OrganizationActionResult = { success: true } | { error: string };
+
+type AcceptOrganizationInvitationResult =
+  | { success: true; organizationId: string }
+  | { error: string };
+
+/**
+ * Creates an organization with the signed-in facilitator as its admin.
+ *
+ * @param name - Name of the organization
+ * @returns Success with the organization ID, or error message
+ */
+export async function createOrganization(
+  name: string
+): Promise<CreateOrganizationResult> {
+  const userId = await requireAuth();
+
+  const trimmedName = name?.trim() ?? "";
+  if (!trimmedName) {
+    return { error: "Name is required" };
+  }
+  if (trimmedName.length > 100) {
+    return { error: "Name must be 100 characters or less" };
+  }
+
+  try {
+    const organizationId = randomUUID();
+
+    // Neon HTTP driver doesn't support transactions, so the organization and
+    // its first admin are inserted in one batch
+    await db.batch([
+      db
+        .insert(organizations)
+        .values({ id: organizationId, name: trimmedName, createdBy: userId }),
+      db.insert(organizationMembers).values({
+        organizationId,
+        userId,
+        role: "admin",
+      }),
+    ]);
+
+    return { success: true, organizationId };
+  } catch (error) {
+    console.error("Error creating organization:", error);
+    return { error: "Failed to create organization. Please try again." };
+  }
+}
+
+/**
+ * Invites a facilitator to an organization by email. Inviting the same
+ * email again updates the role of the pending invitation.
+ *
+ * @param organizationId - ID of the organization
+ * @param data - Email of the invitee and the role they get
+ * @returns Success with the invitation token (for the invite link), or error
+ */
+export async function inviteOrganizationMember(
+  organizationId: string,
+  data: InviteOrganizationMemberData
+): Promise<InviteOrganizationMemberResult> {
+  const userId = await requireAuth();
+
+  // Only admins manage the organization
+  const organization = await getOrganizationById(
+    organizationId,
+    userId,
+    "admin"
+  );
+  if (!organization) {
+    return { error: "Organization not found" };
+  }
+
+  const email = data.email?.trim().toLowerCase() ?? "";
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return { error: "Please enter a valid email address" };
+  }
+
+  if (!ORGANIZATION_ROLES.includes(data.role)) {
+    return { error: "Invalid role" };
+  }
+
+  try {
+    const [invitation] = await db
+      .insert(organizationInvitations)
+      .values({
+        organizationId,
+        email,
+        role: data.role,
+        token: randomUUID(),
+        invitedBy: userId,
+      })
+      .onConflictDoUpdate({
+        target: [
+          organizationInvitations.organizationId,
+          organizationInvitations.email,
+        ],
+        set: { role: data.role },
+      })
+      .returning({ token: organizationInvitations.token });
+
+    return { success: true, token: invitation.token };
+  } catch (error) {
+    console.error("Error inviting organization member:", error);
+    return { error: "Failed to send invitation. Please try again." };
+  }
+}
+
+/**
+ * Revokes a pending organization invitation.
+ *
+ * @param organizationId - ID of the organization
+ * @param invitationId - ID of the invitation
+ * @returns Success or error message
+ */
+export async function revokeOrganizationInvitation(
+  organizationId: string,
+  invitationId: string
+): Promise<OrganizationActionResult> {
+  const userId = await requireAuth();
+
+  // Only admins manage the organization
+  const organization = await getOrganizationById(
+    organizationId,
+    userId,
+    "admin"
+  );
+  if (!organization) {
+    return { error: "Organization not found" };
+  }
+
+  try {
+    await db
+      .delete(organizationInvitations)
+      .where(
+        and(
+          eq(organizationInvitations.id, invitationId),
+          eq(organizationInvitations.organizationId, organizationId)
+        )
+      );
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error revoking organization invitation:", error);
+    return { error: "Failed to revoke invitation. Please try again." };
+  }
+}
+
+/**
+ * Accepts an organization invitation for the signed-in facilitator.
+ * The invitation email must be one of their verified email addresses.
+ * Existing members keep their current role.
+ *
+ * @param token - Invitation token
+ * @returns Success with the organization ID, or error message
+ */
+export async function acceptOrganizationInvitation(
+  token: string
+): Promise<AcceptOrganizationInvitationResult> {
+  const user = await requireCurrentUser();
+
+  const invitation = await getOrganizationInvitationByToken(token);
+  if (!invitation) {
+    return { error: "This invitation is no longer valid" };
+  }
+
+  if (!getVerifiedEmails(user).includes(invitation.email)) {
+    return {
+      error: `This invitation was sent to ${invitation.email}. Sign in with that email address to accept it.`,
+    };
+  }
+
+  try {
+    // One batch, as Neon HTTP has no transactions: the invitation is only
+    // used up if the membership is written
+    await db.batch([
+      db
+        .insert(organizationMembers)
+        .values({
+          organizationId: invitation.organizationId,
+          userId: user.id,
+          role: invitation.role,
+        })
+        .onConflictDoNothing(),
+      db
+        .delete(organizationInvitations)
+        .where(eq(organizationInvitations.id, invitation.id)),
+    ]);
+
+    return { success: true, organizationId: invitation.organizationId };
+  } catch (error) {
+    console.error("Error accepting organization invitation:", error);
+    return { error: "Failed to accept invitation. Please try again." };
+  }
+}
+
+/**
+ * Changes the role of an organization member. The last admin cannot be
+ * demoted.
+ *
+ * @param organizationId - ID of the organization
+ * @param memberUserId - User ID of the member
+ * @param role - New role
+ * @returns Success or error message
+ */
+export async function updateOrganizationMemberRole(
+  organizationId: string,
+  memberUserId: string,
+  role: OrganizationRole
+): Promise<OrganizationActionResult> {
+  const userId = await requireAuth();
+
+  // Only admins manage the organization
+  const organization = await getOrganizationById(
+    organizationId,
+    userId,
+    "admin"
+  );
+  if (!organization) {
+    return { error: "Organization not found" };
+  }
+
+  if (!ORGANIZATION_ROLES.includes(role)) {
+    return { error: "Invalid role" };
+  }
+
+  const lastAdminError = await getLastAdminError(organizationId, memberUserId);
+  if (lastAdminError && role !== "admin") {
+    return { error: lastAdminError };
+  }
+
+  try {
+    await db
+      .update(organizationMembers)
+      .set({ role })
+      .where(
+        and(
+          eq(organizationMembers.organizationId, organizationId),
+          eq(organizationMembers.userId, memberUserId)
+        )
+      );
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating organization member role:", error);
+    return { error: "Failed to update role. Please try again." };
+  }
+}
+
+/**
+ * Removes a member from an organization. Admins can remove anyone; every
+ * member can remove themselves (leave). The last admin cannot be removed.
+ * Workshops of the member stay in the organization.
+ *
+ * @param organizationId - ID of the organization
+ * @param memberUserId - User ID of the member to remove
+ * @returns Success or error message
+ */
+export async function removeOrganizationMember(
+  organizationId: string,
+  memberUserId: string
+): Promise<OrganizationActionResult> {
+  const userId = await requireAuth();
+
+  // Admins manage the organization; other members may only leave
+  const organization = await getOrganizationById(
+    organizationId,
+    userId,
+    memberUserId === userId ? "member" : "admin"
+  );
+  if (!organization) {
+    return { error: "Organization not found" };
+  }
+
+  const lastAdminError = await getLastAdminError(organizationId, memberUserId);
+  if (lastAdminError) {
+    return { error: lastAdminError };
+  }
+
+  try {
+    await db
+      .delete(organizationMembers)
+      .where(
+        and(
+          eq(organizationMembers.organizationId, organizationId),
+          eq(organizationMembers.userId, memberUserId)
+        )
+      );
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error removing organization member:", error);
+    return { error: "Failed to remove member. Please try again." };
+  }
+}
+
+/**
+ * Moves a workshop into an organization, or back to personal workshops.
+ * Requires owner access to the workshop and membership of the target
+ * organization.
+ *
+ * @param workshopId - ID of the workshop
+ * @param organizationId - ID of the organization, or null for personal
+ * @returns Success or error message
+ */
+export async function setWorkshopOrganization(
+  workshopId: string,
+  organizationId: string | null
+): Promise<OrganizationActionResult> {
+  const userId = await requireAuth();
+
+  // Verify user owns the workshop
+  const workshop = await getWorkshopById(workshopId, userId, "owner");
+  if (!workshop) {
+    return { error: "Workshop not found" };
+  }
+
+  if (organizationId) {
+    const organization = await getOrganizationById(organizationId, userId);
+    if (!organization) {
+      return { error: "Organization not found" };
+    }
+  }
+
+  try {
+    await db
+      .update(workshops)
+      .set({ organizationId })
+      .where(eq(workshops.id, workshopId));
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error moving workshop:", error);
+    return { error: "Failed to move workshop. Please try again." };
+  }
+}
+
+/**
+ * Returns an error if the user is the only admin of the organization, whose
+ * admin role must therefore be kept
+ */
+async function getLastAdminError(
+  organizationId: string,
+  memberUserId: string
+): Promise<string | null> {
+  const member = await db.query.organizationMembers.findFirst({
+    where: and(
+      eq(organizationMembers.organizationId, organizationId),
+      eq(organizationMembers.userId, memberUserId)
+    ),
+  });
+
+  if (member?.role !== "admin") {
+    return null;
+  }
+
+  const [admins] = await db
+    .select({ count: count() })
+    .from(organizationMembers)
+    .where(
+      and(
+        eq(organizationMembers.organizationId, organizationId),
+        eq(organizationMembers.role, "admin")
+      )
+    );
+
+  return admins.count <= 1
+    ? "An organization needs at least one admin. Make someone else admin first."
+    : null;
+}
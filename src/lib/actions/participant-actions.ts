@@ -1,26 +1,90 @@
 "use server";
 
 import { randomUUID } from "node:crypto";
-import { and, eq } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { and, asc, eq, inArray, isNotNull, isNull, or } from "drizzle-orm";
 import { cookies } from "next/headers";
+import { requireAuth } from "@/lib/auth";
 import { db } from "@/lib/db";
-import { participants, workshops } from "@/lib/db/schema";
+import {
+  getCulturalDataForParticipants,
+  getDistanceOptions,
+} from "@/lib/db/queries/country-queries";
+import { getWorkshopConstraints } from "@/lib/db/queries/group-queries";
+import { getWorkshopById } from "@/lib/db/queries/workshop-queries";
+import {
+  countries,
+  groupMembers,
+  groupingConstraints,
+  groups,
+  participantCountries,
+  participants,
+  reflections,
+  workshops,
+} from "@/lib/db/schema";
+import { publishWorkshopEvent } from "@/lib/realtime/workshop-events";
+import {
+  placeLateJoiner,
+  rebalanceGroups,
+  type Group,
+} from "@/lib/utils/group-assignment";
+import { toGroupSizing } from "@/lib/utils/group-sizing";
+import { toGroupingObjective } from "@/lib/utils/grouping-objective";
+import { validateParticipantCountries } from "@/lib/utils/participant-countries";
+import { resolvePendingConstraints } from "@/lib/utils/pending-constraints";
+import {
+  normalizeAttributeValues,
+  validateAttributeValues,
+  type ParticipantAttributeValues,
+} from "@/lib/utils/participant-attributes";
+import {
+  readImportFile,
+  validateParticipantImport,
+  type ImportRowError,
+} from "@/lib/utils/participant-import";
+import {
+  computePersonalScores,
+  validateSelfAssessmentAnswers,
+  type SelfAssessmentAnswers,
+} from "@/lib/utils/self-assessment";
+import { validateFrameworkScores } from "@/types/cultural";
 
 type JoinWorkshopData = {
   name: string;
-  countryCode: string;
+  // Countries the participant identifies with, primary first; weights are
+  // optional and relative
+  countries: Array<{ countryCode: string; weight?: number }>;
+  // Optional questionnaire answers, scored into personal cultural scores
+  selfAssessment?: SelfAssessmentAnswers;
+  // Answers to the workshop's custom attributes, keyed by attribute key
+  attributes?: ParticipantAttributeValues;
 };
 
 type JoinWorkshopResult =
   | { success: true; participant: { id: string }; token: string }
   | { error: string };
 
+type ImportParticipantsResult =
+  | { success: true; importedCount: number }
+  | { error: string; rowErrors?: ImportRowError[] };
+
+type ClaimParticipantResult =
+  | { success: true; token: string }
+  | { error: string };
+
+type RemoveParticipantResult = { success: true } | { error: string };
+
 /**
  * Allows an anonymous participant to join a workshop by providing
- * their name and country via a join code.
+ * their name and one or more countries via a join code, answers to the
+ * workshop's custom attributes, and optionally answers to the
+ * self-assessment questionnaire. If the workshop allows late
+ * joining, participants can also join after grouping and are added to the
+ * existing groups.
  *
  * @param joinCode - 6-character alphanumeric join code
- * @param data - Participant data (name and country code)
+ * @param data - Participant data (name, countries with optional weights,
+ * attribute answers and optional questionnaire answers)
  * @returns Success with participant data and session token, or error message
  */
 export async function joinWorkshop(
@@ -36,7 +100,8 @@ export async function joinWorkshop(
     return { error: "Invalid join code" };
   }
 
-  if (workshop.status !== "collecting") {
+  const isLateJoin = workshop.status === "grouped" && workshop.lateJoining;
+  if (workshop.status !== "collecting" && !isLateJoin) {
     return { error: "Workshop is not accepting participants" };
   }
 
@@ -49,24 +114,33 @@ export async function joinWorkshop(
     return { error: "Name must be 100 characters or less" };
   }
 
-  if (!data.countryCode || data.countryCode.trim().length === 0) {
-    return { error: "Country is required" };
+  const countriesError = validateParticipantCountries(data.countries ?? []);
+  if (countriesError) {
+    return { error: countriesError };
   }
+  const countryCodes = data.countries.map((c) => c.countryCode.trim());
 
-  // Get or create session token
-  const cookieStore = await cookies();
-  let sessionToken = cookieStore.get("session_token")?.value;
-
-  if (!sessionToken) {
-    sessionToken = randomUUID();
-    cookieStore.set("session_token", sessionToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 60 * 60 * 24 * 30, // 30 days
-    });
+  if (data.selfAssessment) {
+    const selfAssessmentError = validateSelfAssessmentAnswers(
+      data.selfAssessment
+    );
+    if (selfAssessmentError) {
+      return { error: selfAssessmentError };
+    }
   }
 
+  // Validate answers to the workshop's custom attributes
+  const attributes = workshop.participantAttributes ?? [];
+  const attributesError = validateAttributeValues(
+    attributes,
+    data.attributes ?? {}
+  );
+  if (attributesError) {
+    return { error: attributesError };
+  }
+
+  const sessionToken = await getOrCreateSessionToken();
+
   // Check if already joined
   const existing = await db.query.participants.findFirst({
     where: and(
@@ -83,17 +157,59 @@ export async function joinWorkshop(
 
   // Create participant record
   try {
-    const [participant] = await db
-      .insert(participants)
-      .values({
-        workshopId: workshop.id,
-        name: data.name.trim(),
-        countryCode: data.countryCode.trim(),
-        sessionToken,
-      })
-      .returning({
-        id: participants.id,
-      });
+    const participant = { id: randomUUID() };
+    const insertParticipant = db.insert(participants).values({
+      id: participant.id,
+      workshopId: workshop.id,
+      name: data.name.trim(),
+      countryCode: countryCodes[0],
+      sessionToken,
+      personalScores: data.selfAssessment
+        ? computePersonalScores(data.selfAssessment)
+        : null,
+      attributes: normalizeAttributeValues(attributes, data.attributes),
+    });
+
+    // Multicultural participants: store every country with its weight. The
+    // Neon HTTP driver doesn't support transactions, so both inserts go in
+    // one batch
+    if (countryCodes.length > 1) {
+      await db.batch([
+        insertParticipant,
+        db.insert(participantCountries).values(
+          data.countries.map((country, index) => ({
+            participantId: participant.id,
+            countryCode: countryCodes[index],
+            weight: country.weight ?? 1,
+            position: index,
+          }))
+        ),
+      ]);
+    } else {
+      await insertParticipant;
+    }
+
+    try {
+      await applyPendingConstraints(workshop.id);
+    } catch (error) {
+      // The constraints stay pending; the facilitator can add them
+      console.error("Error applying pending constraints:", error);
+    }
+
+    publishWorkshopEvent(workshop.id, {
+      type: "participant_joined",
+      participantId: participant.id,
+    });
+
+    // Late joiners get a group in every round before their page loads
+    if (isLateJoin) {
+      try {
+        await addLateJoinerToGroups(workshop, participant.id);
+      } catch (error) {
+        // The participant stays unassigned; the facilitator can place them
+        console.error("Error assigning late joiner:", error);
+      }
+    }
 
     return { success: true, participant, token: sessionToken };
   } catch (error) {
@@ -101,3 +217,592 @@ export async function joinWorkshop(
     return { error: "Failed to join workshop. Please try again." };
   }
 }
+
+/**
+ * Pre-registers participants from an uploaded CSV or XLSX roster (name,
+ * country, optional email and tags). Each participant gets a personal claim
+ * link instead of joining via the join code. Nothing is imported if any row
+ * is invalid, so the facilitator can fix the file and upload it again.
+ *
+ * @param workshopId - ID of the workshop
+ * @param formData - Form data with the roster in the "file" field
+ * @returns Success with the number of participants imported, or error message
+ * with row-level errors
+ */
+export async function importParticipants(
+  workshopId: string,
+  formData: FormData
+): Promise<ImportParticipantsResult> {
+  const userId = await requireAuth();
+
+  // Verify facilitator can run the workshop
+  const workshop = await getWorkshopById(workshopId, userId, "co_facilitator");
+
+  if (!workshop) {
+    return { error: "Workshop not found" };
+  }
+
+  if (workshop.status !== "draft" && workshop.status !== "collecting") {
+    return {
+      error: "Participants can only be imported before groups are generated",
+    };
+  }
+
+  const file = formData.get("file");
+  if (!(file instanceof File) || file.size === 0) {
+    return { error: "Please select a CSV or XLSX file" };
+  }
+
+  let rows: string[][] | null;
+  try {
+    rows = await readImportFile(file);
+  } catch (error) {
+    console.error("Error reading participant import:", error);
+    return { error: "The file could not be read" };
+  }
+  if (!rows) {
+    return { error: "Only CSV and XLSX files are supported" };
+  }
+
+  const [knownCountries, registered] = await Promise.all([
+    db
+      .select({ isoCode: countries.isoCode, name: countries.name })
+      .from(countries),
+    db
+      .select({ email: participants.email })
+      .from(participants)
+      .where(
+        and(
+          eq(participants.workshopId, workshopId),
+          isNotNull(participants.email)
+        )
+      ),
+  ]);
+
+  const result = validateParticipantImport(
+    rows,
+    knownCountries,
+    new Set(registered.map((p) => p.email?.toLowerCase() ?? ""))
+  );
+
+  if ("error" in result) {
+    return { error: result.error };
+  }
+
+  if (result.rowErrors.length > 0) {
+    return {
+      error: `${result.rowErrors.length} ${result.rowErrors.length === 1 ? "row has" : "rows have"} errors. Nothing was imported.`,
+      rowErrors: result.rowErrors,
+    };
+  }
+
+  try {
+    await db.insert(participants).values(
+      result.participants.map((participant) => ({
+        workshopId,
+        name: participant.name,
+        countryCode: participant.countryCode,
+        email: participant.email,
+        tags: participant.tags.length > 0 ? participant.tags : null,
+        // Replaced by the browser's session token when the link is claimed
+        sessionToken: randomUUID(),
+        claimToken: randomUUID(),
+      }))
+    );
+
+    try {
+      await applyPendingConstraints(workshopId);
+    } catch (error) {
+      // The constraints stay pending; the facilitator can add them
+      console.error("Error applying pending constraints:", error);
+    }
+
+    publishWorkshopEvent(workshopId, {
+      type: "participants_imported",
+      participantCount: result.participants.length,
+    });
+
+    return { success: true, importedCount: result.participants.length };
+  } catch (error) {
+    console.error("Error importing participants:", error);
+    return { error: "Failed to import participants. Please try again." };
+  }
+}
+
+/**
+ * Claims a pre-registered participant from their personal claim link.
+ * The first claim binds the participant to this browser's session; later
+ * visits of the link lead back to the same participant.
+ *
+ * @param claimToken - Token of the participant's claim link
+ * @returns Success with the participant session token, or error message
+ */
+export async function claimParticipant(
+  claimToken: string
+): Promise<ClaimParticipantResult> {
+  const participant = await db.query.participants.findFirst({
+    where: eq(participants.claimToken, claimToken),
+  });
+
+  if (!participant) {
+    return { error: "Invalid invitation link" };
+  }
+
+  if (participant.claimedAt) {
+    return { success: true, token: participant.sessionToken };
+  }
+
+  const sessionToken = await getOrCreateSessionToken();
+
+  // Check if this browser already joined the workshop as someone else
+  const existing = await db.query.participants.findFirst({
+    where: and(
+      eq(participants.workshopId, participant.workshopId),
+      eq(participants.sessionToken, sessionToken)
+    ),
+  });
+
+  if (existing) {
+    return {
+      error: `You have already joined this workshop as ${existing.name}`,
+    };
+  }
+
+  try {
+    const [claimed] = await db
+      .update(participants)
+      .set({ sessionToken, claimedAt: new Date() })
+      .where(
+        and(eq(participants.id, participant.id), isNull(participants.claimedAt))
+      )
+      .returning({ sessionToken: participants.sessionToken });
+
+    // Claimed concurrently, e.g. by a double submit or another browser
+    if (!claimed) {
+      const current = await db.query.participants.findFirst({
+        where: eq(participants.id, participant.id),
+      });
+      return current?.sessionToken === sessionToken
+        ? { success: true, token: sessionToken }
+        : { error: "This invitation has already been claimed" };
+    }
+
+    publishWorkshopEvent(participant.workshopId, {
+      type: "participant_joined",
+      participantId: participant.id,
+    });
+
+    return { success: true, token: claimed.sessionToken };
+  } catch (error) {
+    console.error("Error claiming participant:", error);
+    return { error: "Failed to claim invitation. Please try again." };
+  }
+}
+
+/**
+ * Removes a participant from a workshop, e.g. a duplicate join or someone
+ * who left early. Their reflection and constraints are deleted, and the
+ * group they leave is rebalanced in every round.
+ *
+ * @param workshopId - ID of the workshop
+ * @param participantId - ID of the participant to remove
+ * @returns Success or error message
+ */
+export async function removeParticipant(
+  workshopId: string,
+  participantId: string
+): Promise<RemoveParticipantResult> {
+  const userId = await requireAuth();
+
+  // Verify facilitator can run the workshop
+  const workshop = await getWorkshopById(workshopId, userId, "co_facilitator");
+  if (!workshop) {
+    return { error: "Workshop not found" };
+  }
+
+  if (workshop.status === "closed") {
+    return { error: "Cannot remove participants from a closed workshop" };
+  }
+
+  const participant = await db.query.participants.findFirst({
+    where: and(
+      eq(participants.id, participantId),
+      eq(participants.workshopId, workshopId)
+    ),
+  });
+  if (!participant) {
+    return { error: "Participant not found" };
+  }
+
+  try {
+    await deleteParticipantAndRebalance(workshop, participantId);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error removing participant:", error);
+    return { error: "Failed to remove participant. Please try again." };
+  }
+}
+
+/**
+ * Lets a participant leave a workshop from their participant page. Their
+ * reflection is deleted and the group they leave is rebalanced.
+ *
+ * @param token - Participant session token
+ * @returns Success or error message
+ */
+export async function leaveWorkshop(
+  token: string
+): Promise<RemoveParticipantResult> {
+  const participant = await db.query.participants.findFirst({
+    where: eq(participants.sessionToken, token),
+  });
+  if (!participant) {
+    return { error: "Participant not found" };
+  }
+
+  const workshop = await db.query.workshops.findFirst({
+    where: eq(workshops.id, participant.workshopId),
+  });
+  if (!workshop) {
+    return { error: "Workshop not found" };
+  }
+
+  if (workshop.status === "closed") {
+    return { error: "This workshop is closed" };
+  }
+
+  try {
+    await deleteParticipantAndRebalance(workshop, participant.id);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error leaving workshop:", error);
+    return { error: "Failed to leave the workshop. Please try again." };
+  }
+}
+
+/**
+ * Loads what incremental group changes need: the groups of every round with
+ * their members, and the participants scored the same way as group
+ * generation. Participants without cultural data for the framework are
+ * left out of the scored participants. Returns null if the workshop is not
+ * configured or has no groups.
+ */
+async function getGroupingState(workshop: typeof workshops.$inferSelect) {
+  const sizing = toGroupSizing(workshop);
+  if (!workshop.framework || !sizing) {
+    return null;
+  }
+  const framework = workshop.framework;
+
+  const workshopGroups = await db
+    .select({ id: groups.id, roundNumber: groups.roundNumber })
+    .from(groups)
+    .where(eq(groups.workshopId, workshop.id))
+    .orderBy(asc(groups.roundNumber), asc(groups.groupNumber));
+
+  if (workshopGroups.length === 0) {
+    return null;
+  }
+
+  const [memberships, workshopParticipants] = await Promise.all([
+    db
+      .select({
+        groupId: groupMembers.groupId,
+        participantId: groupMembers.participantId,
+      })
+      .from(groupMembers)
+      .where(
+        inArray(
+          groupMembers.groupId,
+          workshopGroups.map((g) => g.id)
+        )
+      ),
+    db
+      .select({
+        id: participants.id,
+        countryCode: participants.countryCode,
+        personalScores: participants.personalScores,
+        attributes: participants.attributes,
+      })
+      .from(participants)
+      .where(eq(participants.workshopId, workshop.id)),
+  ]);
+
+  const culturalDataMap = await getCulturalDataForParticipants(
+    workshopParticipants,
+    workshop
+  );
+  const participantsWithScores = workshopParticipants.flatMap((p) => {
+    const culturalScores = culturalDataMap.get(p.id) ?? {};
+    return validateFrameworkScores(culturalScores, framework, p.countryCode)
+      .valid
+      ? [{ id: p.id, culturalScores, attributes: p.attributes }]
+      : [];
+  });
+
+  // Groups per round, in group number order
+  const rounds: Array<Array<{ id: string; group: Group }>> = Array.from(
+    { length: workshop.roundCount },
+    () => []
+  );
+  for (const { id, roundNumber } of workshopGroups) {
+    rounds[roundNumber - 1]?.push({
+      id,
+      group: {
+        participants: memberships
+          .filter((m) => m.groupId === id)
+          .map((m) => m.participantId),
+      },
+    });
+  }
+
+  return {
+    framework,
+    sizing,
+    rounds,
+    participants: participantsWithScores,
+    options: {
+      objective: toGroupingObjective(workshop),
+      distance: await getDistanceOptions(framework, workshop),
+      attributes: workshop.participantAttributes,
+    },
+  };
+}
+
+/**
+ * Adds a participant who joined after grouping to the existing groups of
+ * every round, where they add the most to the grouping objective. Other
+ * participants are not moved. Rounds without a group with room, and
+ * participants without cultural data for the framework, stay unassigned.
+ */
+async function addLateJoinerToGroups(
+  workshop: typeof workshops.$inferSelect,
+  participantId: string
+): Promise<void> {
+  const state = await getGroupingState(workshop);
+  const lateJoiner = state?.participants.find((p) => p.id === participantId);
+  if (!state || !lateJoiner) {
+    return;
+  }
+
+  const placements = placeLateJoiner(
+    lateJoiner,
+    state.participants.filter((p) => p.id !== participantId),
+    state.rounds.map((roundGroups) => roundGroups.map((g) => g.group)),
+    state.framework,
+    state.sizing,
+    state.options
+  );
+
+  const groupIds = placements.flatMap((index, round) =>
+    index === null ? [] : [state.rounds[round][index].id]
+  );
+  if (groupIds.length === 0) {
+    return;
+  }
+
+  await db
+    .insert(groupMembers)
+    .values(groupIds.map((groupId) => ({ groupId, participantId })));
+
+  // Refreshes the pages of the late joiner's new group members
+  publishWorkshopEvent(workshop.id, { type: "groups_updated" });
+}
+
+/**
+ * Creates the constraints from a template or duplicated workshop whose
+ * participants have now joined or been imported (see
+ * resolvePendingConstraints). The pending list is only replaced if no
+ * concurrent join changed it, so a constraint is never created twice.
+ */
+async function applyPendingConstraints(workshopId: string): Promise<void> {
+  const [workshop, workshopParticipants, existing] = await Promise.all([
+    db.query.workshops.findFirst({
+      columns: { pendingConstraints: true },
+      where: eq(workshops.id, workshopId),
+    }),
+    db
+      .select({ id: participants.id, name: participants.name })
+      .from(participants)
+      .where(eq(participants.workshopId, workshopId)),
+    getWorkshopConstraints(workshopId),
+  ]);
+  const pending = workshop?.pendingConstraints;
+  if (!pending || pending.length === 0) {
+    return;
+  }
+
+  const { resolved, remaining } = resolvePendingConstraints(
+    pending,
+    workshopParticipants,
+    existing
+  );
+  if (remaining.length === pending.length) {
+    return;
+  }
+
+  const [claimed] = await db
+    .update(workshops)
+    .set({ pendingConstraints: remaining.length > 0 ? remaining : null })
+    .where(
+      and(
+        eq(workshops.id, workshopId),
+        eq(workshops.pendingConstraints, pending)
+      )
+    )
+    .returning({ id: workshops.id });
+
+  if (claimed && resolved.length > 0) {
+    await db
+      .insert(groupingConstraints)
+      .values(resolved.map((c) => ({ ...c, workshopId })));
+  }
+}
+
+/**
+ * Deletes a participant with their reflection, constraints and group
+ * memberships, and rebalances the groups they leave behind in every round
+ * (see rebalanceGroups). Reflections follow their authors to their new
+ * group; a group left empty is deleted and the remaining groups of its round
+ * are renumbered.
+ */
+async function deleteParticipantAndRebalance(
+  workshop: typeof workshops.$inferSelect,
+  participantId: string
+): Promise<void> {
+  const state = await getGroupingState(workshop);
+
+  // New group of every moved participant, and the groups left empty
+  const moves: Array<{ participantId: string; from: string; to: string }> = [];
+  const emptiedGroups: Array<{ id: string; remainingIds: string[] }> = [];
+
+  if (state) {
+    for (const roundGroups of state.rounds) {
+      const groupIndex = roundGroups.findIndex((g) =>
+        g.group.participants.includes(participantId)
+      );
+      if (groupIndex === -1) continue;
+
+      const rebalanced = rebalanceGroups(
+        roundGroups.map((g) => ({
+          participants: g.group.participants.filter((p) => p !== participantId),
+        })),
+        groupIndex,
+        state.participants.filter((p) => p.id !== participantId),
+        state.framework,
+        state.sizing,
+        state.options
+      );
+
+      rebalanced.forEach((group, index) => {
+        for (const member of group.participants) {
+          const from = roundGroups.find((g) =>
+            g.group.participants.includes(member)
+          );
+          if (from && from.id !== roundGroups[index].id) {
+            moves.push({
+              participantId: member,
+              from: from.id,
+              to: roundGroups[index].id,
+            });
+          }
+        }
+      });
+      if (rebalanced[groupIndex].participants.length === 0) {
+        emptiedGroups.push({
+          id: roundGroups[groupIndex].id,
+          remainingIds: roundGroups
+            .filter((_, index) => index !== groupIndex)
+            .map((g) => g.id),
+        });
+      }
+    }
+  }
+
+  const updates: BatchItem<"pg">[] = [];
+  for (const move of moves) {
+    updates.push(
+      db
+        .update(groupMembers)
+        .set({ groupId: move.to })
+        .where(
+          and(
+            eq(groupMembers.groupId, move.from),
+            eq(groupMembers.participantId, move.participantId)
+          )
+        ),
+      db
+        .update(reflections)
+        .set({ groupId: move.to })
+        .where(
+          and(
+            eq(reflections.groupId, move.from),
+            eq(reflections.participantId, move.participantId)
+          )
+        )
+    );
+  }
+  for (const emptied of emptiedGroups) {
+    updates.push(db.delete(groups).where(eq(groups.id, emptied.id)));
+
+    // Keep group numbers contiguous for participants
+    for (const [index, groupId] of emptied.remainingIds.entries()) {
+      updates.push(
+        db
+          .update(groups)
+          .set({ groupNumber: index + 1 })
+          .where(eq(groups.id, groupId))
+      );
+    }
+  }
+
+  // Neon HTTP driver doesn't support transactions; a batch applies the
+  // removal and the rebalancing together
+  await db.batch([
+    db.delete(reflections).where(eq(reflections.participantId, participantId)),
+    db
+      .delete(groupingConstraints)
+      .where(
+        or(
+          eq(groupingConstraints.participantAId, participantId),
+          eq(groupingConstraints.participantBId, participantId)
+        )
+      ),
+    db
+      .delete(groupMembers)
+      .where(eq(groupMembers.participantId, participantId)),
+    db.delete(participants).where(eq(participants.id, participantId)),
+    ...updates,
+  ]);
+
+  publishWorkshopEvent(workshop.id, {
+    type: "participant_left",
+    participantId,
+  });
+  if (state) {
+    publishWorkshopEvent(workshop.id, { type: "groups_updated" });
+  }
+}
+
+/**
+ * Reads the browser's participant session token, creating the cookie if it
+ * does not exist yet
+ */
+async function getOrCreateSessionToken(): Promise<string> {
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get("session_token")?.value;
+  if (sessionToken) {
+    return sessionToken;
+  }
+
+  const newToken = randomUUID();
+  cookieStore.set("session_token", newToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: 60 * 60 * 24 * 30, // 30 days
+  });
+  return newToken;
+}
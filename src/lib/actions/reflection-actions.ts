@@ -1,13 +1,15 @@
 "use server";
 
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import { db } from "@/lib/db";
 import {
   reflections,
   participants,
   groupMembers,
+  groups,
   workshops,
 } from "@/lib/db/schema";
+import { publishWorkshopEvent } from "@/lib/realtime/workshop-events";
 
 const MAX_REFLECTION_LENGTH = 1000; // characters
 
@@ -58,6 +60,7 @@ export async function submitReflection(
   const workshopData = await db
     .select({
       status: workshops.status,
+      currentRound: workshops.currentRound,
     })
     .from(workshops)
     .where(eq(workshops.id, participant.workshopId))
@@ -91,13 +94,19 @@ export async function submitReflection(
     return { error: "Reflection already submitted" };
   }
 
-  // Find participant's group
+  // Find participant's group in the current round
   const groupMemberData = await db
     .select({
       groupId: groupMembers.groupId,
     })
     .from(groupMembers)
-    .where(eq(groupMembers.participantId, participant.id))
+    .innerJoin(groups, eq(groupMembers.groupId, groups.id))
+    .where(
+      and(
+        eq(groupMembers.participantId, participant.id),
+        eq(groups.roundNumber, workshopData[0].currentRound)
+      )
+    )
     .limit(1);
 
   if (groupMemberData.length === 0) {
@@ -118,6 +127,11 @@ export async function submitReflection(
         content: reflections.content,
       });
 
+    publishWorkshopEvent(participant.workshopId, {
+      type: "reflection_submitted",
+      participantId: participant.id,
+    });
+
     return { success: true, reflection };
   } catch (error) {
     console.error("Error submitting reflection:", error);
@@ -0,0 +1,111 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { workshopTemplates } from "@/lib/db/schema";
+import { getWorkshopConstraintsByName } from "@/lib/db/queries/group-queries";
+import { getOrganizationById } from "@/lib/db/queries/organization-queries";
+import { getWorkshopTemplatesByUser } from "@/lib/db/queries/template-queries";
+import { getWorkshopById } from "@/lib/db/queries/workshop-queries";
+import { toWorkshopConfiguration } from "@/lib/utils/workshop-configuration";
+
+type SaveWorkshopTemplateData = {
+  name: string;
+  // Organization to share the template with; personal if omitted
+  organizationId?: string | null;
+};
+
+type SaveWorkshopTemplateResult =
+  | { success: true; templateId: string }
+  | { error: string };
+
+type DeleteWorkshopTemplateResult = { success: true } | { error: string };
+
+/**
+ * Saves the title and configuration of a workshop as a template.
+ * Constraints are saved by participant name and apply to workshops created
+ * from the template once both participants join; participants and groups
+ * are not saved.
+ *
+ * @param workshopId - ID of the workshop to save
+ * @param data - Template name and optional organization to share it with
+ * @returns Success with the template ID, or error message
+ */
+export async function saveWorkshopTemplate(
+  workshopId: string,
+  data: SaveWorkshopTemplateData
+): Promise<SaveWorkshopTemplateResult> {
+  const userId = await requireAuth();
+
+  // Verify facilitator has access to the workshop
+  const workshop = await getWorkshopById(workshopId, userId);
+  if (!workshop) {
+    return { error: "Workshop not found" };
+  }
+
+  const name = data.name?.trim() ?? "";
+  if (!name) {
+    return { error: "Name is required" };
+  }
+  if (name.length > 100) {
+    return { error: "Name must be 100 characters or less" };
+  }
+
+  // Verify facilitator is a member of the organization
+  if (data.organizationId) {
+    const organization = await getOrganizationById(data.organizationId, userId);
+    if (!organization) {
+      return { error: "Organization not found" };
+    }
+  }
+
+  try {
+    const [template] = await db
+      .insert(workshopTemplates)
+      .values({
+        ...toWorkshopConfiguration(workshop),
+        pendingConstraints: await getWorkshopConstraintsByName(workshop),
+        name,
+        title: workshop.title,
+        facilitatorId: userId,
+        organizationId: data.organizationId ?? null,
+      })
+      .returning({ id: workshopTemplates.id });
+
+    return { success: true, templateId: template.id };
+  } catch (error) {
+    console.error("Error saving workshop template:", error);
+    return { error: "Failed to save template. Please try again." };
+  }
+}
+
+/**
+ * Deletes a workshop template. Templates can be deleted by their creator,
+ * and shared templates also by admins of the organization.
+ *
+ * @param templateId - ID of the template
+ * @returns Success or error message
+ */
+export async function deleteWorkshopTemplate(
+  templateId: string
+): Promise<DeleteWorkshopTemplateResult> {
+  const userId = await requireAuth();
+
+  const templates = await getWorkshopTemplatesByUser(userId);
+  const template = templates.find((t) => t.id === templateId);
+  if (!template?.canDelete) {
+    return { error: "Template not found" };
+  }
+
+  try {
+    await db
+      .delete(workshopTemplates)
+      .where(eq(workshopTemplates.id, templateId));
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting workshop template:", error);
+    return { error: "Failed to delete template. Please try again." };
+  }
+}
@@ -1,21 +1,46 @@
 "use server";
 
+import { randomUUID } from "node:crypto";
 import { and, eq, inArray } from "drizzle-orm";
 import { requireAuth } from "@/lib/auth";
 import { db } from "@/lib/db";
 import {
+  customFrameworks,
   groupMembers,
+  groupingConstraints,
   groups,
   participants,
   reflections,
+  workshopMembers,
+  workshopStatusChanges,
   workshops,
 } from "@/lib/db/schema";
+import { getWorkshopConstraintsByName } from "@/lib/db/queries/group-queries";
+import { getOrganizationById } from "@/lib/db/queries/organization-queries";
+import { getWorkshopTemplateById } from "@/lib/db/queries/template-queries";
+import { getWorkshopById } from "@/lib/db/queries/workshop-queries";
 import type { WorkshopStatus } from "@/lib/db/schema/workshops";
 import { generateJoinCode } from "@/lib/utils/join-code";
+import { publishWorkshopEvent } from "@/lib/realtime/workshop-events";
+import {
+  normalizeParticipantAttributes,
+  validateParticipantAttributes,
+  type ParticipantAttribute,
+} from "@/lib/utils/participant-attributes";
+import {
+  MAX_REFLECTION_PROMPT_LENGTH,
+  toWorkshopConfiguration,
+  type WorkshopConfiguration,
+} from "@/lib/utils/workshop-configuration";
+import { getCustomFrameworkDbId, isCustomFramework } from "@/types/cultural";
 
 type CreateWorkshopData = {
   title: string;
   date?: string;
+  // Organization to share the workshop with; personal if omitted
+  organizationId?: string;
+  // Template whose configuration the workshop starts with
+  templateId?: string;
 };
 
 type CreateWorkshopResult =
@@ -26,7 +51,8 @@ type CreateWorkshopResult =
  * Creates a new workshop with a unique join code.
  * Validates input and ensures join code uniqueness.
  *
- * @param data - Workshop creation data (title required, date optional)
+ * @param data - Workshop creation data (title required; date, organization
+ *   and template optional)
  * @returns Success with workshop data or error message
  */
 export async function createWorkshop(
@@ -43,28 +69,25 @@ export async function createWorkshop(
     return { error: "Title must be 200 characters or less" };
   }
 
-  // Generate unique join code
-  let joinCode = generateJoinCode();
-  let attempts = 0;
-  const maxAttempts = 10;
-
-  while (attempts < maxAttempts) {
-    const existing = await db
-      .select()
-      .from(workshops)
-      .where(eq(workshops.joinCode, joinCode))
-      .limit(1);
-
-    if (existing.length === 0) {
-      break;
+  // Verify facilitator is a member of the organization
+  if (data.organizationId) {
+    const organization = await getOrganizationById(data.organizationId, userId);
+    if (!organization) {
+      return { error: "Organization not found" };
     }
-
-    joinCode = generateJoinCode();
-    attempts++;
   }
 
-  if (attempts >= maxAttempts) {
-    return { error: "Failed to generate unique join code. Please try again." };
+  // Start from the template's configuration
+  let configuration: WorkshopConfiguration | null = null;
+  if (data.templateId) {
+    const template = await getWorkshopTemplateById(data.templateId, userId);
+    if (!template) {
+      return { error: "Template not found" };
+    }
+    configuration = await getUsableConfiguration(
+      toWorkshopConfiguration(template),
+      userId
+    );
   }
 
   // Parse date if provided
@@ -76,21 +99,19 @@ export async function createWorkshop(
     }
   }
 
-  // Create workshop
+  const joinCode = await generateUniqueJoinCode();
+  if (!joinCode) {
+    return { error: "Failed to generate unique join code. Please try again." };
+  }
+
   try {
-    const [workshop] = await db
-      .insert(workshops)
-      .values({
-        title: data.title.trim(),
-        date: parsedDate ? parsedDate.toISOString().split("T")[0] : null,
-        joinCode,
-        facilitatorId: userId,
-        status: "collecting",
-      })
-      .returning({
-        id: workshops.id,
-        joinCode: workshops.joinCode,
-      });
+    const workshop = await insertWorkshop(userId, {
+      ...configuration,
+      title: data.title.trim(),
+      date: parsedDate ? parsedDate.toISOString().split("T")[0] : null,
+      joinCode,
+      organizationId: data.organizationId ?? null,
+    });
 
     return { success: true, workshop };
   } catch (error) {
@@ -99,11 +120,268 @@ export async function createWorkshop(
   }
 }
 
+/**
+ * Creates a new workshop with the configuration of an existing one
+ * (framework, grouping, scoring, rounds and reflection prompt), a new join
+ * code and no participants. Constraints are copied by participant name and
+ * apply once both participants join. The copy stays in the organization of
+ * the original if the facilitator is a member of it.
+ *
+ * @param workshopId - ID of the workshop to duplicate
+ * @returns Success with the new workshop's data or error message
+ */
+export async function duplicateWorkshop(
+  workshopId: string
+): Promise<CreateWorkshopResult> {
+  const userId = await requireAuth();
+
+  // Verify facilitator has access to the workshop
+  const workshop = await getWorkshopById(workshopId, userId);
+  if (!workshop) {
+    return { error: "Workshop not found" };
+  }
+
+  const organization = workshop.organizationId
+    ? await getOrganizationById(workshop.organizationId, userId)
+    : null;
+
+  const joinCode = await generateUniqueJoinCode();
+  if (!joinCode) {
+    return { error: "Failed to generate unique join code. Please try again." };
+  }
+
+  try {
+    const copy = await insertWorkshop(userId, {
+      ...(await getUsableConfiguration(
+        toWorkshopConfiguration(workshop),
+        userId
+      )),
+      pendingConstraints: await getWorkshopConstraintsByName(workshop),
+      title: `${workshop.title} (copy)`.slice(0, 200),
+      joinCode,
+      organizationId: organization?.id ?? null,
+    });
+
+    return { success: true, workshop: copy };
+  } catch (error) {
+    console.error("Error duplicating workshop:", error);
+    return { error: "Failed to duplicate workshop. Please try again." };
+  }
+}
+
+/**
+ * Generates a join code that no workshop uses yet
+ *
+ * @returns Join code, or null if no unique code was found
+ */
+async function generateUniqueJoinCode(): Promise<string | null> {
+  const maxAttempts = 10;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const joinCode = generateJoinCode();
+    const existing = await db
+      .select({ id: workshops.id })
+      .from(workshops)
+      .where(eq(workshops.joinCode, joinCode))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return joinCode;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Drops a custom framework (and its dimension weights) from a configuration
+ * if it is not in the facilitator's library, since workshops can only use
+ * their creator's custom frameworks
+ */
+async function getUsableConfiguration(
+  configuration: WorkshopConfiguration,
+  facilitatorId: string
+): Promise<WorkshopConfiguration> {
+  const { framework } = configuration;
+  if (!framework || !isCustomFramework(framework)) {
+    return configuration;
+  }
+
+  const customFramework = await db.query.customFrameworks.findFirst({
+    where: and(
+      eq(customFrameworks.id, getCustomFrameworkDbId(framework)),
+      eq(customFrameworks.facilitatorId, facilitatorId)
+    ),
+  });
+
+  return customFramework
+    ? configuration
+    : { ...configuration, framework: null, distanceWeights: null };
+}
+
+/**
+ * Inserts a workshop with its creator as owner
+ */
+async function insertWorkshop(
+  userId: string,
+  values: Omit<typeof workshops.$inferInsert, "facilitatorId" | "status">
+): Promise<{ id: string; joinCode: string }> {
+  const id = randomUUID();
+
+  // Neon HTTP driver doesn't support transactions, so both inserts go in one
+  // batch
+  await db.batch([
+    db
+      .insert(workshops)
+      .values({ ...values, id, facilitatorId: userId, status: "collecting" }),
+    db.insert(workshopMembers).values({
+      workshopId: id,
+      userId,
+      role: "owner",
+    }),
+  ]);
+
+  return { id, joinCode: values.joinCode };
+}
+
+type UpdateReflectionPromptResult = { success: true } | { error: string };
+
+/**
+ * Sets the question participants answer in their reflection.
+ *
+ * @param workshopId - ID of the workshop
+ * @param prompt - Reflection prompt; empty to use the default
+ * @returns Success or error message
+ */
+export async function updateReflectionPrompt(
+  workshopId: string,
+  prompt: string
+): Promise<UpdateReflectionPromptResult> {
+  const userId = await requireAuth();
+
+  // Verify facilitator can run the workshop
+  const workshop = await getWorkshopById(workshopId, userId, "co_facilitator");
+  if (!workshop) {
+    return { error: "Workshop not found" };
+  }
+
+  const reflectionPrompt = prompt.trim();
+  if (reflectionPrompt.length > MAX_REFLECTION_PROMPT_LENGTH) {
+    return {
+      error: `Reflection prompt must be ${MAX_REFLECTION_PROMPT_LENGTH} characters or less`,
+    };
+  }
+
+  try {
+    await db
+      .update(workshops)
+      .set({ reflectionPrompt: reflectionPrompt || null })
+      .where(eq(workshops.id, workshopId));
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating reflection prompt:", error);
+    return { error: "Failed to update reflection prompt. Please try again." };
+  }
+}
+
+type UpdateLateJoiningResult = { success: true } | { error: string };
+
+/**
+ * Sets whether participants can still join after grouping. Late joiners
+ * are added to the existing groups without changing them.
+ *
+ * @param workshopId - ID of the workshop
+ * @param lateJoining - Whether to keep joining open after grouping
+ * @returns Success or error message
+ */
+export async function updateLateJoining(
+  workshopId: string,
+  lateJoining: boolean
+): Promise<UpdateLateJoiningResult> {
+  const userId = await requireAuth();
+
+  // Verify facilitator can run the workshop
+  const workshop = await getWorkshopById(workshopId, userId, "co_facilitator");
+  if (!workshop) {
+    return { error: "Workshop not found" };
+  }
+
+  try {
+    await db
+      .update(workshops)
+      .set({ lateJoining, updatedAt: new Date() })
+      .where(eq(workshops.id, workshopId));
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating late joining:", error);
+    return { error: "Failed to update late joining. Please try again." };
+  }
+}
+
+type UpdateParticipantAttributesResult = { success: true } | { error: string };
+
+/**
+ * Sets the custom attributes participants answer when they join, and how
+ * strongly each is mixed within groups. Answers given before a change stay
+ * attached to attributes that keep their type; groups that were already
+ * generated are not changed.
+ *
+ * @param workshopId - ID of the workshop
+ * @param attributes - Attributes to collect; empty to collect none
+ * @returns Success or error message
+ */
+export async function updateParticipantAttributes(
+  workshopId: string,
+  attributes: ParticipantAttribute[]
+): Promise<UpdateParticipantAttributesResult> {
+  const userId = await requireAuth();
+
+  // Verify facilitator can run the workshop
+  const workshop = await getWorkshopById(workshopId, userId, "co_facilitator");
+  if (!workshop) {
+    return { error: "Workshop not found" };
+  }
+
+  if (workshop.status === "closed") {
+    return { error: "Cannot configure a closed workshop" };
+  }
+
+  const attributesError = validateParticipantAttributes(attributes);
+  if (attributesError) {
+    return { error: attributesError };
+  }
+
+  try {
+    await db
+      .update(workshops)
+      .set({
+        participantAttributes: normalizeParticipantAttributes(
+          attributes,
+          workshop.participantAttributes
+        ),
+        updatedAt: new Date(),
+      })
+      .where(eq(workshops.id, workshopId));
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating participant attributes:", error);
+    return {
+      error: "Failed to update participant attributes. Please try again.",
+    };
+  }
+}
+
 type UpdateWorkshopStatusResult = { success: true } | { error: string };
 
 /**
  * Updates workshop status with state transition validation.
  * Validates that the transition is allowed and checks prerequisites.
+ * Besides moving forward, a grouped workshop can be reopened for
+ * collecting, which deletes its groups and reflections, and a closed
+ * workshop can be reopened as grouped. Every change is logged.
  *
  * @param workshopId - ID of the workshop to update
  * @param newStatus - Target status for the workshop
@@ -115,20 +393,14 @@ export async function updateWorkshopStatus(
 ): Promise<UpdateWorkshopStatusResult> {
   const userId = await requireAuth();
 
-  // Verify facilitator owns workshop and get current status
-  const workshop = await db
-    .select()
-    .from(workshops)
-    .where(
-      and(eq(workshops.id, workshopId), eq(workshops.facilitatorId, userId))
-    )
-    .limit(1);
+  // Verify facilitator can run the workshop and get current status
+  const workshop = await getWorkshopById(workshopId, userId, "co_facilitator");
 
-  if (workshop.length === 0) {
+  if (!workshop) {
     return { error: "Workshop not found" };
   }
 
-  const currentStatus = workshop[0].status;
+  const currentStatus = workshop.status;
 
   // Validate state transition
   if (!isValidTransition(currentStatus, newStatus)) {
@@ -148,15 +420,55 @@ export async function updateWorkshopStatus(
     }
   }
 
-  // Update status in transaction
+  // Reopening collecting discards the groups, so they can be regenerated
+  // with late arrivals
+  const clearGroups = currentStatus === "grouped" && newStatus === "collecting";
+
   try {
-    await db
-      .update(workshops)
-      .set({
-        status: newStatus,
-        updatedAt: new Date(),
-      })
-      .where(eq(workshops.id, workshopId));
+    const groupIds = clearGroups
+      ? (
+          await db
+            .select({ id: groups.id })
+            .from(groups)
+            .where(eq(groups.workshopId, workshopId))
+        ).map((g) => g.id)
+      : [];
+
+    // Neon HTTP driver doesn't support transactions, so the status, its log
+    // entry and the cleared groups are written in one batch
+    await db.batch([
+      db
+        .update(workshops)
+        .set({
+          status: newStatus,
+          ...(clearGroups && { currentRound: 1 }),
+          updatedAt: new Date(),
+        })
+        .where(eq(workshops.id, workshopId)),
+      db.insert(workshopStatusChanges).values({
+        workshopId,
+        userId,
+        fromStatus: currentStatus,
+        toStatus: newStatus,
+      }),
+      ...(groupIds.length > 0
+        ? [
+            // Reflections reference the groups they were written in
+            db
+              .delete(reflections)
+              .where(inArray(reflections.groupId, groupIds)),
+            db
+              .delete(groupMembers)
+              .where(inArray(groupMembers.groupId, groupIds)),
+            db.delete(groups).where(eq(groups.workshopId, workshopId)),
+          ]
+        : []),
+    ]);
+
+    publishWorkshopEvent(workshopId, {
+      type: "status_changed",
+      status: newStatus,
+    });
 
     return { success: true };
   } catch (error) {
@@ -172,8 +484,8 @@ function isValidTransition(
   const validTransitions: Record<WorkshopStatus, WorkshopStatus[]> = {
     draft: ["collecting"],
     collecting: ["grouped"],
-    grouped: ["closed"],
-    closed: [], // Terminal state
+    grouped: ["closed", "collecting"],
+    closed: ["grouped"], // Reopen
   };
 
   return validTransitions[current]?.includes(next) ?? false;
@@ -193,16 +505,10 @@ export async function deleteWorkshop(
 ): Promise<DeleteWorkshopResult> {
   const userId = await requireAuth();
 
-  // Verify facilitator owns workshop
-  const workshop = await db
-    .select()
-    .from(workshops)
-    .where(
-      and(eq(workshops.id, workshopId), eq(workshops.facilitatorId, userId))
-    )
-    .limit(1);
+  // Only owners can delete a workshop
+  const workshop = await getWorkshopById(workshopId, userId, "owner");
 
-  if (workshop.length === 0) {
+  if (!workshop) {
     return { error: "Workshop not found" };
   }
 
@@ -242,12 +548,17 @@ export async function deleteWorkshop(
     // 3. Delete groups
     await db.delete(groups).where(eq(groups.workshopId, workshopId));
 
-    // 4. Delete participants
+    // 4. Delete grouping constraints (reference participants)
+    await db
+      .delete(groupingConstraints)
+      .where(eq(groupingConstraints.workshopId, workshopId));
+
+    // 5. Delete participants
     await db
       .delete(participants)
       .where(eq(participants.workshopId, workshopId));
 
-    // 5. Finally, delete the workshop
+    // 6. Finally, delete the workshop
     await db.delete(workshops).where(eq(workshops.id, workshopId));
 
     return { success: true };
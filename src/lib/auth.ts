@@ -1,4 +1,9 @@
-import { auth, currentUser } from "@clerk/nextjs/server";
+import {
+  auth,
+  clerkClient,
+  currentUser,
+  type User,
+} from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
 
 export async function getAuthUserId(): Promise<string | null> {
@@ -38,3 +43,47 @@ export async function requireCurrentUser() {
 
   return user;
 }
+
+/**
+ * Looks up display names and primary emails of Clerk users.
+ * Returns an empty map if Clerk is unreachable, so teams still render.
+ */
+export async function getUserProfiles(
+  userIds: string[]
+): Promise<Map<string, { name: string; email: string | null }>> {
+  if (userIds.length === 0) {
+    return new Map();
+  }
+
+  try {
+    const client = await clerkClient();
+    const { data: users } = await client.users.getUserList({
+      userId: userIds,
+      limit: userIds.length,
+    });
+
+    return new Map(
+      users.map((user) => {
+        const email = user.primaryEmailAddress?.emailAddress ?? null;
+        const name =
+          [user.firstName, user.lastName].filter(Boolean).join(" ") ||
+          email ||
+          "Unknown user";
+        return [user.id, { name, email }];
+      })
+    );
+  } catch (error) {
+    console.error("Error fetching user profiles:", error);
+    return new Map();
+  }
+}
+
+/**
+ * Gets the verified email addresses of a Clerk user, lowercased.
+ * Invitations are only accepted for verified addresses.
+ */
+export function getVerifiedEmails(user: User): string[] {
+  return user.emailAddresses
+    .filter((address) => address.verification?.status === "verified")
+    .map((address) => address.emailAddress.toLowerCase());
+}
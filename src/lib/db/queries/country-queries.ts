@@ -1,11 +1,41 @@
-import { eq, inArray } from "drizzle-orm";
+import { asc, eq, inArray } from "drizzle-orm";
 import { db } from "@/lib/db";
 import {
   lewisScores,
   hallScores,
   hofstedeScores,
+  customFrameworkDimensions,
+  customFrameworkScores,
 } from "@/lib/db/schema/cultural-frameworks";
-import type { CulturalScores } from "@/types/cultural";
+import {
+  countries,
+  participantCountries,
+  type DistanceMetric,
+} from "@/lib/db/schema";
+import {
+  buildDistanceStatistics,
+  type DistanceOptions,
+} from "@/lib/utils/cultural-distance";
+import { requiresReferenceStatistics } from "@/lib/utils/distance-metrics";
+import type { DistanceWeights } from "@/lib/utils/distance-weights";
+import {
+  blendCountryScores,
+  type CountryShare,
+} from "@/lib/utils/participant-countries";
+import {
+  resolveParticipantScores,
+  type ScoreSourceConfig,
+} from "@/lib/utils/score-source";
+import {
+  toCustomFrameworkId,
+  type CulturalScores,
+  type CustomDimensionScore,
+  type CustomFrameworkId,
+  type Framework,
+  type PersonalScores,
+} from "@/types/cultural";
+
+type CustomScoresByFramework = NonNullable<CulturalScores["custom"]>;
 
 /**
  * Fetches all countries ordered by name.
@@ -27,7 +57,7 @@ export async function getAllCountries() {
 export async function getCountryCulturalData(
   countryCode: string
 ): Promise<CulturalScores> {
-  const [lewis, hall, hofstede] = await Promise.all([
+  const [lewis, hall, hofstede, customScores] = await Promise.all([
     db.query.lewisScores.findFirst({
       where: eq(lewisScores.countryCode, countryCode),
     }),
@@ -37,6 +67,7 @@ export async function getCountryCulturalData(
     db.query.hofstedeScores.findFirst({
       where: eq(hofstedeScores.countryCode, countryCode),
     }),
+    getCustomFrameworkScores([countryCode]),
   ]);
 
   const result: CulturalScores = {};
@@ -68,12 +99,18 @@ export async function getCountryCulturalData(
     };
   }
 
+  const custom = customScores.get(countryCode);
+  if (custom) {
+    result.custom = custom;
+  }
+
   return result;
 }
 
 /**
  * Fetches cultural scores for multiple countries in a single batch.
- * Optimized to run 3 queries total (one per framework) instead of 3N queries.
+ * Optimized to run a fixed number of queries (one per built-in framework plus
+ * two for custom frameworks) instead of one per country.
  *
  * @param countryCodes - Array of ISO country codes
  * @returns Map of country code to cultural scores
@@ -88,8 +125,8 @@ export async function getCulturalDataForCountries(
   // Deduplicate country codes
   const uniqueCodes = [...new Set(countryCodes)];
 
-  // Fetch all framework scores in parallel (3 queries total)
-  const [lewisData, hallData, hofstedeData] = await Promise.all([
+  // Fetch all framework scores in parallel
+  const [lewisData, hallData, hofstedeData, customData] = await Promise.all([
     db
       .select()
       .from(lewisScores)
@@ -102,6 +139,7 @@ export async function getCulturalDataForCountries(
       .select()
       .from(hofstedeScores)
       .where(inArray(hofstedeScores.countryCode, uniqueCodes)),
+    getCustomFrameworkScores(uniqueCodes),
   ]);
 
   // Build lookup maps for each framework
@@ -145,8 +183,219 @@ export async function getCulturalDataForCountries(
       };
     }
 
+    const custom = customData.get(countryCode);
+    if (custom) {
+      scores.custom = custom;
+    }
+
     result.set(countryCode, scores);
   }
 
   return result;
 }
+
+/**
+ * Fetches the countries each participant identifies with. Participants who
+ * picked a single country get that country with weight 1.
+ *
+ * @param workshopParticipants - Participants with their primary country
+ * @returns Map of participant ID to countries (primary first) and weights
+ */
+export async function getParticipantCountryShares(
+  workshopParticipants: Array<{ id: string; countryCode: string }>
+): Promise<Map<string, CountryShare[]>> {
+  const rows =
+    workshopParticipants.length > 0
+      ? await db
+          .select({
+            participantId: participantCountries.participantId,
+            countryCode: participantCountries.countryCode,
+            weight: participantCountries.weight,
+          })
+          .from(participantCountries)
+          .where(
+            inArray(
+              participantCountries.participantId,
+              workshopParticipants.map((p) => p.id)
+            )
+          )
+          .orderBy(asc(participantCountries.position))
+      : [];
+
+  const result = new Map<string, CountryShare[]>(
+    workshopParticipants.map((p) => [
+      p.id,
+      [{ countryCode: p.countryCode, weight: 1 }],
+    ])
+  );
+  const multiCountry = new Map<string, CountryShare[]>();
+  for (const row of rows) {
+    const shares = multiCountry.get(row.participantId) ?? [];
+    shares.push({ countryCode: row.countryCode, weight: row.weight });
+    multiCountry.set(row.participantId, shares);
+  }
+  for (const [participantId, shares] of multiCountry) {
+    result.set(participantId, shares);
+  }
+
+  return result;
+}
+
+/**
+ * Fetches the scores participants are grouped by: their country's scores
+ * (blended across countries for multicultural participants), their
+ * self-assessment, or a blend of both, depending on the workshop's score
+ * source.
+ *
+ * @param workshopParticipants - Participants with country and personal scores
+ * @param config - Workshop score source and personal weight
+ * @returns Map of participant ID to cultural scores
+ */
+export async function getCulturalDataForParticipants(
+  workshopParticipants: Array<{
+    id: string;
+    countryCode: string;
+    personalScores: PersonalScores | null;
+  }>,
+  config: ScoreSourceConfig
+): Promise<Map<string, CulturalScores>> {
+  const countryShares = await getParticipantCountryShares(workshopParticipants);
+  const countryData = await getCulturalDataForCountries(
+    Array.from(countryShares.values()).flatMap((shares) =>
+      shares.map((share) => share.countryCode)
+    )
+  );
+
+  return new Map(
+    workshopParticipants.map((participant) => [
+      participant.id,
+      resolveParticipantScores(
+        blendCountryScores(
+          countryShares.get(participant.id) ?? [],
+          countryData
+        ),
+        participant.personalScores,
+        config
+      ),
+    ])
+  );
+}
+
+/**
+ * Builds the distance options of a grouping configuration. When the metric
+ * needs reference statistics (Kogut–Singh, Mahalanobis), loads the cultural
+ * data of all countries and computes them for the framework.
+ *
+ * @param framework - Framework used for distance calculation
+ * @param config - Configured distance metric and weights
+ * @returns Options for computeCulturalDistance and generateDistanceMatrix
+ */
+export async function getDistanceOptions(
+  framework: Framework,
+  config: {
+    distanceMetric: DistanceMetric;
+    distanceWeights: DistanceWeights | null;
+  }
+): Promise<DistanceOptions> {
+  const options: DistanceOptions = {
+    metric: config.distanceMetric,
+    weights: config.distanceWeights,
+  };
+  if (!requiresReferenceStatistics(config.distanceMetric)) {
+    return options;
+  }
+
+  const allCountries = await db
+    .select({ isoCode: countries.isoCode })
+    .from(countries);
+  const referenceData = await getCulturalDataForCountries(
+    allCountries.map((c) => c.isoCode)
+  );
+
+  return {
+    ...options,
+    statistics: buildDistanceStatistics(
+      Array.from(referenceData.values()),
+      framework,
+      options
+    ),
+  };
+}
+
+/**
+ * Fetches custom framework scores for a set of countries.
+ * A country only gets an entry for a framework when it has a score for
+ * every dimension of that framework.
+ */
+async function getCustomFrameworkScores(
+  countryCodes: string[]
+): Promise<Map<string, CustomScoresByFramework>> {
+  const [dimensions, scoreRows] = await Promise.all([
+    db
+      .select({
+        id: customFrameworkDimensions.id,
+        frameworkId: customFrameworkDimensions.frameworkId,
+        key: customFrameworkDimensions.key,
+        label: customFrameworkDimensions.label,
+      })
+      .from(customFrameworkDimensions)
+      .orderBy(
+        asc(customFrameworkDimensions.frameworkId),
+        asc(customFrameworkDimensions.position)
+      ),
+    db
+      .select()
+      .from(customFrameworkScores)
+      .where(inArray(customFrameworkScores.countryCode, countryCodes)),
+  ]);
+
+  const result = new Map<string, CustomScoresByFramework>();
+  if (scoreRows.length === 0) {
+    return result;
+  }
+
+  // Group dimensions by framework, keeping their display order
+  const dimensionsByFramework = new Map<CustomFrameworkId, typeof dimensions>();
+  for (const dimension of dimensions) {
+    const frameworkId = toCustomFrameworkId(dimension.frameworkId);
+    const current = dimensionsByFramework.get(frameworkId) ?? [];
+    current.push(dimension);
+    dimensionsByFramework.set(frameworkId, current);
+  }
+
+  const scoreLookup = new Map(
+    scoreRows.map((row) => [
+      `${row.dimensionId}:${row.countryCode}`,
+      Number(row.score),
+    ])
+  );
+
+  for (const countryCode of countryCodes) {
+    const custom: CustomScoresByFramework = {};
+
+    for (const [frameworkId, frameworkDimensions] of dimensionsByFramework) {
+      const frameworkScores: CustomDimensionScore[] = [];
+      for (const dimension of frameworkDimensions) {
+        const score = scoreLookup.get(`${dimension.id}:${countryCode}`);
+        if (score === undefined) {
+          break;
+        }
+        frameworkScores.push({
+          key: dimension.key,
+          label: dimension.label,
+          score,
+        });
+      }
+
+      if (frameworkScores.length === frameworkDimensions.length) {
+        custom[frameworkId] = frameworkScores;
+      }
+    }
+
+    if (Object.keys(custom).length > 0) {
+      result.set(countryCode, custom);
+    }
+  }
+
+  return result;
+}
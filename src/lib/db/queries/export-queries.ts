@@ -0,0 +1,128 @@
+import {
+  getWorkshopById,
+  getWorkshopParticipants,
+} from "@/lib/db/queries/workshop-queries";
+import { getGroupEditorData } from "@/lib/db/queries/group-queries";
+import { getWorkshopReflectionsWithMissing } from "@/lib/db/queries/reflection-queries";
+import { getCustomFrameworksByFacilitator } from "@/lib/db/queries/framework-queries";
+import { calculateGroupFitness } from "@/lib/utils/group-assignment";
+import { deserializeDistanceMatrix } from "@/lib/utils/distance-matrix";
+import { getFrameworkLabel } from "@/lib/utils/framework-labels";
+import type { WorkshopExportData } from "@/lib/utils/workshop-export";
+
+/**
+ * Collects the participants, groups of every round with their diversity
+ * scores, and reflections of a workshop for export.
+ * Verifies that the facilitator has access to the workshop. Claim tokens are
+ * only included for co-facilitators and owners (see getWorkshopParticipants).
+ *
+ * @param workshopId - ID of the workshop
+ * @param facilitatorId - ID of the facilitator (for verification)
+ * @returns Export data, or null if the workshop is not found
+ */
+export async function getWorkshopExportData(
+  workshopId: string,
+  facilitatorId: string
+): Promise<WorkshopExportData | null> {
+  // Verify facilitator has access to the workshop
+  const workshop = await getWorkshopById(workshopId, facilitatorId);
+  if (!workshop) {
+    return null;
+  }
+
+  const roundNumbers = Array.from(
+    { length: workshop.roundCount },
+    (_, i) => i + 1
+  );
+  const [workshopParticipants, rounds, groupedReflections, customFrameworks] =
+    await Promise.all([
+      getWorkshopParticipants(workshopId, facilitatorId),
+      Promise.all(
+        roundNumbers.map((round) =>
+          getGroupEditorData(workshopId, facilitatorId, round)
+        )
+      ),
+      getWorkshopReflectionsWithMissing(workshopId, facilitatorId),
+      getCustomFrameworksByFacilitator(workshop.facilitatorId),
+    ]);
+
+  // Score each group with the distances used for grouping
+  const groupNumbersByParticipant = new Map<string, Record<number, number>>();
+  const exportGroups: WorkshopExportData["groups"] = [];
+  for (const round of rounds) {
+    if (!round) {
+      continue;
+    }
+
+    const distanceMatrix = round.distances
+      ? deserializeDistanceMatrix(round.distances)
+      : null;
+
+    for (const group of round.groups) {
+      for (const member of group.members) {
+        groupNumbersByParticipant.set(member.id, {
+          ...groupNumbersByParticipant.get(member.id),
+          [round.roundNumber]: group.groupNumber,
+        });
+      }
+
+      exportGroups.push({
+        roundNumber: round.roundNumber,
+        groupNumber: group.groupNumber,
+        diversityScore: distanceMatrix
+          ? calculateGroupFitness(
+              group.members.map((m) => m.id),
+              distanceMatrix
+            )
+          : null,
+        members: group.members.map((m) => ({
+          id: m.id,
+          name: m.name,
+          countryName: m.countryName,
+        })),
+      });
+    }
+  }
+
+  return {
+    exportedAt: new Date(),
+    workshop: {
+      id: workshop.id,
+      title: workshop.title,
+      date: workshop.date,
+      status: workshop.status,
+      framework: workshop.framework,
+      frameworkLabel: workshop.framework
+        ? getFrameworkLabel(workshop.framework, customFrameworks)
+        : null,
+      roundCount: workshop.roundCount,
+      currentRound: workshop.currentRound,
+      createdAt: workshop.createdAt,
+    },
+    participants: workshopParticipants.map((participant) => ({
+      id: participant.id,
+      name: participant.name,
+      countryCode: participant.countryCode,
+      countryName: participant.countryName,
+      selfAssessed: participant.selfAssessed,
+      joinedAt: participant.joinedAt,
+      email: participant.email,
+      tags: participant.tags ?? [],
+      claimToken: participant.claimToken,
+      claimed: participant.claimedAt !== null,
+      groupNumbers: groupNumbersByParticipant.get(participant.id) ?? {},
+    })),
+    groups: exportGroups,
+    reflections: groupedReflections.flatMap((group) =>
+      group.reflections.map((entry) => ({
+        roundNumber: workshop.currentRound,
+        groupNumber: group.groupNumber,
+        participantId: entry.participant.id,
+        participantName: entry.participant.name,
+        submitted: entry.submitted,
+        submittedAt: entry.reflection?.submittedAt ?? null,
+        content: entry.reflection?.content ?? null,
+      }))
+    ),
+  };
+}
@@ -0,0 +1,175 @@
+import { and, asc, count, desc, eq, inArray } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+  countries,
+  customFrameworkDimensions,
+  customFrameworkScores,
+  customFrameworks,
+} from "@/lib/db/schema";
+import {
+  toCustomFrameworkId,
+  type CustomFrameworkId,
+  type FrameworkDimension,
+} from "@/types/cultural";
+
+export type CustomFrameworkSummary = {
+  id: string;
+  frameworkId: CustomFrameworkId;
+  name: string;
+  description: string | null;
+  dimensionCount: number;
+  /** Dimensions in display order */
+  dimensions: FrameworkDimension[];
+  updatedAt: Date;
+};
+
+export type CustomFrameworkDimensionDetail = {
+  id: string;
+  key: string;
+  label: string;
+  scaleMin: number;
+  scaleMax: number;
+};
+
+export type CustomFrameworkDetail = {
+  id: string;
+  frameworkId: CustomFrameworkId;
+  name: string;
+  description: string | null;
+  dimensions: CustomFrameworkDimensionDetail[];
+  /** Countries scored on every dimension, ordered by name */
+  scoredCountries: Array<{ code: string; name: string }>;
+  /** Countries with scores for some but not all dimensions */
+  incompleteCountryCodes: string[];
+};
+
+/**
+ * Fetches the custom frameworks defined by a facilitator, newest first.
+ *
+ * @param facilitatorId - ID of the facilitator
+ * @returns Framework summaries with their dimensions
+ */
+export async function getCustomFrameworksByFacilitator(
+  facilitatorId: string
+): Promise<CustomFrameworkSummary[]> {
+  const rows = await db
+    .select({
+      id: customFrameworks.id,
+      name: customFrameworks.name,
+      description: customFrameworks.description,
+      updatedAt: customFrameworks.updatedAt,
+      dimensionCount: count(customFrameworkDimensions.id),
+    })
+    .from(customFrameworks)
+    .leftJoin(
+      customFrameworkDimensions,
+      eq(customFrameworkDimensions.frameworkId, customFrameworks.id)
+    )
+    .where(eq(customFrameworks.facilitatorId, facilitatorId))
+    .groupBy(customFrameworks.id)
+    .orderBy(desc(customFrameworks.updatedAt));
+
+  const dimensions =
+    rows.length > 0
+      ? await db
+          .select({
+            frameworkId: customFrameworkDimensions.frameworkId,
+            key: customFrameworkDimensions.key,
+            label: customFrameworkDimensions.label,
+          })
+          .from(customFrameworkDimensions)
+          .where(
+            inArray(
+              customFrameworkDimensions.frameworkId,
+              rows.map((row) => row.id)
+            )
+          )
+          .orderBy(asc(customFrameworkDimensions.position))
+      : [];
+
+  return rows.map((row) => ({
+    ...row,
+    frameworkId: toCustomFrameworkId(row.id),
+    dimensions: dimensions
+      .filter((d) => d.frameworkId === row.id)
+      .map(({ key, label }) => ({ key, label })),
+  }));
+}
+
+/**
+ * Fetches a custom framework with its dimensions and score coverage.
+ * Returns null if the framework is not found or not owned by the facilitator.
+ *
+ * @param frameworkId - Database ID of the custom framework
+ * @param facilitatorId - ID of the facilitator (for verification)
+ * @returns Framework detail, or null
+ */
+export async function getCustomFrameworkById(
+  frameworkId: string,
+  facilitatorId: string
+): Promise<CustomFrameworkDetail | null> {
+  const framework = await db.query.customFrameworks.findFirst({
+    where: and(
+      eq(customFrameworks.id, frameworkId),
+      eq(customFrameworks.facilitatorId, facilitatorId)
+    ),
+  });
+
+  if (!framework) {
+    return null;
+  }
+
+  const dimensions = await db
+    .select({
+      id: customFrameworkDimensions.id,
+      key: customFrameworkDimensions.key,
+      label: customFrameworkDimensions.label,
+      scaleMin: customFrameworkDimensions.scaleMin,
+      scaleMax: customFrameworkDimensions.scaleMax,
+    })
+    .from(customFrameworkDimensions)
+    .where(eq(customFrameworkDimensions.frameworkId, frameworkId))
+    .orderBy(asc(customFrameworkDimensions.position));
+
+  // Count scored dimensions per country to split complete from partial
+  const coverage =
+    dimensions.length > 0
+      ? await db
+          .select({
+            code: customFrameworkScores.countryCode,
+            name: countries.name,
+            scoreCount: count(),
+          })
+          .from(customFrameworkScores)
+          .innerJoin(
+            countries,
+            eq(customFrameworkScores.countryCode, countries.isoCode)
+          )
+          .where(
+            inArray(
+              customFrameworkScores.dimensionId,
+              dimensions.map((d) => d.id)
+            )
+          )
+          .groupBy(customFrameworkScores.countryCode, countries.name)
+          .orderBy(asc(countries.name))
+      : [];
+
+  return {
+    id: framework.id,
+    frameworkId: toCustomFrameworkId(framework.id),
+    name: framework.name,
+    description: framework.description,
+    dimensions: dimensions.map((d) => ({
+      ...d,
+      scaleMin: Number(d.scaleMin),
+      scaleMax: Number(d.scaleMax),
+    })),
+    scoredCountries: coverage
+      .filter((c) => c.scoreCount === dimensions.length)
+      .map(({ code, name }) => ({ code, name })),
+    incompleteCountryCodes: coverage
+      .filter((c) => c.scoreCount < dimensions.length)
+      .map((c) => c.code),
+  };
+}
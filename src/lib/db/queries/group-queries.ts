@@ -0,0 +1,492 @@
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { getWorkshopById } from "@/lib/db/queries/workshop-queries";
+import {
+  getCulturalDataForParticipants,
+  getDistanceOptions,
+} from "@/lib/db/queries/country-queries";
+import { db } from "@/lib/db";
+import {
+  participants,
+  groupMembers,
+  groups,
+  groupingCandidates,
+  groupingConstraints,
+  groupingJobs,
+  countries,
+} from "@/lib/db/schema";
+import {
+  generateDistanceMatrix,
+  serializeDistanceMatrix,
+  type SerializedDistanceMatrix,
+} from "@/lib/utils/distance-matrix";
+import type { GroupingConstraint } from "@/lib/utils/group-assignment";
+import {
+  buildGroupQualityReport,
+  type GroupQualityReport,
+} from "@/lib/utils/group-quality";
+import {
+  toPendingConstraints,
+  type PendingConstraint,
+} from "@/lib/utils/pending-constraints";
+import {
+  summarizeGroupAttributes,
+  type GroupAttributeBreakdown,
+} from "@/lib/utils/participant-attributes";
+import type { ScoreSourceConfig } from "@/lib/utils/score-source";
+import {
+  validateFrameworkScores,
+  type Framework,
+  type PersonalScores,
+} from "@/types/cultural";
+
+export type GroupEditorMember = {
+  id: string;
+  name: string;
+  countryCode: string;
+  countryName: string | null;
+};
+
+export type GroupEditorGroup = {
+  id: string;
+  groupNumber: number;
+  members: GroupEditorMember[];
+};
+
+export type GroupEditorData = {
+  framework: Framework;
+  roundNumber: number;
+  groups: GroupEditorGroup[];
+  unassigned: GroupEditorMember[];
+  constraints: GroupingConstraint[];
+  /**
+   * Pairwise participant distances, serializable for client components.
+   * Null when cultural data is incomplete for the configured framework.
+   */
+  distances: SerializedDistanceMatrix | null;
+};
+
+/**
+ * Fetches the groups of one rotation round with members and the participant
+ * distance matrix used to score them.
+ * Verifies that the facilitator has access to the workshop.
+ *
+ * @param workshopId - ID of the workshop
+ * @param facilitatorId - ID of the facilitator (for verification)
+ * @param roundNumber - Round to fetch (defaults to the first round)
+ * @returns Group editor data, or null if the workshop is not found
+ */
+export async function getGroupEditorData(
+  workshopId: string,
+  facilitatorId: string,
+  roundNumber = 1
+): Promise<GroupEditorData | null> {
+  // Verify facilitator has access to the workshop
+  const workshop = await getWorkshopById(workshopId, facilitatorId);
+  if (!workshop) {
+    return null;
+  }
+
+  const framework = (workshop.framework as Framework | null) ?? "combined";
+
+  const workshopGroups = await db
+    .select({
+      id: groups.id,
+      groupNumber: groups.groupNumber,
+    })
+    .from(groups)
+    .where(
+      and(
+        eq(groups.workshopId, workshopId),
+        eq(groups.roundNumber, roundNumber)
+      )
+    )
+    .orderBy(asc(groups.groupNumber));
+
+  const workshopParticipants = await db
+    .select({
+      id: participants.id,
+      name: participants.name,
+      countryCode: participants.countryCode,
+      countryName: countries.name,
+      personalScores: participants.personalScores,
+    })
+    .from(participants)
+    .leftJoin(countries, eq(participants.countryCode, countries.isoCode))
+    .where(eq(participants.workshopId, workshopId))
+    .orderBy(asc(participants.createdAt));
+
+  // Map participants to their groups
+  const memberships =
+    workshopGroups.length > 0
+      ? await db
+          .select({
+            groupId: groupMembers.groupId,
+            participantId: groupMembers.participantId,
+          })
+          .from(groupMembers)
+          .where(
+            inArray(
+              groupMembers.groupId,
+              workshopGroups.map((g) => g.id)
+            )
+          )
+      : [];
+
+  const groupByParticipant = new Map(
+    memberships.map((m) => [m.participantId, m.groupId])
+  );
+
+  const membersByGroup = new Map<string, GroupEditorMember[]>();
+  const unassigned: GroupEditorMember[] = [];
+  for (const { personalScores: _, ...participant } of workshopParticipants) {
+    const groupId = groupByParticipant.get(participant.id);
+    if (!groupId) {
+      unassigned.push(participant);
+      continue;
+    }
+    const current = membersByGroup.get(groupId) ?? [];
+    current.push(participant);
+    membersByGroup.set(groupId, current);
+  }
+
+  return {
+    framework,
+    roundNumber,
+    groups: workshopGroups.map((g) => ({
+      id: g.id,
+      groupNumber: g.groupNumber,
+      members: membersByGroup.get(g.id) ?? [],
+    })),
+    unassigned,
+    constraints: await getWorkshopConstraints(workshopId),
+    distances: await computeEditorDistances(
+      workshopParticipants,
+      framework,
+      workshop
+    ),
+  };
+}
+
+/**
+ * Fetches the quality report of the groups of one rotation round: pairwise
+ * distances, the dimensions members differ most in and a random-assignment
+ * baseline. Participants without cultural data for the framework are left
+ * out of the distances.
+ * Verifies that the facilitator has access to the workshop.
+ *
+ * @param workshopId - ID of the workshop
+ * @param facilitatorId - ID of the facilitator (for verification)
+ * @param roundNumber - Round to report on (defaults to the first round)
+ * @returns Quality report, or null if the workshop is not found or the round
+ * has no groups
+ */
+export async function getGroupQualityReport(
+  workshopId: string,
+  facilitatorId: string,
+  roundNumber = 1
+): Promise<GroupQualityReport | null> {
+  // Verify facilitator has access to the workshop
+  const workshop = await getWorkshopById(workshopId, facilitatorId);
+  if (!workshop) {
+    return null;
+  }
+
+  const framework = (workshop.framework as Framework | null) ?? "combined";
+
+  const roundGroups = await db
+    .select({ id: groups.id, groupNumber: groups.groupNumber })
+    .from(groups)
+    .where(
+      and(
+        eq(groups.workshopId, workshopId),
+        eq(groups.roundNumber, roundNumber)
+      )
+    )
+    .orderBy(asc(groups.groupNumber));
+
+  if (roundGroups.length === 0) {
+    return null;
+  }
+
+  const [memberships, workshopParticipants] = await Promise.all([
+    db
+      .select({
+        groupId: groupMembers.groupId,
+        participantId: groupMembers.participantId,
+      })
+      .from(groupMembers)
+      .where(
+        inArray(
+          groupMembers.groupId,
+          roundGroups.map((g) => g.id)
+        )
+      ),
+    db
+      .select({
+        id: participants.id,
+        countryCode: participants.countryCode,
+        personalScores: participants.personalScores,
+      })
+      .from(participants)
+      .where(eq(participants.workshopId, workshopId)),
+  ]);
+
+  const culturalDataMap = await getCulturalDataForParticipants(
+    workshopParticipants,
+    workshop
+  );
+  const participantsWithScores = workshopParticipants.flatMap((p) => {
+    const culturalScores = culturalDataMap.get(p.id) ?? {};
+    return validateFrameworkScores(culturalScores, framework, p.countryCode)
+      .valid
+      ? [{ id: p.id, culturalScores }]
+      : [];
+  });
+
+  return buildGroupQualityReport(
+    roundGroups.map((g) => ({
+      groupNumber: g.groupNumber,
+      participantIds: memberships
+        .filter((m) => m.groupId === g.id)
+        .map((m) => m.participantId),
+    })),
+    participantsWithScores,
+    framework,
+    await getDistanceOptions(framework, workshop)
+  );
+}
+
+/**
+ * Summarizes the workshop's custom participant attributes within each group
+ * of a round: members per option, or average and range of numbers.
+ * Verifies that the facilitator has access to the workshop.
+ *
+ * @param workshopId - ID of the workshop
+ * @param facilitatorId - Clerk user ID of the facilitator
+ * @param roundNumber - Round to summarize (defaults to 1)
+ * @returns Breakdown per group, or null if unauthorized, the workshop
+ * collects no attributes or the round has no groups
+ */
+export async function getGroupAttributeBreakdown(
+  workshopId: string,
+  facilitatorId: string,
+  roundNumber = 1
+): Promise<GroupAttributeBreakdown[] | null> {
+  // Verify facilitator has access to the workshop
+  const workshop = await getWorkshopById(workshopId, facilitatorId);
+  if (!workshop?.participantAttributes?.length) {
+    return null;
+  }
+
+  const roundGroups = await db
+    .select({ id: groups.id, groupNumber: groups.groupNumber })
+    .from(groups)
+    .where(
+      and(
+        eq(groups.workshopId, workshopId),
+        eq(groups.roundNumber, roundNumber)
+      )
+    )
+    .orderBy(asc(groups.groupNumber));
+
+  if (roundGroups.length === 0) {
+    return null;
+  }
+
+  const [memberships, workshopParticipants] = await Promise.all([
+    db
+      .select({
+        groupId: groupMembers.groupId,
+        participantId: groupMembers.participantId,
+      })
+      .from(groupMembers)
+      .where(
+        inArray(
+          groupMembers.groupId,
+          roundGroups.map((g) => g.id)
+        )
+      ),
+    db
+      .select({ id: participants.id, attributes: participants.attributes })
+      .from(participants)
+      .where(eq(participants.workshopId, workshopId)),
+  ]);
+
+  return summarizeGroupAttributes(
+    workshop.participantAttributes,
+    roundGroups.map((g) => ({
+      groupNumber: g.groupNumber,
+      participantIds: memberships
+        .filter((m) => m.groupId === g.id)
+        .map((m) => m.participantId),
+    })),
+    new Map(workshopParticipants.map((p) => [p.id, p.attributes]))
+  );
+}
+
+/**
+ * Fetches the candidate groupings of a workshop with the group sizes of
+ * their rounds, for comparing them side by side.
+ * Verifies that the facilitator has access to the workshop.
+ *
+ * @param workshopId - ID of the workshop
+ * @param facilitatorId - ID of the facilitator (for verification)
+ * @returns Candidates in generation order, empty if not found
+ */
+export async function getGroupingCandidates(
+  workshopId: string,
+  facilitatorId: string
+) {
+  // Verify facilitator has access to the workshop
+  const workshop = await getWorkshopById(workshopId, facilitatorId);
+  if (!workshop) {
+    return [];
+  }
+
+  const candidates = await db
+    .select()
+    .from(groupingCandidates)
+    .where(eq(groupingCandidates.workshopId, workshopId))
+    .orderBy(asc(groupingCandidates.candidateNumber));
+
+  return candidates.map((candidate) => {
+    const sizes = candidate.rounds.flatMap((roundGroups) =>
+      roundGroups.map((group) => group.length)
+    );
+    return {
+      ...candidate,
+      groupCount: candidate.rounds[0]?.length ?? 0,
+      smallestGroup: sizes.length > 0 ? Math.min(...sizes) : 0,
+      largestGroup: sizes.length > 0 ? Math.max(...sizes) : 0,
+    };
+  });
+}
+
+/**
+ * Fetches the most recent background grouping job of a workshop, to show
+ * its progress or outcome.
+ * Verifies that the facilitator has access to the workshop.
+ *
+ * @param workshopId - ID of the workshop
+ * @param facilitatorId - ID of the facilitator (for verification)
+ * @returns Latest job, or null if there is none or not found
+ */
+export async function getLatestGroupingJob(
+  workshopId: string,
+  facilitatorId: string
+) {
+  // Verify facilitator has access to the workshop
+  const workshop = await getWorkshopById(workshopId, facilitatorId);
+  if (!workshop) {
+    return null;
+  }
+
+  const [job] = await db
+    .select({
+      id: groupingJobs.id,
+      kind: groupingJobs.kind,
+      status: groupingJobs.status,
+      progress: groupingJobs.progress,
+      result: groupingJobs.result,
+      error: groupingJobs.error,
+      createdAt: groupingJobs.createdAt,
+      finishedAt: groupingJobs.finishedAt,
+    })
+    .from(groupingJobs)
+    .where(eq(groupingJobs.workshopId, workshopId))
+    .orderBy(desc(groupingJobs.createdAt))
+    .limit(1);
+
+  return job ?? null;
+}
+
+/**
+ * Fetches the must-link / cannot-link constraints of a workshop.
+ * Does not verify ownership; callers must check access first.
+ *
+ * @param workshopId - ID of the workshop
+ * @returns Constraints in creation order
+ */
+export async function getWorkshopConstraints(
+  workshopId: string
+): Promise<GroupingConstraint[]> {
+  return await db
+    .select({
+      type: groupingConstraints.type,
+      participantAId: groupingConstraints.participantAId,
+      participantBId: groupingConstraints.participantBId,
+    })
+    .from(groupingConstraints)
+    .where(eq(groupingConstraints.workshopId, workshopId))
+    .orderBy(asc(groupingConstraints.createdAt));
+}
+
+/**
+ * Fetches the constraints of a workshop by participant name, so templates and
+ * duplicates can apply them to the participants who join later. Includes the
+ * constraints still waiting for their participants.
+ * Does not verify ownership; callers must check access first.
+ *
+ * @param workshop - Workshop with its pending constraints
+ * @returns Name-based constraints, or null if the workshop has none
+ */
+export async function getWorkshopConstraintsByName(workshop: {
+  id: string;
+  pendingConstraints: PendingConstraint[] | null;
+}): Promise<PendingConstraint[] | null> {
+  const [constraints, workshopParticipants] = await Promise.all([
+    getWorkshopConstraints(workshop.id),
+    db
+      .select({ id: participants.id, name: participants.name })
+      .from(participants)
+      .where(eq(participants.workshopId, workshop.id)),
+  ]);
+
+  const named = toPendingConstraints(
+    constraints,
+    workshopParticipants,
+    workshop.pendingConstraints
+  );
+  return named.length > 0 ? named : null;
+}
+
+/**
+ * Computes the same distance matrix the grouping algorithm uses, serialized
+ * into plain arrays. Returns null if any participant lacks framework data.
+ */
+async function computeEditorDistances(
+  workshopParticipants: Array<{
+    id: string;
+    countryCode: string;
+    personalScores: PersonalScores | null;
+  }>,
+  framework: Framework,
+  config: Parameters<typeof getDistanceOptions>[1] & ScoreSourceConfig
+): Promise<SerializedDistanceMatrix | null> {
+  const culturalDataMap = await getCulturalDataForParticipants(
+    workshopParticipants,
+    config
+  );
+
+  const participantsWithScores = [];
+  for (const participant of workshopParticipants) {
+    const culturalScores = culturalDataMap.get(participant.id) ?? {};
+    const validation = validateFrameworkScores(
+      culturalScores,
+      framework,
+      participant.countryCode
+    );
+    if (!validation.valid) {
+      return null;
+    }
+    participantsWithScores.push({ id: participant.id, culturalScores });
+  }
+
+  return serializeDistanceMatrix(
+    generateDistanceMatrix(
+      participantsWithScores,
+      framework,
+      await getDistanceOptions(framework, config)
+    )
+  );
+}
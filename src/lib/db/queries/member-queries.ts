@@ -0,0 +1,138 @@
+import { asc, eq, inArray } from "drizzle-orm";
+import { getUserProfiles } from "@/lib/auth";
+import { db } from "@/lib/db";
+import {
+  workshopInvitations,
+  workshopMembers,
+  workshops,
+} from "@/lib/db/schema";
+import { getWorkshopById } from "@/lib/db/queries/workshop-queries";
+import type { WorkshopRole } from "@/lib/utils/workshop-roles";
+
+export type WorkshopTeamMember = {
+  userId: string;
+  role: WorkshopRole;
+  name: string;
+  email: string | null;
+};
+
+export type WorkshopTeamInvitation = {
+  id: string;
+  email: string;
+  role: WorkshopRole;
+  token: string;
+  createdAt: Date;
+};
+
+export type WorkshopTeam = {
+  members: WorkshopTeamMember[];
+  // Only visible to owners, who manage the team
+  invitations: WorkshopTeamInvitation[];
+};
+
+/**
+ * Fetches the members of a workshop with their names from Clerk, and the
+ * pending invitations if the facilitator is an owner.
+ * Verifies that the facilitator has access to the workshop.
+ *
+ * @param workshopId - ID of the workshop
+ * @param facilitatorId - ID of the facilitator (for verification)
+ * @returns Members (owners first) and invitations, or null if not found
+ */
+export async function getWorkshopTeam(
+  workshopId: string,
+  facilitatorId: string
+): Promise<WorkshopTeam | null> {
+  // Verify facilitator has access to the workshop
+  const workshop = await getWorkshopById(workshopId, facilitatorId);
+  if (!workshop) {
+    return null;
+  }
+
+  const members = await db
+    .select({
+      userId: workshopMembers.userId,
+      role: workshopMembers.role,
+    })
+    .from(workshopMembers)
+    .where(eq(workshopMembers.workshopId, workshopId))
+    .orderBy(asc(workshopMembers.role), asc(workshopMembers.createdAt));
+
+  const invitations =
+    workshop.role === "owner"
+      ? await db
+          .select({
+            id: workshopInvitations.id,
+            email: workshopInvitations.email,
+            role: workshopInvitations.role,
+            token: workshopInvitations.token,
+            createdAt: workshopInvitations.createdAt,
+          })
+          .from(workshopInvitations)
+          .where(eq(workshopInvitations.workshopId, workshopId))
+          .orderBy(asc(workshopInvitations.createdAt))
+      : [];
+
+  const profiles = await getUserProfiles(members.map((m) => m.userId));
+
+  return {
+    members: members.map((member) => ({
+      ...member,
+      name: profiles.get(member.userId)?.name ?? "Unknown user",
+      email: profiles.get(member.userId)?.email ?? null,
+    })),
+    invitations,
+  };
+}
+
+/**
+ * Fetches pending workshop invitations sent to any of the given emails.
+ *
+ * @param emails - Verified email addresses of the signed-in user
+ * @returns Invitations with workshop titles, oldest first
+ */
+export async function getPendingInvitations(emails: string[]) {
+  if (emails.length === 0) {
+    return [];
+  }
+
+  return await db
+    .select({
+      token: workshopInvitations.token,
+      role: workshopInvitations.role,
+      workshopTitle: workshops.title,
+      createdAt: workshopInvitations.createdAt,
+    })
+    .from(workshopInvitations)
+    .innerJoin(workshops, eq(workshopInvitations.workshopId, workshops.id))
+    .where(
+      inArray(
+        workshopInvitations.email,
+        emails.map((email) => email.toLowerCase())
+      )
+    )
+    .orderBy(asc(workshopInvitations.createdAt));
+}
+
+/**
+ * Fetches an invitation by the token of its link, with the workshop title.
+ *
+ * @param token - Invitation token
+ * @returns Invitation, or null if it does not exist (anymore)
+ */
+export async function getInvitationByToken(token: string) {
+  const result = await db
+    .select({
+      id: workshopInvitations.id,
+      workshopId: workshopInvitations.workshopId,
+      email: workshopInvitations.email,
+      role: workshopInvitations.role,
+      workshopTitle: workshops.title,
+    })
+    .from(workshopInvitations)
+    .innerJoin(workshops, eq(workshopInvitations.workshopId, workshops.id))
+    .where(eq(workshopInvitations.token, token))
+    .limit(1);
+
+  return result[0] ?? null;
+}
@@ -0,0 +1,312 @@
+import { and, asc, desc, eq, gte, inArray, lte, sql } from "drizzle-orm";
+import { getUserProfiles } from "@/lib/auth";
+import { db } from "@/lib/db";
+import {
+  customFrameworks,
+  organizationInvitations,
+  organizationMembers,
+  organizations,
+  participants,
+  workshopMembers,
+  workshops,
+} from "@/lib/db/schema";
+import type { WorkshopStatus } from "@/lib/db/schema/workshops";
+import {
+  type OrganizationRole,
+  getOrganizationWorkshopRole,
+} from "@/lib/utils/organization-roles";
+import { resolveWorkshopRole } from "@/lib/utils/workshop-roles";
+
+export type OrganizationWorkshopFilters = {
+  facilitatorId?: string;
+  status?: WorkshopStatus;
+  // Inclusive range of workshop dates (YYYY-MM-DD); workshops without a
+  // date are filtered by their creation date
+  from?: string;
+  to?: string;
+};
+
+export type OrganizationTeam = {
+  members: Array<{
+    userId: string;
+    role: OrganizationRole;
+    name: string;
+    email: string | null;
+  }>;
+  // Only visible to admins, who manage the organization
+  invitations: Array<{
+    id: string;
+    email: string;
+    role: OrganizationRole;
+    token: string;
+    createdAt: Date;
+  }>;
+};
+
+/**
+ * Fetches an organization with the user's role, ensuring the user is a
+ * member with at least the required role.
+ *
+ * @param organizationId - ID of the organization
+ * @param userId - ID of the signed-in facilitator
+ * @param requiredRole - Minimum role needed (defaults to any member)
+ * @returns Organization with the user's role, or null
+ */
+export async function getOrganizationById(
+  organizationId: string,
+  userId: string,
+  requiredRole: OrganizationRole = "member"
+) {
+  const result = await db
+    .select({
+      id: organizations.id,
+      name: organizations.name,
+      createdAt: organizations.createdAt,
+      role: organizationMembers.role,
+    })
+    .from(organizations)
+    .innerJoin(
+      organizationMembers,
+      and(
+        eq(organizationMembers.organizationId, organizations.id),
+        eq(organizationMembers.userId, userId)
+      )
+    )
+    .where(eq(organizations.id, organizationId))
+    .limit(1);
+
+  const organization = result[0];
+  if (
+    !organization ||
+    (requiredRole === "admin" && organization.role !== "admin")
+  ) {
+    return null;
+  }
+
+  return organization;
+}
+
+/**
+ * Fetches all organizations a facilitator is a member of, with their role
+ * and workshop counts.
+ *
+ * @param userId - ID of the signed-in facilitator
+ * @returns Organizations ordered by name
+ */
+export async function getOrganizationsByUser(userId: string) {
+  return await db
+    .select({
+      id: organizations.id,
+      name: organizations.name,
+      role: organizationMembers.role,
+      workshopCount: sql<number>`(select count(*)::int from ${workshops} where ${workshops.organizationId} = ${organizations.id})`,
+      memberCount: sql<number>`(select count(*)::int from ${organizationMembers} om where om.organization_id = ${organizations.id})`,
+    })
+    .from(organizations)
+    .innerJoin(
+      organizationMembers,
+      and(
+        eq(organizationMembers.organizationId, organizations.id),
+        eq(organizationMembers.userId, userId)
+      )
+    )
+    .orderBy(asc(organizations.name));
+}
+
+/**
+ * Fetches the workshops of an organization with their facilitator,
+ * participant counts and the user's effective role, optionally filtered.
+ * Verifies that the user is a member of the organization.
+ *
+ * @param organizationId - ID of the organization
+ * @param userId - ID of the signed-in facilitator
+ * @param filters - Facilitator, status and date range filters
+ * @returns Workshops ordered by creation date (newest first)
+ */
+export async function getOrganizationWorkshops(
+  organizationId: string,
+  userId: string,
+  filters: OrganizationWorkshopFilters = {}
+) {
+  // Verify user is a member of the organization
+  const organization = await getOrganizationById(organizationId, userId);
+  if (!organization) {
+    return [];
+  }
+
+  const workshopDate = sql`coalesce(${workshops.date}, ${workshops.createdAt}::date)`;
+  const conditions = [eq(workshops.organizationId, organizationId)];
+  if (filters.facilitatorId) {
+    conditions.push(eq(workshops.facilitatorId, filters.facilitatorId));
+  }
+  if (filters.status) {
+    conditions.push(eq(workshops.status, filters.status));
+  }
+  if (filters.from) {
+    conditions.push(gte(workshopDate, filters.from));
+  }
+  if (filters.to) {
+    conditions.push(lte(workshopDate, filters.to));
+  }
+
+  const workshopList = await db
+    .select({
+      id: workshops.id,
+      title: workshops.title,
+      date: workshops.date,
+      joinCode: workshops.joinCode,
+      status: workshops.status,
+      framework: workshops.framework,
+      customFrameworkName: customFrameworks.name,
+      minGroupSize: workshops.minGroupSize,
+      maxGroupSize: workshops.maxGroupSize,
+      groupCount: workshops.groupCount,
+      createdAt: workshops.createdAt,
+      facilitatorId: workshops.facilitatorId,
+      memberRole: workshopMembers.role,
+      participantCount: sql<number>`count(${participants.id})::int`,
+    })
+    .from(workshops)
+    .leftJoin(
+      workshopMembers,
+      and(
+        eq(workshopMembers.workshopId, workshops.id),
+        eq(workshopMembers.userId, userId)
+      )
+    )
+    .leftJoin(participants, eq(participants.workshopId, workshops.id))
+    .leftJoin(
+      customFrameworks,
+      sql`${workshops.framework} = 'custom:' || ${customFrameworks.id}`
+    )
+    .where(and(...conditions))
+    .groupBy(workshops.id, customFrameworks.name, workshopMembers.role)
+    .orderBy(desc(workshops.createdAt));
+
+  const organizationRole = getOrganizationWorkshopRole(organization.role);
+  const profiles = await getUserProfiles([
+    ...new Set(workshopList.map((w) => w.facilitatorId)),
+  ]);
+
+  return workshopList.map(({ memberRole, ...workshop }) => ({
+    ...workshop,
+    facilitatorName:
+      profiles.get(workshop.facilitatorId)?.name ?? "Unknown user",
+    // Members always have at least the role granted by the organization
+    role: resolveWorkshopRole(memberRole, organizationRole) ?? organizationRole,
+  }));
+}
+
+/**
+ * Fetches the members of an organization with their names from Clerk, and
+ * the pending invitations if the user is an admin.
+ * Verifies that the user is a member of the organization.
+ *
+ * @param organizationId - ID of the organization
+ * @param userId - ID of the signed-in facilitator
+ * @returns Members (admins first) and invitations, or null if not found
+ */
+export async function getOrganizationTeam(
+  organizationId: string,
+  userId: string
+): Promise<OrganizationTeam | null> {
+  // Verify user is a member of the organization
+  const organization = await getOrganizationById(organizationId, userId);
+  if (!organization) {
+    return null;
+  }
+
+  const members = await db
+    .select({
+      userId: organizationMembers.userId,
+      role: organizationMembers.role,
+    })
+    .from(organizationMembers)
+    .where(eq(organizationMembers.organizationId, organizationId))
+    .orderBy(asc(organizationMembers.role), asc(organizationMembers.createdAt));
+
+  const invitations =
+    organization.role === "admin"
+      ? await db
+          .select({
+            id: organizationInvitations.id,
+            email: organizationInvitations.email,
+            role: organizationInvitations.role,
+            token: organizationInvitations.token,
+            createdAt: organizationInvitations.createdAt,
+          })
+          .from(organizationInvitations)
+          .where(eq(organizationInvitations.organizationId, organizationId))
+          .orderBy(asc(organizationInvitations.createdAt))
+      : [];
+
+  const profiles = await getUserProfiles(members.map((m) => m.userId));
+
+  return {
+    members: members.map((member) => ({
+      ...member,
+      name: profiles.get(member.userId)?.name ?? "Unknown user",
+      email: profiles.get(member.userId)?.email ?? null,
+    })),
+    invitations,
+  };
+}
+
+/**
+ * Fetches pending organization invitations sent to any of the given emails.
+ *
+ * @param emails - Verified email addresses of the signed-in user
+ * @returns Invitations with organization names, oldest first
+ */
+export async function getPendingOrganizationInvitations(emails: string[]) {
+  if (emails.length === 0) {
+    return [];
+  }
+
+  return await db
+    .select({
+      token: organizationInvitations.token,
+      role: organizationInvitations.role,
+      organizationName: organizations.name,
+      createdAt: organizationInvitations.createdAt,
+    })
+    .from(organizationInvitations)
+    .innerJoin(
+      organizations,
+      eq(organizationInvitations.organizationId, organizations.id)
+    )
+    .where(
+      inArray(
+        organizationInvitations.email,
+        emails.map((email) => email.toLowerCase())
+      )
+    )
+    .orderBy(asc(organizationInvitations.createdAt));
+}
+
+/**
+ * Fetches an organization invitation by the token of its link, with the
+ * organization name.
+ *
+ * @param token - Invitation token
+ * @returns Invitation, or null if it does not exist (anymore)
+ */
+export async function getOrganizationInvitationByToken(token: string) {
+  const result = await db
+    .select({
+      id: organizationInvitations.id,
+      organizationId: organizationInvitations.organizationId,
+      email: organizationInvitations.email,
+      role: organizationInvitations.role,
+      organizationName: organizations.name,
+    })
+    .from(organizationInvitations)
+    .innerJoin(
+      organizations,
+      eq(organizationInvitations.organizationId, organizations.id)
+    )
+    .where(eq(organizationInvitations.token, token))
+    .limit(1);
+
+  return result[0] ?? null;
+}
@@ -1,6 +1,12 @@
-import { eq, inArray } from "drizzle-orm";
+import { and, eq, inArray, sql } from "drizzle-orm";
 import { db } from "@/lib/db";
-import { participants, groupMembers, groups, countries } from "@/lib/db/schema";
+import {
+  participants,
+  groupMembers,
+  groups,
+  countries,
+  workshops,
+} from "@/lib/db/schema";
 
 export type ParticipantGroupData = {
   participant: {
@@ -12,6 +18,12 @@ export type ParticipantGroupData = {
     id: string;
     groupNumber: number;
   } | null;
+  round: {
+    current: number;
+    total: number;
+  };
+  // Question of the workshop's reflection; null for the default
+  reflectionPrompt: string | null;
   members: Array<{
     id: string;
     name: string;
@@ -22,7 +34,8 @@ export type ParticipantGroupData = {
 
 /**
  * Fetches participant group assignment by session token.
- * Returns participant data, group assignment (if exists), and all group members.
+ * Returns participant data, the group assignment of the workshop's current
+ * round (if exists), and all group members.
  *
  * @param token - Participant session token
  * @returns Participant group data or null if participant not found
@@ -36,8 +49,12 @@ export async function getParticipantGroup(
       id: participants.id,
       name: participants.name,
       countryCode: participants.countryCode,
+      currentRound: workshops.currentRound,
+      roundCount: workshops.roundCount,
+      reflectionPrompt: workshops.reflectionPrompt,
     })
     .from(participants)
+    .innerJoin(workshops, eq(participants.workshopId, workshops.id))
     .where(eq(participants.sessionToken, token))
     .limit(1);
 
@@ -45,21 +62,31 @@ export async function getParticipantGroup(
     return null;
   }
 
-  const participantData = participant[0];
+  const { currentRound, roundCount, reflectionPrompt, ...participantData } =
+    participant[0];
+  const round = { current: currentRound, total: roundCount };
 
-  // Find group membership
+  // Find group membership in the current round
   const membership = await db
     .select({
       groupId: groupMembers.groupId,
     })
     .from(groupMembers)
-    .where(eq(groupMembers.participantId, participantData.id))
+    .innerJoin(groups, eq(groupMembers.groupId, groups.id))
+    .where(
+      and(
+        eq(groupMembers.participantId, participantData.id),
+        eq(groups.roundNumber, currentRound)
+      )
+    )
     .limit(1);
 
   if (membership.length === 0) {
     return {
       participant: participantData,
       group: null,
+      round,
+      reflectionPrompt,
       members: [],
     };
   }
@@ -80,6 +107,8 @@ export async function getParticipantGroup(
     return {
       participant: participantData,
       group: null,
+      round,
+      reflectionPrompt,
       members: [],
     };
   }
@@ -98,6 +127,8 @@ export async function getParticipantGroup(
     return {
       participant: participantData,
       group: groupData[0],
+      round,
+      reflectionPrompt,
       members: [],
     };
   }
@@ -117,6 +148,8 @@ export async function getParticipantGroup(
   return {
     participant: participantData,
     group: groupData[0],
+    round,
+    reflectionPrompt,
     members: allMemberDetails.map((m) => ({
       id: m.id,
       name: m.name,
@@ -125,3 +158,27 @@ export async function getParticipantGroup(
     })),
   };
 }
+
+/**
+ * Fetches a pre-registered participant by the token of their claim link,
+ * with the title of their workshop.
+ *
+ * @param claimToken - Token of the participant's claim link
+ * @returns Participant and workshop title, or null if the token is unknown
+ */
+export async function getParticipantByClaimToken(claimToken: string) {
+  const result = await db
+    .select({
+      name: participants.name,
+      countryName: countries.name,
+      claimed: sql<boolean>`${participants.claimedAt} is not null`,
+      workshopTitle: workshops.title,
+    })
+    .from(participants)
+    .innerJoin(workshops, eq(participants.workshopId, workshops.id))
+    .leftJoin(countries, eq(participants.countryCode, countries.isoCode))
+    .where(eq(participants.claimToken, claimToken))
+    .limit(1);
+
+  return result[0] ?? null;
+}
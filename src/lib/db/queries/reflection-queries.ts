@@ -1,4 +1,4 @@
-import { eq, asc, inArray } from "drizzle-orm";
+import { and, eq, asc, inArray } from "drizzle-orm";
 import { db } from "@/lib/db";
 import {
   reflections,
@@ -27,9 +27,10 @@ export type ReflectionGroupData = {
 };
 
 /**
- * Fetches all reflections for a workshop, organized by group.
+ * Fetches all reflections for a workshop, organized by the groups of the
+ * current round.
  * Includes participants who haven't submitted reflections yet.
- * Verifies that the facilitator owns the workshop.
+ * Verifies that the facilitator has access to the workshop.
  *
  * @param workshopId - Workshop ID
  * @param facilitatorId - Facilitator user ID
@@ -39,20 +40,25 @@ export async function getWorkshopReflectionsWithMissing(
   workshopId: string,
   facilitatorId: string
 ): Promise<ReflectionGroupData[]> {
-  // Verify facilitator owns the workshop
+  // Verify facilitator has access to the workshop
   const workshop = await getWorkshopById(workshopId, facilitatorId);
   if (!workshop) {
     return [];
   }
 
-  // Get all groups for the workshop
+  // Get the groups of the current round
   const workshopGroups = await db
     .select({
       id: groups.id,
       groupNumber: groups.groupNumber,
     })
     .from(groups)
-    .where(eq(groups.workshopId, workshopId))
+    .where(
+      and(
+        eq(groups.workshopId, workshopId),
+        eq(groups.roundNumber, workshop.currentRound)
+      )
+    )
     .orderBy(asc(groups.groupNumber));
 
   if (workshopGroups.length === 0) {
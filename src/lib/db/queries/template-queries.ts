@@ -0,0 +1,86 @@
+import { and, desc, eq, getTableColumns, or, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+  customFrameworks,
+  organizationMembers,
+  organizations,
+  workshopTemplates,
+} from "@/lib/db/schema";
+
+/**
+ * Condition matching templates the user can use: their own, and those
+ * shared with organizations they are a member of
+ */
+function templateAccessCondition(userId: string) {
+  return or(
+    eq(workshopTemplates.facilitatorId, userId),
+    sql`${workshopTemplates.organizationId} in (select ${organizationMembers.organizationId} from ${organizationMembers} where ${organizationMembers.userId} = ${userId})`
+  );
+}
+
+/**
+ * Fetches the workshop templates a facilitator can use, with the name of
+ * the organization they are shared with.
+ *
+ * @param userId - ID of the signed-in facilitator
+ * @returns Templates (newest first) with whether the user may delete them
+ */
+export async function getWorkshopTemplatesByUser(userId: string) {
+  const rows = await db
+    .select({
+      ...getTableColumns(workshopTemplates),
+      organizationName: organizations.name,
+      customFrameworkName: customFrameworks.name,
+      organizationRole: organizationMembers.role,
+    })
+    .from(workshopTemplates)
+    .leftJoin(
+      organizations,
+      eq(workshopTemplates.organizationId, organizations.id)
+    )
+    .leftJoin(
+      organizationMembers,
+      and(
+        eq(
+          organizationMembers.organizationId,
+          workshopTemplates.organizationId
+        ),
+        eq(organizationMembers.userId, userId)
+      )
+    )
+    .leftJoin(
+      customFrameworks,
+      sql`${workshopTemplates.framework} = 'custom:' || ${customFrameworks.id}`
+    )
+    .where(templateAccessCondition(userId))
+    .orderBy(desc(workshopTemplates.createdAt));
+
+  return rows.map(({ organizationRole, ...template }) => ({
+    ...template,
+    // Creators and organization admins manage shared templates
+    canDelete:
+      template.facilitatorId === userId || organizationRole === "admin",
+  }));
+}
+
+/**
+ * Fetches a workshop template the facilitator can use.
+ *
+ * @param templateId - ID of the template
+ * @param userId - ID of the signed-in facilitator
+ * @returns Template, or null if not found or not accessible
+ */
+export async function getWorkshopTemplateById(
+  templateId: string,
+  userId: string
+) {
+  const result = await db
+    .select()
+    .from(workshopTemplates)
+    .where(
+      and(eq(workshopTemplates.id, templateId), templateAccessCondition(userId))
+    )
+    .limit(1);
+
+  return result[0] ?? null;
+}
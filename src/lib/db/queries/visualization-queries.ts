@@ -1,16 +1,32 @@
-import { eq, inArray } from "drizzle-orm";
+import { and, eq, inArray } from "drizzle-orm";
 import { getWorkshopById } from "@/lib/db/queries/workshop-queries";
 import { db } from "@/lib/db";
-import { participants, groups, groupMembers, countries } from "@/lib/db/schema";
+import {
+  participants,
+  groups,
+  groupMembers,
+  groupingCandidates,
+  countries,
+} from "@/lib/db/schema";
 import {
   computeDistanceMatrixForParticipants,
-  transformDistanceMatrixToGraph,
-  transformDistanceMatrixToHeatmap,
+  transformParticipantsToGraphNodes,
+  type CompactGraphData,
   type Participant,
   type Group,
 } from "@/lib/utils/visualization-data";
+import { serializeDistanceMatrix } from "@/lib/utils/distance-matrix";
+import { getMaxCulturalDistance } from "@/lib/utils/cultural-distance";
 import type { Framework } from "@/types/cultural";
-import { getCulturalDataForCountries } from "@/lib/db/queries/country-queries";
+import {
+  getCulturalDataForCountries,
+  getDistanceOptions,
+  getParticipantCountryShares,
+} from "@/lib/db/queries/country-queries";
+import { getCustomFrameworksByFacilitator } from "@/lib/db/queries/framework-queries";
+import { blendCountryScores } from "@/lib/utils/participant-countries";
+import { resolveParticipantScores } from "@/lib/utils/score-source";
+import type { CustomFrameworkOption } from "@/lib/utils/framework-labels";
 import {
   getAvailableFrameworks,
   getBestAvailableFramework,
@@ -19,40 +35,11 @@ import {
 export type VisualizationData = {
   framework: Framework;
   availableFrameworks: Framework[];
-  graphData: {
-    nodes: Array<{
-      id: string;
-      name: string;
-      country: string;
-      countryCode: string;
-      groupId?: string;
-      groupNumber?: number;
-    }>;
-    links: Array<{
-      source: string;
-      target: string;
-      distance: number;
-    }>;
-  };
-  heatmapData: {
-    participants: Array<{
-      id: string;
-      name: string;
-      countryCode: string;
-      countryName: string;
-    }>;
-    data: Array<{
-      x: string;
-      y: string;
-      value: number;
-      participantX: string;
-      participantY: string;
-      countryX: string;
-      countryY: string;
-    }>;
-    minDistance: number;
-    maxDistance: number;
-  };
+  // Custom frameworks of the facilitator, for framework selector labels
+  customFrameworks: CustomFrameworkOption[];
+  // Nodes and distances between distinct profiles; links and heatmap
+  // cells are expanded on the client
+  graph: CompactGraphData;
 };
 
 export type VisualizationDataResult =
@@ -73,19 +60,22 @@ export type VisualizationDataResult =
 
 /**
  * Fetches and computes visualization data for a workshop.
- * Verifies that the facilitator owns the workshop.
+ * Verifies that the facilitator has access to the workshop.
  *
  * @param workshopId - ID of the workshop
  * @param facilitatorId - ID of the facilitator (for verification)
  * @param framework - Framework to use for distance calculation
+ * @param candidateId - Optional candidate grouping to preview instead of the
+ * committed groups (its first round)
  * @returns Visualization data result with success/error state
  */
 export async function getVisualizationData(
   workshopId: string,
   facilitatorId: string,
-  framework: Framework
+  framework: Framework,
+  candidateId?: string
 ): Promise<VisualizationDataResult> {
-  // Verify facilitator owns workshop
+  // Verify facilitator has access to the workshop
   const workshop = await getWorkshopById(workshopId, facilitatorId);
   if (!workshop) {
     return { success: false, error: "workshop_not_found" };
@@ -98,6 +88,7 @@ export async function getVisualizationData(
       name: participants.name,
       countryCode: participants.countryCode,
       countryName: countries.name,
+      personalScores: participants.personalScores,
     })
     .from(participants)
     .innerJoin(countries, eq(participants.countryCode, countries.isoCode))
@@ -131,14 +122,50 @@ export async function getVisualizationData(
     countryName: p.countryName,
   }));
 
-  // Get cultural data for all participants to check framework availability
-  const countryCodes = participantsData.map((p) => p.countryCode);
-  const culturalDataMap = await getCulturalDataForCountries(countryCodes);
+  // Get cultural data of all participants' countries to check framework
+  // availability
+  const countryShares = await getParticipantCountryShares(workshopParticipants);
+  const countryDataMap = await getCulturalDataForCountries(
+    Array.from(countryShares.values()).flatMap((shares) =>
+      shares.map((share) => share.countryCode)
+    )
+  );
+
+  // Only expose scores of the custom frameworks of the workshop's creator
+  const customFrameworks = (
+    await getCustomFrameworksByFacilitator(workshop.facilitatorId)
+  ).map(({ frameworkId, name }) => ({ frameworkId, name }));
+  const ownedFrameworkIds = new Set<Framework>(
+    customFrameworks.map((f) => f.frameworkId)
+  );
+  for (const scores of countryDataMap.values()) {
+    if (scores.custom) {
+      scores.custom = Object.fromEntries(
+        Object.entries(scores.custom).filter(([fw]) =>
+          ownedFrameworkIds.has(fw as Framework)
+        )
+      );
+    }
+  }
+
+  // Score participants by their (blended) countries or self-assessment as
+  // configured
+  const culturalDataMap = new Map(
+    workshopParticipants.map((p) => [
+      p.id,
+      resolveParticipantScores(
+        blendCountryScores(countryShares.get(p.id) ?? [], countryDataMap),
+        p.personalScores,
+        workshop
+      ),
+    ])
+  );
+  const participantIds = participantsData.map((p) => p.id);
 
   // Determine available frameworks
   const availableFrameworks = getAvailableFrameworks(
     culturalDataMap,
-    countryCodes
+    participantIds
   );
 
   // Use requested framework if available, otherwise fallback to best available
@@ -146,19 +173,39 @@ export async function getVisualizationData(
   if (!availableFrameworks.includes(framework)) {
     selectedFramework = getBestAvailableFramework(
       culturalDataMap,
-      countryCodes
+      participantIds
     );
   }
 
-  // Get groups if they exist
+  // Get groups of the previewed candidate, or of the current round if they
+  // exist
   let groupsData: Group[] | undefined;
+  const candidate = candidateId
+    ? await db.query.groupingCandidates.findFirst({
+        where: and(
+          eq(groupingCandidates.id, candidateId),
+          eq(groupingCandidates.workshopId, workshopId)
+        ),
+      })
+    : undefined;
   const existingGroups = await db
     .select()
     .from(groups)
-    .where(eq(groups.workshopId, workshopId))
+    .where(
+      and(
+        eq(groups.workshopId, workshopId),
+        eq(groups.roundNumber, workshop.currentRound)
+      )
+    )
     .orderBy(groups.groupNumber);
 
-  if (existingGroups.length > 0) {
+  if (candidate) {
+    groupsData = (candidate.rounds[0] ?? []).map((participantIds, index) => ({
+      id: `${candidate.id}:${index + 1}`,
+      groupNumber: index + 1,
+      participantIds,
+    }));
+  } else if (existingGroups.length > 0) {
     const groupIds = existingGroups.map((g) => g.id);
     const allGroupMembers = await db
       .select()
@@ -180,33 +227,39 @@ export async function getVisualizationData(
     }));
   }
 
-  // Compute distance matrix with selected framework
-  const distanceMatrix = await computeDistanceMatrixForParticipants(
-    participantsData,
-    selectedFramework
-  );
-
-  // Transform to visualization formats
-  const graphData = transformDistanceMatrixToGraph(
+  // Compute distance matrix with selected framework and the configured
+  // metric and weights
+  const distanceOptions = await getDistanceOptions(selectedFramework, workshop);
+  const distanceMatrix = computeDistanceMatrixForParticipants(
     participantsData,
-    distanceMatrix,
-    groupsData,
     selectedFramework,
-    culturalDataMap
+    culturalDataMap,
+    distanceOptions
   );
 
-  const heatmapData = transformDistanceMatrixToHeatmap(
-    participantsData,
-    distanceMatrix
-  );
+  const graph: CompactGraphData = {
+    nodes: transformParticipantsToGraphNodes(
+      participantsData,
+      groupsData,
+      culturalDataMap,
+      countryDataMap
+    ),
+    distances: serializeDistanceMatrix(distanceMatrix),
+    weights: distanceOptions.weights ?? null,
+    metric: workshop.distanceMetric,
+    maxPossibleDistance: getMaxCulturalDistance(
+      selectedFramework,
+      distanceOptions
+    ),
+  };
 
   return {
     success: true,
     data: {
       framework: selectedFramework,
       availableFrameworks,
-      graphData,
-      heatmapData,
+      customFrameworks,
+      graph,
     },
   };
 }
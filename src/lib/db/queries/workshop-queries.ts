@@ -1,27 +1,77 @@
-import { and, desc, eq, sql } from "drizzle-orm";
+import { and, desc, eq, getTableColumns, sql } from "drizzle-orm";
+import { getUserProfiles } from "@/lib/auth";
 import { db } from "@/lib/db";
-import { workshops, participants, countries } from "@/lib/db/schema";
+import {
+  workshops,
+  workshopMembers,
+  organizationMembers,
+  participants,
+  participantCountries,
+  countries,
+  customFrameworks,
+  workshopStatusChanges,
+} from "@/lib/db/schema";
+import { getOrganizationWorkshopRole } from "@/lib/utils/organization-roles";
+import {
+  hasWorkshopRole,
+  resolveWorkshopRole,
+  type WorkshopRole,
+} from "@/lib/utils/workshop-roles";
 
 /**
- * Fetches a workshop by ID, ensuring the facilitator owns it.
+ * Fetches a workshop by ID with the user's role, ensuring the user has at
+ * least the required role as workshop member or through the workshop's
+ * organization.
  * Returns null if workshop not found or user doesn't have access.
+ *
+ * @param workshopId - ID of the workshop
+ * @param facilitatorId - ID of the signed-in facilitator
+ * @param requiredRole - Minimum role needed (defaults to read access)
+ * @returns Workshop with the user's role, or null
  */
 export async function getWorkshopById(
   workshopId: string,
-  facilitatorId: string
+  facilitatorId: string,
+  requiredRole: WorkshopRole = "observer"
 ) {
-  const workshop = await db
-    .select()
+  const result = await db
+    .select({
+      ...getTableColumns(workshops),
+      memberRole: workshopMembers.role,
+      organizationRole: organizationMembers.role,
+    })
     .from(workshops)
-    .where(
+    .leftJoin(
+      workshopMembers,
+      and(
+        eq(workshopMembers.workshopId, workshops.id),
+        eq(workshopMembers.userId, facilitatorId)
+      )
+    )
+    .leftJoin(
+      organizationMembers,
       and(
-        eq(workshops.id, workshopId),
-        eq(workshops.facilitatorId, facilitatorId)
+        eq(organizationMembers.organizationId, workshops.organizationId),
+        eq(organizationMembers.userId, facilitatorId)
       )
     )
+    .where(eq(workshops.id, workshopId))
     .limit(1);
 
-  return workshop[0] ?? null;
+  if (!result[0]) {
+    return null;
+  }
+
+  const { memberRole, organizationRole, ...workshop } = result[0];
+  const role = resolveWorkshopRole(
+    memberRole,
+    organizationRole ? getOrganizationWorkshopRole(organizationRole) : null
+  );
+  if (!role || !hasWorkshopRole(role, requiredRole)) {
+    return null;
+  }
+
+  return { ...workshop, role };
 }
 
 /**
@@ -40,18 +90,22 @@ export async function getWorkshopByIdPublic(workshopId: string) {
 
 /**
  * Fetches all participants for a workshop with country information.
- * Verifies that the facilitator owns the workshop.
+ * Verifies that the facilitator has access to the workshop. Claim tokens are
+ * only returned to co-facilitators and owners.
  */
 export async function getWorkshopParticipants(
   workshopId: string,
   facilitatorId: string
 ) {
-  // First verify facilitator owns the workshop
+  // First verify facilitator has access to the workshop
   const workshop = await getWorkshopById(workshopId, facilitatorId);
   if (!workshop) {
     return [];
   }
 
+  // A claim token signs in as the participant, so observers don't get it
+  const canInvite = hasWorkshopRole(workshop.role, "co_facilitator");
+
   return await db
     .select({
       id: participants.id,
@@ -59,6 +113,18 @@ export async function getWorkshopParticipants(
       countryCode: participants.countryCode,
       countryName: countries.name,
       joinedAt: participants.createdAt,
+      selfAssessed: sql<boolean>`${participants.personalScores} is not null`,
+      email: participants.email,
+      tags: participants.tags,
+      // Pre-registered by import, whether or not they claimed
+      invited: sql<boolean>`${participants.claimToken} is not null`,
+      // Set for pre-registered participants until and after they claim
+      claimToken: canInvite
+        ? participants.claimToken
+        : sql<string | null>`null`,
+      claimedAt: participants.claimedAt,
+      // Number of countries for multicultural participants, 0 otherwise
+      countryCount: sql<number>`(select count(*)::int from ${participantCountries} where ${participantCountries.participantId} = ${participants.id})`,
     })
     .from(participants)
     .innerJoin(countries, eq(participants.countryCode, countries.isoCode))
@@ -68,13 +134,13 @@ export async function getWorkshopParticipants(
 
 /**
  * Gets the total count of participants for a workshop.
- * Verifies that the facilitator owns the workshop.
+ * Verifies that the facilitator has access to the workshop.
  */
 export async function getParticipantCount(
   workshopId: string,
   facilitatorId: string
 ): Promise<number> {
-  // First verify facilitator owns the workshop
+  // First verify facilitator has access to the workshop
   const workshop = await getWorkshopById(workshopId, facilitatorId);
   if (!workshop) {
     return 0;
@@ -90,13 +156,13 @@ export async function getParticipantCount(
 
 /**
  * Gets country distribution summary for a workshop.
- * Verifies that the facilitator owns the workshop.
+ * Verifies that the facilitator has access to the workshop.
  */
 export async function getCountryDistribution(
   workshopId: string,
   facilitatorId: string
 ) {
-  // First verify facilitator owns the workshop
+  // First verify facilitator has access to the workshop
   const workshop = await getWorkshopById(workshopId, facilitatorId);
   if (!workshop) {
     return [];
@@ -116,7 +182,8 @@ export async function getCountryDistribution(
 }
 
 /**
- * Fetches all workshops for a facilitator with participant counts.
+ * Fetches all workshops a facilitator is a member of, with their role and
+ * participant counts.
  * Returns workshops ordered by creation date (newest first).
  */
 export async function getWorkshopsByFacilitator(facilitatorId: string) {
@@ -128,13 +195,27 @@ export async function getWorkshopsByFacilitator(facilitatorId: string) {
       joinCode: workshops.joinCode,
       status: workshops.status,
       framework: workshops.framework,
-      groupSize: workshops.groupSize,
+      customFrameworkName: customFrameworks.name,
+      minGroupSize: workshops.minGroupSize,
+      maxGroupSize: workshops.maxGroupSize,
+      groupCount: workshops.groupCount,
       createdAt: workshops.createdAt,
+      role: workshopMembers.role,
       participantCount: sql<number>`count(${participants.id})`,
     })
     .from(workshops)
+    .innerJoin(
+      workshopMembers,
+      and(
+        eq(workshopMembers.workshopId, workshops.id),
+        eq(workshopMembers.userId, facilitatorId)
+      )
+    )
     .leftJoin(participants, eq(participants.workshopId, workshops.id))
-    .where(eq(workshops.facilitatorId, facilitatorId))
+    .leftJoin(
+      customFrameworks,
+      sql`${workshops.framework} = 'custom:' || ${customFrameworks.id}`
+    )
     .groupBy(
       workshops.id,
       workshops.title,
@@ -142,10 +223,55 @@ export async function getWorkshopsByFacilitator(facilitatorId: string) {
       workshops.joinCode,
       workshops.status,
       workshops.framework,
-      workshops.groupSize,
-      workshops.createdAt
+      customFrameworks.name,
+      workshops.minGroupSize,
+      workshops.maxGroupSize,
+      workshops.groupCount,
+      workshops.createdAt,
+      workshopMembers.role
     )
     .orderBy(desc(workshops.createdAt));
 
   return workshopList;
 }
+
+/**
+ * Fetches the status change log of a workshop with the names of the
+ * facilitators who changed the status.
+ * Verifies that the facilitator has access to the workshop.
+ *
+ * @param workshopId - ID of the workshop
+ * @param facilitatorId - ID of the signed-in facilitator
+ * @returns Status changes, newest first
+ */
+export async function getWorkshopStatusChanges(
+  workshopId: string,
+  facilitatorId: string
+) {
+  // First verify facilitator has access to the workshop
+  const workshop = await getWorkshopById(workshopId, facilitatorId);
+  if (!workshop) {
+    return [];
+  }
+
+  const changes = await db
+    .select({
+      id: workshopStatusChanges.id,
+      userId: workshopStatusChanges.userId,
+      fromStatus: workshopStatusChanges.fromStatus,
+      toStatus: workshopStatusChanges.toStatus,
+      createdAt: workshopStatusChanges.createdAt,
+    })
+    .from(workshopStatusChanges)
+    .where(eq(workshopStatusChanges.workshopId, workshopId))
+    .orderBy(desc(workshopStatusChanges.createdAt));
+
+  const profiles = await getUserProfiles(
+    Array.from(new Set(changes.map((change) => change.userId)))
+  );
+
+  return changes.map((change) => ({
+    ...change,
+    userName: profiles.get(change.userId)?.name ?? "Unknown user",
+  }));
+}
@@ -1,4 +1,14 @@
-import { numeric, pgTable, text } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import {
+  integer,
+  numeric,
+  pgTable,
+  primaryKey,
+  text,
+  timestamp,
+  unique,
+  uuid,
+} from "drizzle-orm/pg-core";
 import { countries } from "./countries";
 
 export const lewisScores = pgTable("lewis_scores", {
@@ -42,3 +52,48 @@ export const hofstedeScores = pgTable("hofstede_scores", {
   }).notNull(),
   indulgence: numeric("indulgence", { precision: 4, scale: 3 }).notNull(),
 });
+
+// Facilitator-defined frameworks (e.g. GLOBE, Trompenaars) with any number
+// of dimensions. Scores are stored normalized to 0-1 like the tables above.
+export const customFrameworks = pgTable("custom_frameworks", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  facilitatorId: text("facilitator_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .notNull()
+    .$onUpdate(() => sql`now()`),
+});
+
+export const customFrameworkDimensions = pgTable(
+  "custom_framework_dimensions",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    frameworkId: uuid("framework_id")
+      .notNull()
+      .references(() => customFrameworks.id, { onDelete: "cascade" }),
+    key: text("key").notNull(),
+    label: text("label").notNull(),
+    // Range of the raw scores uploaded for this dimension
+    scaleMin: numeric("scale_min").default("0").notNull(),
+    scaleMax: numeric("scale_max").default("1").notNull(),
+    position: integer("position").notNull(),
+  },
+  (table) => [unique().on(table.frameworkId, table.key)]
+);
+
+export const customFrameworkScores = pgTable(
+  "custom_framework_scores",
+  {
+    dimensionId: uuid("dimension_id")
+      .notNull()
+      .references(() => customFrameworkDimensions.id, { onDelete: "cascade" }),
+    countryCode: text("country_code")
+      .notNull()
+      .references(() => countries.isoCode),
+    score: numeric("score", { precision: 4, scale: 3 }).notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.dimensionId, table.countryCode] })]
+);
@@ -0,0 +1,38 @@
+import {
+  doublePrecision,
+  integer,
+  jsonb,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from "drizzle-orm/pg-core";
+import type { AlgorithmParameters } from "@/lib/utils/grouping-algorithm";
+import { type GroupingAlgorithm, workshops } from "./workshops";
+
+// Draft groupings generated for comparison. Committing one replaces the
+// workshop's groups; until then the committed groups are unchanged.
+export const groupingCandidates = pgTable("grouping_candidates", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  workshopId: uuid("workshop_id")
+    .notNull()
+    .references(() => workshops.id, { onDelete: "cascade" }),
+  candidateNumber: integer("candidate_number").notNull(),
+  algorithm: text("algorithm").$type<GroupingAlgorithm>().notNull(),
+  // Parameters the algorithm ran with, including defaults
+  parameters: jsonb("parameters")
+    .$type<AlgorithmParameters>()
+    .default({})
+    .notNull(),
+  // Seed of the random number generator; null for deterministic algorithms
+  seed: text("seed"),
+  // Participant IDs of every group, per round
+  rounds: jsonb("rounds").$type<string[][][]>().notNull(),
+  // Sum of average intra-group distances, averaged over rounds
+  diversity: doublePrecision("diversity").notNull(),
+  repeatPairings: integer("repeat_pairings").notNull(),
+  unsatisfiedConstraints: integer("unsatisfied_constraints").notNull(),
+  // Clerk user ID of the facilitator who generated the candidate
+  createdBy: text("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
@@ -0,0 +1,23 @@
+import { pgEnum, pgTable, timestamp, uuid } from "drizzle-orm/pg-core";
+import { participants } from "./participants";
+import { workshops } from "./workshops";
+
+export const groupingConstraintTypeEnum = pgEnum("grouping_constraint_type", [
+  "must_link",
+  "cannot_link",
+]);
+
+export const groupingConstraints = pgTable("grouping_constraints", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  workshopId: uuid("workshop_id")
+    .notNull()
+    .references(() => workshops.id),
+  type: groupingConstraintTypeEnum("type").notNull(),
+  participantAId: uuid("participant_a_id")
+    .notNull()
+    .references(() => participants.id),
+  participantBId: uuid("participant_b_id")
+    .notNull()
+    .references(() => participants.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
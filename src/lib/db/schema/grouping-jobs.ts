@@ -0,0 +1,87 @@
+import { sql } from "drizzle-orm";
+import {
+  jsonb,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  uniqueIndex,
+  uuid,
+} from "drizzle-orm/pg-core";
+import type { GroupingProgress } from "@/lib/utils/group-assignment";
+import { workshops } from "./workshops";
+
+export const groupingJobStatusEnum = pgEnum("grouping_job_status", [
+  "running",
+  "completed",
+  "failed",
+  "cancelled",
+]);
+
+export type GroupingJobStatus =
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+// What a job generates: the workshop's groups, or candidate groupings to
+// compare
+export const groupingJobKindEnum = pgEnum("grouping_job_kind", [
+  "groups",
+  "candidates",
+]);
+
+export type GroupingJobKind = "groups" | "candidates";
+
+/**
+ * Latest reported step of a job. Candidate jobs also report which candidate
+ * is being generated.
+ */
+export type GroupingJobProgress = GroupingProgress & {
+  candidate?: number;
+  candidateCount?: number;
+};
+
+/**
+ * Outcome of a completed grouping job: the saved groups, or the number of
+ * candidates generated
+ */
+export type GroupingJobResult =
+  | {
+      // Groups of the first round
+      groupCount: number;
+      roundCount: number;
+      repeatPairings: number;
+      unsatisfiedConstraints: number;
+    }
+  | { candidateCount: number };
+
+// Group or candidate generation running in the background. At most one job
+// per workshop runs at a time, enforced by a unique index over running jobs;
+// its groups or candidates are saved when it completes.
+export const groupingJobs = pgTable(
+  "grouping_jobs",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    workshopId: uuid("workshop_id")
+      .notNull()
+      .references(() => workshops.id, { onDelete: "cascade" }),
+    kind: groupingJobKindEnum("kind").default("groups").notNull(),
+    status: groupingJobStatusEnum("status").default("running").notNull(),
+    // Latest reported step of the algorithm; null until the first report
+    progress: jsonb("progress").$type<GroupingJobProgress>(),
+    result: jsonb("result").$type<GroupingJobResult>(),
+    // Error message of a failed job
+    error: text("error"),
+    // Clerk user ID of the facilitator who started the job
+    createdBy: text("created_by").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    finishedAt: timestamp("finished_at"),
+  },
+  (table) => [
+    uniqueIndex("grouping_jobs_workshop_running_unique")
+      .on(table.workshopId)
+      .where(sql`${table.status} = 'running'`),
+  ]
+);
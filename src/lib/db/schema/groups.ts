@@ -1,12 +1,14 @@
 import {
   integer,
+  jsonb,
   pgTable,
   primaryKey,
   timestamp,
   uuid,
 } from "drizzle-orm/pg-core";
+import type { AlgorithmParameters } from "@/lib/utils/grouping-algorithm";
 import { participants } from "./participants";
-import { workshops } from "./workshops";
+import { groupingAlgorithmEnum, workshops } from "./workshops";
 
 export const groups = pgTable("groups", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -14,6 +16,14 @@ export const groups = pgTable("groups", {
     .notNull()
     .references(() => workshops.id),
   groupNumber: integer("group_number").notNull(),
+  // Rotation round the group belongs to (1-based)
+  roundNumber: integer("round_number").default(1).notNull(),
+  // Algorithm and parameters that generated the group; null for groups
+  // added in the group editor
+  algorithm: groupingAlgorithmEnum("algorithm"),
+  algorithmParameters: jsonb(
+    "algorithm_parameters"
+  ).$type<AlgorithmParameters>(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
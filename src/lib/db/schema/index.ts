@@ -1,6 +1,13 @@
 export * from "./countries";
 export * from "./cultural-frameworks";
 export * from "./groups";
+export * from "./grouping-candidates";
+export * from "./grouping-constraints";
+export * from "./grouping-jobs";
+export * from "./organizations";
 export * from "./participants";
 export * from "./reflections";
 export * from "./workshops";
+export * from "./workshop-members";
+export * from "./workshop-status-changes";
+export * from "./workshop-templates";
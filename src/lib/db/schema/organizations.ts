@@ -0,0 +1,63 @@
+import {
+  pgEnum,
+  pgTable,
+  primaryKey,
+  text,
+  timestamp,
+  uniqueIndex,
+  uuid,
+} from "drizzle-orm/pg-core";
+
+export const organizationRoleEnum = pgEnum("organization_role", [
+  "admin",
+  "member",
+]);
+
+export type OrganizationRole = "admin" | "member";
+
+// Workspace of a team of facilitators; workshops created in it are shared
+// with all of its members
+export const organizations = pgTable("organizations", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: text("name").notNull(),
+  createdBy: text("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Facilitators (Clerk users) of an organization. Every organization has at
+// least one admin; the creator starts as the only admin.
+export const organizationMembers = pgTable(
+  "organization_members",
+  {
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    userId: text("user_id").notNull(),
+    role: organizationRoleEnum("role").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.organizationId, table.userId] })]
+);
+
+// Pending invitations by email; accepting one turns it into a membership
+export const organizationInvitations = pgTable(
+  "organization_invitations",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    // Lowercase; must match one of the invitee's verified email addresses
+    email: text("email").notNull(),
+    role: organizationRoleEnum("role").notNull(),
+    token: text("token").notNull().unique(),
+    invitedBy: text("invited_by").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("organization_invitations_org_email_unique").on(
+      table.organizationId,
+      table.email
+    ),
+  ]
+);
@@ -1,5 +1,8 @@
 import {
+  integer,
+  jsonb,
   pgTable,
+  primaryKey,
   text,
   timestamp,
   uniqueIndex,
@@ -7,6 +10,8 @@ import {
 } from "drizzle-orm/pg-core";
 import { countries } from "./countries";
 import { workshops } from "./workshops";
+import type { PersonalScores } from "@/types/cultural";
+import type { ParticipantAttributeValues } from "@/lib/utils/participant-attributes";
 
 export const participants = pgTable(
   "participants",
@@ -20,6 +25,16 @@ export const participants = pgTable(
       .notNull()
       .references(() => countries.isoCode),
     sessionToken: text("session_token").notNull(),
+    // Scores from the optional self-assessment questionnaire
+    personalScores: jsonb("personal_scores").$type<PersonalScores>(),
+    // Answers to the workshop's custom attributes, keyed by attribute key
+    attributes: jsonb("attributes").$type<ParticipantAttributeValues>(),
+    // Pre-registered participants (bulk import) get a personal claim link;
+    // claimedAt is set once they open it
+    email: text("email"),
+    tags: jsonb("tags").$type<string[]>(),
+    claimToken: text("claim_token").unique(),
+    claimedAt: timestamp("claimed_at"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
   (table) => ({
@@ -28,3 +43,21 @@ export const participants = pgTable(
     ).on(table.workshopId, table.sessionToken),
   })
 );
+
+// Countries of participants who identify with more than one culture, with
+// relative weights. The first (position 0) matches participants.countryCode.
+// Participants with a single country have no rows.
+export const participantCountries = pgTable(
+  "participant_countries",
+  {
+    participantId: uuid("participant_id")
+      .notNull()
+      .references(() => participants.id, { onDelete: "cascade" }),
+    countryCode: text("country_code")
+      .notNull()
+      .references(() => countries.isoCode),
+    weight: integer("weight").notNull(),
+    position: integer("position").notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.participantId, table.countryCode] })]
+);
@@ -0,0 +1,56 @@
+import {
+  pgEnum,
+  pgTable,
+  primaryKey,
+  text,
+  timestamp,
+  uniqueIndex,
+  uuid,
+} from "drizzle-orm/pg-core";
+import { workshops } from "./workshops";
+
+export const workshopRoleEnum = pgEnum("workshop_role", [
+  "owner",
+  "co_facilitator",
+  "observer",
+]);
+
+export type WorkshopRole = "owner" | "co_facilitator" | "observer";
+
+// Facilitators (Clerk users) with access to a workshop. Every workshop has
+// at least one owner; the creator starts as the only owner.
+export const workshopMembers = pgTable(
+  "workshop_members",
+  {
+    workshopId: uuid("workshop_id")
+      .notNull()
+      .references(() => workshops.id, { onDelete: "cascade" }),
+    userId: text("user_id").notNull(),
+    role: workshopRoleEnum("role").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.workshopId, table.userId] })]
+);
+
+// Pending invitations by email; accepting one turns it into a membership
+export const workshopInvitations = pgTable(
+  "workshop_invitations",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    workshopId: uuid("workshop_id")
+      .notNull()
+      .references(() => workshops.id, { onDelete: "cascade" }),
+    // Lowercase; must match one of the invitee's verified email addresses
+    email: text("email").notNull(),
+    role: workshopRoleEnum("role").notNull(),
+    token: text("token").notNull().unique(),
+    invitedBy: text("invited_by").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("workshop_invitations_workshop_email_unique").on(
+      table.workshopId,
+      table.email
+    ),
+  ]
+);
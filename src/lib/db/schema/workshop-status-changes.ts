@@ -0,0 +1,16 @@
+import { pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { workshopStatusEnum, workshops } from "./workshops";
+
+// Event log of workshop status changes: who moved the workshop from which
+// status to which, and when
+export const workshopStatusChanges = pgTable("workshop_status_changes", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  workshopId: uuid("workshop_id")
+    .notNull()
+    .references(() => workshops.id, { onDelete: "cascade" }),
+  // Clerk user ID of the facilitator who changed the status
+  userId: text("user_id").notNull(),
+  fromStatus: workshopStatusEnum("from_status").notNull(),
+  toStatus: workshopStatusEnum("to_status").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
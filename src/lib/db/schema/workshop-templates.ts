@@ -0,0 +1,64 @@
+import {
+  boolean,
+  integer,
+  jsonb,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from "drizzle-orm/pg-core";
+import type { Framework } from "@/types/cultural";
+import type { DistanceWeights } from "@/lib/utils/distance-weights";
+import type { AlgorithmParameters } from "@/lib/utils/grouping-algorithm";
+import type { ParticipantAttribute } from "@/lib/utils/participant-attributes";
+import type { PendingConstraint } from "@/lib/utils/pending-constraints";
+import { organizations } from "./organizations";
+import {
+  distanceMetricEnum,
+  groupingAlgorithmEnum,
+  groupingObjectiveEnum,
+  scoreSourceEnum,
+} from "./workshops";
+
+// Reusable workshop configuration; mirrors the configuration columns of
+// workshops
+export const workshopTemplates = pgTable("workshop_templates", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: text("name").notNull(),
+  facilitatorId: text("facilitator_id").notNull(),
+  // Organization whose members can use the template; null for personal
+  // templates
+  organizationId: uuid("organization_id").references(() => organizations.id, {
+    onDelete: "cascade",
+  }),
+  // Title of workshops created from the template
+  title: text("title").notNull(),
+  framework: text("framework").$type<Framework>(),
+  minGroupSize: integer("min_group_size"),
+  maxGroupSize: integer("max_group_size"),
+  groupCount: integer("group_count"),
+  objective: groupingObjectiveEnum("objective").default("maximize").notNull(),
+  targetDistanceMin: integer("target_distance_min"),
+  targetDistanceMax: integer("target_distance_max"),
+  distanceMetric: distanceMetricEnum("distance_metric")
+    .default("euclidean")
+    .notNull(),
+  distanceWeights: jsonb("distance_weights").$type<DistanceWeights>(),
+  scoreSource: scoreSourceEnum("score_source").default("country").notNull(),
+  personalScoreWeight: integer("personal_score_weight").default(50).notNull(),
+  groupingAlgorithm: groupingAlgorithmEnum("grouping_algorithm")
+    .default("genetic")
+    .notNull(),
+  algorithmParameters: jsonb(
+    "algorithm_parameters"
+  ).$type<AlgorithmParameters>(),
+  participantAttributes: jsonb("participant_attributes").$type<
+    ParticipantAttribute[]
+  >(),
+  roundCount: integer("round_count").default(1).notNull(),
+  reflectionPrompt: text("reflection_prompt"),
+  lateJoining: boolean("late_joining").default(false).notNull(),
+  // Constraints by participant name, since templates have no participants
+  pendingConstraints: jsonb("pending_constraints").$type<PendingConstraint[]>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
@@ -1,13 +1,21 @@
 import { sql } from "drizzle-orm";
 import {
+  boolean,
   date,
   integer,
+  jsonb,
   pgEnum,
   pgTable,
   text,
   timestamp,
   uuid,
 } from "drizzle-orm/pg-core";
+import type { Framework } from "@/types/cultural";
+import type { DistanceWeights } from "@/lib/utils/distance-weights";
+import type { AlgorithmParameters } from "@/lib/utils/grouping-algorithm";
+import type { ParticipantAttribute } from "@/lib/utils/participant-attributes";
+import type { PendingConstraint } from "@/lib/utils/pending-constraints";
+import { organizations } from "./organizations";
 
 export const workshopStatusEnum = pgEnum("workshop_status", [
   "draft",
@@ -18,22 +26,108 @@ export const workshopStatusEnum = pgEnum("workshop_status", [
 
 export type WorkshopStatus = "draft" | "collecting" | "grouped" | "closed";
 
-export const frameworkEnum = pgEnum("framework", [
-  "lewis",
-  "hall",
-  "hofstede",
-  "combined",
+export const groupingObjectiveEnum = pgEnum("grouping_objective", [
+  "maximize",
+  "minimize",
+  "target",
 ]);
 
+export type GroupingObjectiveType = "maximize" | "minimize" | "target";
+
+export const distanceMetricEnum = pgEnum("distance_metric", [
+  "euclidean",
+  "manhattan",
+  "cosine",
+  "mahalanobis",
+  "kogut_singh",
+]);
+
+export type DistanceMetric =
+  | "euclidean"
+  | "manhattan"
+  | "cosine"
+  | "mahalanobis"
+  | "kogut_singh";
+
+export const groupingAlgorithmEnum = pgEnum("grouping_algorithm", [
+  "genetic",
+  "greedy",
+  "local_search",
+  "annealing",
+]);
+
+export type GroupingAlgorithm =
+  | "genetic"
+  | "greedy"
+  | "local_search"
+  | "annealing";
+
+export const scoreSourceEnum = pgEnum("score_source", [
+  "country",
+  "personal",
+  "blend",
+]);
+
+export type ScoreSource = "country" | "personal" | "blend";
+
 export const workshops = pgTable("workshops", {
   id: uuid("id").defaultRandom().primaryKey(),
   title: text("title").notNull(),
   date: date("date"),
   joinCode: text("join_code").notNull().unique(),
+  // Creator, whose custom frameworks the workshop can use; access is
+  // granted through workshop_members
   facilitatorId: text("facilitator_id").notNull(),
+  // Organization sharing the workshop with its members; null for personal
+  // workshops
+  organizationId: uuid("organization_id").references(() => organizations.id, {
+    onDelete: "set null",
+  }),
   status: workshopStatusEnum("status").default("collecting").notNull(),
-  framework: frameworkEnum("framework"),
-  groupSize: integer("group_size"),
+  // Built-in framework name or "custom:<id>" of a custom framework
+  framework: text("framework").$type<Framework>(),
+  // Either a size range (min/max) or a fixed group count is set
+  minGroupSize: integer("min_group_size"),
+  maxGroupSize: integer("max_group_size"),
+  groupCount: integer("group_count"),
+  // Distance objective; the target band is in percent of the maximum distance
+  objective: groupingObjectiveEnum("objective").default("maximize").notNull(),
+  targetDistanceMin: integer("target_distance_min"),
+  targetDistanceMax: integer("target_distance_max"),
+  // How dimension differences are combined into a distance
+  distanceMetric: distanceMetricEnum("distance_metric")
+    .default("euclidean")
+    .notNull(),
+  // Framework and dimension weights; null weighs everything equally
+  distanceWeights: jsonb("distance_weights").$type<DistanceWeights>(),
+  // Whether participants are scored by country, self-assessment or both;
+  // the personal weight (percent) applies to blending
+  scoreSource: scoreSourceEnum("score_source").default("country").notNull(),
+  personalScoreWeight: integer("personal_score_weight").default(50).notNull(),
+  // Algorithm that forms the groups, and its parameters; null parameters
+  // use the algorithm's defaults
+  groupingAlgorithm: groupingAlgorithmEnum("grouping_algorithm")
+    .default("genetic")
+    .notNull(),
+  algorithmParameters: jsonb(
+    "algorithm_parameters"
+  ).$type<AlgorithmParameters>(),
+  // Custom attributes collected when participants join and mixed within
+  // groups by their weights; null collects none
+  participantAttributes: jsonb("participant_attributes").$type<
+    ParticipantAttribute[]
+  >(),
+  // Rotation: number of breakout rounds and the one participants currently see
+  roundCount: integer("round_count").default(1).notNull(),
+  currentRound: integer("current_round").default(1).notNull(),
+  // Question shown to participants when they submit their reflection
+  reflectionPrompt: text("reflection_prompt"),
+  // Whether participants can still join after grouping; late joiners are
+  // added to the existing groups
+  lateJoining: boolean("late_joining").default(false).notNull(),
+  // Constraints from a template or duplicated workshop, by participant name;
+  // applied once both participants have joined. Null when none are waiting
+  pendingConstraints: jsonb("pending_constraints").$type<PendingConstraint[]>(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at")
     .defaultNow()
@@ -0,0 +1,703 @@
+/**
+ * Background group generation
+ * Runs the grouping algorithm step by step after the action that started it
+ * has responded, reports progress to the workshop dashboard, stops when the
+ * job is cancelled and saves the groups of every round, or the candidate
+ * groupings, in one batch.
+ *
+ * Not a server action module: nothing here is callable from the client.
+ */
+
+import { randomUUID } from "node:crypto";
+import { NeonDbError } from "@neondatabase/serverless";
+import { and, DrizzleQueryError, eq, inArray, lt } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+  groups,
+  groupMembers,
+  groupingCandidates,
+  groupingJobs,
+  participants,
+  reflections,
+  workshops,
+} from "@/lib/db/schema";
+import type {
+  GroupingJobKind,
+  GroupingJobProgress,
+  GroupingJobResult,
+  GroupingJobStatus,
+} from "@/lib/db/schema/grouping-jobs";
+import { getWorkshopConstraints } from "@/lib/db/queries/group-queries";
+import {
+  getCulturalDataForParticipants,
+  getDistanceOptions,
+} from "@/lib/db/queries/country-queries";
+import { publishWorkshopEvent } from "@/lib/realtime/workshop-events";
+import { generateDistanceMatrix } from "@/lib/utils/distance-matrix";
+import {
+  calculateFitness,
+  countRepeatPairings,
+  findUnsatisfiedConstraints,
+  generateRoundsInSteps,
+  type Group,
+  type GroupingConstraint,
+  type GroupingOptions,
+  type GroupingProgress,
+} from "@/lib/utils/group-assignment";
+import { toGroupSizing, type GroupSizing } from "@/lib/utils/group-sizing";
+import { toGroupingObjective } from "@/lib/utils/grouping-objective";
+import {
+  isSeededAlgorithm,
+  resolveAlgorithmParameters,
+  toGroupingAlgorithm,
+  type GroupingAlgorithmConfig,
+} from "@/lib/utils/grouping-algorithm";
+import type { ParticipantAttributeValues } from "@/lib/utils/participant-attributes";
+import { validateFrameworkScores } from "@/types/cultural";
+import type { CulturalScores, Framework } from "@/types/cultural";
+
+/**
+ * Configuration and scored participants group generation runs on
+ */
+export type GroupingInput = {
+  framework: Framework;
+  sizing: GroupSizing;
+  participants: Array<{
+    id: string;
+    culturalScores: CulturalScores;
+    attributes: ParticipantAttributeValues | null;
+  }>;
+  constraints: GroupingConstraint[];
+  options: GroupingOptions;
+  // Configured algorithm with its complete parameters
+  algorithm: GroupingAlgorithmConfig;
+};
+
+/**
+ * Job whose groups are saved with the generated rounds
+ */
+type CompletedJob = {
+  id: string;
+  result: GroupingJobResult;
+};
+
+// Longest stretch of computation before other requests are served
+const SLICE_MS = 50;
+
+// Interval between progress reports and cancellation checks
+const PROGRESS_INTERVAL_MS = 1000;
+
+// A running job that has not reported for this long was interrupted, e.g.
+// by a server restart
+const STALE_JOB_MS = 60000;
+
+// Postgres error code of a unique constraint violation
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Loads what group generation needs: the configured framework and sizing,
+ * participants with validated cultural scores and attribute answers,
+ * constraints, objective, distance options and attributes. Returns an
+ * error if the configuration is incomplete or a participant lacks data for
+ * the framework.
+ *
+ * @param workshop - Workshop to generate groups for
+ * @returns Grouping input, or error message
+ */
+export async function loadGroupingInput(
+  workshop: typeof workshops.$inferSelect
+): Promise<GroupingInput | { error: string }> {
+  // Validate configuration is set
+  if (!workshop.framework) {
+    return { error: "Cultural framework must be configured first" };
+  }
+
+  const sizing = toGroupSizing(workshop);
+  if (!sizing) {
+    return { error: "Group size must be configured first" };
+  }
+
+  // Get all participants
+  const workshopParticipants = await db
+    .select({
+      id: participants.id,
+      countryCode: participants.countryCode,
+      personalScores: participants.personalScores,
+      attributes: participants.attributes,
+    })
+    .from(participants)
+    .where(eq(participants.workshopId, workshop.id));
+
+  if (workshopParticipants.length < 3) {
+    return { error: "Need at least 3 participants to form groups" };
+  }
+
+  // Get cultural scores for all participants in a single batch query,
+  // using country or self-assessment scores as configured
+  const culturalDataMap = await getCulturalDataForParticipants(
+    workshopParticipants,
+    workshop
+  );
+
+  // Build participants with scores and validate framework data
+  const framework = workshop.framework;
+  const participantsWithScores = [];
+
+  for (const participant of workshopParticipants) {
+    const culturalScores = culturalDataMap.get(participant.id) ?? {};
+
+    // Validate framework scores
+    const validation = validateFrameworkScores(
+      culturalScores,
+      framework,
+      participant.countryCode
+    );
+
+    if (!validation.valid) {
+      return { error: validation.error };
+    }
+
+    participantsWithScores.push({
+      id: participant.id,
+      culturalScores,
+      attributes: participant.attributes,
+    });
+  }
+
+  const constraints = await getWorkshopConstraints(workshop.id);
+  const algorithm = toGroupingAlgorithm(workshop);
+
+  return {
+    framework,
+    sizing,
+    participants: participantsWithScores,
+    constraints,
+    options: {
+      constraints,
+      objective: toGroupingObjective(workshop),
+      distance: await getDistanceOptions(framework, workshop),
+      attributes: workshop.participantAttributes,
+      algorithm,
+    },
+    algorithm,
+  };
+}
+
+/**
+ * Replaces the groups of a workshop with generated groups of every round,
+ * numbered per round and recording the algorithm that generated them, and
+ * starts the workshop at round 1. Reflections on the replaced groups are
+ * deleted with them.
+ * When saving the result of a job, the job is completed first, and nothing
+ * is saved if it is no longer running. A completed job can no longer be
+ * cancelled, so a cancel never interrupts the save.
+ *
+ * @param workshopId - ID of the workshop
+ * @param generatedRounds - Groups of every round
+ * @param algorithm - Algorithm that generated the groups
+ * @param job - Job that generated the groups, if any
+ * @returns Whether the groups were saved
+ */
+export async function saveGeneratedRounds(
+  workshopId: string,
+  generatedRounds: Group[][],
+  algorithm: GroupingAlgorithmConfig,
+  job?: CompletedJob
+): Promise<boolean> {
+  if (job) {
+    const [completed] = await db
+      .update(groupingJobs)
+      .set({
+        status: "completed",
+        result: job.result,
+        updatedAt: new Date(),
+        finishedAt: new Date(),
+      })
+      .where(
+        and(eq(groupingJobs.id, job.id), eq(groupingJobs.status, "running"))
+      )
+      .returning({ id: groupingJobs.id });
+
+    // Cancelled before saving
+    if (!completed) {
+      return false;
+    }
+  }
+
+  // Create new groups, numbered per round
+  const newGroups: Array<typeof groups.$inferInsert> = [];
+  const newMembers: Array<typeof groupMembers.$inferInsert> = [];
+  for (let r = 0; r < generatedRounds.length; r++) {
+    const roundGroups = generatedRounds[r];
+    for (let i = 0; i < roundGroups.length; i++) {
+      const groupId = randomUUID();
+      newGroups.push({
+        id: groupId,
+        workshopId,
+        groupNumber: i + 1,
+        roundNumber: r + 1,
+        algorithm: algorithm.algorithm,
+        algorithmParameters: algorithm.parameters,
+      });
+      for (const participantId of roundGroups[i].participants) {
+        newMembers.push({ groupId, participantId });
+      }
+    }
+  }
+
+  const existingGroupIds = db
+    .select({ id: groups.id })
+    .from(groups)
+    .where(eq(groups.workshopId, workshopId));
+
+  // Neon HTTP driver doesn't support transactions, so the existing groups
+  // are replaced in one batch. Reflections belong to the replaced groups and
+  // go with them, e.g. when the workshop was grouped while the job ran
+  await db.batch([
+    db
+      .delete(reflections)
+      .where(inArray(reflections.groupId, existingGroupIds)),
+    db
+      .delete(groupMembers)
+      .where(inArray(groupMembers.groupId, existingGroupIds)),
+    db.delete(groups).where(eq(groups.workshopId, workshopId)),
+    db.insert(groups).values(newGroups),
+    ...(newMembers.length > 0
+      ? [db.insert(groupMembers).values(newMembers)]
+      : []),
+    // Participants start with the first round
+    db
+      .update(workshops)
+      .set({ currentRound: 1, updatedAt: new Date() })
+      .where(eq(workshops.id, workshopId)),
+  ]);
+
+  if (job) {
+    publishWorkshopEvent(workshopId, {
+      type: "grouping_job_updated",
+      jobId: job.id,
+      status: "completed",
+    });
+  }
+  publishWorkshopEvent(workshopId, {
+    type: "groups_generated",
+    groupCount: generatedRounds[0].length,
+  });
+  return true;
+}
+
+/**
+ * Checks whether groups of a workshop are being generated. Running jobs
+ * that stopped reporting progress are marked failed first.
+ *
+ * @param workshopId - ID of the workshop
+ * @returns Whether a job is running
+ */
+export async function hasRunningGroupingJob(
+  workshopId: string
+): Promise<boolean> {
+  await db
+    .update(groupingJobs)
+    .set({
+      status: "failed",
+      error: "Group generation stopped unexpectedly. Please try again.",
+      finishedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(groupingJobs.workshopId, workshopId),
+        eq(groupingJobs.status, "running"),
+        lt(groupingJobs.updatedAt, new Date(Date.now() - STALE_JOB_MS))
+      )
+    );
+
+  const running = await db.query.groupingJobs.findFirst({
+    columns: { id: true },
+    where: and(
+      eq(groupingJobs.workshopId, workshopId),
+      eq(groupingJobs.status, "running")
+    ),
+  });
+  return running !== undefined;
+}
+
+/**
+ * Starts a job for a workshop unless one is running. The unique index over
+ * running jobs settles concurrent starts: only the first insert succeeds.
+ *
+ * @param workshopId - ID of the workshop
+ * @param createdBy - Clerk user ID of the facilitator starting the job
+ * @param kind - Whether the job generates groups or candidates
+ * @returns ID of the new job, or null if a job is already running
+ */
+export async function createGroupingJob(
+  workshopId: string,
+  createdBy: string,
+  kind: GroupingJobKind = "groups"
+): Promise<string | null> {
+  if (await hasRunningGroupingJob(workshopId)) {
+    return null;
+  }
+
+  try {
+    const [job] = await db
+      .insert(groupingJobs)
+      .values({ workshopId, createdBy, kind })
+      .returning({ id: groupingJobs.id });
+    return job.id;
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Generates groups of every round for a job, reporting progress about once
+ * a second, and saves them when done. Stops without saving once the job is
+ * cancelled; marks the job failed if generation or saving fails.
+ * Never throws: it runs after the response of the action that started it.
+ *
+ * @param job - Job to run, with its workshop and number of rounds
+ * @param input - Grouping input loaded when the job started
+ */
+export async function runGroupingJob(
+  job: { id: string; workshopId: string; roundCount: number },
+  input: GroupingInput
+): Promise<void> {
+  // Generate groups for every round
+  let generatedRounds: Group[][] | undefined;
+  try {
+    const outcome = await runInSlices(
+      job,
+      generateRoundsInSteps(
+        input.participants,
+        input.framework,
+        input.sizing,
+        job.roundCount,
+        job.workshopId, // Pass workshop ID for seeding
+        input.options
+      )
+    );
+    if (!outcome) {
+      // Cancelled: nothing is saved
+      return;
+    }
+    generatedRounds = outcome.rounds;
+  } catch (error) {
+    console.error("Error generating groups:", error);
+    await failJob(
+      job,
+      error instanceof Error
+        ? error.message
+        : "Failed to generate groups. Please try again."
+    );
+    return;
+  }
+
+  if (!generatedRounds || generatedRounds.length === 0) {
+    await failJob(
+      job,
+      "Unable to generate groups. Need at least 3 participants."
+    );
+    return;
+  }
+
+  // A constraint counts once even if it is violated in several rounds
+  const unsatisfiedConstraints = new Set(
+    generatedRounds.flatMap((roundGroups) =>
+      findUnsatisfiedConstraints(roundGroups, input.constraints)
+    )
+  );
+
+  try {
+    await saveGeneratedRounds(
+      job.workshopId,
+      generatedRounds,
+      input.algorithm,
+      {
+        id: job.id,
+        result: {
+          groupCount: generatedRounds[0].length,
+          roundCount: generatedRounds.length,
+          repeatPairings: countRepeatPairings(generatedRounds),
+          unsatisfiedConstraints: unsatisfiedConstraints.size,
+        },
+      }
+    );
+  } catch (error) {
+    // The job was completed before its groups failed to save
+    console.error("Error saving groups to database:", error);
+    await failJob(job, "Failed to save groups to database. Please try again.", [
+      "running",
+      "completed",
+    ]);
+  }
+}
+
+/**
+ * Generates candidate groupings for a job to compare before committing one:
+ * the configured algorithm (with different seeds if it is randomized; the
+ * first matches "Generate Groups") and the greedy algorithm. Reports
+ * progress like runGroupingJob and, when done, replaces the workshop's
+ * earlier candidates; its groups are not changed.
+ * Never throws: it runs after the response of the action that started it.
+ *
+ * @param job - Job to run, with its workshop, number of rounds and creator
+ * @param input - Grouping input loaded when the job started
+ * @param seedCount - Number of seeds to try for a randomized algorithm
+ */
+export async function runCandidateJob(
+  job: {
+    id: string;
+    workshopId: string;
+    roundCount: number;
+    createdBy: string;
+  },
+  input: GroupingInput,
+  seedCount: number
+): Promise<void> {
+  // Configured algorithm per seed (once if deterministic), then the greedy
+  // algorithm
+  const { algorithm, parameters } = input.algorithm;
+  const runs: Array<GroupingAlgorithmConfig & { seed: string | null }> =
+    isSeededAlgorithm(algorithm)
+      ? Array.from({ length: seedCount }, (_, i) => ({
+          algorithm,
+          parameters,
+          seed:
+            i === 0 ? job.workshopId : `${job.workshopId}:candidate-${i + 1}`,
+        }))
+      : [{ algorithm, parameters, seed: null }];
+  if (algorithm !== "greedy") {
+    runs.push({
+      algorithm: "greedy",
+      parameters: resolveAlgorithmParameters("greedy", parameters),
+      seed: null,
+    });
+  }
+
+  const candidates: Array<typeof groupingCandidates.$inferInsert> = [];
+  try {
+    const distanceMatrix = generateDistanceMatrix(
+      input.participants,
+      input.framework,
+      input.options.distance
+    );
+
+    for (const [index, run] of runs.entries()) {
+      const outcome = await runInSlices(
+        job,
+        generateRoundsInSteps(
+          input.participants,
+          input.framework,
+          input.sizing,
+          job.roundCount,
+          run.seed ?? undefined,
+          {
+            ...input.options,
+            algorithm: { algorithm: run.algorithm, parameters: run.parameters },
+          }
+        ),
+        { candidate: index + 1, candidateCount: runs.length }
+      );
+      if (!outcome) {
+        // Cancelled: earlier candidates are kept
+        return;
+      }
+
+      const rounds = outcome.rounds;
+      if (!rounds || rounds.length === 0) {
+        continue;
+      }
+
+      candidates.push({
+        workshopId: job.workshopId,
+        candidateNumber: candidates.length + 1,
+        algorithm: run.algorithm,
+        parameters: run.parameters,
+        seed: run.seed,
+        rounds: rounds.map((roundGroups) =>
+          roundGroups.map((group) => group.participants)
+        ),
+        diversity:
+          rounds.reduce(
+            (sum, roundGroups) =>
+              sum + calculateFitness(roundGroups, distanceMatrix),
+            0
+          ) / rounds.length,
+        repeatPairings: countRepeatPairings(rounds),
+        unsatisfiedConstraints: new Set(
+          rounds.flatMap((roundGroups) =>
+            findUnsatisfiedConstraints(roundGroups, input.constraints)
+          )
+        ).size,
+        createdBy: job.createdBy,
+      });
+    }
+  } catch (error) {
+    console.error("Error generating grouping candidates:", error);
+    await failJob(
+      job,
+      error instanceof Error
+        ? error.message
+        : "Failed to generate candidates. Please try again."
+    );
+    return;
+  }
+
+  if (candidates.length === 0) {
+    await failJob(
+      job,
+      "Unable to generate groups. Need at least 3 participants."
+    );
+    return;
+  }
+
+  try {
+    // Completing the job first keeps it from being cancelled while saving
+    const [completed] = await db
+      .update(groupingJobs)
+      .set({
+        status: "completed",
+        result: { candidateCount: candidates.length },
+        updatedAt: new Date(),
+        finishedAt: new Date(),
+      })
+      .where(
+        and(eq(groupingJobs.id, job.id), eq(groupingJobs.status, "running"))
+      )
+      .returning({ id: groupingJobs.id });
+    if (!completed) {
+      return;
+    }
+
+    // Replace earlier candidates in one batch, as Neon HTTP has no
+    // transactions
+    await db.batch([
+      db
+        .delete(groupingCandidates)
+        .where(eq(groupingCandidates.workshopId, job.workshopId)),
+      db.insert(groupingCandidates).values(candidates),
+    ]);
+
+    publishWorkshopEvent(job.workshopId, {
+      type: "grouping_job_updated",
+      jobId: job.id,
+      status: "completed",
+    });
+    publishWorkshopEvent(job.workshopId, {
+      type: "candidates_generated",
+      candidateCount: candidates.length,
+    });
+  } catch (error) {
+    console.error("Error saving grouping candidates:", error);
+    await failJob(job, "Failed to save candidates. Please try again.", [
+      "running",
+      "completed",
+    ]);
+  }
+}
+
+/**
+ * Runs a generator of rounds for a job to completion, yielding to other
+ * requests between slices of computation and reporting progress about once
+ * a second. Candidate jobs add which candidate is being generated.
+ * Returns null, after stopping the generator, if the job was cancelled.
+ */
+async function runInSlices(
+  job: { id: string; workshopId: string },
+  steps: Generator<GroupingProgress, Group[][] | undefined>,
+  candidate?: { candidate: number; candidateCount: number }
+): Promise<{ rounds: Group[][] | undefined } | null> {
+  let sliceStart = Date.now();
+  let reportedAt = Date.now();
+  let step = steps.next();
+  while (!step.done) {
+    if (Date.now() - reportedAt >= PROGRESS_INTERVAL_MS) {
+      if (!(await reportProgress(job, { ...step.value, ...candidate }))) {
+        // Cancelled: stop the algorithm
+        steps.return(undefined);
+        return null;
+      }
+      reportedAt = Date.now();
+      sliceStart = reportedAt;
+    } else if (Date.now() - sliceStart >= SLICE_MS) {
+      // Serve other requests between slices of computation
+      await new Promise((resolve) => setImmediate(resolve));
+      sliceStart = Date.now();
+    }
+    step = steps.next();
+  }
+  return { rounds: step.value };
+}
+
+/**
+ * Records the latest progress of a running job and notifies the dashboard.
+ * Returns false if the job is no longer running, e.g. it was cancelled.
+ */
+async function reportProgress(
+  job: { id: string; workshopId: string },
+  progress: GroupingJobProgress
+): Promise<boolean> {
+  const [running] = await db
+    .update(groupingJobs)
+    .set({ progress, updatedAt: new Date() })
+    .where(and(eq(groupingJobs.id, job.id), eq(groupingJobs.status, "running")))
+    .returning({ id: groupingJobs.id });
+
+  if (!running) {
+    return false;
+  }
+
+  publishWorkshopEvent(job.workshopId, {
+    type: "grouping_job_updated",
+    jobId: job.id,
+    status: "running",
+  });
+  return true;
+}
+
+/**
+ * Marks a job failed with an error message if it is in one of the given
+ * statuses, by default running. Never throws.
+ */
+async function failJob(
+  job: { id: string; workshopId: string },
+  error: string,
+  statuses: GroupingJobStatus[] = ["running"]
+): Promise<void> {
+  try {
+    await db
+      .update(groupingJobs)
+      .set({
+        status: "failed",
+        error,
+        updatedAt: new Date(),
+        finishedAt: new Date(),
+      })
+      .where(
+        and(eq(groupingJobs.id, job.id), inArray(groupingJobs.status, statuses))
+      );
+
+    publishWorkshopEvent(job.workshopId, {
+      type: "grouping_job_updated",
+      jobId: job.id,
+      status: "failed",
+    });
+  } catch (updateError) {
+    console.error("Error marking grouping job failed:", updateError);
+  }
+}
+
+/**
+ * Checks whether a query failed on a unique constraint
+ */
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    error instanceof DrizzleQueryError &&
+    error.cause instanceof NeonDbError &&
+    error.cause.code === UNIQUE_VIOLATION
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * Workshop live event bus and Server-Sent Events stream
+ * Server actions publish events after successful writes; SSE route handlers
+ * subscribe per workshop and forward events to connected browsers.
+ *
+ * The bus is in-process: it reaches every client connected to the same
+ * server instance. Clients keep a polling fallback for deployments where
+ * actions and streams run on different instances.
+ */
+
+import { EventEmitter } from "node:events";
+import type { WorkshopEvent, WorkshopEventType } from "@/types/workshop-events";
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+type WorkshopEventListener = (event: WorkshopEvent) => void;
+
+// Server actions and route handlers can be bundled into separate module
+// graphs, so the emitter lives on globalThis to guarantee a single instance.
+const globalForEvents = globalThis as typeof globalThis & {
+  workshopEventBus?: EventEmitter;
+};
+
+function getEventBus(): EventEmitter {
+  if (!globalForEvents.workshopEventBus) {
+    const bus = new EventEmitter();
+    // One listener per open SSE connection; large workshops exceed the default
+    bus.setMaxListeners(0);
+    globalForEvents.workshopEventBus = bus;
+  }
+  return globalForEvents.workshopEventBus;
+}
+
+/**
+ * Publishes an event to every subscriber of a workshop.
+ * Never throws: live updates must not break the action that triggered them.
+ *
+ * @param workshopId - ID of the workshop the event belongs to
+ * @param event - Event payload
+ */
+export function publishWorkshopEvent(
+  workshopId: string,
+  event: WorkshopEvent
+): void {
+  try {
+    getEventBus().emit(workshopId, event);
+  } catch (error) {
+    console.error("Error publishing workshop event:", error);
+  }
+}
+
+/**
+ * Subscribes to events for a workshop.
+ *
+ * @param workshopId - ID of the workshop to listen to
+ * @param listener - Callback invoked for each event
+ * @returns Function that removes the subscription
+ */
+export function subscribeToWorkshopEvents(
+  workshopId: string,
+  listener: WorkshopEventListener
+): () => void {
+  const bus = getEventBus();
+  bus.on(workshopId, listener);
+  return () => {
+    bus.off(workshopId, listener);
+  };
+}
+
+/**
+ * Creates a Server-Sent Events response streaming a workshop's events.
+ * Sends a heartbeat comment periodically to keep proxies from closing the
+ * connection, and cleans up when the client disconnects.
+ *
+ * @param workshopId - ID of the workshop to stream
+ * @param signal - Request abort signal (fires when the client disconnects)
+ * @param allowedTypes - Optional whitelist of event types to forward
+ * @returns Streaming SSE response
+ */
+export function createWorkshopEventStream(
+  workshopId: string,
+  signal: AbortSignal,
+  allowedTypes?: readonly WorkshopEventType[]
+): Response {
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed
+          cleanup?.();
+        }
+      };
+
+      const unsubscribe = subscribeToWorkshopEvents(workshopId, (event) => {
+        if (allowedTypes && !allowedTypes.includes(event.type)) {
+          return;
+        }
+        send(`data: ${JSON.stringify(event)}\n\n`);
+      });
+
+      const heartbeat = setInterval(() => {
+        send(": heartbeat\n\n");
+      }, HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        signal.removeEventListener("abort", handleAbort);
+        cleanup = undefined;
+      };
+
+      const handleAbort = () => {
+        cleanup?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+
+      signal.addEventListener("abort", handleAbort);
+
+      // Tell the browser how long to wait before reconnecting
+      send("retry: 3000\n\n");
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
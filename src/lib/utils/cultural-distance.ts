@@ -13,198 +13,510 @@ export type {
   CulturalScores,
 } from "@/types/cultural";
 
-import type {
-  Framework,
-  LewisScores,
-  HallScores,
-  HofstedeScores,
-  CulturalScores,
+import {
+  BUILT_IN_DIMENSIONS,
+  isCustomFramework,
+  type BuiltInFramework,
+  type Framework,
+  type LewisScores,
+  type HallScores,
+  type HofstedeScores,
+  type CulturalScores,
+  type CustomDimensionScore,
 } from "@/types/cultural";
 import type { DimensionalDistance } from "./visualization-data";
+import {
+  DEFAULT_WEIGHT,
+  getDimensionWeights,
+  getFrameworkWeight,
+  type DistanceWeights,
+  type WeightedFramework,
+} from "./distance-weights";
+import {
+  DEFAULT_DISTANCE_METRIC,
+  computeCovarianceStatistics,
+  requiresReferenceStatistics,
+  type DistanceMetric,
+  type DistanceStatistics,
+  type FrameworkStatistics,
+} from "./distance-metrics";
+
+/**
+ * How a distance is computed. Defaults to the unweighted Euclidean distance.
+ * Kogut–Singh and Mahalanobis need reference statistics of the framework
+ * (see buildDistanceStatistics).
+ */
+export type DistanceOptions = {
+  metric?: DistanceMetric;
+  weights?: DistanceWeights | null;
+  statistics?: DistanceStatistics;
+};
+
+/**
+ * Scores of two countries on one dimension
+ */
+type DimensionValues = {
+  key: string;
+  source: number;
+  target: number;
+};
+
+const BUILT_IN_FRAMEWORKS: BuiltInFramework[] = ["lewis", "hall", "hofstede"];
+
+const FRAMEWORK_NAMES: Record<BuiltInFramework, string> = {
+  lewis: "Lewis",
+  hall: "Hall",
+  hofstede: "Hofstede",
+};
 
 /**
  * Computes cultural distance between two sets of cultural scores
  * using the specified framework.
+ * Options select the distance metric and weight frameworks (combined only)
+ * and dimensions; by default every framework and dimension counts equally
+ * in a Euclidean distance.
  */
 export function computeCulturalDistance(
   scores1: CulturalScores,
   scores2: CulturalScores,
-  framework: Framework
+  framework: Framework,
+  options: DistanceOptions = {}
 ): number {
-  switch (framework) {
-    case "lewis":
-      return computeLewisDistance(scores1.lewis, scores2.lewis);
-    case "hall":
-      return computeHallDistance(scores1.hall, scores2.hall);
-    case "hofstede":
-      return computeHofstedeDistance(scores1.hofstede, scores2.hofstede);
-    case "combined":
-      return computeCombinedDistance(scores1, scores2);
-    default:
-      throw new Error(`Unknown framework: ${framework}`);
+  if (framework === "combined") {
+    return computeCombinedDistance(scores1, scores2, options);
   }
+
+  const dimensions = getDimensionValues(scores1, scores2, framework);
+  const distance = computeFrameworkDistance(dimensions, framework, options);
+
+  // Custom frameworks are normalized to [0,1] regardless of dimension count
+  return isCustomFramework(framework)
+    ? distance / getFrameworkMaxDistance(framework, dimensions.length, options)
+    : distance;
 }
 
 /**
- * Computes distance using Lewis framework (3 dimensions)
+ * Returns the scores of a country on every dimension of a framework,
+ * or undefined if the country has no data for it
  */
-function computeLewisDistance(
-  scores1?: LewisScores,
-  scores2?: LewisScores
-): number {
-  if (!scores1 || !scores2) {
-    throw new Error("Missing Lewis scores");
+function getDimensionScores(
+  scores: CulturalScores,
+  framework: WeightedFramework
+): Array<{ key: string; score: number }> | undefined {
+  if (isCustomFramework(framework)) {
+    return scores.custom?.[framework];
   }
 
-  const dimensions = [
-    scores1.linearActive - scores2.linearActive,
-    scores1.multiActive - scores2.multiActive,
-    scores1.reactive - scores2.reactive,
-  ];
+  const frameworkScores: Record<string, number> | undefined = scores[framework];
+  if (!frameworkScores) {
+    return undefined;
+  }
+  return BUILT_IN_DIMENSIONS[framework].map((dimension) => ({
+    key: dimension.key,
+    score: frameworkScores[dimension.key],
+  }));
+}
 
-  return euclideanDistance(dimensions);
+/**
+ * Pairs the scores of two countries on every dimension of a framework.
+ * Throws if either country has no data for the framework.
+ */
+function getDimensionValues(
+  scores1: CulturalScores,
+  scores2: CulturalScores,
+  framework: WeightedFramework
+): DimensionValues[] {
+  if (isCustomFramework(framework)) {
+    const custom1 = scores1.custom?.[framework];
+    const custom2 = scores2.custom?.[framework];
+    if (!custom1 || !custom2) {
+      throw new Error("Missing custom framework scores");
+    }
+    return pairCustomDimensions(custom1, custom2).map(([source, target]) => ({
+      key: source.key,
+      source: source.score,
+      target: target.score,
+    }));
+  }
+
+  const source = getDimensionScores(scores1, framework);
+  const target = getDimensionScores(scores2, framework);
+  if (!source || !target) {
+    throw new Error(`Missing ${FRAMEWORK_NAMES[framework]} scores`);
+  }
+  return source.map((s, i) => ({
+    key: s.key,
+    source: s.score,
+    target: target[i].score,
+  }));
 }
 
 /**
- * Computes distance using Hall framework (3 dimensions)
+ * Pairs the scores of two countries by dimension key.
+ * Throws if the countries were scored on different dimensions.
  */
-function computeHallDistance(
-  scores1?: HallScores,
-  scores2?: HallScores
-): number {
-  if (!scores1 || !scores2) {
-    throw new Error("Missing Hall scores");
+function pairCustomDimensions(
+  scores1: CustomDimensionScore[],
+  scores2: CustomDimensionScore[]
+): Array<[CustomDimensionScore, CustomDimensionScore]> {
+  const targetByKey = new Map(scores2.map((s) => [s.key, s]));
+  if (scores1.length === 0 || scores1.length !== scores2.length) {
+    throw new Error("Custom framework scores have mismatched dimensions");
   }
 
-  const dimensions = [
-    scores1.contextHigh - scores2.contextHigh,
-    scores1.timePolychronic - scores2.timePolychronic,
-    scores1.spacePrivate - scores2.spacePrivate,
-  ];
+  return scores1.map((source) => {
+    const target = targetByKey.get(source.key);
+    if (!target) {
+      throw new Error(`Missing custom framework dimension: ${source.key}`);
+    }
+    return [source, target];
+  });
+}
+
+/**
+ * Computes the (unnormalized) distance of one framework with the selected
+ * metric. Dimension weights are rescaled to average 1, so equal weights
+ * give the unweighted distance and maximum distances do not change.
+ */
+function computeFrameworkDistance(
+  dimensions: DimensionValues[],
+  framework: WeightedFramework,
+  options: DistanceOptions
+): number {
+  const weights = getScaledWeights(
+    dimensions,
+    getDimensionWeights(options.weights, framework)
+  );
+  const differences = dimensions.map((d) => d.source - d.target);
 
-  return euclideanDistance(dimensions);
+  switch (options.metric ?? DEFAULT_DISTANCE_METRIC) {
+    case "euclidean":
+      return Math.sqrt(
+        differences.reduce((sum, diff, i) => sum + weights[i] * diff * diff, 0)
+      );
+    case "manhattan":
+      return differences.reduce(
+        (sum, diff, i) => sum + weights[i] * Math.abs(diff),
+        0
+      );
+    case "cosine":
+      return cosineDistance(dimensions, weights);
+    case "kogut_singh": {
+      const statistics = requireStatistics(options, framework);
+      const indexByKey = new Map(statistics.keys.map((key, i) => [key, i]));
+      const sum = dimensions.reduce((total, d, i) => {
+        const variance = statistics.variances[indexByKey.get(d.key) ?? -1];
+        // Dimensions without variance cannot separate countries
+        return variance > 0
+          ? total + (weights[i] * differences[i] ** 2) / variance
+          : total;
+      }, 0);
+      return sum / dimensions.length;
+    }
+    case "mahalanobis": {
+      const statistics = requireStatistics(options, framework);
+      const weighted = new Map(
+        dimensions.map((d, i) => [
+          d.key,
+          Math.sqrt(weights[i]) * differences[i],
+        ])
+      );
+      const vector = statistics.keys.map((key) => weighted.get(key) ?? 0);
+      let sum = 0;
+      for (let i = 0; i < vector.length; i++) {
+        for (let j = 0; j < vector.length; j++) {
+          sum += vector[i] * statistics.inverseCovariance[i][j] * vector[j];
+        }
+      }
+      return Math.sqrt(Math.max(0, sum));
+    }
+  }
 }
 
 /**
- * Computes distance using Hofstede framework (6 dimensions)
+ * Cosine distance of the score profiles centered on the middle of the
+ * scale, mapped to [0,1]: 0 for profiles pointing the same way, 1 for
+ * opposite profiles
  */
-function computeHofstedeDistance(
-  scores1?: HofstedeScores,
-  scores2?: HofstedeScores
+function cosineDistance(
+  dimensions: DimensionValues[],
+  weights: number[]
 ): number {
-  if (!scores1 || !scores2) {
-    throw new Error("Missing Hofstede scores");
+  let dot = 0;
+  let norm1 = 0;
+  let norm2 = 0;
+  dimensions.forEach((d, i) => {
+    const u = d.source - 0.5;
+    const v = d.target - 0.5;
+    dot += weights[i] * u * v;
+    norm1 += weights[i] * u * u;
+    norm2 += weights[i] * v * v;
+  });
+
+  // A profile at the exact middle of the scale has no direction
+  if (norm1 === 0 || norm2 === 0) {
+    return norm1 === norm2 ? 0 : 0.5;
   }
+  const similarity = dot / Math.sqrt(norm1 * norm2);
+  return (1 - Math.min(1, Math.max(-1, similarity))) / 2;
+}
 
-  const dimensions = [
-    scores1.powerDistance - scores2.powerDistance,
-    scores1.individualism - scores2.individualism,
-    scores1.masculinity - scores2.masculinity,
-    scores1.uncertaintyAvoidance - scores2.uncertaintyAvoidance,
-    scores1.longTermOrientation - scores2.longTermOrientation,
-    scores1.indulgence - scores2.indulgence,
-  ];
+/**
+ * Rescales dimension weights to average 1.
+ * Falls back to equal weights if every dimension is weighted 0.
+ */
+function getScaledWeights(
+  dimensions: DimensionValues[],
+  dimensionWeights?: Record<string, number>
+): number[] {
+  if (!dimensionWeights) {
+    return dimensions.map(() => DEFAULT_WEIGHT);
+  }
+
+  const weights = dimensions.map(
+    (d) => dimensionWeights[d.key] ?? DEFAULT_WEIGHT
+  );
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (totalWeight <= 0) {
+    return dimensions.map(() => DEFAULT_WEIGHT);
+  }
+  return weights.map((w) => (w * dimensions.length) / totalWeight);
+}
+
+function requireStatistics(
+  options: DistanceOptions,
+  framework: WeightedFramework
+): FrameworkStatistics {
+  const statistics = options.statistics?.[framework];
+  if (!statistics) {
+    throw new Error("Missing reference statistics for the distance metric");
+  }
+  return statistics;
+}
 
-  return euclideanDistance(dimensions);
+/**
+ * Maximum distance of one framework with the selected metric:
+ * √dimensions (Euclidean), dimensions (Manhattan), 1 (cosine), or the
+ * largest distance between reference countries (Kogut–Singh, Mahalanobis).
+ */
+function getFrameworkMaxDistance(
+  framework: WeightedFramework,
+  dimensionCount: number,
+  options: DistanceOptions
+): number {
+  switch (options.metric ?? DEFAULT_DISTANCE_METRIC) {
+    case "euclidean":
+      return Math.sqrt(dimensionCount);
+    case "manhattan":
+      return dimensionCount;
+    case "cosine":
+      return 1;
+    case "kogut_singh":
+    case "mahalanobis":
+      return requireStatistics(options, framework).maxDistance || 1;
+  }
 }
 
 /**
- * Maximum theoretical distances for each framework (√dimensions)
- * Used for normalizing distances to [0,1] range before averaging
+ * Returns the maximum possible distance between two participants for a
+ * framework and metric. Combined and custom distances are already
+ * normalized to [0,1].
+ *
+ * @param framework - Framework used for distance calculation
+ * @param options - Distance metric, weights and reference statistics
+ * @returns Maximum distance
  */
-const MAX_FRAMEWORK_DISTANCES = {
-  lewis: Math.sqrt(3), // ≈ 1.732
-  hall: Math.sqrt(3), // ≈ 1.732
-  hofstede: Math.sqrt(6), // ≈ 2.449
-} as const;
+export function getMaxCulturalDistance(
+  framework: Framework,
+  options: DistanceOptions = {}
+): number {
+  if (framework === "combined" || isCustomFramework(framework)) {
+    return 1;
+  }
+  return getFrameworkMaxDistance(
+    framework,
+    BUILT_IN_DIMENSIONS[framework].length,
+    options
+  );
+}
 
 /**
- * Computes distance using combined framework (all available frameworks weighted equally)
- * Normalizes each framework's distance to [0,1] range before averaging to ensure
- * equal contribution regardless of dimension count.
+ * Computes distance using combined framework (weighted average of all
+ * available built-in frameworks, equal weights by default).
+ * Normalizes each framework's distance to [0,1] range by its maximum for
+ * the selected metric before averaging, to ensure equal contribution
+ * regardless of dimension count.
  */
 function computeCombinedDistance(
   scores1: CulturalScores,
-  scores2: CulturalScores
+  scores2: CulturalScores,
+  options: DistanceOptions
 ): number {
-  const distances: Array<{ distance: number; maxDist: number }> = [];
-
-  if (scores1.lewis && scores2.lewis) {
-    const distance = computeLewisDistance(scores1.lewis, scores2.lewis);
-    distances.push({
-      distance,
-      maxDist: MAX_FRAMEWORK_DISTANCES.lewis,
-    });
-  }
-  if (scores1.hall && scores2.hall) {
-    const distance = computeHallDistance(scores1.hall, scores2.hall);
-    distances.push({
-      distance,
-      maxDist: MAX_FRAMEWORK_DISTANCES.hall,
-    });
-  }
-  if (scores1.hofstede && scores2.hofstede) {
-    const distance = computeHofstedeDistance(
-      scores1.hofstede,
-      scores2.hofstede
-    );
-    distances.push({
-      distance,
-      maxDist: MAX_FRAMEWORK_DISTANCES.hofstede,
-    });
+  const distances: Array<{ normalized: number; weight: number }> = [];
+
+  for (const framework of BUILT_IN_FRAMEWORKS) {
+    if (scores1[framework] && scores2[framework]) {
+      const dimensions = getDimensionValues(scores1, scores2, framework);
+      distances.push({
+        normalized:
+          computeFrameworkDistance(dimensions, framework, options) /
+          getFrameworkMaxDistance(framework, dimensions.length, options),
+        weight: getFrameworkWeight(options.weights, framework),
+      });
+    }
   }
 
   if (distances.length === 0) {
     throw new Error("No cultural scores available for combined calculation");
   }
 
-  // Normalize each distance to [0,1] range before averaging
-  const normalizedDistances = distances.map((d) => d.distance / d.maxDist);
+  // If only zero-weighted frameworks are available, fall back to equal weights
+  const totalWeight = distances.reduce((sum, d) => sum + d.weight, 0);
+  const useWeights = totalWeight > 0;
 
-  // Average the normalized distances (equal weighting)
-  return (
-    normalizedDistances.reduce((sum, d) => sum + d, 0) /
-    normalizedDistances.length
+  return distances.reduce(
+    (sum, d) =>
+      sum +
+      d.normalized *
+        (useWeights ? d.weight / totalWeight : 1 / distances.length),
+    0
   );
 }
 
 /**
- * Computes Euclidean distance from an array of dimension differences
+ * Computes the reference statistics a metric needs for the framework(s)
+ * used by a distance: variances and inverse covariance of every dimension
+ * across the reference countries, and the largest distance between two of
+ * them (used to normalize Kogut–Singh and Mahalanobis distances).
+ *
+ * @param referenceScores - Cultural scores of all reference countries
+ * @param framework - Framework used for distance calculation
+ * @param options - Distance metric and weights
+ * @returns Statistics per framework, empty if the metric needs none
  */
-function euclideanDistance(dimensions: number[]): number {
-  const sumSquaredDiffs = dimensions.reduce(
-    (sum, diff) => sum + diff * diff,
-    0
-  );
-  return Math.sqrt(sumSquaredDiffs);
+export function buildDistanceStatistics(
+  referenceScores: CulturalScores[],
+  framework: Framework,
+  options: Omit<DistanceOptions, "statistics">
+): DistanceStatistics {
+  const statistics: DistanceStatistics = {};
+  if (!requiresReferenceStatistics(options.metric ?? DEFAULT_DISTANCE_METRIC)) {
+    return statistics;
+  }
+
+  const frameworks: WeightedFramework[] =
+    framework === "combined" ? BUILT_IN_FRAMEWORKS : [framework];
+
+  for (const fw of frameworks) {
+    const countries = referenceScores.filter((scores) =>
+      getDimensionScores(scores, fw)
+    );
+    if (countries.length < 2) {
+      // Combined skips frameworks without enough data
+      if (framework === "combined") continue;
+      throw new Error(
+        "At least two countries with scores are needed for this distance metric"
+      );
+    }
+
+    const keys = (getDimensionScores(countries[0], fw) ?? []).map((d) => d.key);
+    const vectors = countries.map((scores) => {
+      const byKey = new Map(
+        (getDimensionScores(scores, fw) ?? []).map((d) => [d.key, d.score])
+      );
+      return keys.map((key) => byKey.get(key) ?? 0);
+    });
+
+    const frameworkStatistics: FrameworkStatistics = {
+      keys,
+      ...computeCovarianceStatistics(vectors),
+      maxDistance: 0,
+    };
+    const frameworkOptions = {
+      ...options,
+      statistics: { [fw]: frameworkStatistics },
+    };
+
+    // Largest distance between reference countries
+    for (let i = 0; i < countries.length; i++) {
+      for (let j = i + 1; j < countries.length; j++) {
+        frameworkStatistics.maxDistance = Math.max(
+          frameworkStatistics.maxDistance,
+          computeFrameworkDistance(
+            getDimensionValues(countries[i], countries[j], fw),
+            fw,
+            frameworkOptions
+          )
+        );
+      }
+    }
+
+    statistics[fw] = frameworkStatistics;
+  }
+
+  return statistics;
 }
 
 /**
  * Computes per-dimension distances between two sets of cultural scores.
- * Returns normalized distances (0-1) for each dimension in the framework.
+ * Returns normalized distances (0-1) for each dimension in the framework,
+ * with the weight each dimension carries in the overall distance.
  */
 export function computeDimensionalDistances(
   scores1: CulturalScores,
   scores2: CulturalScores,
-  framework: Framework
+  framework: Framework,
+  weights?: DistanceWeights | null
 ): DimensionalDistance[] {
+  if (isCustomFramework(framework)) {
+    return withDimensionWeights(
+      computeCustomDimensionalDistances(
+        scores1.custom?.[framework],
+        scores2.custom?.[framework]
+      ),
+      getDimensionWeights(weights, framework)
+    );
+  }
+
   switch (framework) {
     case "lewis":
-      return computeLewisDimensionalDistances(scores1.lewis, scores2.lewis);
+      return withDimensionWeights(
+        computeLewisDimensionalDistances(scores1.lewis, scores2.lewis),
+        getDimensionWeights(weights, "lewis")
+      );
     case "hall":
-      return computeHallDimensionalDistances(scores1.hall, scores2.hall);
+      return withDimensionWeights(
+        computeHallDimensionalDistances(scores1.hall, scores2.hall),
+        getDimensionWeights(weights, "hall")
+      );
     case "hofstede":
-      return computeHofstedeDimensionalDistances(
-        scores1.hofstede,
-        scores2.hofstede
+      return withDimensionWeights(
+        computeHofstedeDimensionalDistances(scores1.hofstede, scores2.hofstede),
+        getDimensionWeights(weights, "hofstede")
       );
     case "combined":
-      return computeCombinedDimensionalDistances(scores1, scores2);
+      return computeCombinedDimensionalDistances(scores1, scores2, weights);
     default:
       throw new Error(`Unknown framework: ${framework}`);
   }
 }
 
+/**
+ * Attaches dimension weights (multiplied by the framework weight in the
+ * combined framework) to per-dimension distances
+ */
+function withDimensionWeights(
+  distances: DimensionalDistance[],
+  dimensionWeights?: Record<string, number>,
+  frameworkWeight = DEFAULT_WEIGHT
+): DimensionalDistance[] {
+  return distances.map((d) => ({
+    ...d,
+    weight:
+      frameworkWeight * (dimensionWeights?.[d.dimension] ?? DEFAULT_WEIGHT),
+  }));
+}
+
 /**
  * Computes per-dimension distances for Lewis framework
  */
@@ -350,29 +662,63 @@ function computeHofstedeDimensionalDistances(
   ];
 }
 
+/**
+ * Computes per-dimension distances for a custom framework
+ */
+function computeCustomDimensionalDistances(
+  scores1?: CustomDimensionScore[],
+  scores2?: CustomDimensionScore[]
+): DimensionalDistance[] {
+  if (!scores1 || !scores2) {
+    throw new Error("Missing custom framework scores");
+  }
+
+  // Scores are normalized (0-1 scale), so max possible difference is 1
+  return pairCustomDimensions(scores1, scores2).map(([source, target]) => ({
+    dimension: source.key,
+    label: source.label,
+    distance: Math.abs(source.score - target.score),
+    sourceValue: source.score,
+    targetValue: target.score,
+  }));
+}
+
 /**
  * Computes per-dimension distances for combined framework
  * Returns all dimensions from all available frameworks
  */
 function computeCombinedDimensionalDistances(
   scores1: CulturalScores,
-  scores2: CulturalScores
+  scores2: CulturalScores,
+  weights?: DistanceWeights | null
 ): DimensionalDistance[] {
   const dimensions: DimensionalDistance[] = [];
 
   if (scores1.lewis && scores2.lewis) {
     dimensions.push(
-      ...computeLewisDimensionalDistances(scores1.lewis, scores2.lewis)
+      ...withDimensionWeights(
+        computeLewisDimensionalDistances(scores1.lewis, scores2.lewis),
+        getDimensionWeights(weights, "lewis"),
+        getFrameworkWeight(weights, "lewis")
+      )
     );
   }
   if (scores1.hall && scores2.hall) {
     dimensions.push(
-      ...computeHallDimensionalDistances(scores1.hall, scores2.hall)
+      ...withDimensionWeights(
+        computeHallDimensionalDistances(scores1.hall, scores2.hall),
+        getDimensionWeights(weights, "hall"),
+        getFrameworkWeight(weights, "hall")
+      )
     );
   }
   if (scores1.hofstede && scores2.hofstede) {
     dimensions.push(
-      ...computeHofstedeDimensionalDistances(scores1.hofstede, scores2.hofstede)
+      ...withDimensionWeights(
+        computeHofstedeDimensionalDistances(scores1.hofstede, scores2.hofstede),
+        getDimensionWeights(weights, "hofstede"),
+        getFrameworkWeight(weights, "hofstede")
+      )
     );
   }
 
@@ -0,0 +1,83 @@
+/**
+ * Definition rules for facilitator-defined cultural frameworks
+ */
+
+export const MAX_FRAMEWORK_DIMENSIONS = 20;
+
+export type CustomFrameworkDimensionInput = {
+  label: string;
+  // Range of the raw scores that will be uploaded (e.g. 1-7 for GLOBE)
+  scaleMin: number;
+  scaleMax: number;
+};
+
+export type CustomFrameworkDefinition = {
+  name: string;
+  description?: string;
+  dimensions: CustomFrameworkDimensionInput[];
+};
+
+/**
+ * Derives the stable key of a dimension from its label
+ * (e.g. "Power Distance" → "power_distance"). Keys match CSV upload columns.
+ *
+ * @param label - Dimension label
+ * @returns Lowercase snake_case key
+ */
+export function toDimensionKey(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Validates a custom framework definition.
+ *
+ * @param definition - Framework name, description and dimensions
+ * @returns Error message, or null if valid
+ */
+export function validateCustomFrameworkDefinition(
+  definition: CustomFrameworkDefinition
+): string | null {
+  const name = definition.name.trim();
+  if (name.length === 0) {
+    return "Framework name is required";
+  }
+  if (name.length > 100) {
+    return "Framework name must be 100 characters or less";
+  }
+  if ((definition.description?.length ?? 0) > 500) {
+    return "Description must be 500 characters or less";
+  }
+
+  if (
+    definition.dimensions.length === 0 ||
+    definition.dimensions.length > MAX_FRAMEWORK_DIMENSIONS
+  ) {
+    return `A framework needs between 1 and ${MAX_FRAMEWORK_DIMENSIONS} dimensions`;
+  }
+
+  const seenKeys = new Set<string>();
+  for (const dimension of definition.dimensions) {
+    const key = toDimensionKey(dimension.label);
+    if (key.length === 0) {
+      return "Every dimension needs a name with letters or digits";
+    }
+    if (seenKeys.has(key)) {
+      return `Dimension names must be unique ("${dimension.label.trim()}")`;
+    }
+    seenKeys.add(key);
+
+    if (
+      !Number.isFinite(dimension.scaleMin) ||
+      !Number.isFinite(dimension.scaleMax) ||
+      dimension.scaleMin >= dimension.scaleMax
+    ) {
+      return `Scale minimum must be below maximum ("${dimension.label.trim()}")`;
+    }
+  }
+
+  return null;
+}
@@ -1,10 +1,15 @@
 /**
  * Distance matrix generation utilities
- * Creates pairwise distance matrices for all participants
+ * Creates pairwise distance matrices for all participants, computing each
+ * distance once per pair of distinct cultural profiles
  */
 
 import { computeCulturalDistance } from "./cultural-distance";
-import type { Framework, CulturalScores } from "./cultural-distance";
+import type {
+  Framework,
+  CulturalScores,
+  DistanceOptions,
+} from "./cultural-distance";
 
 export type Participant = {
   id: string;
@@ -12,38 +17,209 @@ export type Participant = {
 };
 
 /**
- * Generates a distance matrix for all participant pairs.
- * Returns a Map where keys are participant IDs and values are Maps
- * of other participant IDs to their distance.
+ * Pairwise participant distances in a flat typed array. Participants with
+ * identical cultural scores (e.g. from the same country) share a row, so a
+ * workshop with few countries stores few rows regardless of its size.
+ * Read distances with getDistance or getDistanceAt; a participant's
+ * distance to themselves is always 0.
+ */
+export type DistanceMatrix = {
+  // Participant IDs, in input order
+  ids: string[];
+  // Position of each participant in ids
+  indexOf: Map<string, number>;
+  // Row of each participant, by position
+  rowOf: Int32Array;
+  // Number of rows (and columns)
+  size: number;
+  // Distances between rows, row-major
+  values: Float64Array;
+};
+
+/**
+ * Distance matrix in plain arrays, for passing to client components
+ */
+export type SerializedDistanceMatrix = {
+  ids: string[];
+  rowOf: number[];
+  size: number;
+  values: number[];
+};
+
+/**
+ * Generates a distance matrix for all participant pairs. Participants are
+ * deduplicated by their cultural scores first, so distances are computed
+ * once per pair of distinct profiles.
  *
  * @param participants - Array of participants with cultural scores
  * @param framework - Framework to use for distance calculation
- * @returns Distance matrix as nested Map structure
+ * @param options - Optional distance metric, weights and reference
+ * statistics
+ * @returns Distance matrix with one row per distinct profile
  */
 export function generateDistanceMatrix(
   participants: Participant[],
-  framework: Framework
-): Map<string, Map<string, number>> {
-  const matrix = new Map<string, Map<string, number>>();
-
-  for (let i = 0; i < participants.length; i++) {
-    const row = new Map<string, number>();
-
-    for (let j = 0; j < participants.length; j++) {
-      if (i === j) {
-        row.set(participants[j].id, 0); // Distance to self is 0
-      } else {
-        const distance = computeCulturalDistance(
-          participants[i].culturalScores,
-          participants[j].culturalScores,
-          framework
-        );
-        row.set(participants[j].id, distance);
-      }
+  framework: Framework,
+  options: DistanceOptions = {}
+): DistanceMatrix {
+  const ids = participants.map((p) => p.id);
+  const indexOf = new Map(ids.map((id, index) => [id, index]));
+
+  // Distinct cultural profiles, in order of first appearance
+  const profiles: CulturalScores[] = [];
+  const profileRows = new Map<string, number>();
+  const rowOf = new Int32Array(participants.length);
+  participants.forEach((participant, index) => {
+    const key = getProfileKey(participant.culturalScores);
+    let row = profileRows.get(key);
+    if (row === undefined) {
+      row = profiles.length;
+      profiles.push(participant.culturalScores);
+      profileRows.set(key, row);
     }
+    rowOf[index] = row;
+  });
 
-    matrix.set(participants[i].id, row);
+  // Distances are symmetric; compute the upper triangle and mirror it
+  const size = profiles.length;
+  const values = new Float64Array(size * size);
+  for (let i = 0; i < size; i++) {
+    for (let j = i; j < size; j++) {
+      const distance = computeCulturalDistance(
+        profiles[i],
+        profiles[j],
+        framework,
+        options
+      );
+      values[i * size + j] = distance;
+      values[j * size + i] = distance;
+    }
   }
 
-  return matrix;
+  return { ids, indexOf, rowOf, size, values };
+}
+
+/**
+ * Distance between the participants at two positions of a matrix.
+ *
+ * @param matrix - Distance matrix
+ * @param a - Position of the first participant
+ * @param b - Position of the second participant
+ * @returns Distance, 0 for the same participant
+ */
+export function getDistanceAt(
+  matrix: DistanceMatrix,
+  a: number,
+  b: number
+): number {
+  return a === b
+    ? 0
+    : matrix.values[matrix.rowOf[a] * matrix.size + matrix.rowOf[b]];
+}
+
+/**
+ * Distance between two participants by ID.
+ *
+ * @param matrix - Distance matrix
+ * @param a - ID of the first participant
+ * @param b - ID of the second participant
+ * @returns Distance, 0 for the same or an unknown participant
+ */
+export function getDistance(
+  matrix: DistanceMatrix,
+  a: string,
+  b: string
+): number {
+  const indexA = matrix.indexOf.get(a);
+  const indexB = matrix.indexOf.get(b);
+  return indexA === undefined || indexB === undefined
+    ? 0
+    : getDistanceAt(matrix, indexA, indexB);
+}
+
+/**
+ * Applies a function to every distance, keeping the shared rows.
+ *
+ * @param matrix - Distance matrix
+ * @param transform - Function mapping a distance to its new value
+ * @returns New matrix with transformed distances
+ */
+export function mapDistances(
+  matrix: DistanceMatrix,
+  transform: (distance: number) => number
+): DistanceMatrix {
+  return { ...matrix, values: matrix.values.map(transform) };
+}
+
+/**
+ * Gives every participant their own row, so distances of individual pairs
+ * can be adjusted.
+ *
+ * @param matrix - Distance matrix
+ * @returns New matrix with one row per participant
+ */
+export function expandDistanceMatrix(matrix: DistanceMatrix): DistanceMatrix {
+  const size = matrix.ids.length;
+  const values = new Float64Array(size * size);
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j < size; j++) {
+      values[i * size + j] = getDistanceAt(matrix, i, j);
+    }
+  }
+
+  return {
+    ids: matrix.ids,
+    indexOf: matrix.indexOf,
+    rowOf: Int32Array.from({ length: size }, (_, index) => index),
+    size,
+    values,
+  };
+}
+
+/**
+ * Converts a distance matrix to plain arrays for serialization.
+ *
+ * @param matrix - Distance matrix
+ * @returns Serializable distance matrix
+ */
+export function serializeDistanceMatrix(
+  matrix: DistanceMatrix
+): SerializedDistanceMatrix {
+  return {
+    ids: matrix.ids,
+    rowOf: Array.from(matrix.rowOf),
+    size: matrix.size,
+    values: Array.from(matrix.values),
+  };
+}
+
+/**
+ * Restores a distance matrix from its serialized form.
+ *
+ * @param data - Serialized distance matrix
+ * @returns Distance matrix
+ */
+export function deserializeDistanceMatrix(
+  data: SerializedDistanceMatrix
+): DistanceMatrix {
+  return {
+    ids: data.ids,
+    indexOf: new Map(data.ids.map((id, index) => [id, index])),
+    rowOf: Int32Array.from(data.rowOf),
+    size: data.size,
+    values: Float64Array.from(data.values),
+  };
+}
+
+/**
+ * Key identifying identical cultural scores, independent of key order
+ */
+function getProfileKey(scores: CulturalScores): string {
+  return JSON.stringify(scores, (_key, value) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) => (a < b ? -1 : 1))
+        )
+      : value
+  );
 }
@@ -0,0 +1,152 @@
+/**
+ * Distance metric utilities
+ * Describes how per-dimension differences are combined into a cultural
+ * distance, and computes the reference statistics (variances, inverse
+ * covariance) needed by the Kogut–Singh index and Mahalanobis distance
+ */
+
+import type { DistanceMetric } from "@/lib/db/schema/workshops";
+import type { WeightedFramework } from "./distance-weights";
+
+export type { DistanceMetric };
+
+export const DEFAULT_DISTANCE_METRIC: DistanceMetric = "euclidean";
+
+export const DISTANCE_METRICS: DistanceMetric[] = [
+  "euclidean",
+  "manhattan",
+  "cosine",
+  "mahalanobis",
+  "kogut_singh",
+];
+
+const DISTANCE_METRIC_LABELS: Record<DistanceMetric, string> = {
+  euclidean: "Euclidean",
+  manhattan: "Manhattan",
+  cosine: "Cosine",
+  mahalanobis: "Mahalanobis",
+  kogut_singh: "Kogut–Singh index",
+};
+
+/**
+ * Statistics of one framework's dimensions across all reference countries
+ */
+export type FrameworkStatistics = {
+  // Dimension keys, in the order of variances and inverseCovariance
+  keys: string[];
+  variances: number[];
+  inverseCovariance: number[][];
+  // Largest distance between two reference countries, used for normalizing
+  maxDistance: number;
+};
+
+/**
+ * Reference statistics keyed by framework (built-in or custom)
+ */
+export type DistanceStatistics = Partial<
+  Record<WeightedFramework, FrameworkStatistics>
+>;
+
+/**
+ * Formats a distance metric for display, e.g. "Kogut–Singh index".
+ *
+ * @param metric - Distance metric
+ * @returns Human-readable name
+ */
+export function formatDistanceMetric(metric: DistanceMetric): string {
+  return DISTANCE_METRIC_LABELS[metric];
+}
+
+/**
+ * Checks whether a metric needs reference statistics of the framework's
+ * countries (variances or covariance)
+ */
+export function requiresReferenceStatistics(metric: DistanceMetric): boolean {
+  return metric === "mahalanobis" || metric === "kogut_singh";
+}
+
+/**
+ * Computes the sample variances and the inverse covariance matrix of
+ * dimension scores across reference countries. The covariance matrix is
+ * slightly regularized so correlated or constant dimensions (e.g. Lewis
+ * scores summing to 1) can still be inverted.
+ *
+ * @param vectors - Scores of each reference country, in dimension order
+ * @returns Variances and inverse covariance matrix
+ */
+export function computeCovarianceStatistics(vectors: number[][]): {
+  variances: number[];
+  inverseCovariance: number[][];
+} {
+  if (vectors.length < 2) {
+    throw new Error(
+      "At least two countries with scores are needed for this distance metric"
+    );
+  }
+
+  const n = vectors[0].length;
+  const means = Array.from(
+    { length: n },
+    (_, i) => vectors.reduce((sum, v) => sum + v[i], 0) / vectors.length
+  );
+
+  const covariance = Array.from({ length: n }, (_, i) =>
+    Array.from(
+      { length: n },
+      (_, j) =>
+        vectors.reduce(
+          (sum, v) => sum + (v[i] - means[i]) * (v[j] - means[j]),
+          0
+        ) /
+        (vectors.length - 1)
+    )
+  );
+
+  const variances = covariance.map((row, i) => row[i]);
+  const meanVariance = variances.reduce((sum, v) => sum + v, 0) / n;
+  const ridge = 1e-6 + 1e-3 * meanVariance;
+  const regularized = covariance.map((row, i) =>
+    row.map((value, j) => (i === j ? value + ridge : value))
+  );
+
+  return { variances, inverseCovariance: invertMatrix(regularized) };
+}
+
+/**
+ * Inverts a square matrix with Gauss-Jordan elimination and partial pivoting
+ */
+function invertMatrix(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const augmented = matrix.map((row, i) => [
+    ...row,
+    ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)),
+  ]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(augmented[row][col]) > Math.abs(augmented[pivot][col])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(augmented[pivot][col]) < 1e-12) {
+      throw new Error("Covariance matrix cannot be inverted");
+    }
+    [augmented[col], augmented[pivot]] = [augmented[pivot], augmented[col]];
+
+    const pivotValue = augmented[col][col];
+    for (let j = 0; j < 2 * n; j++) {
+      augmented[col][j] /= pivotValue;
+    }
+    for (let row = 0; row < n; row++) {
+      if (row !== col) {
+        const factor = augmented[row][col];
+        for (let j = 0; j < 2 * n; j++) {
+          augmented[row][j] -= factor * augmented[col][j];
+        }
+      }
+    }
+  }
+
+  return augmented.map((row) => row.slice(n));
+}
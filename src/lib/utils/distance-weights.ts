@@ -0,0 +1,246 @@
+/**
+ * Distance weight utilities
+ * Lets facilitators emphasize frameworks (in the combined distance) and
+ * individual dimensions when computing cultural distances
+ */
+
+import {
+  BUILT_IN_DIMENSIONS,
+  isCustomFramework,
+  type BuiltInFramework,
+  type CustomFrameworkId,
+  type Framework,
+  type FrameworkDimension,
+} from "@/types/cultural";
+
+/**
+ * Frameworks whose dimensions can be weighted
+ */
+export type WeightedFramework = BuiltInFramework | CustomFrameworkId;
+
+/**
+ * Relative weights used by distance computation. Missing entries weigh 1;
+ * a weight of 0 ignores the framework or dimension.
+ */
+export type DistanceWeights = {
+  // Weight of each built-in framework in the combined distance
+  frameworks?: Partial<Record<BuiltInFramework, number>>;
+  // Weight of each dimension, keyed by framework and dimension key
+  dimensions?: Partial<Record<WeightedFramework, Record<string, number>>>;
+};
+
+export const DEFAULT_WEIGHT = 1;
+
+export const MAX_WEIGHT = 5;
+
+const BUILT_IN_FRAMEWORKS: BuiltInFramework[] = ["lewis", "hall", "hofstede"];
+
+const BUILT_IN_FRAMEWORK_NAMES: Record<BuiltInFramework, string> = {
+  lewis: "Lewis",
+  hall: "Hall",
+  hofstede: "Hofstede",
+};
+
+/**
+ * Returns the weight of a built-in framework in the combined distance.
+ *
+ * @param weights - Configured weights, if any
+ * @param framework - Built-in framework
+ * @returns Framework weight (1 when not configured)
+ */
+export function getFrameworkWeight(
+  weights: DistanceWeights | null | undefined,
+  framework: BuiltInFramework
+): number {
+  return weights?.frameworks?.[framework] ?? DEFAULT_WEIGHT;
+}
+
+/**
+ * Returns the dimension weights configured for a framework.
+ *
+ * @param weights - Configured weights, if any
+ * @param framework - Framework owning the dimensions
+ * @returns Weights keyed by dimension key, or undefined if none are set
+ */
+export function getDimensionWeights(
+  weights: DistanceWeights | null | undefined,
+  framework: WeightedFramework
+): Record<string, number> | undefined {
+  return weights?.dimensions?.[framework];
+}
+
+/**
+ * Lists the frameworks and dimensions that can be weighted for the
+ * selected framework: all built-in frameworks for combined, otherwise the
+ * framework itself.
+ *
+ * @param framework - Framework selected for grouping
+ * @param customDimensions - Dimensions of the custom framework, if custom
+ * @returns Weightable frameworks with their dimensions
+ */
+export function getWeightableDimensions(
+  framework: Framework,
+  customDimensions: FrameworkDimension[] = []
+): Array<{ framework: WeightedFramework; dimensions: FrameworkDimension[] }> {
+  if (isCustomFramework(framework)) {
+    return [{ framework, dimensions: customDimensions }];
+  }
+  if (framework === "combined") {
+    return BUILT_IN_FRAMEWORKS.map((fw) => ({
+      framework: fw,
+      dimensions: BUILT_IN_DIMENSIONS[fw],
+    }));
+  }
+  return [{ framework, dimensions: BUILT_IN_DIMENSIONS[framework] }];
+}
+
+/**
+ * Validates distance weights for the selected framework. Every weight must
+ * be between 0 and MAX_WEIGHT, and at least one framework and one dimension
+ * per framework must keep a positive weight.
+ *
+ * @param weights - Weights to validate
+ * @param framework - Framework selected for grouping
+ * @param customDimensions - Dimensions of the custom framework, if custom
+ * @returns Error message, or null if valid
+ */
+export function validateDistanceWeights(
+  weights: DistanceWeights,
+  framework: Framework,
+  customDimensions: FrameworkDimension[] = []
+): string | null {
+  const values = [
+    ...Object.values(weights.frameworks ?? {}),
+    ...Object.values(weights.dimensions ?? {}).flatMap((dimensionWeights) =>
+      Object.values(dimensionWeights ?? {})
+    ),
+  ];
+  if (
+    values.some(
+      (value) =>
+        typeof value !== "number" ||
+        !Number.isFinite(value) ||
+        value < 0 ||
+        value > MAX_WEIGHT
+    )
+  ) {
+    return `Weights must be between 0 and ${MAX_WEIGHT}`;
+  }
+
+  if (
+    framework === "combined" &&
+    BUILT_IN_FRAMEWORKS.every((fw) => getFrameworkWeight(weights, fw) === 0)
+  ) {
+    return "At least one framework needs a weight above 0";
+  }
+
+  for (const entry of getWeightableDimensions(framework, customDimensions)) {
+    // Frameworks left out of the combined distance need no dimensions
+    if (
+      !isCustomFramework(entry.framework) &&
+      framework === "combined" &&
+      getFrameworkWeight(weights, entry.framework) === 0
+    ) {
+      continue;
+    }
+    const dimensionWeights = getDimensionWeights(weights, entry.framework);
+    const hasPositive = entry.dimensions.some(
+      (dimension) => (dimensionWeights?.[dimension.key] ?? DEFAULT_WEIGHT) > 0
+    );
+    if (!hasPositive) {
+      return "At least one dimension needs a weight above 0";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Keeps only the weights that apply to the selected framework and differ
+ * from the default, so equal weighting is stored as null.
+ *
+ * @param weights - Weights entered by the facilitator
+ * @param framework - Framework selected for grouping
+ * @param customDimensions - Dimensions of the custom framework, if custom
+ * @returns Weights to store, or null if everything is weighted equally
+ */
+export function normalizeDistanceWeights(
+  weights: DistanceWeights | null | undefined,
+  framework: Framework,
+  customDimensions: FrameworkDimension[] = []
+): DistanceWeights | null {
+  if (!weights) {
+    return null;
+  }
+
+  const normalized: DistanceWeights = {};
+
+  if (framework === "combined") {
+    for (const fw of BUILT_IN_FRAMEWORKS) {
+      const weight = getFrameworkWeight(weights, fw);
+      if (weight !== DEFAULT_WEIGHT) {
+        normalized.frameworks = { ...normalized.frameworks, [fw]: weight };
+      }
+    }
+  }
+
+  for (const entry of getWeightableDimensions(framework, customDimensions)) {
+    const dimensionWeights = getDimensionWeights(weights, entry.framework);
+    for (const dimension of entry.dimensions) {
+      const weight = dimensionWeights?.[dimension.key] ?? DEFAULT_WEIGHT;
+      if (weight !== DEFAULT_WEIGHT) {
+        normalized.dimensions = {
+          ...normalized.dimensions,
+          [entry.framework]: {
+            ...normalized.dimensions?.[entry.framework],
+            [dimension.key]: weight,
+          },
+        };
+      }
+    }
+  }
+
+  return normalized.frameworks || normalized.dimensions ? normalized : null;
+}
+
+/**
+ * Formats non-default weights for display, e.g.
+ * "Power Distance ×2, Hall ×0".
+ *
+ * @param weights - Stored weights, if any
+ * @param framework - Framework selected for grouping
+ * @param customDimensions - Dimensions of the custom framework, if custom
+ * @returns Human-readable description
+ */
+export function formatDistanceWeights(
+  weights: DistanceWeights | null | undefined,
+  framework: Framework,
+  customDimensions: FrameworkDimension[] = []
+): string {
+  const normalized = normalizeDistanceWeights(
+    weights,
+    framework,
+    customDimensions
+  );
+  if (!normalized) {
+    return "Equal weights";
+  }
+
+  const parts: string[] = [];
+  for (const fw of BUILT_IN_FRAMEWORKS) {
+    const weight = normalized.frameworks?.[fw];
+    if (weight !== undefined) {
+      parts.push(`${BUILT_IN_FRAMEWORK_NAMES[fw]} ×${weight}`);
+    }
+  }
+  for (const entry of getWeightableDimensions(framework, customDimensions)) {
+    const dimensionWeights = normalized.dimensions?.[entry.framework];
+    for (const dimension of entry.dimensions) {
+      const weight = dimensionWeights?.[dimension.key];
+      if (weight !== undefined) {
+        parts.push(`${dimension.label} ×${weight}`);
+      }
+    }
+  }
+  return parts.join(", ");
+}
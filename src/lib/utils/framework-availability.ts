@@ -3,7 +3,12 @@
  * Determines which cultural frameworks have complete data for all participants
  */
 
-import type { Framework, CulturalScores } from "@/types/cultural";
+import type {
+  BuiltInFramework,
+  CulturalScores,
+  CustomFrameworkId,
+  Framework,
+} from "@/types/cultural";
 import { hasFrameworkData } from "@/types/cultural";
 
 /**
@@ -12,7 +17,7 @@ import { hasFrameworkData } from "@/types/cultural";
  *
  * @param culturalDataMap - Map of country codes to their cultural scores
  * @param countryCodes - Array of country codes to check
- * @returns Array of available frameworks, ordered by preference (hofstede, lewis, hall, combined)
+ * @returns Array of available frameworks, ordered by preference (hofstede, lewis, hall, custom, combined)
  */
 export function getAvailableFrameworks(
   culturalDataMap: Map<string, CulturalScores>,
@@ -25,13 +30,16 @@ export function getAvailableFrameworks(
   const available: Framework[] = [];
 
   // Check individual frameworks first
-  const individualFrameworks: Exclude<Framework, "combined">[] = [
+  const individualFrameworks: BuiltInFramework[] = [
     "hofstede",
     "lewis",
     "hall",
   ];
 
-  for (const framework of individualFrameworks) {
+  for (const framework of [
+    ...individualFrameworks,
+    ...getCustomFrameworks(culturalDataMap),
+  ]) {
     const hasAllData = countryCodes.every((code) => {
       const scores = culturalDataMap.get(code) ?? {};
       return hasFrameworkData(scores, framework);
@@ -42,7 +50,7 @@ export function getAvailableFrameworks(
     }
   }
 
-  // Combined is available if at least one framework has data for all countries
+  // Combined is available if at least one built-in framework has data for all countries
   const hasAnyFrameworkComplete = individualFrameworks.some((framework) => {
     return countryCodes.every((code) => {
       const scores = culturalDataMap.get(code) ?? {};
@@ -59,7 +67,7 @@ export function getAvailableFrameworks(
 
 /**
  * Gets the best available framework for a set of countries.
- * Preference order: hofstede > lewis > hall > combined
+ * Preference order: hofstede > lewis > hall > custom > combined
  *
  * @param culturalDataMap - Map of country codes to their cultural scores
  * @param countryCodes - Array of country codes to check
@@ -84,8 +92,8 @@ export function getBestAvailableFramework(
     }
   }
 
-  // Fallback to combined if available
-  return "combined";
+  // Fallback to a custom framework, or combined
+  return available[0];
 }
 
 /**
@@ -106,3 +114,18 @@ export function getCountriesMissingFramework(
     return !hasFrameworkData(scores, framework);
   });
 }
+
+/**
+ * Collects the custom frameworks that at least one country has scores for.
+ */
+function getCustomFrameworks(
+  culturalDataMap: Map<string, CulturalScores>
+): CustomFrameworkId[] {
+  const frameworks = new Set<CustomFrameworkId>();
+  for (const scores of culturalDataMap.values()) {
+    for (const framework of Object.keys(scores.custom ?? {})) {
+      frameworks.add(framework as CustomFrameworkId);
+    }
+  }
+  return [...frameworks];
+}
@@ -0,0 +1,66 @@
+/**
+ * Display names for built-in and custom cultural frameworks
+ */
+
+import {
+  isCustomFramework,
+  type BuiltInFramework,
+  type CustomFrameworkId,
+  type Framework,
+} from "@/types/cultural";
+
+export type CustomFrameworkOption = {
+  frameworkId: CustomFrameworkId;
+  name: string;
+};
+
+const BUILT_IN_FRAMEWORK_LABELS: Record<BuiltInFramework | "combined", string> =
+  {
+    lewis: "Lewis Framework",
+    hall: "Hall Framework",
+    hofstede: "Hofstede Framework",
+    combined: "Combined Framework",
+  };
+
+/**
+ * Gets the display name of a framework.
+ *
+ * @param framework - Built-in or custom framework
+ * @param customFrameworks - Custom frameworks available to the facilitator
+ * @returns Display name; unknown custom frameworks are labeled generically
+ */
+export function getFrameworkLabel(
+  framework: Framework,
+  customFrameworks: CustomFrameworkOption[] = []
+): string {
+  if (isCustomFramework(framework)) {
+    return (
+      customFrameworks.find((f) => f.frameworkId === framework)?.name ??
+      "Custom Framework"
+    );
+  }
+  return BUILT_IN_FRAMEWORK_LABELS[framework];
+}
+
+/**
+ * Lists selectable frameworks: built-in frameworks, then custom frameworks,
+ * then combined.
+ *
+ * @param customFrameworks - Custom frameworks available to the facilitator
+ * @returns Framework values with display names
+ */
+export function getFrameworkOptions(
+  customFrameworks: CustomFrameworkOption[] = []
+): Array<{ value: Framework; label: string }> {
+  return [
+    ...(["lewis", "hall", "hofstede"] as const).map((framework) => ({
+      value: framework,
+      label: BUILT_IN_FRAMEWORK_LABELS[framework],
+    })),
+    ...customFrameworks.map((framework) => ({
+      value: framework.frameworkId,
+      label: framework.name,
+    })),
+    { value: "combined", label: BUILT_IN_FRAMEWORK_LABELS.combined },
+  ];
+}
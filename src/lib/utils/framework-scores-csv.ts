@@ -0,0 +1,149 @@
+/**
+ * Parsing of country score uploads for custom cultural frameworks.
+ *
+ * Expected format: a header row with a country code column followed by one
+ * column per dimension (matched by key or label), then one row per country:
+ *
+ *   country_code,power_distance,collectivism
+ *   US,4.88,4.25
+ *   JP,5.11,5.19
+ *
+ * Raw values must lie within the dimension's scale and are normalized to 0-1.
+ */
+
+import { parseCsvRows } from "./csv";
+
+export type ScoreUploadDimension = {
+  id: string;
+  key: string;
+  label: string;
+  scaleMin: number;
+  scaleMax: number;
+};
+
+export type ParsedCountryScores = {
+  countryCode: string;
+  /** Normalized (0-1) scores keyed by dimension ID */
+  scores: Map<string, number>;
+};
+
+export type ScoreUploadParseResult =
+  | { success: true; rows: ParsedCountryScores[] }
+  | { error: string };
+
+const COUNTRY_COLUMN_NAMES = ["country_code", "country", "iso_code", "code"];
+
+/**
+ * Maximum number of data rows accepted in a single upload
+ */
+export const MAX_SCORE_UPLOAD_ROWS = 500;
+
+/**
+ * Parses a CSV upload of country scores for a custom framework.
+ * Columns that match no dimension are rejected so typos are not silently
+ * ignored; dimensions without a column are left untouched.
+ *
+ * @param csv - Raw CSV text
+ * @param dimensions - Dimensions of the framework
+ * @returns Parsed rows with normalized scores, or the first error found
+ */
+export function parseFrameworkScoresCsv(
+  csv: string,
+  dimensions: ScoreUploadDimension[]
+): ScoreUploadParseResult {
+  const lines = parseCsvRows(csv);
+  if (lines.length < 2) {
+    return { error: "The file needs a header row and at least one country" };
+  }
+
+  if (lines.length - 1 > MAX_SCORE_UPLOAD_ROWS) {
+    return {
+      error: `Upload at most ${MAX_SCORE_UPLOAD_ROWS} countries at a time`,
+    };
+  }
+
+  const [header, ...dataRows] = lines;
+  const normalizedHeader = header.map((cell) => cell.trim().toLowerCase());
+
+  const countryColumn = normalizedHeader.findIndex((cell) =>
+    COUNTRY_COLUMN_NAMES.includes(cell)
+  );
+  if (countryColumn === -1) {
+    return { error: "Missing country code column (e.g. country_code)" };
+  }
+
+  // Map each remaining column to a dimension by key or label
+  const columns: Array<{ index: number; dimension: ScoreUploadDimension }> = [];
+  for (const [index, cell] of normalizedHeader.entries()) {
+    if (index === countryColumn) {
+      continue;
+    }
+    const dimension = dimensions.find(
+      (d) => d.key.toLowerCase() === cell || d.label.toLowerCase() === cell
+    );
+    if (!dimension) {
+      return { error: `Unknown dimension column "${header[index].trim()}"` };
+    }
+    if (columns.some((c) => c.dimension.id === dimension.id)) {
+      return { error: `Duplicate column for dimension "${dimension.label}"` };
+    }
+    columns.push({ index, dimension });
+  }
+
+  if (columns.length === 0) {
+    return { error: "No dimension columns found" };
+  }
+
+  const rows: ParsedCountryScores[] = [];
+  const seenCountries = new Set<string>();
+
+  for (const [rowIndex, cells] of dataRows.entries()) {
+    const lineNumber = rowIndex + 2;
+    const countryCode = cells[countryColumn]?.trim().toUpperCase();
+    if (!countryCode) {
+      return { error: `Line ${lineNumber}: missing country code` };
+    }
+    if (seenCountries.has(countryCode)) {
+      return { error: `Line ${lineNumber}: duplicate country ${countryCode}` };
+    }
+    seenCountries.add(countryCode);
+
+    const scores = new Map<string, number>();
+    for (const { index, dimension } of columns) {
+      const rawCell = cells[index]?.trim() ?? "";
+      // Empty cells leave the dimension unscored for this country
+      if (rawCell === "") {
+        continue;
+      }
+      const value = Number(rawCell);
+      if (!Number.isFinite(value)) {
+        return {
+          error: `Line ${lineNumber}: "${rawCell}" is not a number (${dimension.label})`,
+        };
+      }
+      if (value < dimension.scaleMin || value > dimension.scaleMax) {
+        return {
+          error: `Line ${lineNumber}: ${value} is outside the ${dimension.scaleMin}-${dimension.scaleMax} scale of ${dimension.label}`,
+        };
+      }
+      scores.set(dimension.id, normalizeScore(value, dimension));
+    }
+
+    rows.push({ countryCode, scores });
+  }
+
+  return { success: true, rows };
+}
+
+/**
+ * Normalizes a raw score to 0-1 using the dimension's scale,
+ * rounded to the 3 decimals stored in the database.
+ */
+function normalizeScore(
+  value: number,
+  dimension: Pick<ScoreUploadDimension, "scaleMin" | "scaleMax">
+): number {
+  const normalized =
+    (value - dimension.scaleMin) / (dimension.scaleMax - dimension.scaleMin);
+  return Math.round(normalized * 1000) / 1000;
+}
@@ -1,10 +1,42 @@
 /**
  * Group assignment algorithm
- * Generates maximally diverse groups based on cultural distances
+ * Generates maximally diverse groups based on cultural distances, with a
+ * choice of genetic, greedy, local search and simulated annealing algorithms
  */
 
-import { generateDistanceMatrix } from "./distance-matrix";
-import type { Framework, CulturalScores } from "./cultural-distance";
+import {
+  expandDistanceMatrix,
+  generateDistanceMatrix,
+  getDistance,
+  getDistanceAt,
+  mapDistances,
+  type DistanceMatrix,
+} from "./distance-matrix";
+import {
+  MIN_GROUP_SIZE,
+  planGroupSizes,
+  type GroupSizing,
+} from "./group-sizing";
+import {
+  computeCulturalDistance,
+  getMaxCulturalDistance,
+  type Framework,
+  type CulturalScores,
+  type DistanceOptions,
+} from "./cultural-distance";
+import {
+  DEFAULT_ALGORITHM_PARAMETERS,
+  type AlgorithmParameters,
+  type GroupingAlgorithm,
+  type GroupingAlgorithmConfig,
+} from "./grouping-algorithm";
+import type { GroupingObjective } from "./grouping-objective";
+import {
+  createAttributeScorer,
+  getMaxAttributeBonus,
+  type ParticipantAttribute,
+  type ParticipantAttributeValues,
+} from "./participant-attributes";
 
 export type Group = {
   participants: string[];
@@ -13,8 +45,66 @@ export type Group = {
 type ParticipantWithScores = {
   id: string;
   culturalScores: CulturalScores;
+  // Answers to the workshop's custom attributes, if any
+  attributes?: ParticipantAttributeValues | null;
 };
 
+export type GroupingConstraintType = "must_link" | "cannot_link";
+
+/**
+ * Hard pairing constraint between two participants.
+ * must_link: both participants share a group; cannot_link: they do not.
+ */
+export type GroupingConstraint = {
+  type: GroupingConstraintType;
+  participantAId: string;
+  participantBId: string;
+};
+
+/**
+ * How often each pair of participants already shared a group, stored in
+ * both directions (a -> b -> count and b -> a -> count)
+ */
+export type PairHistory = Map<string, Map<string, number>>;
+
+export type GroupingOptions = {
+  constraints?: GroupingConstraint[];
+  // Diverse (default), similar, or target-band groups
+  objective?: GroupingObjective;
+  // Pairings from earlier rounds; meeting again is penalized
+  pairHistory?: PairHistory;
+  // Distance metric and framework / dimension weights
+  distance?: DistanceOptions;
+  // Custom attributes mixed within groups on top of cultural distance
+  attributes?: ParticipantAttribute[] | null;
+  // Algorithm and its parameters; defaults to the genetic algorithm when
+  // seeded and the greedy algorithm otherwise
+  algorithm?: GroupingAlgorithmConfig;
+};
+
+/**
+ * Precomputed lookup of constraints for fast checks during evolution
+ */
+type ConstraintIndex = {
+  constraints: GroupingConstraint[];
+  // Must-link components keyed by each member (only components of 2+)
+  units: Map<string, string[]>;
+  // Participants each participant must not share a group with
+  conflicts: Map<string, Set<string>>;
+};
+
+// Outweighs any diversity gain, so violating solutions never win
+const CONSTRAINT_PENALTY = 1000;
+
+/**
+ * Maximum number of rotation rounds per workshop
+ */
+export const MAX_ROUND_COUNT = 10;
+
+// Subtracted from a pair's score per earlier meeting, as a multiple of the
+// largest possible pair score (see getRepeatPairPenalty)
+const REPEAT_PAIR_PENALTY = 10;
+
 /**
  * Genetic Algorithm configuration
  */
@@ -27,13 +117,20 @@ type GAConfig = {
 };
 
 const DEFAULT_GA_CONFIG: GAConfig = {
-  populationSize: 50,
-  generations: 100,
+  populationSize: DEFAULT_ALGORITHM_PARAMETERS.populationSize,
+  generations: DEFAULT_ALGORITHM_PARAMETERS.generations,
   mutationRate: 0.1,
   elitismRate: 0.2,
-  timeoutMs: 2000,
+  timeoutMs: DEFAULT_ALGORITHM_PARAMETERS.timeoutMs,
 };
 
+// Simulated annealing cools down to this fraction of its starting
+// temperature over its iterations
+const FINAL_TEMPERATURE_RATIO = 1e-3;
+
+// Iterations of simulated annealing between progress reports
+const ANNEALING_PROGRESS_INTERVAL = 1000;
+
 /**
  * Chromosome representation: a group assignment solution
  */
@@ -48,56 +145,958 @@ type Chromosome = {
 type SeededRNG = () => number;
 
 /**
- * Generates maximally diverse groups of participants.
- * Uses Genetic Algorithm for global optimization, with fallback to greedy algorithm.
+ * Input shared by all grouping algorithms
+ */
+type GroupingContext = {
+  participants: ParticipantWithScores[];
+  sizing: GroupSizing;
+  // Pairwise scores to maximize (see buildObjectiveMatrix)
+  scores: DistanceMatrix;
+  constraintIndex: ConstraintIndex | null;
+  seed: string;
+  parameters: AlgorithmParameters;
+};
+
+/**
+ * Progress of one algorithm run, reported after every generation, pass or
+ * batch of iterations
+ */
+type AlgorithmProgress = {
+  // Algorithm currently running; local search for the polish step
+  algorithm: GroupingAlgorithm;
+  step: number;
+  totalSteps: number;
+  // Best fitness found so far (with constraint penalties), if known
+  bestFitness: number | null;
+};
+
+/**
+ * Progress of a multi-round group generation
+ */
+export type GroupingProgress = AlgorithmProgress & {
+  round: number;
+  roundCount: number;
+};
+
+/**
+ * A grouping algorithm: forms groups from the context, or returns undefined
+ * if it cannot. Runs as a generator that yields progress, so callers can
+ * pause between steps (see generateRoundsInSteps).
+ */
+type GroupingStrategy = (
+  context: GroupingContext
+) => Generator<AlgorithmProgress, Group[] | undefined>;
+
+const GROUPING_STRATEGIES: Record<GroupingAlgorithm, GroupingStrategy> = {
+  genetic: generateGroupsWithGA,
+  greedy: function* (context) {
+    const groups = generateGroupsGreedy(context);
+    yield {
+      algorithm: "greedy",
+      step: 1,
+      totalSteps: 1,
+      bestFitness: groups ? calculateFitness(groups, context.scores) : null,
+    };
+    return groups;
+  },
+  local_search: function* (context) {
+    const groups = generateGroupsGreedy(context);
+    return groups
+      ? yield* improveByLocalSearch(
+          groups,
+          context.scores,
+          context.constraintIndex
+        )
+      : undefined;
+  },
+  annealing: generateGroupsWithAnnealing,
+};
+
+/**
+ * Generates groups of participants. By default groups are maximally diverse;
+ * the objective option asks for similar groups or a target distance band.
+ * Uses the algorithm from the options (by default the genetic algorithm
+ * when seeded), with fallback to the greedy algorithm, and optionally
+ * polishes the result with pairwise-swap local search.
  *
  * @param participants - Array of participants with cultural scores
  * @param framework - Framework to use for distance calculation
- * @param groupSize - Target group size (3, 4, or null for flexible 3-4)
- * @param workshopId - Optional workshop ID for deterministic GA seeding
+ * @param sizing - Group size range or fixed group count
+ * @param workshopId - Optional workshop ID for deterministic seeding
+ * @param options - Optional must-link / cannot-link constraints, objective,
+ * distance metric and weights, attributes, pairings from earlier rounds, and
+ * algorithm
  * @returns Array of groups with participant IDs
  */
 export function generateGroups(
   participants: ParticipantWithScores[],
   framework: Framework,
-  groupSize: number | null, // 3, 4, or null for flexible
-  workshopId?: string
+  sizing: GroupSizing,
+  workshopId?: string,
+  options: GroupingOptions = {}
 ): Group[] | undefined {
-  if (participants.length === 0 || participants.length < 3) {
+  return runToCompletion(
+    generateGroupsInSteps(participants, framework, sizing, workshopId, options)
+  );
+}
+
+/**
+ * Generates several rounds of groups for rotation schedules.
+ * Every round is optimized for diversity, while pairs that already met in
+ * an earlier round are penalized so participants meet as many new people
+ * as possible. Constraints apply to every round.
+ *
+ * @param participants - Array of participants with cultural scores
+ * @param framework - Framework to use for distance calculation
+ * @param sizing - Group size range or fixed group count
+ * @param roundCount - Number of rounds to generate
+ * @param workshopId - Optional workshop ID for deterministic seeding
+ * @param options - Optional constraints, objective, distance metric and
+ * weights, attributes, pairings from earlier rounds, and algorithm
+ * @returns One array of groups per round, or undefined if grouping failed
+ */
+export function generateRounds(
+  participants: ParticipantWithScores[],
+  framework: Framework,
+  sizing: GroupSizing,
+  roundCount: number,
+  workshopId?: string,
+  options: GroupingOptions = {}
+): Group[][] | undefined {
+  return runToCompletion(
+    generateRoundsInSteps(
+      participants,
+      framework,
+      sizing,
+      roundCount,
+      workshopId,
+      options
+    )
+  );
+}
+
+/**
+ * Step-by-step variant of generateRounds for long-running generation:
+ * yields progress after every generation, pass or batch of iterations and
+ * returns the same groups as generateRounds. Callers can pause between
+ * steps to keep the server responsive, or stop early by not resuming.
+ *
+ * @param participants - Array of participants with cultural scores
+ * @param framework - Framework to use for distance calculation
+ * @param sizing - Group size range or fixed group count
+ * @param roundCount - Number of rounds to generate
+ * @param workshopId - Optional workshop ID for deterministic seeding
+ * @param options - Optional constraints, objective, distance metric and
+ * weights, attributes, pairings from earlier rounds, and algorithm
+ * @returns Generator of progress, returning one array of groups per round
+ * or undefined if grouping failed
+ */
+export function* generateRoundsInSteps(
+  participants: ParticipantWithScores[],
+  framework: Framework,
+  sizing: GroupSizing,
+  roundCount: number,
+  workshopId?: string,
+  options: GroupingOptions = {}
+): Generator<GroupingProgress, Group[][] | undefined> {
+  const pairHistory: PairHistory = new Map(
+    Array.from(options.pairHistory ?? [], ([id, row]) => [id, new Map(row)])
+  );
+  const rounds: Group[][] = [];
+
+  for (let round = 1; round <= roundCount; round++) {
+    // Round 1 keeps the plain workshop seed, matching single-round results
+    const seed =
+      workshopId && round > 1 ? `${workshopId}:round-${round}` : workshopId;
+    const steps = generateGroupsInSteps(participants, framework, sizing, seed, {
+      ...options,
+      pairHistory,
+    });
+
+    let next = steps.next();
+    while (!next.done) {
+      yield { ...next.value, round, roundCount };
+      next = steps.next();
+    }
+    const groups = next.value;
+
+    if (!groups) {
+      return undefined;
+    }
+
+    recordPairings(pairHistory, groups);
+    rounds.push(groups);
+  }
+
+  return rounds;
+}
+
+/**
+ * Step-by-step implementation of generateGroups
+ */
+function* generateGroupsInSteps(
+  participants: ParticipantWithScores[],
+  framework: Framework,
+  sizing: GroupSizing,
+  workshopId: string | undefined,
+  options: GroupingOptions
+): Generator<AlgorithmProgress, Group[] | undefined> {
+  if (participants.length < MIN_GROUP_SIZE) {
     return undefined;
   }
 
-  // Try Genetic Algorithm first if workshopId is provided
-  if (workshopId) {
-    try {
-      const gaResult = generateGroupsWithGA(
-        participants,
+  const constraintIndex = buildConstraintIndex(
+    options.constraints ?? [],
+    participants
+  );
+
+  const algorithm =
+    options.algorithm?.algorithm ?? (workshopId ? "genetic" : "greedy");
+  const parameters = options.algorithm?.parameters ?? {};
+  const context: GroupingContext = {
+    participants,
+    sizing,
+    // Distances adjusted for the objective and earlier rounds
+    scores: buildObjectiveMatrix(participants, framework, options),
+    constraintIndex,
+    seed: workshopId ?? algorithm,
+    parameters,
+  };
+
+  let groups: Group[] | undefined;
+  try {
+    groups = yield* GROUPING_STRATEGIES[algorithm](context);
+  } catch (error) {
+    console.warn(
+      `${algorithm} failed, falling back to greedy algorithm:`,
+      error
+    );
+  }
+
+  // Fallback to greedy algorithm
+  groups ??= generateGroupsGreedy(context);
+  if (!groups) {
+    return undefined;
+  }
+
+  // Local search polish, which also covers the refinement below
+  if (algorithm === "local_search") {
+    return groups;
+  }
+  if (parameters.localSearch) {
+    return yield* improveByLocalSearch(groups, context.scores, constraintIndex);
+  }
+
+  // Later rounds and non-default objectives: refine by swapping members,
+  // which breaks up repeat pairings and tightens similar / target groups
+  const needsRefinement =
+    (options.pairHistory && options.pairHistory.size > 0) ||
+    (options.objective && options.objective.type !== "maximize");
+  if (needsRefinement) {
+    return improveBySwaps(groups, context.scores, constraintIndex);
+  }
+
+  return groups;
+}
+
+/**
+ * Runs a step-by-step generation without pausing and returns its result
+ */
+function runToCompletion<T>(steps: Generator<unknown, T>): T {
+  let next = steps.next();
+  while (!next.done) {
+    next = steps.next();
+  }
+  return next.value;
+}
+
+/**
+ * Counts how many times pairs of participants meet again across rounds.
+ * A pair sharing a group in three rounds counts as two repeats.
+ *
+ * @param rounds - Groups of each round
+ * @returns Number of repeat pairings
+ */
+export function countRepeatPairings(rounds: Group[][]): number {
+  const pairHistory: PairHistory = new Map();
+  return rounds.reduce(
+    (repeats, groups) => repeats + recordPairings(pairHistory, groups),
+    0
+  );
+}
+
+/**
+ * Places a participant who joined after grouping into one existing group per
+ * round, without moving anyone else. In each round they join the group they
+ * add the most to under the objective (for diverse groups, the highest
+ * average distance to its members), among the groups with room: below the
+ * maximum size, or with a fixed group count the smallest groups. Ties go to
+ * the smaller group. As in generateRounds, meeting the same people again in
+ * later rounds is penalized.
+ *
+ * @param participant - Late participant with cultural scores
+ * @param members - Grouped participants with cultural scores
+ * @param rounds - Existing groups of each round
+ * @param framework - Framework to use for distance calculation
+ * @param sizing - Group size range or fixed group count
+ * @param options - Optional objective, distance metric and weights, and
+ * attributes
+ * @returns Index of the chosen group per round, or null if no group of the
+ * round has room
+ */
+export function placeLateJoiner(
+  participant: ParticipantWithScores,
+  members: ParticipantWithScores[],
+  rounds: Group[][],
+  framework: Framework,
+  sizing: GroupSizing,
+  options: GroupingOptions = {}
+): Array<number | null> {
+  // Only the late participant's scores to the members are needed
+  const maxDistance = getMaxCulturalDistance(framework, options.distance);
+  const transform = getObjectiveTransform(options.objective, maxDistance);
+  const attributeScorer = createAttributeScorer(
+    options.attributes,
+    [participant, ...members].map((p) => p.attributes),
+    maxDistance
+  );
+  const repeatPenalty = getRepeatPairPenalty(maxDistance, options.attributes);
+  const scores = new Map(
+    members.map((member) => {
+      const distance = computeCulturalDistance(
+        participant.culturalScores,
+        member.culturalScores,
         framework,
-        groupSize,
-        workshopId
+        options.distance
       );
-      if (gaResult) {
-        return gaResult;
+      return [
+        member.id,
+        (transform ? transform(distance) : distance) +
+          (attributeScorer?.getBonus(
+            participant.attributes,
+            member.attributes
+          ) ?? 0),
+      ];
+    })
+  );
+  const pairHistory: PairHistory = new Map();
+
+  return rounds.map((groups) => {
+    const meetings = pairHistory.get(participant.id);
+    const smallestSize = Math.min(...groups.map((g) => g.participants.length));
+
+    let bestIndex: number | null = null;
+    let bestScore = Number.NEGATIVE_INFINITY;
+    for (let index = 0; index < groups.length; index++) {
+      const memberIds = groups[index].participants;
+      const hasRoom =
+        sizing.mode === "size"
+          ? memberIds.length < sizing.maxSize
+          : memberIds.length === smallestSize;
+      if (!hasRoom) continue;
+
+      const score =
+        memberIds.length > 0
+          ? memberIds.reduce(
+              (sum, id) =>
+                sum +
+                (scores.get(id) ?? 0) -
+                repeatPenalty * (meetings?.get(id) ?? 0),
+              0
+            ) / memberIds.length
+          : 0;
+      const isSmaller =
+        bestIndex !== null &&
+        memberIds.length < groups[bestIndex].participants.length;
+      if (score > bestScore || (score === bestScore && isSmaller)) {
+        bestIndex = index;
+        bestScore = score;
+      }
+    }
+
+    if (bestIndex !== null) {
+      recordPairings(pairHistory, [
+        { participants: [participant.id, ...groups[bestIndex].participants] },
+      ]);
+    }
+    return bestIndex;
+  });
+}
+
+/**
+ * Fixes a group that became too small after a participant left, moving as
+ * few other participants as possible. The group is either filled up with
+ * members of groups that can spare them, or dissolved into groups with
+ * room, whichever takes fewer moves (filling wins ties, keeping the number
+ * of groups). Moved participants are chosen by the grouping objective: the
+ * ones who fit the receiving group best and their current group least.
+ * - Size range: the group needs at least the minimum size; donors keep it
+ * - Fixed count: the group needs to be at most one smaller than the largest
+ *   and is only dissolved if a single member is left
+ * Groups of one are always resolved, exceeding the maximum size if needed.
+ *
+ * @param groups - Groups of one round, without the participant who left
+ * @param groupIndex - Index of the group the participant left
+ * @param participants - Grouped participants with cultural scores
+ * @param framework - Framework to use for distance calculation
+ * @param sizing - Group size range or fixed group count
+ * @param options - Optional objective, distance metric and weights, and
+ * attributes
+ * @returns Groups in the same order; a dissolved group is left empty
+ */
+export function rebalanceGroups(
+  groups: Group[],
+  groupIndex: number,
+  participants: ParticipantWithScores[],
+  framework: Framework,
+  sizing: GroupSizing,
+  options: GroupingOptions = {}
+): Group[] {
+  const result = groups.map((g) => ({ participants: [...g.participants] }));
+  const target = result[groupIndex];
+  const others = result.filter((_, index) => index !== groupIndex);
+  if (!target || target.participants.length === 0 || others.length === 0) {
+    return result;
+  }
+
+  const scores = buildObjectiveMatrix(participants, framework, {
+    objective: options.objective,
+    distance: options.distance,
+    attributes: options.attributes,
+  });
+  // Average objective score of a participant to the other members of a group
+  const fit = (id: string, memberIds: string[]) => {
+    const peers = memberIds.filter((memberId) => memberId !== id);
+    return peers.length > 0
+      ? peers.reduce((sum, peer) => sum + getDistance(scores, id, peer), 0) /
+          peers.length
+      : 0;
+  };
+  const sizeOf = (group: Group) => group.participants.length;
+  const largestOther = () => Math.max(...others.map(sizeOf));
+  const smallestOther = () => Math.min(...others.map(sizeOf));
+
+  const minSize =
+    sizing.mode === "size" ? Math.max(sizing.minSize, MIN_GROUP_SIZE) : 0;
+  const needsMembers = () =>
+    sizing.mode === "size"
+      ? sizeOf(target) < minSize
+      : sizeOf(target) < Math.max(MIN_GROUP_SIZE, largestOther() - 1);
+  const canDonate = (group: Group) =>
+    sizing.mode === "size"
+      ? sizeOf(group) > minSize
+      : sizeOf(group) >= sizeOf(target) + 2;
+  const hasRoom = (group: Group) =>
+    sizing.mode === "size"
+      ? sizeOf(group) < sizing.maxSize
+      : sizeOf(group) === smallestOther();
+
+  if (!needsMembers()) {
+    return result;
+  }
+
+  let fill: boolean;
+  if (sizing.mode === "size") {
+    const deficit = minSize - sizeOf(target);
+    const surplus = others.reduce(
+      (sum, g) => sum + Math.max(0, sizeOf(g) - minSize),
+      0
+    );
+    const room = others.reduce(
+      (sum, g) => sum + Math.max(0, sizing.maxSize - sizeOf(g)),
+      0
+    );
+    const canFill = surplus >= deficit;
+    const canDissolve = room >= sizeOf(target) || sizeOf(target) === 1;
+    if (!canFill && !canDissolve) {
+      return result;
+    }
+    fill = canFill && (!canDissolve || deficit <= sizeOf(target));
+  } else {
+    fill = others.some(canDonate);
+    if (!fill && sizeOf(target) >= MIN_GROUP_SIZE) {
+      return result;
+    }
+  }
+
+  if (fill) {
+    while (needsMembers()) {
+      let best: { id: string; donor: Group; score: number } | null = null;
+      for (const donor of others) {
+        if (!canDonate(donor)) continue;
+        for (const id of donor.participants) {
+          const score =
+            fit(id, target.participants) - fit(id, donor.participants);
+          if (!best || score > best.score) {
+            best = { id, donor, score };
+          }
+        }
       }
-    } catch (error) {
-      console.warn("GA failed, falling back to greedy algorithm:", error);
+      if (!best) break;
+
+      const { id, donor } = best;
+      donor.participants = donor.participants.filter((p) => p !== id);
+      target.participants.push(id);
     }
+    return result;
   }
 
-  // Fallback to greedy algorithm
-  return generateGroupsGreedy(participants, framework, groupSize);
+  // Dissolve: every member joins the group with room they fit best
+  for (const id of target.participants) {
+    const candidates = others.filter(hasRoom);
+    let best: Group | null = null;
+    let bestScore = Number.NEGATIVE_INFINITY;
+    for (const group of candidates.length > 0 ? candidates : others) {
+      const score = fit(id, group.participants);
+      const isSmaller = best !== null && sizeOf(group) < sizeOf(best);
+      if (score > bestScore || (score === bestScore && isSmaller)) {
+        best = group;
+        bestScore = score;
+      }
+    }
+    best?.participants.push(id);
+  }
+  target.participants = [];
+
+  return result;
+}
+
+/**
+ * Adds the pairings of a round to the pair history.
+ * Returns how many of those pairs had already met.
+ */
+function recordPairings(pairHistory: PairHistory, groups: Group[]): number {
+  let repeats = 0;
+  const increment = (a: string, b: string) => {
+    const row = pairHistory.get(a) ?? new Map<string, number>();
+    row.set(b, (row.get(b) ?? 0) + 1);
+    pairHistory.set(a, row);
+  };
+
+  for (const group of groups) {
+    for (let i = 0; i < group.participants.length; i++) {
+      for (let j = i + 1; j < group.participants.length; j++) {
+        const a = group.participants[i];
+        const b = group.participants[j];
+        if ((pairHistory.get(a)?.get(b) ?? 0) > 0) {
+          repeats++;
+        }
+        increment(a, b);
+        increment(b, a);
+      }
+    }
+  }
+
+  return repeats;
+}
+
+/**
+ * Hill-climbs by swapping participants between groups while fitness
+ * improves. Participants with constraints are never swapped, so group sizes
+ * and constraint satisfaction are unaffected.
+ */
+function improveBySwaps(
+  groups: Group[],
+  distanceMatrix: DistanceMatrix,
+  constraintIndex: ConstraintIndex | null,
+  maxPasses = 20
+): Group[] {
+  const result = groups.map((g) => ({ participants: [...g.participants] }));
+  const isSwappable = (id: string) => !hasConstraints(id, constraintIndex);
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    let improved = false;
+
+    for (let gi = 0; gi < result.length; gi++) {
+      for (let gj = gi + 1; gj < result.length; gj++) {
+        const a = result[gi].participants;
+        const b = result[gj].participants;
+
+        for (let i = 0; i < a.length; i++) {
+          for (let j = 0; j < b.length; j++) {
+            if (!isSwappable(a[i]) || !isSwappable(b[j])) continue;
+
+            const before =
+              calculateGroupFitness(a, distanceMatrix) +
+              calculateGroupFitness(b, distanceMatrix);
+            [a[i], b[j]] = [b[j], a[i]];
+            const after =
+              calculateGroupFitness(a, distanceMatrix) +
+              calculateGroupFitness(b, distanceMatrix);
+
+            if (after > before + 1e-9) {
+              improved = true;
+            } else {
+              [a[i], b[j]] = [b[j], a[i]];
+            }
+          }
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return result;
+}
+
+/**
+ * Kernighan–Lin style local search. Each pass repeatedly swaps the best
+ * pair of unlocked participants in different groups, even if the swap
+ * lowers fitness, and locks both; the pass then keeps only the sequence of
+ * swaps up to its highest total gain. Passes repeat while they improve
+ * fitness, so the search can climb out of optima that single improving
+ * swaps get stuck in. As in improveBySwaps, participants with constraints
+ * are never swapped.
+ */
+function* improveByLocalSearch(
+  groups: Group[],
+  distanceMatrix: DistanceMatrix,
+  constraintIndex: ConstraintIndex | null,
+  maxPasses = 20
+): Generator<AlgorithmProgress, Group[]> {
+  if (groups.length < 2) {
+    return groups;
+  }
+
+  let fitness = calculateFitness(groups, distanceMatrix);
+  const state = createSwapState(groups, distanceMatrix);
+  const movable = state.ids.flatMap((id, index) =>
+    hasConstraints(id, constraintIndex) ? [] : [index]
+  );
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    const locked = new Uint8Array(state.ids.length);
+    const swaps: Array<[number, number]> = [];
+    let totalGain = 0;
+    let bestGain = 0;
+    let bestLength = 0;
+
+    while (true) {
+      let best: [number, number] | null = null;
+      let bestSwapGain = Number.NEGATIVE_INFINITY;
+      for (let x = 0; x < movable.length; x++) {
+        const a = movable[x];
+        if (locked[a]) continue;
+        for (let y = x + 1; y < movable.length; y++) {
+          const b = movable[y];
+          if (locked[b] || state.groupOf[a] === state.groupOf[b]) continue;
+          const gain = state.swapGain(a, b);
+          if (gain > bestSwapGain) {
+            best = [a, b];
+            bestSwapGain = gain;
+          }
+        }
+      }
+      if (!best) break;
+
+      state.swap(best[0], best[1]);
+      locked[best[0]] = 1;
+      locked[best[1]] = 1;
+      swaps.push(best);
+      totalGain += bestSwapGain;
+      if (totalGain > bestGain + 1e-9) {
+        bestGain = totalGain;
+        bestLength = swaps.length;
+      }
+    }
+
+    // Undo the swaps after the best point of the pass
+    for (let i = swaps.length - 1; i >= bestLength; i--) {
+      state.swap(swaps[i][0], swaps[i][1]);
+    }
+    fitness += bestGain;
+    yield {
+      algorithm: "local_search",
+      step: pass + 1,
+      totalSteps: maxPasses,
+      bestFitness: fitness,
+    };
+    if (bestLength === 0) break;
+  }
+
+  return state.toGroups();
+}
+
+/**
+ * Bookkeeping for swapping participants between groups of fixed sizes.
+ * Participants are addressed by index into ids.
+ */
+type SwapState = {
+  ids: string[];
+  // Group index of each participant
+  groupOf: Int32Array;
+  // Fitness change of swapping two participants of different groups
+  swapGain: (a: number, b: number) => number;
+  swap: (a: number, b: number) => void;
+  toGroups: () => Group[];
+};
+
+/**
+ * Creates the swap bookkeeping for a group assignment. Keeps every
+ * participant's summed score to the members of each group, so the fitness
+ * change of a swap takes constant time and applying it linear time.
+ */
+function createSwapState(
+  groups: Group[],
+  distanceMatrix: DistanceMatrix
+): SwapState {
+  const ids = groups.flatMap((g) => g.participants);
+  const n = ids.length;
+  const groupCount = groups.length;
+
+  const score = new Float64Array(n * n);
+  const index = ids.map((id) => distanceMatrix.indexOf.get(id) ?? -1);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      if (i !== j && index[i] >= 0 && index[j] >= 0) {
+        score[i * n + j] = getDistanceAt(distanceMatrix, index[i], index[j]);
+      }
+    }
+  }
+
+  const groupOf = new Int32Array(n);
+  let offset = 0;
+  groups.forEach((g, index) => {
+    groupOf.fill(index, offset, offset + g.participants.length);
+    offset += g.participants.length;
+  });
+
+  // Fitness weight of a group's pair scores: one over its number of pairs
+  const weight = groups.map((g) => {
+    const size = g.participants.length;
+    return size > 1 ? 2 / (size * (size - 1)) : 0;
+  });
+
+  // Summed score of each participant to the members of each group
+  const toGroup = new Float64Array(n * groupCount);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      toGroup[i * groupCount + groupOf[j]] += score[i * n + j];
+    }
+  }
+
+  return {
+    ids,
+    groupOf,
+    swapGain: (a, b) => {
+      const groupA = groupOf[a];
+      const groupB = groupOf[b];
+      const pair = score[a * n + b];
+      return (
+        weight[groupA] *
+          (toGroup[b * groupCount + groupA] -
+            pair -
+            toGroup[a * groupCount + groupA]) +
+        weight[groupB] *
+          (toGroup[a * groupCount + groupB] -
+            pair -
+            toGroup[b * groupCount + groupB])
+      );
+    },
+    swap: (a, b) => {
+      const groupA = groupOf[a];
+      const groupB = groupOf[b];
+      for (let x = 0; x < n; x++) {
+        const change = score[x * n + b] - score[x * n + a];
+        toGroup[x * groupCount + groupA] += change;
+        toGroup[x * groupCount + groupB] -= change;
+      }
+      groupOf[a] = groupB;
+      groupOf[b] = groupA;
+    },
+    toGroups: () => {
+      const result: Group[] = groups.map(() => ({ participants: [] }));
+      for (let i = 0; i < n; i++) {
+        result[groupOf[i]].participants.push(ids[i]);
+      }
+      return result;
+    },
+  };
+}
+
+/**
+ * Builds the pairwise scores all algorithms maximize: (weighted) cultural
+ * distances transformed by the grouping objective, plus weighted attribute
+ * differences, minus repeat pairing penalties.
+ */
+function buildObjectiveMatrix(
+  participants: ParticipantWithScores[],
+  framework: Framework,
+  options: GroupingOptions
+): DistanceMatrix {
+  const maxDistance = getMaxCulturalDistance(framework, options.distance);
+  return applyPairHistory(
+    applyAttributes(
+      applyObjective(
+        generateDistanceMatrix(participants, framework, options.distance),
+        options.objective,
+        maxDistance
+      ),
+      participants,
+      options.attributes,
+      maxDistance
+    ),
+    options.pairHistory,
+    getRepeatPairPenalty(maxDistance, options.attributes)
+  );
+}
+
+/**
+ * Transforms distances so that maximizing them meets the objective:
+ * - maximize: distances unchanged
+ * - minimize: negated, so close pairs score highest
+ * - target: negated distance to the band, so pairs inside the band score 0
+ *   and pairs outside lose the further they are from it
+ */
+function applyObjective(
+  distanceMatrix: DistanceMatrix,
+  objective: GroupingObjective | undefined,
+  maxDistance: number
+): DistanceMatrix {
+  const transform = getObjectiveTransform(objective, maxDistance);
+  return transform ? mapDistances(distanceMatrix, transform) : distanceMatrix;
+}
+
+/**
+ * Returns the objective's transformation of a distance (see
+ * applyObjective), or null if distances are maximized unchanged
+ */
+function getObjectiveTransform(
+  objective: GroupingObjective | undefined,
+  maxDistance: number
+): ((distance: number) => number) | null {
+  if (!objective || objective.type === "maximize") {
+    return null;
+  }
+
+  const low =
+    objective.type === "target"
+      ? (objective.minPercent / 100) * maxDistance
+      : 0;
+  const high =
+    objective.type === "target"
+      ? (objective.maxPercent / 100) * maxDistance
+      : 0;
+
+  return (distance) =>
+    objective.type === "minimize"
+      ? -distance
+      : -Math.max(0, low - distance, distance - high);
+}
+
+/**
+ * Raises the score of pairs that differ in weighted attributes, so the
+ * algorithms mix them within groups regardless of the objective.
+ * Participants keep sharing a row if they share both their cultural
+ * profile and their weighted answers. Returns the matrix unchanged if no
+ * attribute has a weight.
+ */
+function applyAttributes(
+  distanceMatrix: DistanceMatrix,
+  participants: ParticipantWithScores[],
+  attributes: ParticipantAttribute[] | null | undefined,
+  maxDistance: number
+): DistanceMatrix {
+  const scorer = createAttributeScorer(
+    attributes,
+    participants.map((p) => p.attributes),
+    maxDistance
+  );
+  if (!scorer) {
+    return distanceMatrix;
+  }
+
+  // One row per combination of cultural row and weighted answers,
+  // represented by its first participant
+  const rows = new Map<string, number>();
+  const representatives: number[] = [];
+  const rowOf = new Int32Array(participants.length);
+  participants.forEach((participant, index) => {
+    const key = `${distanceMatrix.rowOf[index]}:${scorer.getKey(participant.attributes)}`;
+    let row = rows.get(key);
+    if (row === undefined) {
+      row = representatives.length;
+      representatives.push(index);
+      rows.set(key, row);
+    }
+    rowOf[index] = row;
+  });
+
+  const size = representatives.length;
+  const values = new Float64Array(size * size);
+  for (let i = 0; i < size; i++) {
+    const a = representatives[i];
+    for (let j = 0; j < size; j++) {
+      const b = representatives[j];
+      values[i * size + j] =
+        distanceMatrix.values[
+          distanceMatrix.rowOf[a] * distanceMatrix.size +
+            distanceMatrix.rowOf[b]
+        ] +
+        scorer.getBonus(participants[a].attributes, participants[b].attributes);
+    }
+  }
+
+  return {
+    ids: distanceMatrix.ids,
+    indexOf: distanceMatrix.indexOf,
+    rowOf,
+    size,
+    values,
+  };
+}
+
+/**
+ * Returns the score subtracted from a pair per earlier meeting. It exceeds
+ * the difference between any two pair scores, the maximum distance for the
+ * framework and metric plus the largest attribute bonus, so a new pairing
+ * is always preferred over a repeat.
+ */
+function getRepeatPairPenalty(
+  maxDistance: number,
+  attributes: ParticipantAttribute[] | null | undefined
+): number {
+  return (
+    REPEAT_PAIR_PENALTY *
+    (maxDistance + getMaxAttributeBonus(attributes, maxDistance))
+  );
+}
+
+/**
+ * Lowers the distance of pairs that already met, so the algorithms avoid
+ * grouping them again. Returns the matrix unchanged without history.
+ */
+function applyPairHistory(
+  distanceMatrix: DistanceMatrix,
+  pairHistory: PairHistory | undefined,
+  penalty: number
+): DistanceMatrix {
+  if (!pairHistory || pairHistory.size === 0) {
+    return distanceMatrix;
+  }
+
+  // Pairs are penalized individually, so every participant needs a row
+  const adjusted = expandDistanceMatrix(distanceMatrix);
+  for (const [a, meetings] of pairHistory) {
+    const indexA = adjusted.indexOf.get(a);
+    if (indexA === undefined) continue;
+    for (const [b, count] of meetings) {
+      const indexB = adjusted.indexOf.get(b);
+      if (indexB === undefined || indexA === indexB) continue;
+      adjusted.values[indexA * adjusted.size + indexB] -= penalty * count;
+    }
+  }
+  return adjusted;
 }
 
 /**
- * Forms a maximally diverse group from candidate participants.
+ * Forms a maximally diverse group of the given size from candidate participants.
  */
 function formMaxDiverseGroup(
   candidates: string[],
-  distanceMatrix: Map<string, Map<string, number>>,
-  targetSize: number,
-  flexible: boolean,
-  assignedCount: number,
-  totalCount: number
+  distanceMatrix: DistanceMatrix,
+  size: number
 ): string[] {
   const group: string[] = [];
 
@@ -108,20 +1107,7 @@ function formMaxDiverseGroup(
   // Add participants that maximize diversity
   const remaining = candidates.filter((id) => id !== first);
 
-  while (group.length < targetSize && remaining.length > 0) {
-    // For flexible groups, check if we should stop at 3
-    if (flexible && group.length === 3) {
-      const remainingAfterThis = totalCount - assignedCount - group.length - 1;
-      // If remainder would create groups that are too unbalanced, prefer 4
-      // Otherwise, 3 is acceptable
-      if (remainingAfterThis >= 3) {
-        // Can afford another participant
-      } else {
-        // Better to stop at 3
-        break;
-      }
-    }
-
+  while (group.length < size && remaining.length > 0) {
     // Find participant that maximizes minimum distance to current group
     const next = findMostDistantParticipant(group, remaining, distanceMatrix);
     group.push(next);
@@ -137,7 +1123,7 @@ function formMaxDiverseGroup(
  */
 function selectInitialParticipant(
   candidates: string[],
-  distanceMatrix: Map<string, Map<string, number>>
+  distanceMatrix: DistanceMatrix
 ): string {
   if (candidates.length === 1) return candidates[0];
 
@@ -145,15 +1131,14 @@ function selectInitialParticipant(
   let bestCandidate = candidates[0];
 
   for (const candidate of candidates) {
-    const distances = distanceMatrix.get(candidate);
-    if (!distances) continue;
+    if (!distanceMatrix.indexOf.has(candidate)) continue;
 
     let sum = 0;
     let count = 0;
 
     for (const other of candidates) {
       if (other === candidate) continue;
-      const dist = distances.get(other) ?? 0;
+      const dist = getDistance(distanceMatrix, candidate, other);
       sum += dist;
       count++;
     }
@@ -175,20 +1160,19 @@ function selectInitialParticipant(
 function findMostDistantParticipant(
   group: string[],
   candidates: string[],
-  distanceMatrix: Map<string, Map<string, number>>
+  distanceMatrix: DistanceMatrix
 ): string {
   let maxMinDistance = -1;
   let bestCandidate = candidates[0];
 
   for (const candidate of candidates) {
-    const distances = distanceMatrix.get(candidate);
-    if (!distances) continue;
+    if (!distanceMatrix.indexOf.has(candidate)) continue;
 
     // Find minimum distance to any participant in current group
     let minDistance = Infinity;
 
     for (const groupMember of group) {
-      const dist = distances.get(groupMember) ?? 0;
+      const dist = getDistance(distanceMatrix, candidate, groupMember);
       minDistance = Math.min(minDistance, dist);
     }
 
@@ -205,17 +1189,14 @@ function findMostDistantParticipant(
 /**
  * Greedy algorithm implementation (fallback method)
  */
-function generateGroupsGreedy(
-  participants: ParticipantWithScores[],
-  framework: Framework,
-  groupSize: number | null
-): Group[] | undefined {
-  // Generate distance matrix
-  const distanceMatrix = generateDistanceMatrix(participants, framework);
-
-  // Determine target group size
-  const targetSize = groupSize ?? 4; // Default to 4 for flexible
-  const flexible = groupSize === null;
+function generateGroupsGreedy({
+  participants,
+  sizing,
+  scores: distanceMatrix,
+  constraintIndex,
+}: GroupingContext): Group[] | undefined {
+  // Plan balanced group sizes up front
+  const sizes = planGroupSizes(participants.length, sizing);
 
   // Sort participants by ID for determinism
   const sortedParticipants = [...participants].sort((a, b) =>
@@ -227,20 +1208,13 @@ function generateGroupsGreedy(
   const assigned = new Set<string>();
   const participantIds = sortedParticipants.map((p) => p.id);
 
-  while (assigned.size < participantIds.length) {
+  for (const size of sizes) {
     const remaining = participantIds.filter((id) => !assigned.has(id));
 
     if (remaining.length === 0) break;
 
     // Start new group with most distant unassigned participants
-    const group = formMaxDiverseGroup(
-      remaining,
-      distanceMatrix,
-      targetSize,
-      flexible,
-      assigned.size,
-      participantIds.length
-    );
+    const group = formMaxDiverseGroup(remaining, distanceMatrix, size);
 
     groups.push({ participants: group });
     group.forEach((id) => {
@@ -248,42 +1222,62 @@ function generateGroupsGreedy(
     });
   }
 
+  if (constraintIndex) {
+    // Greedy selection ignores constraints; repair afterwards
+    return repairConstraints(
+      groups,
+      sizes,
+      constraintIndex,
+      createSeededRNG("greedy")
+    );
+  }
+
   return groups;
 }
 
 /**
  * Generates groups using Genetic Algorithm for global diversity maximization
  */
-function generateGroupsWithGA(
-  participants: ParticipantWithScores[],
-  framework: Framework,
-  groupSize: number | null,
-  seed: string,
-  config: GAConfig = DEFAULT_GA_CONFIG
-): Group[] | undefined {
+function* generateGroupsWithGA({
+  participants,
+  sizing,
+  scores: distanceMatrix,
+  constraintIndex,
+  seed,
+  parameters,
+}: GroupingContext): Generator<AlgorithmProgress, Group[] | undefined> {
   if (participants.length < 3) {
     return undefined;
   }
 
-  const distanceMatrix = generateDistanceMatrix(participants, framework);
+  const config: GAConfig = {
+    ...DEFAULT_GA_CONFIG,
+    populationSize:
+      parameters.populationSize ?? DEFAULT_GA_CONFIG.populationSize,
+    generations: parameters.generations ?? DEFAULT_GA_CONFIG.generations,
+    timeoutMs: parameters.timeoutMs ?? DEFAULT_GA_CONFIG.timeoutMs,
+  };
   const rng = createSeededRNG(seed);
-  const startTime = Date.now();
+  // Time spent computing, excluding pauses between steps
+  let elapsedMs = 0;
+  let resumedAt = Date.now();
 
   // Initialize population
   let population = initializePopulation(
     participants,
-    groupSize,
+    sizing,
     config.populationSize,
-    rng
+    rng,
+    constraintIndex
   );
 
   // Evaluate initial fitness
-  population = evaluatePopulation(population, distanceMatrix);
+  population = evaluatePopulation(population, distanceMatrix, constraintIndex);
 
   // Evolve population
   for (let generation = 0; generation < config.generations; generation++) {
     // Check timeout
-    if (Date.now() - startTime > config.timeoutMs) {
+    if (elapsedMs + Date.now() - resumedAt > config.timeoutMs) {
       console.warn("GA timeout, using best solution so far");
       break;
     }
@@ -304,15 +1298,35 @@ function generateGroupsWithGA(
         parent1,
         parent2,
         participants,
-        groupSize,
-        rng
+        sizing,
+        rng,
+        constraintIndex
+      );
+      const mutated = mutate(
+        offspring,
+        config.mutationRate,
+        sizing,
+        rng,
+        constraintIndex
       );
-      const mutated = mutate(offspring, config.mutationRate, groupSize, rng);
       newPopulation.push(mutated);
     }
 
     // Evaluate new population
-    population = evaluatePopulation(newPopulation, distanceMatrix);
+    population = evaluatePopulation(
+      newPopulation,
+      distanceMatrix,
+      constraintIndex
+    );
+
+    elapsedMs += Date.now() - resumedAt;
+    yield {
+      algorithm: "genetic",
+      step: generation + 1,
+      totalSteps: config.generations,
+      bestFitness: Math.max(...population.map((c) => c.fitness)),
+    };
+    resumedAt = Date.now();
   }
 
   // Sort final population and return best solution
@@ -320,36 +1334,136 @@ function generateGroupsWithGA(
   return population[0]?.groups;
 }
 
+/**
+ * Generates groups using simulated annealing. Starts from a seeded random
+ * assignment (with constraints repaired) and tries random swaps of
+ * participants without constraints: improving swaps are always accepted,
+ * worse ones with probability exp(gain / temperature). The temperature
+ * starts at initialTemperature times the average pair score magnitude and
+ * cools geometrically over a fixed number of iterations, so results are
+ * deterministic for a seed. Returns the best assignment seen.
+ */
+function* generateGroupsWithAnnealing({
+  participants,
+  sizing,
+  scores,
+  constraintIndex,
+  seed,
+  parameters,
+}: GroupingContext): Generator<AlgorithmProgress, Group[] | undefined> {
+  const iterations =
+    parameters.iterations ?? DEFAULT_ALGORITHM_PARAMETERS.iterations;
+  const initialTemperature =
+    parameters.initialTemperature ??
+    DEFAULT_ALGORITHM_PARAMETERS.initialTemperature;
+
+  const rng = createSeededRNG(seed);
+  const start = createRandomGroups(participants, sizing, rng, constraintIndex);
+  const state = createSwapState(start, scores);
+  const movable = state.ids.flatMap((id, index) =>
+    hasConstraints(id, constraintIndex) ? [] : [index]
+  );
+  if (start.length < 2 || movable.length < 2) {
+    return start;
+  }
+
+  // Average magnitude of the scores of distinct participants
+  let magnitude = 0;
+  let pairs = 0;
+  for (let i = 0; i < scores.ids.length; i++) {
+    for (let j = 0; j < scores.ids.length; j++) {
+      if (i === j) continue;
+      magnitude += Math.abs(getDistanceAt(scores, i, j));
+      pairs++;
+    }
+  }
+  let temperature = initialTemperature * (pairs > 0 ? magnitude / pairs : 1);
+  const cooling = FINAL_TEMPERATURE_RATIO ** (1 / iterations);
+
+  // Fitness relative to the start, which is reported in absolute terms
+  const startFitness = calculateFitness(start, scores);
+  let fitness = 0;
+  let bestFitness = 0;
+  let best = start;
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const a = movable[Math.floor(rng() * movable.length)];
+    const b = movable[Math.floor(rng() * movable.length)];
+    if (state.groupOf[a] !== state.groupOf[b]) {
+      const gain = state.swapGain(a, b);
+      if (
+        gain >= 0 ||
+        (temperature > 0 && rng() < Math.exp(gain / temperature))
+      ) {
+        state.swap(a, b);
+        fitness += gain;
+        if (fitness > bestFitness + 1e-9) {
+          bestFitness = fitness;
+          best = state.toGroups();
+        }
+      }
+    }
+    temperature *= cooling;
+
+    if ((iteration + 1) % ANNEALING_PROGRESS_INTERVAL === 0) {
+      yield {
+        algorithm: "annealing",
+        step: iteration + 1,
+        totalSteps: iterations,
+        bestFitness: startFitness + bestFitness,
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Average pairwise distance between the members of a single group.
+ * Groups with fewer than two members score 0.
+ *
+ * @param participantIds - IDs of the group members
+ * @param distanceMatrix - Pairwise participant distances
+ * @returns Average intra-group distance
+ */
+export function calculateGroupFitness(
+  participantIds: string[],
+  distanceMatrix: DistanceMatrix
+): number {
+  const indices = participantIds.map((id) => distanceMatrix.indexOf.get(id));
+  let sum = 0;
+  let pairs = 0;
+
+  // Sum all pairwise distances within the group
+  for (let i = 0; i < indices.length; i++) {
+    for (let j = i + 1; j < indices.length; j++) {
+      const a = indices[i];
+      const b = indices[j];
+      if (a !== undefined && b !== undefined) {
+        sum += getDistanceAt(distanceMatrix, a, b);
+      }
+      pairs++;
+    }
+  }
+
+  return pairs > 0 ? sum / pairs : 0;
+}
+
 /**
  * Fitness function: Sum of average intra-group distances
  * Higher fitness = more diverse groups
+ *
+ * @param groups - Group assignment to score
+ * @param distanceMatrix - Pairwise participant distances
+ * @returns Total fitness of the assignment
  */
-function calculateFitness(
+export function calculateFitness(
   groups: Group[],
-  distanceMatrix: Map<string, Map<string, number>>
+  distanceMatrix: DistanceMatrix
 ): number {
   let totalFitness = 0;
 
   for (const group of groups) {
-    const distances: number[] = [];
-    const participantIds = group.participants;
-
-    // Calculate all pairwise distances within the group
-    for (let i = 0; i < participantIds.length; i++) {
-      for (let j = i + 1; j < participantIds.length; j++) {
-        const dist =
-          distanceMatrix.get(participantIds[i])?.get(participantIds[j]) ?? 0;
-        distances.push(dist);
-      }
-    }
-
-    // Average distance within this group
-    const avgDistance =
-      distances.length > 0
-        ? distances.reduce((sum, d) => sum + d, 0) / distances.length
-        : 0;
-
-    totalFitness += avgDistance;
+    totalFitness += calculateGroupFitness(group.participants, distanceMatrix);
   }
 
   return totalFitness;
@@ -360,14 +1474,20 @@ function calculateFitness(
  */
 function initializePopulation(
   participants: ParticipantWithScores[],
-  groupSize: number | null,
+  sizing: GroupSizing,
   populationSize: number,
-  rng: SeededRNG
+  rng: SeededRNG,
+  constraintIndex: ConstraintIndex | null = null
 ): Chromosome[] {
   const population: Chromosome[] = [];
 
   for (let i = 0; i < populationSize; i++) {
-    const groups = createRandomGroups(participants, groupSize, rng);
+    const groups = createRandomGroups(
+      participants,
+      sizing,
+      rng,
+      constraintIndex
+    );
     population.push({
       groups,
       fitness: 0, // Evaluated later
@@ -382,46 +1502,23 @@ function initializePopulation(
  */
 function createRandomGroups(
   participants: ParticipantWithScores[],
-  groupSize: number | null,
-  rng: SeededRNG
+  sizing: GroupSizing,
+  rng: SeededRNG,
+  constraintIndex: ConstraintIndex | null = null
 ): Group[] {
   const participantIds = [...participants].map((p) => p.id);
-  const shuffled = [...participantIds].sort(() => rng() - 0.5);
-
-  const groups: Group[] = [];
-  const targetSize = groupSize ?? 4;
-  const flexible = groupSize === null;
-
-  let currentIndex = 0;
+  // Shuffle must-link units rather than individuals to keep them adjacent
+  const shuffled = flattenUnits(
+    [...participantIds].sort(() => rng() - 0.5),
+    constraintIndex
+  );
 
-  while (currentIndex < shuffled.length) {
-    const remaining = shuffled.length - currentIndex;
-    let size = targetSize;
+  const sizes = planGroupSizes(shuffled.length, sizing);
+  const groups = splitIntoGroups(shuffled, sizes);
 
-    // For flexible groups, decide size based on remainder
-    if (flexible) {
-      if (remaining <= 3) {
-        size = remaining; // Use all remaining
-      } else if (remaining === 4 || remaining === 5) {
-        size = 3; // Prefer 3 to avoid very small groups
-      } else {
-        size = rng() < 0.5 ? 3 : 4; // Random 3 or 4
-      }
-    } else {
-      // Fixed size, but handle remainder
-      if (remaining < targetSize) {
-        size = remaining;
-      }
-    }
-
-    const group: Group = {
-      participants: shuffled.slice(currentIndex, currentIndex + size),
-    };
-    groups.push(group);
-    currentIndex += size;
-  }
-
-  return groups;
+  return constraintIndex
+    ? repairConstraints(groups, sizes, constraintIndex, rng)
+    : groups;
 }
 
 /**
@@ -429,12 +1526,23 @@ function createRandomGroups(
  */
 function evaluatePopulation(
   population: Chromosome[],
-  distanceMatrix: Map<string, Map<string, number>>
+  distanceMatrix: DistanceMatrix,
+  constraintIndex: ConstraintIndex | null = null
 ): Chromosome[] {
-  return population.map((chromosome) => ({
-    ...chromosome,
-    fitness: calculateFitness(chromosome.groups, distanceMatrix),
-  }));
+  return population.map((chromosome) => {
+    const violations = constraintIndex
+      ? findUnsatisfiedConstraints(
+          chromosome.groups,
+          constraintIndex.constraints
+        ).length
+      : 0;
+    return {
+      ...chromosome,
+      fitness:
+        calculateFitness(chromosome.groups, distanceMatrix) -
+        violations * CONSTRAINT_PENALTY,
+    };
+  });
 }
 
 /**
@@ -462,8 +1570,9 @@ function crossover(
   parent1: Chromosome,
   parent2: Chromosome,
   participants: ParticipantWithScores[],
-  groupSize: number | null,
-  rng: SeededRNG
+  sizing: GroupSizing,
+  rng: SeededRNG,
+  constraintIndex: ConstraintIndex | null = null
 ): Chromosome {
   // Use parent1 as base, then swap some participants from parent2
   const allParticipants = new Set(participants.map((p) => p.id));
@@ -507,7 +1616,12 @@ function crossover(
       );
       if (unassigned.length > 0 && childGroups.length > 0) {
         const participant = unassigned[Math.floor(rng() * unassigned.length)];
-        const targetGroupIdx = Math.floor(rng() * childGroups.length);
+        const targetGroupIdx = pickTargetGroup(
+          childGroups,
+          participant,
+          rng,
+          constraintIndex
+        );
         childGroups[targetGroupIdx].participants.push(participant);
         assignedInChild.add(participant);
       }
@@ -522,22 +1636,35 @@ function crossover(
     if (childGroups.length === 0) {
       childGroups.push({ participants: [] });
     }
-    const targetGroupIdx = Math.floor(rng() * childGroups.length);
+    const targetGroupIdx = pickTargetGroup(
+      childGroups,
+      participant,
+      rng,
+      constraintIndex
+    );
     childGroups[targetGroupIdx].participants.push(participant);
   }
 
   // Validate and fix group sizes
-  return validateAndFixGroups(childGroups, participants, groupSize, rng);
+  return validateAndFixGroups(
+    childGroups,
+    participants,
+    sizing,
+    rng,
+    constraintIndex
+  );
 }
 
 /**
- * Mutation: Randomly reassign participants to different groups
+ * Mutation: Randomly reassign participants to different groups.
+ * Must-link units move together and avoid groups with cannot-link conflicts.
  */
 function mutate(
   chromosome: Chromosome,
   mutationRate: number,
-  groupSize: number | null,
-  rng: SeededRNG
+  sizing: GroupSizing,
+  rng: SeededRNG,
+  constraintIndex: ConstraintIndex | null = null
 ): Chromosome {
   if (rng() > mutationRate) {
     return chromosome;
@@ -565,17 +1692,22 @@ function mutate(
   );
 
   if (sourceGroupIdx >= 0 && mutatedGroups.length > 1) {
-    // Remove from source group
-    mutatedGroups[sourceGroupIdx].participants = mutatedGroups[
-      sourceGroupIdx
-    ].participants.filter((p) => p !== participant);
+    const unit = getUnit(participant, constraintIndex);
 
-    // Add to random target group (different from source)
-    let targetGroupIdx = Math.floor(rng() * mutatedGroups.length);
-    if (targetGroupIdx === sourceGroupIdx) {
-      targetGroupIdx = (targetGroupIdx + 1) % mutatedGroups.length;
+    // Remove the participant's unit from every group
+    for (const g of mutatedGroups) {
+      g.participants = g.participants.filter((p) => !unit.includes(p));
     }
-    mutatedGroups[targetGroupIdx].participants.push(participant);
+
+    // Add to a target group (different from source)
+    const targetGroupIdx = pickTargetGroup(
+      mutatedGroups,
+      participant,
+      rng,
+      constraintIndex,
+      sourceGroupIdx
+    );
+    mutatedGroups[targetGroupIdx].participants.push(...unit);
   }
 
   // Validate and fix group sizes
@@ -583,25 +1715,26 @@ function mutate(
     groups: validateAndFixGroups(
       mutatedGroups,
       allParticipants.map((id) => ({ id, culturalScores: {} })),
-      groupSize,
-      rng
+      sizing,
+      rng,
+      constraintIndex
     ).groups,
     fitness: 0, // Will be recalculated
   };
 }
 
 /**
- * Validate and fix group sizes to meet constraints
+ * Validate and fix group sizes to meet constraints, then repair
+ * must-link / cannot-link violations where possible
  */
 function validateAndFixGroups(
   groups: Group[],
   participants: ParticipantWithScores[],
-  groupSize: number | null,
-  rng: SeededRNG
+  sizing: GroupSizing,
+  rng: SeededRNG,
+  constraintIndex: ConstraintIndex | null = null
 ): Chromosome {
   const allParticipantIds = new Set(participants.map((p) => p.id));
-  const targetSize = groupSize ?? 4;
-  const flexible = groupSize === null;
 
   // Collect all participants from groups
   const assigned = new Set<string>();
@@ -626,47 +1759,423 @@ function validateAndFixGroups(
     if (validGroups.length === 0) {
       validGroups.push({ participants: [] });
     }
-    const targetGroupIdx = Math.floor(rng() * validGroups.length);
+    const targetGroupIdx = pickTargetGroup(
+      validGroups,
+      participant,
+      rng,
+      constraintIndex
+    );
     validGroups[targetGroupIdx].participants.push(participant);
   }
 
-  // Redistribute to meet size constraints
-  const allParticipants: string[] = [];
-  validGroups.forEach((g) => {
-    allParticipants.push(...g.participants);
-  });
+  // Redistribute to meet size constraints, keeping must-link units adjacent
+  const allParticipants = flattenUnits(
+    validGroups.flatMap((g) => g.participants),
+    constraintIndex
+  );
+
+  const sizes = planGroupSizes(allParticipants.length, sizing);
+  const redistributed = splitIntoGroups(allParticipants, sizes);
+
+  return {
+    groups: constraintIndex
+      ? repairConstraints(redistributed, sizes, constraintIndex, rng)
+      : redistributed,
+    fitness: 0, // Will be recalculated
+  };
+}
 
-  const redistributed: Group[] = [];
+/**
+ * Splits an ordered list of participant IDs into consecutive groups
+ */
+function splitIntoGroups(participantIds: string[], sizes: number[]): Group[] {
+  const groups: Group[] = [];
   let currentIndex = 0;
+  for (const size of sizes) {
+    groups.push({
+      participants: participantIds.slice(currentIndex, currentIndex + size),
+    });
+    currentIndex += size;
+  }
+  return groups;
+}
+
+/**
+ * Lists the constraints a group assignment violates.
+ * A must-link constraint is also unsatisfied if either participant is
+ * missing from the assignment.
+ *
+ * @param groups - Group assignment to check
+ * @param constraints - Constraints to check against
+ * @returns Constraints that are not satisfied
+ */
+export function findUnsatisfiedConstraints(
+  groups: Group[],
+  constraints: GroupingConstraint[]
+): GroupingConstraint[] {
+  const groupOf = new Map<string, number>();
+  groups.forEach((g, idx) => {
+    for (const id of g.participants) {
+      groupOf.set(id, idx);
+    }
+  });
 
-  while (currentIndex < allParticipants.length) {
-    const remaining = allParticipants.length - currentIndex;
-    let size = targetSize;
+  return constraints.filter((constraint) => {
+    const groupA = groupOf.get(constraint.participantAId);
+    const groupB = groupOf.get(constraint.participantBId);
 
-    if (flexible) {
-      if (remaining <= 3) {
-        size = remaining;
-      } else if (remaining === 4 || remaining === 5) {
-        size = 3;
-      } else {
-        size = rng() < 0.5 ? 3 : 4;
-      }
+    if (constraint.type === "must_link") {
+      return groupA === undefined || groupA !== groupB;
+    }
+    return groupA !== undefined && groupA === groupB;
+  });
+}
+
+/**
+ * Builds the constraint lookup, ignoring constraints on unknown participants.
+ * Returns null when there are no applicable constraints.
+ */
+function buildConstraintIndex(
+  constraints: GroupingConstraint[],
+  participants: ParticipantWithScores[]
+): ConstraintIndex | null {
+  const knownIds = new Set(participants.map((p) => p.id));
+  const applicable = constraints.filter(
+    (c) =>
+      c.participantAId !== c.participantBId &&
+      knownIds.has(c.participantAId) &&
+      knownIds.has(c.participantBId)
+  );
+
+  if (applicable.length === 0) {
+    return null;
+  }
+
+  // Union-find over must-link pairs to form units
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const p = parent.get(id) ?? id;
+    if (p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+
+  const conflicts = new Map<string, Set<string>>();
+  for (const c of applicable) {
+    if (c.type === "must_link") {
+      const rootA = find(c.participantAId);
+      const rootB = find(c.participantBId);
+      parent.set(rootA, rootB);
+      parent.set(rootB, rootB);
     } else {
-      if (remaining < targetSize) {
-        size = remaining;
+      const a = conflicts.get(c.participantAId) ?? new Set<string>();
+      a.add(c.participantBId);
+      conflicts.set(c.participantAId, a);
+      const b = conflicts.get(c.participantBId) ?? new Set<string>();
+      b.add(c.participantAId);
+      conflicts.set(c.participantBId, b);
+    }
+  }
+
+  const components = new Map<string, string[]>();
+  for (const id of parent.keys()) {
+    const root = find(id);
+    const members = components.get(root) ?? [];
+    members.push(id);
+    components.set(root, members);
+  }
+
+  const units = new Map<string, string[]>();
+  for (const members of components.values()) {
+    if (members.length < 2) continue;
+    const sorted = [...members].sort();
+    for (const id of sorted) {
+      units.set(id, sorted);
+    }
+  }
+
+  return { constraints: applicable, units, conflicts };
+}
+
+/**
+ * Checks whether a participant is part of any constraint
+ */
+function hasConstraints(
+  participantId: string,
+  constraintIndex: ConstraintIndex | null
+): boolean {
+  return (
+    !!constraintIndex &&
+    (constraintIndex.units.has(participantId) ||
+      constraintIndex.conflicts.has(participantId))
+  );
+}
+
+/**
+ * Returns the must-link unit containing a participant (itself if unlinked)
+ */
+function getUnit(
+  participantId: string,
+  constraintIndex: ConstraintIndex | null
+): string[] {
+  return constraintIndex?.units.get(participantId) ?? [participantId];
+}
+
+/**
+ * Checks whether a participant must not share a group with any of the members
+ */
+function hasConflict(
+  participantId: string,
+  members: string[],
+  constraintIndex: ConstraintIndex | null
+): boolean {
+  const conflicts = constraintIndex?.conflicts.get(participantId);
+  return conflicts ? members.some((id) => conflicts.has(id)) : false;
+}
+
+/**
+ * Reorders participant IDs so each must-link unit is contiguous,
+ * placed at the position of its first member
+ */
+function flattenUnits(
+  participantIds: string[],
+  constraintIndex: ConstraintIndex | null
+): string[] {
+  if (!constraintIndex) {
+    return participantIds;
+  }
+
+  const seen = new Set<string>();
+  const ordered: string[] = [];
+  for (const id of participantIds) {
+    if (seen.has(id)) continue;
+    for (const member of getUnit(id, constraintIndex)) {
+      if (participantIds.includes(member) && !seen.has(member)) {
+        seen.add(member);
+        ordered.push(member);
       }
     }
+  }
+  return ordered;
+}
 
-    redistributed.push({
-      participants: allParticipants.slice(currentIndex, currentIndex + size),
-    });
-    currentIndex += size;
+/**
+ * Picks a group index for a participant: the group already holding one of
+ * its must-link partners, otherwise a random group without cannot-link
+ * conflicts (falling back to any group).
+ */
+function pickTargetGroup(
+  groups: Group[],
+  participantId: string,
+  rng: SeededRNG,
+  constraintIndex: ConstraintIndex | null,
+  excludeIdx?: number
+): number {
+  const candidates = groups
+    .map((_, idx) => idx)
+    .filter((idx) => idx !== excludeIdx || groups.length === 1);
+
+  if (constraintIndex) {
+    const unit = getUnit(participantId, constraintIndex);
+    const partnerGroup = candidates.find((idx) =>
+      groups[idx].participants.some(
+        (id) => id !== participantId && unit.includes(id)
+      )
+    );
+    if (partnerGroup !== undefined) {
+      return partnerGroup;
+    }
+
+    const conflictFree = candidates.filter(
+      (idx) =>
+        !unit.some((id) =>
+          hasConflict(id, groups[idx].participants, constraintIndex)
+        )
+    );
+    if (conflictFree.length > 0) {
+      return conflictFree[Math.floor(rng() * conflictFree.length)];
+    }
   }
 
-  return {
-    groups: redistributed,
-    fitness: 0, // Will be recalculated
+  return candidates[Math.floor(rng() * candidates.length)];
+}
+
+/**
+ * Repairs constraint violations in place of random search.
+ * Gathers each must-link unit into the group holding most of its members,
+ * then separates cannot-link pairs by swapping with unlinked participants
+ * of other groups. Swaps keep group sizes stable; violations that cannot be
+ * resolved are left for the fitness penalty and reporting. Finally, group
+ * sizes are brought back within the planned sizes.
+ */
+function repairConstraints(
+  groups: Group[],
+  sizes: number[],
+  constraintIndex: ConstraintIndex,
+  rng: SeededRNG
+): Group[] {
+  const repaired = groups.map((g) => ({ participants: [...g.participants] }));
+  const groupIdxOf = (id: string) =>
+    repaired.findIndex((g) => g.participants.includes(id));
+  const isFree = (id: string) => getUnit(id, constraintIndex).length === 1;
+
+  // Gather must-link units
+  const handledUnits = new Set<string[]>();
+  for (const unit of constraintIndex.units.values()) {
+    if (handledUnits.has(unit)) continue;
+    handledUnits.add(unit);
+
+    const counts = new Map<number, number>();
+    for (const id of unit) {
+      const idx = groupIdxOf(id);
+      if (idx >= 0) counts.set(idx, (counts.get(idx) ?? 0) + 1);
+    }
+    const home = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+    if (home === undefined) continue;
+
+    for (const id of unit) {
+      const source = groupIdxOf(id);
+      if (source < 0 || source === home) continue;
+
+      repaired[source].participants = repaired[source].participants.filter(
+        (p) => p !== id
+      );
+      // Send a free member of the home group back to keep sizes stable,
+      // preferring one without conflicts in the source group
+      const freeMembers = repaired[home].participants.filter(isFree);
+      const swapOut =
+        freeMembers.find(
+          (p) => !hasConflict(p, repaired[source].participants, constraintIndex)
+        ) ?? freeMembers[0];
+      if (swapOut) {
+        repaired[home].participants = repaired[home].participants.filter(
+          (p) => p !== swapOut
+        );
+        repaired[source].participants.push(swapOut);
+      }
+      repaired[home].participants.push(id);
+    }
+  }
+
+  // Separate cannot-link pairs
+  for (let g = 0; g < repaired.length; g++) {
+    for (const id of [...repaired[g].participants]) {
+      // Skip participants already swapped out of this group
+      if (!repaired[g].participants.includes(id)) continue;
+      const others = repaired[g].participants.filter((p) => p !== id);
+      if (!isFree(id) || !hasConflict(id, others, constraintIndex)) continue;
+
+      const offset = Math.floor(rng() * repaired.length);
+      for (let step = 1; step < repaired.length; step++) {
+        const h = (g + offset + step) % repaired.length;
+        if (h === g) continue;
+        const swapIn = repaired[h].participants.find(
+          (p) =>
+            isFree(p) &&
+            !hasConflict(p, others, constraintIndex) &&
+            !hasConflict(
+              id,
+              repaired[h].participants.filter((q) => q !== p),
+              constraintIndex
+            )
+        );
+        if (swapIn) {
+          repaired[g].participants = [...others, swapIn];
+          repaired[h].participants = [
+            ...repaired[h].participants.filter((p) => p !== swapIn),
+            id,
+          ];
+          break;
+        }
+      }
+    }
+  }
+
+  return balanceRepairedGroups(repaired, sizes, constraintIndex);
+}
+
+/**
+ * Brings repaired groups back to the planned sizes, e.g. when gathering a
+ * unit grew its home group and emptied or shrank another. Whole must-link
+ * units are placed first, largest first, staying in their group while it
+ * has room; free members then keep their group while it has room and fill
+ * the remaining places, avoiding cannot-link conflicts where possible.
+ * Units are never split: a unit larger than the planned size keeps its
+ * group oversized.
+ */
+function balanceRepairedGroups(
+  groups: Group[],
+  sizes: number[],
+  constraintIndex: ConstraintIndex
+): Group[] {
+  if (groups.every((g, i) => g.participants.length === sizes[i])) {
+    return groups;
+  }
+
+  const room = groups.map((_, i) => sizes[i] ?? 0);
+  const balanced: Group[] = groups.map(() => ({ participants: [] }));
+  const place = (members: string[], idx: number) => {
+    balanced[idx].participants.push(...members);
+    room[idx] -= members.length;
   };
+  const isConflictFree = (members: string[], idx: number) =>
+    !members.some((id) =>
+      hasConflict(id, balanced[idx].participants, constraintIndex)
+    );
+
+  // Must-link units with their current group, and the free members
+  const units: Array<{ members: string[]; home: number }> = [];
+  const freeMembers: Array<{ id: string; home: number }> = [];
+  const seen = new Set<string>();
+  groups.forEach((g, home) => {
+    for (const id of g.participants) {
+      if (seen.has(id)) continue;
+      const unit = getUnit(id, constraintIndex);
+      for (const member of unit) seen.add(member);
+      if (unit.length > 1) {
+        units.push({ members: unit, home });
+      } else {
+        freeMembers.push({ id, home });
+      }
+    }
+  });
+
+  units.sort((a, b) => b.members.length - a.members.length);
+  for (const { members, home } of units) {
+    if (room[home] >= members.length) {
+      place(members, home);
+      continue;
+    }
+    const fitting = room
+      .map((_, idx) => idx)
+      .filter((idx) => room[idx] >= members.length);
+    const target =
+      fitting.find((idx) => isConflictFree(members, idx)) ??
+      fitting[0] ??
+      // No group has room: the one with the most left grows past its size
+      room.indexOf(Math.max(...room));
+    place(members, target);
+  }
+
+  const displaced: string[] = [];
+  for (const { id, home } of freeMembers) {
+    if (room[home] > 0) {
+      place([id], home);
+    } else {
+      displaced.push(id);
+    }
+  }
+  for (const id of displaced) {
+    const open = room.map((_, idx) => idx).filter((idx) => room[idx] > 0);
+    const target =
+      open.find((idx) => isConflictFree([id], idx)) ??
+      open[0] ??
+      room.indexOf(Math.max(...room));
+    place([id], target);
+  }
+
+  return balanced;
 }
 
 /**
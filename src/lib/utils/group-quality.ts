@@ -0,0 +1,227 @@
+/**
+ * Group quality report
+ * Explains how diverse generated groups are: pairwise distances per group,
+ * the dimensions members differ most in, and a random-assignment baseline
+ */
+
+import {
+  generateDistanceMatrix,
+  getDistance,
+  getDistanceAt,
+  type DistanceMatrix,
+} from "./distance-matrix";
+import { calculateFitness } from "./group-assignment";
+import {
+  computeDimensionalDistances,
+  getMaxCulturalDistance,
+  type CulturalScores,
+  type DistanceOptions,
+  type Framework,
+} from "./cultural-distance";
+
+type ParticipantWithScores = {
+  id: string;
+  culturalScores: CulturalScores;
+};
+
+/**
+ * How much one dimension contributes to the distances within a group
+ */
+export type DimensionContribution = {
+  dimension: string;
+  label: string;
+  // Average normalized (0-1) distance between members on this dimension
+  averageDistance: number;
+  // Share of the group's weighted dimension distances (0-1)
+  share: number;
+};
+
+export type GroupQuality = {
+  groupNumber: number;
+  memberCount: number;
+  // Null for groups with fewer than two scored members
+  averageDistance: number | null;
+  minDistance: number | null;
+  // Dimensions contributing most, largest first
+  topDimensions: DimensionContribution[];
+};
+
+export type GroupQualityReport = {
+  groups: GroupQuality[];
+  // Average of the group averages, and the closest pair in any group
+  averageDistance: number | null;
+  minDistance: number | null;
+  // Expected average distance within groups of a random assignment
+  baselineDistance: number | null;
+  // Grouping fitness (sum of average distances within groups) and its
+  // expected value for a random assignment with the same group sizes
+  fitness: number;
+  baselineFitness: number;
+  maxPossibleDistance: number;
+};
+
+/**
+ * Number of dimensions listed per group
+ */
+const TOP_DIMENSION_COUNT = 3;
+
+/**
+ * Builds the quality report of the groups of one round.
+ *
+ * The random baseline is exact rather than sampled: in a random assignment
+ * every pair of participants is equally likely to share a group, so the
+ * expected average distance within a group is the average distance over all
+ * pairs of grouped participants.
+ *
+ * @param groups - Groups of one round with their member IDs
+ * @param participants - Grouped participants with cultural scores;
+ * members without scores are left out of the distances
+ * @param framework - Framework used for distance calculation
+ * @param options - Distance metric, weights and reference statistics
+ * @returns Report per group and for the whole round
+ */
+export function buildGroupQualityReport(
+  groups: Array<{ groupNumber: number; participantIds: string[] }>,
+  participants: ParticipantWithScores[],
+  framework: Framework,
+  options: DistanceOptions = {}
+): GroupQualityReport {
+  const scoresById = new Map(participants.map((p) => [p.id, p.culturalScores]));
+  const scoredGroups = groups.map((group) =>
+    group.participantIds.filter((id) => scoresById.has(id))
+  );
+  const grouped = participants.filter((p) =>
+    scoredGroups.some((ids) => ids.includes(p.id))
+  );
+  const distanceMatrix = generateDistanceMatrix(grouped, framework, options);
+
+  const groupReports = groups.map((group, index) =>
+    buildGroupReport(
+      group.groupNumber,
+      group.participantIds.length,
+      scoredGroups[index],
+      distanceMatrix,
+      scoresById,
+      framework,
+      options
+    )
+  );
+
+  const averages = groupReports.flatMap((g) =>
+    g.averageDistance === null ? [] : [g.averageDistance]
+  );
+  const minimums = groupReports.flatMap((g) =>
+    g.minDistance === null ? [] : [g.minDistance]
+  );
+  const baselineDistance = averagePairDistance(distanceMatrix);
+
+  return {
+    groups: groupReports,
+    averageDistance:
+      averages.length > 0
+        ? averages.reduce((sum, d) => sum + d, 0) / averages.length
+        : null,
+    minDistance: minimums.length > 0 ? Math.min(...minimums) : null,
+    baselineDistance,
+    fitness: calculateFitness(
+      scoredGroups.map((ids) => ({ participants: ids })),
+      distanceMatrix
+    ),
+    baselineFitness: (baselineDistance ?? 0) * averages.length,
+    maxPossibleDistance: getMaxCulturalDistance(framework, options),
+  };
+}
+
+/**
+ * Computes the distances and top dimensions of a single group
+ */
+function buildGroupReport(
+  groupNumber: number,
+  memberCount: number,
+  memberIds: string[],
+  distanceMatrix: DistanceMatrix,
+  scoresById: Map<string, CulturalScores>,
+  framework: Framework,
+  options: DistanceOptions
+): GroupQuality {
+  const distances: number[] = [];
+  // Summed distance and weight of every dimension over all member pairs
+  const dimensions = new Map<
+    string,
+    { label: string; distance: number; weighted: number }
+  >();
+
+  for (let i = 0; i < memberIds.length; i++) {
+    for (let j = i + 1; j < memberIds.length; j++) {
+      distances.push(getDistance(distanceMatrix, memberIds[i], memberIds[j]));
+
+      const scores1 = scoresById.get(memberIds[i]);
+      const scores2 = scoresById.get(memberIds[j]);
+      if (!scores1 || !scores2) continue;
+      for (const d of computeDimensionalDistances(
+        scores1,
+        scores2,
+        framework,
+        options.weights
+      )) {
+        const current = dimensions.get(d.dimension) ?? {
+          label: d.label,
+          distance: 0,
+          weighted: 0,
+        };
+        current.distance += d.distance;
+        current.weighted += d.distance * (d.weight ?? 1);
+        dimensions.set(d.dimension, current);
+      }
+    }
+  }
+
+  if (distances.length === 0) {
+    return {
+      groupNumber,
+      memberCount,
+      averageDistance: null,
+      minDistance: null,
+      topDimensions: [],
+    };
+  }
+
+  const totalWeighted = Array.from(dimensions.values()).reduce(
+    (sum, d) => sum + d.weighted,
+    0
+  );
+  const topDimensions = Array.from(dimensions, ([dimension, d]) => ({
+    dimension,
+    label: d.label,
+    averageDistance: d.distance / distances.length,
+    share: totalWeighted > 0 ? d.weighted / totalWeighted : 0,
+  }))
+    .filter((d) => d.share > 0)
+    .sort((a, b) => b.share - a.share)
+    .slice(0, TOP_DIMENSION_COUNT);
+
+  return {
+    groupNumber,
+    memberCount,
+    averageDistance:
+      distances.reduce((sum, d) => sum + d, 0) / distances.length,
+    minDistance: Math.min(...distances),
+    topDimensions,
+  };
+}
+
+/**
+ * Average distance over all pairs of participants of a matrix, or null if
+ * there are fewer than two
+ */
+function averagePairDistance(distanceMatrix: DistanceMatrix): number | null {
+  let sum = 0;
+  let pairs = 0;
+  for (let i = 0; i < distanceMatrix.ids.length; i++) {
+    for (let j = i + 1; j < distanceMatrix.ids.length; j++) {
+      sum += getDistanceAt(distanceMatrix, i, j);
+      pairs++;
+    }
+  }
+  return pairs > 0 ? sum / pairs : null;
+}
@@ -0,0 +1,136 @@
+/**
+ * Group sizing utilities
+ * Plans balanced group sizes from a size range or a fixed group count
+ */
+
+export const MIN_GROUP_SIZE = 2;
+export const MAX_GROUP_SIZE = 20;
+export const MAX_GROUP_COUNT = 50;
+
+/**
+ * How participants are split into groups:
+ * - size: every group has between minSize and maxSize participants
+ * - count: exactly groupCount groups of balanced size
+ */
+export type GroupSizing =
+  | { mode: "size"; minSize: number; maxSize: number }
+  | { mode: "count"; groupCount: number };
+
+/**
+ * Default sizing used before a workshop is configured (3-4 participants)
+ */
+export const DEFAULT_GROUP_SIZING: Extract<GroupSizing, { mode: "size" }> = {
+  mode: "size",
+  minSize: 3,
+  maxSize: 4,
+};
+
+/**
+ * Plans the sizes of the groups for a number of participants.
+ * Sizes differ by at most one. In size mode the fewest groups that respect
+ * maxSize are used; if no split satisfies minSize, smaller groups are formed
+ * rather than exceeding maxSize. Nobody is ever left in a group of one.
+ *
+ * @param participantCount - Number of participants to split
+ * @param sizing - Group sizing configuration
+ * @returns Group sizes, largest first
+ */
+export function planGroupSizes(
+  participantCount: number,
+  sizing: GroupSizing
+): number[] {
+  if (participantCount <= 0) {
+    return [];
+  }
+
+  const requestedCount =
+    sizing.mode === "count"
+      ? sizing.groupCount
+      : Math.ceil(participantCount / Math.max(1, sizing.maxSize));
+  const groupCount = Math.max(
+    1,
+    Math.min(requestedCount, Math.floor(participantCount / MIN_GROUP_SIZE))
+  );
+
+  const baseSize = Math.floor(participantCount / groupCount);
+  const remainder = participantCount % groupCount;
+
+  return Array.from({ length: groupCount }, (_, i) =>
+    i < remainder ? baseSize + 1 : baseSize
+  );
+}
+
+/**
+ * Validates a group sizing configuration.
+ *
+ * @param sizing - Group sizing to validate
+ * @returns Error message, or null if valid
+ */
+export function validateGroupSizing(sizing: GroupSizing): string | null {
+  if (sizing.mode === "count") {
+    if (
+      !Number.isInteger(sizing.groupCount) ||
+      sizing.groupCount < 1 ||
+      sizing.groupCount > MAX_GROUP_COUNT
+    ) {
+      return `Number of groups must be between 1 and ${MAX_GROUP_COUNT}`;
+    }
+    return null;
+  }
+
+  if (
+    !Number.isInteger(sizing.minSize) ||
+    !Number.isInteger(sizing.maxSize) ||
+    sizing.minSize < MIN_GROUP_SIZE ||
+    sizing.maxSize > MAX_GROUP_SIZE
+  ) {
+    return `Group size must be between ${MIN_GROUP_SIZE} and ${MAX_GROUP_SIZE}`;
+  }
+  if (sizing.minSize > sizing.maxSize) {
+    return "Minimum group size cannot exceed maximum group size";
+  }
+  return null;
+}
+
+/**
+ * Reads the group sizing stored on a workshop.
+ * A fixed group count takes precedence over a size range.
+ *
+ * @param workshop - Workshop sizing columns
+ * @returns Group sizing, or null if the workshop is not configured
+ */
+export function toGroupSizing(workshop: {
+  minGroupSize: number | null;
+  maxGroupSize: number | null;
+  groupCount: number | null;
+}): GroupSizing | null {
+  if (workshop.groupCount !== null) {
+    return { mode: "count", groupCount: workshop.groupCount };
+  }
+  if (workshop.minGroupSize !== null && workshop.maxGroupSize !== null) {
+    return {
+      mode: "size",
+      minSize: workshop.minGroupSize,
+      maxSize: workshop.maxGroupSize,
+    };
+  }
+  return null;
+}
+
+/**
+ * Formats a group sizing for display, e.g. "3-4 participants per group".
+ *
+ * @param sizing - Group sizing configuration
+ * @returns Human-readable description
+ */
+export function formatGroupSizing(sizing: GroupSizing): string {
+  if (sizing.mode === "count") {
+    return sizing.groupCount === 1 ? "1 group" : `${sizing.groupCount} groups`;
+  }
+  if (sizing.minSize === sizing.maxSize) {
+    return sizing.minSize === 2
+      ? "Pairs"
+      : `${sizing.minSize} participants per group`;
+  }
+  return `${sizing.minSize}-${sizing.maxSize} participants per group`;
+}
@@ -0,0 +1,192 @@
+/**
+ * Grouping algorithm utilities
+ * Describes which algorithm forms the groups of a workshop, its tunable
+ * parameters and their defaults and limits
+ */
+
+import type { GroupingAlgorithm } from "@/lib/db/schema/workshops";
+
+export type { GroupingAlgorithm };
+
+/**
+ * Tunable parameters of the grouping algorithms. Each algorithm reads only
+ * its own keys; missing keys use the defaults below.
+ * - populationSize, generations, timeoutMs: genetic algorithm
+ * - iterations, initialTemperature: simulated annealing; the starting
+ *   temperature is relative to the average pairwise score
+ * - localSearch: polish the result with pairwise-swap local search
+ */
+export type AlgorithmParameters = {
+  populationSize?: number;
+  generations?: number;
+  timeoutMs?: number;
+  iterations?: number;
+  initialTemperature?: number;
+  localSearch?: boolean;
+};
+
+/**
+ * Selected algorithm with its parameters
+ */
+export type GroupingAlgorithmConfig = {
+  algorithm: GroupingAlgorithm;
+  parameters: AlgorithmParameters;
+};
+
+export const DEFAULT_GROUPING_ALGORITHM: GroupingAlgorithm = "genetic";
+
+export const GROUPING_ALGORITHMS: GroupingAlgorithm[] = [
+  "genetic",
+  "greedy",
+  "local_search",
+  "annealing",
+];
+
+const GROUPING_ALGORITHM_LABELS: Record<GroupingAlgorithm, string> = {
+  genetic: "Genetic algorithm",
+  greedy: "Greedy",
+  local_search: "Local search",
+  annealing: "Simulated annealing",
+};
+
+/**
+ * Parameters each algorithm reads
+ */
+const ALGORITHM_PARAMETER_KEYS: Record<
+  GroupingAlgorithm,
+  Array<keyof AlgorithmParameters>
+> = {
+  genetic: ["populationSize", "generations", "timeoutMs", "localSearch"],
+  greedy: ["localSearch"],
+  local_search: [],
+  annealing: ["iterations", "initialTemperature", "localSearch"],
+};
+
+/**
+ * Allowed range of each numeric parameter
+ */
+export const ALGORITHM_PARAMETER_LIMITS = {
+  populationSize: { min: 10, max: 500 },
+  generations: { min: 10, max: 5000 },
+  timeoutMs: { min: 500, max: 30000 },
+  iterations: { min: 1000, max: 1000000 },
+  initialTemperature: { min: 0.01, max: 10 },
+} as const;
+
+export const DEFAULT_ALGORITHM_PARAMETERS: Required<AlgorithmParameters> = {
+  populationSize: 50,
+  generations: 100,
+  // Groups are generated in background jobs, so the genetic algorithm gets
+  // the full time limit; its generations usually end it first
+  timeoutMs: ALGORITHM_PARAMETER_LIMITS.timeoutMs.max,
+  iterations: 20000,
+  initialTemperature: 0.5,
+  localSearch: false,
+};
+
+const ALGORITHM_PARAMETER_LABELS: Record<
+  keyof typeof ALGORITHM_PARAMETER_LIMITS,
+  string
+> = {
+  populationSize: "Population size",
+  generations: "Generations",
+  timeoutMs: "Time limit",
+  iterations: "Iterations",
+  initialTemperature: "Initial temperature",
+};
+
+/**
+ * Checks whether an algorithm is randomized, so different seeds give
+ * different groupings
+ */
+export function isSeededAlgorithm(algorithm: GroupingAlgorithm): boolean {
+  return algorithm === "genetic" || algorithm === "annealing";
+}
+
+/**
+ * Validates the parameters of a grouping algorithm.
+ *
+ * @param parameters - Parameters to validate
+ * @returns Error message, or null if valid
+ */
+export function validateAlgorithmParameters(
+  parameters: AlgorithmParameters
+): string | null {
+  for (const [key, limits] of Object.entries(ALGORITHM_PARAMETER_LIMITS) as [
+    keyof typeof ALGORITHM_PARAMETER_LIMITS,
+    { min: number; max: number },
+  ][]) {
+    const value = parameters[key];
+    if (value === undefined) continue;
+
+    const isInteger = key !== "initialTemperature";
+    if (
+      !Number.isFinite(value) ||
+      (isInteger && !Number.isInteger(value)) ||
+      value < limits.min ||
+      value > limits.max
+    ) {
+      return `${ALGORITHM_PARAMETER_LABELS[key]} must be ${
+        isInteger ? "a whole number " : ""
+      }between ${limits.min} and ${limits.max}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Fills in the defaults of the parameters an algorithm reads and drops the
+ * others, which is what gets recorded with generated groups.
+ *
+ * @param algorithm - Grouping algorithm
+ * @param parameters - Parameters set on the workshop, if any
+ * @returns Complete parameters of the algorithm
+ */
+export function resolveAlgorithmParameters(
+  algorithm: GroupingAlgorithm,
+  parameters: AlgorithmParameters | null | undefined
+): AlgorithmParameters {
+  return Object.fromEntries(
+    ALGORITHM_PARAMETER_KEYS[algorithm].map((key) => [
+      key,
+      parameters?.[key] ?? DEFAULT_ALGORITHM_PARAMETERS[key],
+    ])
+  );
+}
+
+/**
+ * Reads the grouping algorithm stored on a workshop.
+ *
+ * @param workshop - Workshop algorithm columns
+ * @returns Algorithm with its complete parameters
+ */
+export function toGroupingAlgorithm(workshop: {
+  groupingAlgorithm: GroupingAlgorithm;
+  algorithmParameters: AlgorithmParameters | null;
+}): GroupingAlgorithmConfig {
+  return {
+    algorithm: workshop.groupingAlgorithm,
+    parameters: resolveAlgorithmParameters(
+      workshop.groupingAlgorithm,
+      workshop.algorithmParameters
+    ),
+  };
+}
+
+/**
+ * Formats a grouping algorithm for display, e.g. "Simulated annealing" or
+ * "Genetic algorithm + local search".
+ *
+ * @param algorithm - Grouping algorithm
+ * @param parameters - Parameters, to mention the local search polish
+ * @returns Human-readable name
+ */
+export function formatGroupingAlgorithm(
+  algorithm: GroupingAlgorithm,
+  parameters?: AlgorithmParameters | null
+): string {
+  const label = GROUPING_ALGORITHM_LABELS[algorithm];
+  return parameters?.localSearch && algorithm !== "local_search"
+    ? `${label} + local search`
+    : label;
+}
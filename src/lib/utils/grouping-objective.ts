@@ -0,0 +1,100 @@
+/**
+ * Grouping objective utilities
+ * Describes whether groups should be culturally diverse, similar, or fall
+ * within a target distance band
+ */
+
+import type { GroupingObjectiveType } from "@/lib/db/schema/workshops";
+
+/**
+ * What the grouping algorithm optimizes:
+ * - maximize: culturally diverse groups (largest distances)
+ * - minimize: culturally similar groups (smallest distances)
+ * - target: pairwise distances within a band, in percent of the maximum
+ *   possible distance of the framework
+ */
+export type GroupingObjective =
+  | { type: "maximize" }
+  | { type: "minimize" }
+  | { type: "target"; minPercent: number; maxPercent: number };
+
+export const DEFAULT_GROUPING_OBJECTIVE: GroupingObjective = {
+  type: "maximize",
+};
+
+/**
+ * Default band used when switching to the target objective
+ */
+export const DEFAULT_TARGET_BAND = { minPercent: 40, maxPercent: 60 };
+
+/**
+ * Validates a grouping objective.
+ *
+ * @param objective - Grouping objective to validate
+ * @returns Error message, or null if valid
+ */
+export function validateGroupingObjective(
+  objective: GroupingObjective
+): string | null {
+  if (objective.type !== "target") {
+    return null;
+  }
+
+  if (
+    !Number.isInteger(objective.minPercent) ||
+    !Number.isInteger(objective.maxPercent) ||
+    objective.minPercent < 0 ||
+    objective.maxPercent > 100
+  ) {
+    return "Target distance must be between 0% and 100%";
+  }
+  if (objective.minPercent > objective.maxPercent) {
+    return "Minimum target distance cannot exceed maximum target distance";
+  }
+  return null;
+}
+
+/**
+ * Reads the grouping objective stored on a workshop.
+ * Falls back to maximizing diversity if a target band is incomplete.
+ *
+ * @param workshop - Workshop objective columns
+ * @returns Grouping objective
+ */
+export function toGroupingObjective(workshop: {
+  objective: GroupingObjectiveType;
+  targetDistanceMin: number | null;
+  targetDistanceMax: number | null;
+}): GroupingObjective {
+  if (workshop.objective === "target") {
+    if (
+      workshop.targetDistanceMin === null ||
+      workshop.targetDistanceMax === null
+    ) {
+      return DEFAULT_GROUPING_OBJECTIVE;
+    }
+    return {
+      type: "target",
+      minPercent: workshop.targetDistanceMin,
+      maxPercent: workshop.targetDistanceMax,
+    };
+  }
+  return { type: workshop.objective };
+}
+
+/**
+ * Formats a grouping objective for display, e.g. "Maximize diversity".
+ *
+ * @param objective - Grouping objective
+ * @returns Human-readable description
+ */
+export function formatGroupingObjective(objective: GroupingObjective): string {
+  switch (objective.type) {
+    case "maximize":
+      return "Maximize diversity";
+    case "minimize":
+      return "Similar cultures (minimize distance)";
+    case "target":
+      return `Target distance ${objective.minPercent}-${objective.maxPercent}%`;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Organization role utilities
+ * Admins manage the organization and have owner access to all of its
+ * workshops; members can view every workshop of the organization
+ */
+
+import type { OrganizationRole } from "@/lib/db/schema/organizations";
+import type { WorkshopRole } from "@/lib/db/schema/workshop-members";
+
+export type { OrganizationRole };
+
+export const ORGANIZATION_ROLES: OrganizationRole[] = ["admin", "member"];
+
+const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+  admin: "Admin",
+  member: "Member",
+};
+
+export const ORGANIZATION_ROLE_DESCRIPTIONS: Record<OrganizationRole, string> =
+  {
+    admin:
+      "Manages the organization and has owner access to all of its workshops",
+    member: "Creates workshops and views all workshops of the organization",
+  };
+
+// Access an organization role grants to each workshop of the organization
+const ORGANIZATION_WORKSHOP_ROLES: Record<OrganizationRole, WorkshopRole> = {
+  admin: "owner",
+  member: "observer",
+};
+
+/**
+ * Formats an organization role for display, e.g. "Admin".
+ *
+ * @param role - Organization role
+ * @returns Human-readable name
+ */
+export function formatOrganizationRole(role: OrganizationRole): string {
+  return ORGANIZATION_ROLE_LABELS[role];
+}
+
+/**
+ * Gets the workshop role an organization role grants on the organization's
+ * workshops.
+ *
+ * @param role - Organization role
+ * @returns Workshop role granted by the organization
+ */
+export function getOrganizationWorkshopRole(
+  role: OrganizationRole
+): WorkshopRole {
+  return ORGANIZATION_WORKSHOP_ROLES[role];
+}
@@ -0,0 +1,444 @@
+/**
+ * Participant attribute utilities
+ * Lets facilitators collect custom attributes (e.g. department or
+ * seniority) when participants join, mix them within groups on top of
+ * cultural distance, and summarize them per group
+ */
+
+export type ParticipantAttributeType = "categorical" | "numeric";
+
+/**
+ * Attribute facilitators collect from participants when they join
+ */
+export type ParticipantAttribute = {
+  // Stable key answers are stored under; kept when the label changes
+  key: string;
+  label: string;
+  type: ParticipantAttributeType;
+  // Choices of a categorical attribute; empty for numeric attributes
+  options: string[];
+  // Percent of the maximum cultural distance a pair gains for differing
+  // completely in the attribute; 0 collects the attribute without mixing it
+  weight: number;
+  required: boolean;
+};
+
+/**
+ * Answers of a participant, keyed by attribute key
+ */
+export type ParticipantAttributeValues = Record<string, string | number>;
+
+/**
+ * Distribution of one attribute within a group
+ */
+export type AttributeSummary = {
+  key: string;
+  label: string;
+  // Members who did not answer, or whose answer no longer applies
+  missing: number;
+} & (
+  | {
+      type: "categorical";
+      // Members per option, most frequent first; options nobody chose are
+      // left out
+      counts: Array<{ value: string; count: number }>;
+    }
+  | {
+      type: "numeric";
+      // Null if no member answered
+      average: number | null;
+      min: number | null;
+      max: number | null;
+    }
+);
+
+export type GroupAttributeBreakdown = {
+  groupNumber: number;
+  memberCount: number;
+  attributes: AttributeSummary[];
+};
+
+/**
+ * Pairwise bonus of weighted attributes, with a key identifying
+ * participants whose weighted attributes are identical
+ */
+export type AttributeScorer = {
+  getKey: (values: ParticipantAttributeValues | null | undefined) => string;
+  getBonus: (
+    a: ParticipantAttributeValues | null | undefined,
+    b: ParticipantAttributeValues | null | undefined
+  ) => number;
+};
+
+export const MAX_PARTICIPANT_ATTRIBUTES = 5;
+
+export const MAX_ATTRIBUTE_OPTIONS = 20;
+
+export const MAX_ATTRIBUTE_LABEL_LENGTH = 50;
+
+export const MAX_ATTRIBUTE_WEIGHT = 100;
+
+export const DEFAULT_ATTRIBUTE_WEIGHT = 50;
+
+/**
+ * Validates attribute definitions. Every attribute needs a unique label and
+ * a weight between 0 and MAX_ATTRIBUTE_WEIGHT; categorical attributes need
+ * at least two distinct options.
+ *
+ * @param attributes - Attributes to validate
+ * @returns Error message, or null if valid
+ */
+export function validateParticipantAttributes(
+  attributes: ParticipantAttribute[]
+): string | null {
+  if (attributes.length > MAX_PARTICIPANT_ATTRIBUTES) {
+    return `At most ${MAX_PARTICIPANT_ATTRIBUTES} attributes can be collected`;
+  }
+
+  const labels = new Set<string>();
+  for (const attribute of attributes) {
+    const label = attribute.label?.trim() ?? "";
+    if (!label) {
+      return "Every attribute needs a name";
+    }
+    if (label.length > MAX_ATTRIBUTE_LABEL_LENGTH) {
+      return `Attribute names must be ${MAX_ATTRIBUTE_LABEL_LENGTH} characters or less`;
+    }
+    if (labels.has(label.toLowerCase())) {
+      return "Each attribute name can only be used once";
+    }
+    labels.add(label.toLowerCase());
+
+    if (attribute.type !== "categorical" && attribute.type !== "numeric") {
+      return "Invalid attribute type";
+    }
+
+    if (
+      !Number.isInteger(attribute.weight) ||
+      attribute.weight < 0 ||
+      attribute.weight > MAX_ATTRIBUTE_WEIGHT
+    ) {
+      return `Attribute weights must be between 0 and ${MAX_ATTRIBUTE_WEIGHT}`;
+    }
+
+    if (attribute.type === "categorical") {
+      const options = (attribute.options ?? []).map((o) => o.trim());
+      if (options.some((o) => !o || o.length > MAX_ATTRIBUTE_LABEL_LENGTH)) {
+        return `Options must be between 1 and ${MAX_ATTRIBUTE_LABEL_LENGTH} characters`;
+      }
+      if (new Set(options).size !== options.length) {
+        return `Each option of "${label}" can only be listed once`;
+      }
+      if (options.length < 2 || options.length > MAX_ATTRIBUTE_OPTIONS) {
+        return `"${label}" needs between 2 and ${MAX_ATTRIBUTE_OPTIONS} options`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Trims labels and options and gives new attributes a key derived from
+ * their label. Attributes keep the key of the existing attribute they edit,
+ * so answers stay attached when an attribute is renamed; an attribute whose
+ * type changed gets a new key, leaving earlier answers behind.
+ *
+ * @param attributes - Validated attributes entered by the facilitator
+ * @param existing - Attributes stored before, if any
+ * @returns Attributes to store, or null if none are collected
+ */
+export function normalizeParticipantAttributes(
+  attributes: ParticipantAttribute[],
+  existing: ParticipantAttribute[] | null | undefined
+): ParticipantAttribute[] | null {
+  if (attributes.length === 0) {
+    return null;
+  }
+
+  // Keys that still identify the same attribute, each used once
+  const kept = new Set<string>();
+  for (const attribute of attributes) {
+    const previous = existing?.find((a) => a.key === attribute.key);
+    if (previous && previous.type === attribute.type) {
+      kept.add(attribute.key);
+    }
+  }
+
+  const keys = new Set(kept);
+  return attributes.map((attribute) => {
+    let key = attribute.key;
+    if (kept.has(key)) {
+      kept.delete(key);
+    } else {
+      const base =
+        attribute.label
+          .trim()
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, "_")
+          .replace(/^_+|_+$/g, "")
+          // Keys start with a letter, so form fields treat them as names
+          .replace(/^(?=[0-9])/, "attribute_") || "attribute";
+      key = base;
+      for (let suffix = 2; keys.has(key); suffix++) {
+        key = `${base}_${suffix}`;
+      }
+      keys.add(key);
+    }
+
+    return {
+      key,
+      label: attribute.label.trim(),
+      type: attribute.type,
+      options:
+        attribute.type === "categorical"
+          ? attribute.options.map((o) => o.trim())
+          : [],
+      weight: attribute.weight,
+      required: attribute.required,
+    };
+  });
+}
+
+/**
+ * Returns a participant's answer to an attribute if it is valid for the
+ * attribute's current definition, e.g. an option that was since removed
+ * is ignored.
+ *
+ * @param attribute - Attribute definition
+ * @param values - Answers of the participant, if any
+ * @returns Valid answer, or undefined
+ */
+export function getAttributeValue(
+  attribute: ParticipantAttribute,
+  values: ParticipantAttributeValues | null | undefined
+): string | number | undefined {
+  const value = values?.[attribute.key];
+  if (attribute.type === "numeric") {
+    return typeof value === "number" && Number.isFinite(value)
+      ? value
+      : undefined;
+  }
+  return typeof value === "string" && attribute.options.includes(value)
+    ? value
+    : undefined;
+}
+
+/**
+ * Validates a participant's answers: required attributes need an answer,
+ * categorical answers must be one of the options and numeric answers
+ * finite numbers.
+ *
+ * @param attributes - Attributes collected by the workshop
+ * @param values - Answers entered by the participant
+ * @returns Error message, or null if valid
+ */
+export function validateAttributeValues(
+  attributes: ParticipantAttribute[],
+  values: ParticipantAttributeValues
+): string | null {
+  for (const attribute of attributes) {
+    const value = values[attribute.key];
+    if (value === undefined || value === "") {
+      if (attribute.required) {
+        return `${attribute.label} is required`;
+      }
+      continue;
+    }
+    if (getAttributeValue(attribute, values) === undefined) {
+      return attribute.type === "numeric"
+        ? `${attribute.label} must be a number`
+        : `Select one of the options for ${attribute.label}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Keeps only valid answers to the workshop's attributes.
+ *
+ * @param attributes - Attributes collected by the workshop
+ * @param values - Answers entered by the participant
+ * @returns Answers to store, or null if there are none
+ */
+export function normalizeAttributeValues(
+  attributes: ParticipantAttribute[],
+  values: ParticipantAttributeValues | undefined
+): ParticipantAttributeValues | null {
+  const normalized: ParticipantAttributeValues = {};
+  for (const attribute of attributes) {
+    const value = getAttributeValue(attribute, values);
+    if (value !== undefined) {
+      normalized[attribute.key] = value;
+    }
+  }
+  return Object.keys(normalized).length > 0 ? normalized : null;
+}
+
+/**
+ * Creates the scorer that adds weighted attributes to pairwise grouping
+ * scores. A pair gains weight% of the maximum cultural distance per
+ * attribute they differ in completely: categorical attributes differ
+ * completely or not at all, numeric attributes by their difference relative
+ * to the range of answers. Pairs missing an answer gain nothing for that
+ * attribute.
+ *
+ * @param attributes - Attributes collected by the workshop
+ * @param participantValues - Answers of every participant being grouped
+ * @param maxDistance - Maximum cultural distance
+ * @returns Scorer, or null if no attribute has a weight
+ */
+export function createAttributeScorer(
+  attributes: ParticipantAttribute[] | null | undefined,
+  participantValues: Array<ParticipantAttributeValues | null | undefined>,
+  maxDistance: number
+): AttributeScorer | null {
+  const weighted = (attributes ?? []).filter((a) => a.weight > 0);
+  if (weighted.length === 0) {
+    return null;
+  }
+
+  // Numeric differences are relative to the range of answers
+  const ranges = weighted.map((attribute) => {
+    if (attribute.type !== "numeric") {
+      return 0;
+    }
+    const answers = participantValues.flatMap((values) => {
+      const value = getAttributeValue(attribute, values);
+      return value === undefined ? [] : [value as number];
+    });
+    return answers.length > 0 ? Math.max(...answers) - Math.min(...answers) : 0;
+  });
+
+  return {
+    getKey: (values) =>
+      JSON.stringify(
+        weighted.map(
+          (attribute) => getAttributeValue(attribute, values) ?? null
+        )
+      ),
+    getBonus: (a, b) => {
+      let bonus = 0;
+      weighted.forEach((attribute, index) => {
+        const valueA = getAttributeValue(attribute, a);
+        const valueB = getAttributeValue(attribute, b);
+        if (valueA === undefined || valueB === undefined) return;
+
+        const difference =
+          attribute.type === "numeric"
+            ? ranges[index] > 0
+              ? Math.abs((valueA as number) - (valueB as number)) /
+                ranges[index]
+              : 0
+            : valueA === valueB
+              ? 0
+              : 1;
+        bonus += (attribute.weight / 100) * difference * maxDistance;
+      });
+      return bonus;
+    },
+  };
+}
+
+/**
+ * Returns the largest bonus a pair can gain from weighted attributes, when
+ * they differ completely in every one.
+ *
+ * @param attributes - Attributes collected by the workshop
+ * @param maxDistance - Maximum cultural distance
+ * @returns Largest pairwise attribute bonus, 0 without weighted attributes
+ */
+export function getMaxAttributeBonus(
+  attributes: ParticipantAttribute[] | null | undefined,
+  maxDistance: number
+): number {
+  return (attributes ?? []).reduce(
+    (sum, attribute) =>
+      sum + (Math.max(0, attribute.weight) / 100) * maxDistance,
+    0
+  );
+}
+
+/**
+ * Summarizes each attribute within each group: members per option for
+ * categorical attributes, average and range for numeric attributes.
+ *
+ * @param attributes - Attributes collected by the workshop
+ * @param groups - Groups with their member IDs
+ * @param valuesById - Answers of each participant
+ * @returns Breakdown per group, in the order given
+ */
+export function summarizeGroupAttributes(
+  attributes: ParticipantAttribute[],
+  groups: Array<{ groupNumber: number; participantIds: string[] }>,
+  valuesById: Map<string, ParticipantAttributeValues | null>
+): GroupAttributeBreakdown[] {
+  return groups.map((group) => ({
+    groupNumber: group.groupNumber,
+    memberCount: group.participantIds.length,
+    attributes: attributes.map((attribute): AttributeSummary => {
+      const answers = group.participantIds.flatMap((id) => {
+        const value = getAttributeValue(attribute, valuesById.get(id));
+        return value === undefined ? [] : [value];
+      });
+      const missing = group.participantIds.length - answers.length;
+
+      if (attribute.type === "numeric") {
+        const numbers = answers as number[];
+        return {
+          key: attribute.key,
+          label: attribute.label,
+          type: "numeric",
+          missing,
+          average:
+            numbers.length > 0
+              ? numbers.reduce((sum, n) => sum + n, 0) / numbers.length
+              : null,
+          min: numbers.length > 0 ? Math.min(...numbers) : null,
+          max: numbers.length > 0 ? Math.max(...numbers) : null,
+        };
+      }
+
+      const counts = attribute.options
+        .map((value) => ({
+          value,
+          count: answers.filter((answer) => answer === value).length,
+        }))
+        .filter((entry) => entry.count > 0)
+        .sort((a, b) => b.count - a.count);
+      return {
+        key: attribute.key,
+        label: attribute.label,
+        type: "categorical",
+        missing,
+        counts,
+      };
+    }),
+  }));
+}
+
+/**
+ * Formats attributes for display, e.g.
+ * "Department (mixed, 50%), Years of experience (collected only)".
+ *
+ * @param attributes - Stored attributes, if any
+ * @returns Human-readable description
+ */
+export function formatParticipantAttributes(
+  attributes: ParticipantAttribute[] | null | undefined
+): string {
+  if (!attributes || attributes.length === 0) {
+    return "None";
+  }
+  return attributes
+    .map(
+      (attribute) =>
+        `${attribute.label} (${
+          attribute.weight > 0
+            ? `mixed, ${attribute.weight}%`
+            : "collected only"
+        })`
+    )
+    .join(", ");
+}
@@ -0,0 +1,175 @@
+/**
+ * Multi-country participant utilities
+ * Participants who identify with several cultures pick more than one
+ * country; their cultural profile is the weighted blend of those countries
+ */
+
+import type {
+  CulturalScores,
+  CustomDimensionScore,
+  CustomFrameworkId,
+} from "@/types/cultural";
+
+export const MAX_PARTICIPANT_COUNTRIES = 4;
+
+export const MAX_COUNTRY_WEIGHT = 100;
+
+/**
+ * A country a participant identifies with and its relative weight
+ */
+export type CountryShare = {
+  countryCode: string;
+  weight: number;
+};
+
+/**
+ * Validates the countries picked by a participant: at least one, at most
+ * MAX_PARTICIPANT_COUNTRIES, no duplicates, and either no weights or a
+ * whole-number weight (1-100) for every country.
+ *
+ * @param countries - Countries in order, the first being the primary one
+ * @returns Error message, or null if valid
+ */
+export function validateParticipantCountries(
+  countries: Array<{ countryCode: string; weight?: number }>
+): string | null {
+  if (countries.length === 0 || !countries[0].countryCode.trim()) {
+    return "Country is required";
+  }
+  if (countries.length > MAX_PARTICIPANT_COUNTRIES) {
+    return `Select at most ${MAX_PARTICIPANT_COUNTRIES} countries`;
+  }
+  if (countries.some((c) => !c.countryCode.trim())) {
+    return "Select a country or remove the empty entry";
+  }
+  if (new Set(countries.map((c) => c.countryCode)).size < countries.length) {
+    return "Each country can only be selected once";
+  }
+
+  const weights = countries.map((c) => c.weight);
+  if (
+    weights.some((w) => w === undefined) &&
+    weights.some((w) => w !== undefined)
+  ) {
+    return "Give every country a weight, or none";
+  }
+  if (
+    weights.some(
+      (w) =>
+        w !== undefined &&
+        (!Number.isInteger(w) || w < 1 || w > MAX_COUNTRY_WEIGHT)
+    )
+  ) {
+    return `Country weights must be between 1 and ${MAX_COUNTRY_WEIGHT}`;
+  }
+  return null;
+}
+
+/**
+ * Converts weights to percentages of the total, e.g. 3 and 1 to 75 and 25.
+ *
+ * @param shares - Countries with relative weights
+ * @returns Countries with weights in percent (rounded)
+ */
+export function toPercentShares(shares: CountryShare[]): CountryShare[] {
+  const total = shares.reduce((sum, share) => sum + share.weight, 0);
+  return shares.map((share) => ({
+    countryCode: share.countryCode,
+    weight: total > 0 ? Math.round((share.weight / total) * 100) : 0,
+  }));
+}
+
+/**
+ * Blends the cultural scores of a participant's countries.
+ * Each dimension is the weighted average over the countries that have data
+ * for its framework, so a country missing a framework does not pull the
+ * others towards 0. A single country returns its scores unchanged.
+ *
+ * @param shares - Countries with relative weights
+ * @param countryDataMap - Cultural scores keyed by country code
+ * @returns Blended cultural scores
+ */
+export function blendCountryScores(
+  shares: CountryShare[],
+  countryDataMap: Map<string, CulturalScores>
+): CulturalScores {
+  if (shares.length === 1) {
+    return countryDataMap.get(shares[0].countryCode) ?? {};
+  }
+
+  const profiles = shares.map((share) => ({
+    weight: share.weight,
+    scores: countryDataMap.get(share.countryCode) ?? {},
+  }));
+  const blended: CulturalScores = {
+    lewis: blendFrameworkScores(profiles, (scores) => scores.lewis),
+    hall: blendFrameworkScores(profiles, (scores) => scores.hall),
+    hofstede: blendFrameworkScores(profiles, (scores) => scores.hofstede),
+  };
+
+  const customFrameworkIds = new Set(
+    profiles.flatMap(
+      ({ scores }) => Object.keys(scores.custom ?? {}) as CustomFrameworkId[]
+    )
+  );
+  for (const frameworkId of customFrameworkIds) {
+    const available = profiles.flatMap(({ weight, scores }) => {
+      const dimensions = scores.custom?.[frameworkId];
+      return dimensions ? [{ weight, dimensions }] : [];
+    });
+    blended.custom = {
+      ...blended.custom,
+      [frameworkId]: averageCustomScores(available),
+    };
+  }
+
+  return blended;
+}
+
+/**
+ * Weighted average of one built-in framework over the countries with data
+ */
+function blendFrameworkScores<T extends Record<string, number>>(
+  profiles: Array<{ weight: number; scores: CulturalScores }>,
+  select: (scores: CulturalScores) => T | undefined
+): T | undefined {
+  const available = profiles.flatMap(({ weight, scores }) => {
+    const frameworkScores = select(scores);
+    return frameworkScores ? [{ weight, scores: frameworkScores }] : [];
+  });
+  return available.length > 0 ? (averageScores(available) as T) : undefined;
+}
+
+/**
+ * Weighted average of score objects sharing the same keys
+ */
+function averageScores(
+  profiles: Array<{ weight: number; scores: Record<string, number> }>
+): Record<string, number> {
+  const totalWeight = profiles.reduce((sum, p) => sum + p.weight, 0);
+  return Object.fromEntries(
+    Object.keys(profiles[0].scores).map((key) => [
+      key,
+      profiles.reduce((sum, p) => sum + p.weight * p.scores[key], 0) /
+        totalWeight,
+    ])
+  );
+}
+
+/**
+ * Weighted average of custom framework scores, dimension by dimension
+ */
+function averageCustomScores(
+  profiles: Array<{ weight: number; dimensions: CustomDimensionScore[] }>
+): CustomDimensionScore[] {
+  const average = averageScores(
+    profiles.map(({ weight, dimensions }) => ({
+      weight,
+      scores: Object.fromEntries(dimensions.map((d) => [d.key, d.score])),
+    }))
+  );
+  return profiles[0].dimensions.map((dimension) => ({
+    ...dimension,
+    score: average[dimension.key],
+  }));
+}
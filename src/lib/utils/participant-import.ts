@@ -0,0 +1,241 @@
+/**
+ * Bulk participant import for pre-registered workshops.
+ *
+ * Expected format: a header row followed by one row per participant, as CSV
+ * or as the first worksheet of an XLSX file:
+ *
+ *   name,country,email,tags
+ *   Ana Souza,BR,ana@example.com,Sales; Berlin
+ *   Kenji Sato,Japan,,
+ *
+ * Countries may be ISO codes or names; email and tags are optional. Tags are
+ * separated by semicolons (or commas in a quoted cell).
+ */
+
+import ExcelJS from "exceljs";
+import { parseCsvRows } from "./csv";
+
+/**
+ * Maximum number of participants accepted in a single import
+ */
+export const MAX_IMPORT_ROWS = 500;
+
+const MAX_NAME_LENGTH = 100;
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 50;
+
+const COLUMN_NAMES = {
+  name: ["name", "full name", "participant"],
+  country: ["country", "country_code", "country code", "iso_code", "code"],
+  email: ["email", "e-mail", "email address"],
+  tags: ["tags", "tag"],
+} as const;
+
+type ImportColumn = keyof typeof COLUMN_NAMES;
+
+export type ImportedParticipant = {
+  name: string;
+  countryCode: string;
+  email: string | null;
+  tags: string[];
+};
+
+export type ImportRowError = {
+  /** Row number in the file, counting the header as row 1 */
+  row: number;
+  message: string;
+};
+
+export type ParticipantImportResult =
+  | {
+      success: true;
+      participants: ImportedParticipant[];
+      rowErrors: ImportRowError[];
+    }
+  | { error: string };
+
+/**
+ * Reads the rows of an uploaded CSV or XLSX file.
+ *
+ * @param file - Uploaded file; XLSX is detected by its extension
+ * @returns Rows of cell text, or null if the file type is not supported
+ */
+export async function readImportFile(file: File): Promise<string[][] | null> {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+
+  if (extension === "csv" || extension === "txt") {
+    return parseCsvRows(await file.text());
+  }
+
+  if (extension === "xlsx") {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await file.arrayBuffer());
+
+    const worksheet = workbook.worksheets[0];
+    if (!worksheet) {
+      return [];
+    }
+
+    const rows: string[][] = [];
+    // Keep empty rows as placeholders so row numbers match the worksheet
+    worksheet.eachRow((row, rowNumber) => {
+      while (rows.length < rowNumber - 1) {
+        rows.push([]);
+      }
+      rows.push(
+        Array.from(
+          { length: worksheet.columnCount },
+          (_, i) => row.getCell(i + 1).text
+        )
+      );
+    });
+    return rows;
+  }
+
+  return null;
+}
+
+/**
+ * Validates imported rows and resolves their countries.
+ * Every row is checked so all problems can be reported at once; header
+ * problems are returned as a single error.
+ *
+ * @param rows - Rows of the file, starting with the header
+ * @param countries - Known countries, matched by ISO code or name
+ * @param existingEmails - Emails (lowercase) already used in the workshop
+ * @returns Valid participants and row-level errors, or a file-level error
+ */
+export function validateParticipantImport(
+  rows: string[][],
+  countries: Array<{ isoCode: string; name: string }>,
+  existingEmails: Set<string>
+): ParticipantImportResult {
+  const participantRowCount = rows
+    .slice(1)
+    .filter((cells) => cells.some((c) => c.trim() !== "")).length;
+  if (participantRowCount === 0) {
+    return {
+      error: "The file needs a header row and at least one participant",
+    };
+  }
+  if (participantRowCount > MAX_IMPORT_ROWS) {
+    return {
+      error: `Import at most ${MAX_IMPORT_ROWS} participants at a time`,
+    };
+  }
+
+  const [header, ...dataRows] = rows;
+  const columns = findColumns(header);
+  if (columns.name === -1) {
+    return { error: "Missing name column" };
+  }
+  if (columns.country === -1) {
+    return { error: "Missing country column (ISO code or name)" };
+  }
+
+  const countryByKey = new Map<string, string>();
+  for (const country of countries) {
+    countryByKey.set(country.isoCode.toLowerCase(), country.isoCode);
+    countryByKey.set(country.name.toLowerCase(), country.isoCode);
+  }
+
+  const participants: ImportedParticipant[] = [];
+  const rowErrors: ImportRowError[] = [];
+  const seenEmails = new Set<string>();
+
+  for (const [index, cells] of dataRows.entries()) {
+    const row = index + 2;
+    if (cells.every((c) => c.trim() === "")) {
+      continue;
+    }
+    const cell = (column: ImportColumn) =>
+      columns[column] === -1 ? "" : (cells[columns[column]]?.trim() ?? "");
+
+    const name = cell("name");
+    if (!name) {
+      rowErrors.push({ row, message: "Name is required" });
+      continue;
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      rowErrors.push({
+        row,
+        message: `Name must be ${MAX_NAME_LENGTH} characters or less`,
+      });
+      continue;
+    }
+
+    const country = cell("country");
+    const countryCode = countryByKey.get(country.toLowerCase());
+    if (!countryCode) {
+      rowErrors.push({
+        row,
+        message: country
+          ? `Unknown country "${country}"`
+          : "Country is required",
+      });
+      continue;
+    }
+
+    const email = cell("email").toLowerCase() || null;
+    if (email) {
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+        rowErrors.push({ row, message: `Invalid email "${email}"` });
+        continue;
+      }
+      if (existingEmails.has(email)) {
+        rowErrors.push({
+          row,
+          message: `${email} is already registered in this workshop`,
+        });
+        continue;
+      }
+      if (seenEmails.has(email)) {
+        rowErrors.push({ row, message: `Duplicate email ${email}` });
+        continue;
+      }
+      seenEmails.add(email);
+    }
+
+    const tags = [
+      ...new Set(
+        cell("tags")
+          .split(/[;,]/)
+          .map((tag) => tag.trim())
+          .filter(Boolean)
+      ),
+    ];
+    if (tags.length > MAX_TAGS) {
+      rowErrors.push({ row, message: `At most ${MAX_TAGS} tags per person` });
+      continue;
+    }
+    if (tags.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+      rowErrors.push({
+        row,
+        message: `Tags must be ${MAX_TAG_LENGTH} characters or less`,
+      });
+      continue;
+    }
+
+    participants.push({ name, countryCode, email, tags });
+  }
+
+  return { success: true, participants, rowErrors };
+}
+
+/**
+ * Finds the index of each known column in the header (-1 if missing)
+ */
+function findColumns(header: string[]): Record<ImportColumn, number> {
+  const normalizedHeader = header.map((cell) => cell.trim().toLowerCase());
+  const indexOf = (column: ImportColumn) =>
+    normalizedHeader.findIndex((cell) =>
+      (COLUMN_NAMES[column] as readonly string[]).includes(cell)
+    );
+
+  return {
+    name: indexOf("name"),
+    country: indexOf("country"),
+    email: indexOf("email"),
+    tags: indexOf("tags"),
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Pending constraint utilities
+ * Templates and duplicated workshops start without participants, so their
+ * must-link / cannot-link constraints are stored by participant name and
+ * applied once both participants have joined or been imported
+ */
+
+import type {
+  GroupingConstraint,
+  GroupingConstraintType,
+} from "@/lib/utils/group-assignment";
+
+/**
+ * Constraint between two participants identified by name
+ */
+export type PendingConstraint = {
+  type: GroupingConstraintType;
+  participantAName: string;
+  participantBName: string;
+};
+
+type NamedParticipant = {
+  id: string;
+  name: string;
+};
+
+/**
+ * Converts a workshop's constraints into name-based constraints and merges
+ * them with the constraints still waiting for their participants. Pairs are
+ * kept once; constraints whose participants are unknown are dropped.
+ *
+ * @param constraints - Constraints between participant IDs
+ * @param workshopParticipants - Participants of the workshop
+ * @param pending - Constraints still waiting for their participants
+ * @returns Name-based constraints
+ */
+export function toPendingConstraints(
+  constraints: GroupingConstraint[],
+  workshopParticipants: NamedParticipant[],
+  pending: PendingConstraint[] | null
+): PendingConstraint[] {
+  const names = new Map(workshopParticipants.map((p) => [p.id, p.name]));
+  const result: PendingConstraint[] = [];
+  const seenPairs = new Set<string>();
+
+  const add = (constraint: PendingConstraint) => {
+    const pairKey = getNamePairKey(
+      constraint.participantAName,
+      constraint.participantBName
+    );
+    if (seenPairs.has(pairKey)) {
+      return;
+    }
+    seenPairs.add(pairKey);
+    result.push(constraint);
+  };
+
+  for (const constraint of constraints) {
+    const participantAName = names.get(constraint.participantAId);
+    const participantBName = names.get(constraint.participantBId);
+    if (participantAName && participantBName) {
+      add({ type: constraint.type, participantAName, participantBName });
+    }
+  }
+  for (const constraint of pending ?? []) {
+    add(constraint);
+  }
+
+  return result;
+}
+
+/**
+ * Matches pending constraints to participants by name (trimmed, case
+ * insensitive). A constraint is resolved once both names match exactly one
+ * participant each; pairs that already have a constraint are dropped, since
+ * each pair can only have one.
+ *
+ * @param pending - Constraints waiting for their participants
+ * @param workshopParticipants - Participants of the workshop
+ * @param existing - Constraints the workshop already has
+ * @returns Constraints to create and the ones still waiting
+ */
+export function resolvePendingConstraints(
+  pending: PendingConstraint[],
+  workshopParticipants: NamedParticipant[],
+  existing: GroupingConstraint[]
+): { resolved: GroupingConstraint[]; remaining: PendingConstraint[] } {
+  // Names shared by several participants are ambiguous and never match
+  const idsByName = new Map<string, string | null>();
+  for (const participant of workshopParticipants) {
+    const name = normalizeName(participant.name);
+    idsByName.set(name, idsByName.has(name) ? null : participant.id);
+  }
+
+  const constrainedPairs = new Set(
+    existing.map((c) => getIdPairKey(c.participantAId, c.participantBId))
+  );
+  const resolved: GroupingConstraint[] = [];
+  const remaining: PendingConstraint[] = [];
+
+  for (const constraint of pending) {
+    const participantAId = idsByName.get(
+      normalizeName(constraint.participantAName)
+    );
+    const participantBId = idsByName.get(
+      normalizeName(constraint.participantBName)
+    );
+    if (
+      !participantAId ||
+      !participantBId ||
+      participantAId === participantBId
+    ) {
+      remaining.push(constraint);
+      continue;
+    }
+
+    const pairKey = getIdPairKey(participantAId, participantBId);
+    if (constrainedPairs.has(pairKey)) {
+      continue;
+    }
+    constrainedPairs.add(pairKey);
+    resolved.push({ type: constraint.type, participantAId, participantBId });
+  }
+
+  return { resolved, remaining };
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function getNamePairKey(nameA: string, nameB: string): string {
+  return [normalizeName(nameA), normalizeName(nameB)].sort().join("\u0000");
+}
+
+function getIdPairKey(idA: string, idB: string): string {
+  return idA < idB ? `${idA}:${idB}` : `${idB}:${idA}`;
+}
@@ -0,0 +1,123 @@
+/**
+ * Score source utilities
+ * Decides whether participants are scored by their country, by their
+ * self-assessment, or by a blend of both
+ */
+
+import type { ScoreSource } from "@/lib/db/schema/workshops";
+import type { CulturalScores, PersonalScores } from "@/types/cultural";
+
+export type { ScoreSource };
+
+export const DEFAULT_SCORE_SOURCE: ScoreSource = "country";
+
+export const SCORE_SOURCES: ScoreSource[] = ["country", "personal", "blend"];
+
+/**
+ * Share of personal scores (in percent) used when blending by default
+ */
+export const DEFAULT_PERSONAL_SCORE_WEIGHT = 50;
+
+/**
+ * Score source columns stored on a workshop
+ */
+export type ScoreSourceConfig = {
+  scoreSource: ScoreSource;
+  personalScoreWeight: number;
+};
+
+/**
+ * Validates a score source and the personal share used for blending.
+ *
+ * @param config - Score source and personal weight in percent
+ * @returns Error message, or null if valid
+ */
+export function validateScoreSource(config: ScoreSourceConfig): string | null {
+  if (!SCORE_SOURCES.includes(config.scoreSource)) {
+    return "Invalid score source";
+  }
+  if (
+    !Number.isInteger(config.personalScoreWeight) ||
+    config.personalScoreWeight < 0 ||
+    config.personalScoreWeight > 100
+  ) {
+    return "Personal share must be between 0% and 100%";
+  }
+  return null;
+}
+
+/**
+ * Formats a score source for display, e.g. "Blend (30% personal)".
+ *
+ * @param config - Score source and personal weight in percent
+ * @returns Human-readable description
+ */
+export function formatScoreSource(config: ScoreSourceConfig): string {
+  switch (config.scoreSource) {
+    case "country":
+      return "Country scores";
+    case "personal":
+      return "Personal scores";
+    case "blend":
+      return `Blend (${config.personalScoreWeight}% personal)`;
+  }
+}
+
+/**
+ * Resolves the scores a participant is grouped by.
+ * Participants without a self-assessment always use their country's scores,
+ * and custom frameworks are only scored by country. When blending, each
+ * built-in dimension is a weighted average of both scores; a framework the
+ * country has no data for uses the personal scores alone.
+ *
+ * @param countryScores - Scores of the participant's country
+ * @param personalScores - Self-assessment scores, if answered
+ * @param config - Score source and personal weight in percent
+ * @returns Scores to use for distance computation
+ */
+export function resolveParticipantScores(
+  countryScores: CulturalScores,
+  personalScores: PersonalScores | null | undefined,
+  config: ScoreSourceConfig
+): CulturalScores {
+  if (!personalScores || config.scoreSource === "country") {
+    return countryScores;
+  }
+
+  const personalWeight =
+    config.scoreSource === "personal" ? 1 : config.personalScoreWeight / 100;
+
+  return {
+    ...countryScores,
+    lewis: blendScores(
+      countryScores.lewis,
+      personalScores.lewis,
+      personalWeight
+    ),
+    hall: blendScores(countryScores.hall, personalScores.hall, personalWeight),
+    hofstede: blendScores(
+      countryScores.hofstede,
+      personalScores.hofstede,
+      personalWeight
+    ),
+  };
+}
+
+/**
+ * Weighted average of country and personal scores per dimension
+ */
+function blendScores<T extends Record<string, number>>(
+  countryScores: T | undefined,
+  personalScores: T,
+  personalWeight: number
+): T {
+  if (!countryScores) {
+    return { ...personalScores };
+  }
+  return Object.fromEntries(
+    Object.entries(personalScores).map(([key, score]) => [
+      key,
+      (1 - personalWeight) * countryScores[key] + personalWeight * score,
+    ])
+  ) as T;
+}
@@ -0,0 +1,185 @@
+/**
+ * Self-assessment questionnaire utilities
+ * Short questionnaire participants can answer when joining, scored onto the
+ * Lewis, Hall and Hofstede dimensions
+ */
+
+import type {
+  BuiltInFramework,
+  HallScores,
+  HofstedeScores,
+  LewisScores,
+  PersonalScores,
+} from "@/types/cultural";
+
+/**
+ * One statement rated on the agreement scale; agreeing raises the score of
+ * the dimension
+ */
+export type SelfAssessmentQuestion = {
+  id: string;
+  framework: BuiltInFramework;
+  dimension: string;
+  statement: string;
+};
+
+/**
+ * Ratings (1-5) keyed by question ID
+ */
+export type SelfAssessmentAnswers = Record<string, number>;
+
+export const AGREEMENT_SCALE = [
+  { value: 1, label: "Strongly disagree" },
+  { value: 2, label: "Disagree" },
+  { value: 3, label: "Neutral" },
+  { value: 4, label: "Agree" },
+  { value: 5, label: "Strongly agree" },
+];
+
+const MIN_RATING = 1;
+const MAX_RATING = 5;
+
+export const SELF_ASSESSMENT_QUESTIONS: SelfAssessmentQuestion[] = [
+  {
+    id: "linearActive",
+    framework: "lewis",
+    dimension: "linearActive",
+    statement: "I like to plan ahead and work on one task at a time.",
+  },
+  {
+    id: "multiActive",
+    framework: "lewis",
+    dimension: "multiActive",
+    statement:
+      "I enjoy juggling several things at once and lively conversation.",
+  },
+  {
+    id: "reactive",
+    framework: "lewis",
+    dimension: "reactive",
+    statement: "I prefer to listen carefully and reflect before I respond.",
+  },
+  {
+    id: "contextHigh",
+    framework: "hall",
+    dimension: "contextHigh",
+    statement:
+      "Much of what I mean is carried by tone, context and what is left unsaid.",
+  },
+  {
+    id: "timePolychronic",
+    framework: "hall",
+    dimension: "timePolychronic",
+    statement:
+      "Schedules are flexible; relationships matter more than punctuality.",
+  },
+  {
+    id: "spacePrivate",
+    framework: "hall",
+    dimension: "spacePrivate",
+    statement: "I value personal space and prefer a private place to work.",
+  },
+  {
+    id: "powerDistance",
+    framework: "hofstede",
+    dimension: "powerDistance",
+    statement:
+      "It is right for managers to make decisions without consulting their team.",
+  },
+  {
+    id: "individualism",
+    framework: "hofstede",
+    dimension: "individualism",
+    statement: "My personal goals matter more to me than loyalty to my group.",
+  },
+  {
+    id: "masculinity",
+    framework: "hofstede",
+    dimension: "masculinity",
+    statement:
+      "Competition and winning motivate me more than consensus and caring.",
+  },
+  {
+    id: "uncertaintyAvoidance",
+    framework: "hofstede",
+    dimension: "uncertaintyAvoidance",
+    statement: "I feel uneasy in unclear situations without firm rules.",
+  },
+  {
+    id: "longTermOrientation",
+    framework: "hofstede",
+    dimension: "longTermOrientation",
+    statement: "I readily give up results today for success in the long run.",
+  },
+  {
+    id: "indulgence",
+    framework: "hofstede",
+    dimension: "indulgence",
+    statement: "Enjoying life and having fun are very important to me.",
+  },
+];
+
+/**
+ * Validates that every question has a whole-number rating on the scale.
+ *
+ * @param answers - Ratings keyed by question ID
+ * @returns Error message, or null if valid
+ */
+export function validateSelfAssessmentAnswers(
+  answers: SelfAssessmentAnswers
+): string | null {
+  for (const question of SELF_ASSESSMENT_QUESTIONS) {
+    const rating = answers[question.id];
+    if (rating === undefined) {
+      return "Please answer every question of the questionnaire";
+    }
+    if (
+      !Number.isInteger(rating) ||
+      rating < MIN_RATING ||
+      rating > MAX_RATING
+    ) {
+      return `Ratings must be between ${MIN_RATING} and ${MAX_RATING}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Scores questionnaire answers onto the built-in frameworks.
+ * Hall and Hofstede ratings map linearly to 0-1; the three Lewis ratings
+ * are turned into shares that sum to 1, like the country data.
+ *
+ * @param answers - Validated ratings keyed by question ID
+ * @returns Personal scores
+ */
+export function computePersonalScores(
+  answers: SelfAssessmentAnswers
+): PersonalScores {
+  const scale = (id: string) =>
+    (answers[id] - MIN_RATING) / (MAX_RATING - MIN_RATING);
+
+  const lewisTotal =
+    answers.linearActive + answers.multiActive + answers.reactive;
+  const lewis: LewisScores = {
+    linearActive: answers.linearActive / lewisTotal,
+    multiActive: answers.multiActive / lewisTotal,
+    reactive: answers.reactive / lewisTotal,
+  };
+
+  const hall: HallScores = {
+    contextHigh: scale("contextHigh"),
+    timePolychronic: scale("timePolychronic"),
+    spacePrivate: scale("spacePrivate"),
+  };
+
+  const hofstede: HofstedeScores = {
+    powerDistance: scale("powerDistance"),
+    individualism: scale("individualism"),
+    masculinity: scale("masculinity"),
+    uncertaintyAvoidance: scale("uncertaintyAvoidance"),
+    longTermOrientation: scale("longTermOrientation"),
+    indulgence: scale("indulgence"),
+  };
+
+  return { lewis, hall, hofstede };
+}
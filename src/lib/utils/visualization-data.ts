@@ -4,9 +4,20 @@
  */
 
 import type { Framework, CulturalScores } from "@/types/cultural";
-import { generateDistanceMatrix } from "./distance-matrix";
-import { getCulturalDataForCountries } from "@/lib/db/queries/country-queries";
-import { computeDimensionalDistances } from "./cultural-distance";
+import {
+  deserializeDistanceMatrix,
+  generateDistanceMatrix,
+  getDistance,
+  getDistanceAt,
+  type DistanceMatrix,
+  type SerializedDistanceMatrix,
+} from "./distance-matrix";
+import {
+  computeDimensionalDistances,
+  type DistanceOptions,
+} from "./cultural-distance";
+import type { DistanceWeights } from "./distance-weights";
+import type { DistanceMetric } from "./distance-metrics";
 
 export type Participant = {
   id: string;
@@ -28,7 +39,10 @@ export type GraphNode = {
   countryCode: string;
   groupId?: string;
   groupNumber?: number;
+  // Scores the participant is grouped by (country, personal or blended)
   culturalScores?: CulturalScores;
+  // Scores of the participant's country, when they differ from the above
+  countryScores?: CulturalScores;
 };
 
 export type DimensionalDistance = {
@@ -37,6 +51,7 @@ export type DimensionalDistance = {
   distance: number; // normalized 0-1
   sourceValue?: number; // actual score value from source node
   targetValue?: number; // actual score value from target node
+  weight?: number; // weight in the overall distance (1 = unweighted)
 };
 
 export type GraphLink = {
@@ -66,21 +81,43 @@ export type HeatmapData = {
   data: HeatmapDataPoint[];
   minDistance: number;
   maxDistance: number;
+  // Metric the distances were computed with, and the largest distance it
+  // can produce for the framework (for labelling the scale)
+  metric: DistanceMetric;
+  maxPossibleDistance: number;
 };
 
 /**
- * Transforms distance matrix to graph data for network visualization
+ * Graph and heatmap data in the form sent to the client: the nodes and the
+ * distance matrix between distinct profiles, so the payload grows with the
+ * number of profiles rather than participant pairs. Expanded into links and
+ * heatmap cells by expandCompactGraphData.
  */
-export function transformDistanceMatrixToGraph(
+export type CompactGraphData = {
+  nodes: GraphNode[];
+  distances: SerializedDistanceMatrix;
+  // Dimension weights of the per-dimension link distances
+  weights: DistanceWeights | null;
+  metric: DistanceMetric;
+  maxPossibleDistance: number;
+};
+
+/**
+ * Transforms participants to graph nodes with their groups and scores.
+ * Cultural data is keyed by participant ID; country data (keyed by country
+ * code) keeps the primary country's scores on nodes whose scores differ
+ * (self-assessed or multicultural participants).
+ */
+export function transformParticipantsToGraphNodes(
   participants: Participant[],
-  distanceMatrix: Map<string, Map<string, number>>,
   groups?: Group[],
-  framework?: Framework,
-  culturalDataMap?: Map<string, CulturalScores>
-): GraphData {
-  const nodes: GraphNode[] = participants.map((p) => {
+  culturalDataMap?: Map<string, CulturalScores>,
+  countryDataMap?: Map<string, CulturalScores>
+): GraphNode[] {
+  return participants.map((p) => {
     const group = groups?.find((g) => g.participantIds.includes(p.id));
-    const scores = culturalDataMap?.get(p.countryCode);
+    const scores = culturalDataMap?.get(p.id);
+    const countryScores = countryDataMap?.get(p.countryCode);
     return {
       id: p.id,
       name: p.name,
@@ -89,49 +126,57 @@ export function transformDistanceMatrixToGraph(
       groupId: group?.id,
       groupNumber: group?.groupNumber,
       culturalScores: scores,
+      countryScores: countryScores !== scores ? countryScores : undefined,
     };
   });
+}
 
+/**
+ * Transforms distance matrix to graph data for network visualization, with
+ * one link per pair of nodes. Per-dimension distances are computed from the
+ * nodes' cultural scores.
+ */
+export function transformDistanceMatrixToGraph(
+  nodes: GraphNode[],
+  distanceMatrix: DistanceMatrix,
+  framework?: Framework,
+  distanceOptions: DistanceOptions = {}
+): GraphData {
   const links: GraphLink[] = [];
+  const indices = nodes.map((n) => distanceMatrix.indexOf.get(n.id));
+  // Participants sharing a matrix row have the same scores, so dimensional
+  // distances are computed once per ordered pair of rows
+  const dimensionalByRows = new Map<
+    number,
+    DimensionalDistance[] | undefined
+  >();
 
-  for (const [sourceId, distances] of distanceMatrix.entries()) {
-    for (const [targetId, distance] of distances.entries()) {
-      // Only include one direction (avoid duplicate edges)
-      if (sourceId < targetId) {
-        const sourceParticipant = participants.find((p) => p.id === sourceId);
-        const targetParticipant = participants.find((p) => p.id === targetId);
-
-        // Compute dimensional distances if framework and cultural data are available
-        let dimensionalDistances: DimensionalDistance[] | undefined;
-        if (
-          framework &&
-          culturalDataMap &&
-          sourceParticipant &&
-          targetParticipant
-        ) {
-          const scores1 = culturalDataMap.get(sourceParticipant.countryCode);
-          const scores2 = culturalDataMap.get(targetParticipant.countryCode);
-          if (scores1 && scores2) {
-            try {
-              dimensionalDistances = computeDimensionalDistances(
-                scores1,
-                scores2,
-                framework
-              );
-            } catch (error) {
-              // If dimensional computation fails, just omit it
-              console.warn("Failed to compute dimensional distances:", error);
-            }
-          }
-        }
-
-        links.push({
-          source: sourceId,
-          target: targetId,
-          distance,
-          dimensionalDistances,
-        });
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const a = indices[i];
+      const b = indices[j];
+      if (a === undefined || b === undefined) continue;
+
+      const rowsKey =
+        distanceMatrix.rowOf[a] * distanceMatrix.size + distanceMatrix.rowOf[b];
+      if (!dimensionalByRows.has(rowsKey)) {
+        dimensionalByRows.set(
+          rowsKey,
+          computeLinkDimensions(
+            nodes[i].culturalScores,
+            nodes[j].culturalScores,
+            framework,
+            distanceOptions
+          )
+        );
       }
+
+      links.push({
+        source: nodes[i].id,
+        target: nodes[j].id,
+        distance: getDistanceAt(distanceMatrix, a, b),
+        dimensionalDistances: dimensionalByRows.get(rowsKey),
+      });
     }
   }
 
@@ -143,7 +188,8 @@ export function transformDistanceMatrixToGraph(
  */
 export function transformDistanceMatrixToHeatmap(
   participants: Participant[],
-  distanceMatrix: Map<string, Map<string, number>>
+  distanceMatrix: DistanceMatrix,
+  scale: Pick<HeatmapData, "metric" | "maxPossibleDistance">
 ): HeatmapData {
   const data: HeatmapDataPoint[] = [];
   let minDistance = Infinity;
@@ -153,7 +199,7 @@ export function transformDistanceMatrixToHeatmap(
     for (let j = 0; j < participants.length; j++) {
       const sourceId = participants[i].id;
       const targetId = participants[j].id;
-      const distance = distanceMatrix.get(sourceId)?.get(targetId) ?? 0;
+      const distance = getDistance(distanceMatrix, sourceId, targetId);
 
       minDistance = Math.min(minDistance, distance);
       maxDistance = Math.max(maxDistance, distance);
@@ -175,27 +221,94 @@ export function transformDistanceMatrixToHeatmap(
     data,
     minDistance: minDistance === Infinity ? 0 : minDistance,
     maxDistance: maxDistance === -Infinity ? 0 : maxDistance,
+    metric: scale.metric,
+    maxPossibleDistance: scale.maxPossibleDistance,
   };
 }
 
 /**
- * Computes distance matrix for participants with a given framework.
- * Uses batch query to fetch all cultural data in a single round-trip.
+ * Expands compact graph data into the network graph's links and the
+ * heatmap's cells.
+ *
+ * @param data - Nodes and profile distances sent by the server
+ * @param framework - Framework the distances were computed with
+ * @returns Graph and heatmap data
  */
-export async function computeDistanceMatrixForParticipants(
-  participants: Participant[],
+export function expandCompactGraphData(
+  data: CompactGraphData,
   framework: Framework
-): Promise<Map<string, Map<string, number>>> {
-  // Get cultural scores for all participants in a single batch query
-  const countryCodes = participants.map((p) => p.countryCode);
-  const culturalDataMap = await getCulturalDataForCountries(countryCodes);
+): { graphData: GraphData; heatmapData: HeatmapData } {
+  const distanceMatrix = deserializeDistanceMatrix(data.distances);
+  return {
+    graphData: transformDistanceMatrixToGraph(
+      data.nodes,
+      distanceMatrix,
+      framework,
+      { weights: data.weights }
+    ),
+    heatmapData: transformDistanceMatrixToHeatmap(
+      data.nodes.map((node) => ({
+        id: node.id,
+        name: node.name,
+        countryCode: node.countryCode,
+        countryName: node.country,
+      })),
+      distanceMatrix,
+      { metric: data.metric, maxPossibleDistance: data.maxPossibleDistance }
+    ),
+  };
+}
 
+/**
+ * Computes distance matrix for participants with a given framework and
+ * optional distance metric and weights.
+ * Cultural data is keyed by participant ID (see
+ * getCulturalDataForParticipants).
+ */
+export function computeDistanceMatrixForParticipants(
+  participants: Participant[],
+  framework: Framework,
+  culturalDataMap: Map<string, CulturalScores>,
+  distanceOptions: DistanceOptions = {}
+): DistanceMatrix {
   // Build participants with scores
   const participantsWithScores = participants.map((p) => ({
     id: p.id,
-    culturalScores: culturalDataMap.get(p.countryCode) ?? {},
+    culturalScores: culturalDataMap.get(p.id) ?? {},
   }));
 
   // Generate distance matrix
-  return generateDistanceMatrix(participantsWithScores, framework);
+  return generateDistanceMatrix(
+    participantsWithScores,
+    framework,
+    distanceOptions
+  );
+}
+
+/**
+ * Computes the per-dimension distances of a link if the framework and
+ * cultural data are available; omitted if the computation fails
+ */
+function computeLinkDimensions(
+  scores1: CulturalScores | undefined,
+  scores2: CulturalScores | undefined,
+  framework: Framework | undefined,
+  distanceOptions: DistanceOptions
+): DimensionalDistance[] | undefined {
+  if (!framework || !scores1 || !scores2) {
+    return undefined;
+  }
+
+  try {
+    return computeDimensionalDistances(
+      scores1,
+      scores2,
+      framework,
+      distanceOptions.weights
+    );
+  } catch (error) {
+    // If dimensional computation fails, just omit it
+    console.warn("Failed to compute dimensional distances:", error);
+    return undefined;
+  }
 }
@@ -0,0 +1,67 @@
+/**
+ * Workshop configuration utilities
+ * The configuration of a workshop (framework, grouping, scoring, algorithm,
+ * participant attributes, rounds, reflection prompt, late joining and
+ * constraints by participant name) is what templates store and duplicates
+ * copy; participants and groups are not part of it
+ */
+
+import type { workshops } from "@/lib/db/schema/workshops";
+
+export type WorkshopConfiguration = Pick<
+  typeof workshops.$inferSelect,
+  | "framework"
+  | "minGroupSize"
+  | "maxGroupSize"
+  | "groupCount"
+  | "objective"
+  | "targetDistanceMin"
+  | "targetDistanceMax"
+  | "distanceMetric"
+  | "distanceWeights"
+  | "scoreSource"
+  | "personalScoreWeight"
+  | "groupingAlgorithm"
+  | "algorithmParameters"
+  | "participantAttributes"
+  | "roundCount"
+  | "reflectionPrompt"
+  | "lateJoining"
+  | "pendingConstraints"
+>;
+
+/**
+ * Maximum length of a reflection prompt
+ */
+export const MAX_REFLECTION_PROMPT_LENGTH = 500;
+
+/**
+ * Picks the configuration of a workshop or template.
+ *
+ * @param source - Workshop or template row
+ * @returns Configuration fields only
+ */
+export function toWorkshopConfiguration(
+  source: WorkshopConfiguration
+): WorkshopConfiguration {
+  return {
+    framework: source.framework,
+    minGroupSize: source.minGroupSize,
+    maxGroupSize: source.maxGroupSize,
+    groupCount: source.groupCount,
+    objective: source.objective,
+    targetDistanceMin: source.targetDistanceMin,
+    targetDistanceMax: source.targetDistanceMax,
+    distanceMetric: source.distanceMetric,
+    distanceWeights: source.distanceWeights,
+    scoreSource: source.scoreSource,
+    personalScoreWeight: source.personalScoreWeight,
+    groupingAlgorithm: source.groupingAlgorithm,
+    algorithmParameters: source.algorithmParameters,
+    participantAttributes: source.participantAttributes,
+    roundCount: source.roundCount,
+    reflectionPrompt: source.reflectionPrompt,
+    lateJoining: source.lateJoining,
+    pendingConstraints: source.pendingConstraints,
+  };
+}
@@ -0,0 +1,265 @@
+/**
+ * Workshop export utilities
+ * Turns workshop data into participant, group and reflection tables and
+ * serializes them as CSV, XLSX or a JSON bundle
+ */
+
+import ExcelJS from "exceljs";
+import type { WorkshopStatus } from "@/lib/db/schema/workshops";
+import type { Framework } from "@/types/cultural";
+
+export type ExportFormat = "csv" | "xlsx" | "json";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "xlsx", "json"];
+
+export type ExportTableName = "participants" | "groups" | "reflections";
+
+export const EXPORT_TABLES: ExportTableName[] = [
+  "participants",
+  "groups",
+  "reflections",
+];
+
+/**
+ * Everything exported from a workshop; also the shape of the JSON bundle
+ */
+export type WorkshopExportData = {
+  exportedAt: Date;
+  workshop: {
+    id: string;
+    title: string;
+    date: string | null;
+    status: WorkshopStatus;
+    framework: Framework | null;
+    frameworkLabel: string | null;
+    roundCount: number;
+    currentRound: number;
+    createdAt: Date;
+  };
+  participants: Array<{
+    id: string;
+    name: string;
+    countryCode: string;
+    countryName: string;
+    selfAssessed: boolean;
+    joinedAt: Date;
+    email: string | null;
+    tags: string[];
+    // Claim link token of pre-registered participants
+    claimToken: string | null;
+    claimed: boolean;
+    // Group number per round, keyed by round number
+    groupNumbers: Record<number, number>;
+  }>;
+  groups: Array<{
+    roundNumber: number;
+    groupNumber: number;
+    // Average pairwise cultural distance; null if cultural data is incomplete
+    diversityScore: number | null;
+    members: Array<{ id: string; name: string; countryName: string | null }>;
+  }>;
+  // Reflections of the current round, including missing ones
+  reflections: Array<{
+    roundNumber: number;
+    groupNumber: number;
+    participantId: string;
+    participantName: string;
+    submitted: boolean;
+    submittedAt: Date | null;
+    content: string | null;
+  }>;
+};
+
+export type ExportCell = string | number | boolean | Date | null;
+
+export type ExportTable = {
+  name: ExportTableName;
+  title: string;
+  columns: string[];
+  rows: ExportCell[][];
+};
+
+const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json; charset=utf-8",
+};
+
+/**
+ * Gets the content type of an export format.
+ *
+ * @param format - Export format
+ * @returns MIME type for the response
+ */
+export function getExportContentType(format: ExportFormat): string {
+  return EXPORT_CONTENT_TYPES[format];
+}
+
+/**
+ * Builds a download file name from the workshop title,
+ * e.g. "team-offsite-2025-participants.csv".
+ *
+ * @param title - Workshop title
+ * @param format - Export format (file extension)
+ * @param table - Exported table, for single-table formats
+ * @returns File name safe for Content-Disposition
+ */
+export function getExportFilename(
+  title: string,
+  format: ExportFormat,
+  table?: ExportTableName
+): string {
+  const slug =
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "workshop";
+  return `${slug}${table ? `-${table}` : ""}.${format}`;
+}
+
+/**
+ * Flattens export data into participant, group and reflection tables.
+ * Participants get one group column per round; pre-registered participants
+ * who have not claimed their invitation get their invite link.
+ *
+ * @param data - Workshop export data
+ * @param baseUrl - Origin used for invite links, e.g. "https://example.com"
+ * @returns Tables in export order
+ */
+export function buildExportTables(
+  data: WorkshopExportData,
+  baseUrl: string
+): ExportTable[] {
+  const rounds = Array.from(
+    { length: data.workshop.roundCount },
+    (_, i) => i + 1
+  );
+
+  return [
+    {
+      name: "participants",
+      title: "Participants",
+      columns: [
+        "Name",
+        "Country",
+        "Country Code",
+        "Email",
+        "Tags",
+        "Self-assessed",
+        "Joined At",
+        "Invite Link",
+        ...rounds.map((round) =>
+          rounds.length > 1 ? `Group (Round ${round})` : "Group"
+        ),
+      ],
+      rows: data.participants.map((participant) => [
+        participant.name,
+        participant.countryName,
+        participant.countryCode,
+        participant.email,
+        participant.tags.join("; "),
+        participant.selfAssessed,
+        participant.joinedAt,
+        participant.claimToken && !participant.claimed
+          ? `${baseUrl}/claim/${participant.claimToken}`
+          : null,
+        ...rounds.map((round) => participant.groupNumbers[round] ?? null),
+      ]),
+    },
+    {
+      name: "groups",
+      title: "Groups",
+      columns: ["Round", "Group", "Size", "Diversity Score", "Members"],
+      rows: data.groups.map((group) => [
+        group.roundNumber,
+        group.groupNumber,
+        group.members.length,
+        group.diversityScore,
+        group.members
+          .map((m) => (m.countryName ? `${m.name} (${m.countryName})` : m.name))
+          .join("; "),
+      ]),
+    },
+    {
+      name: "reflections",
+      title: "Reflections",
+      columns: [
+        "Round",
+        "Group",
+        "Participant",
+        "Submitted",
+        "Submitted At",
+        "Reflection",
+      ],
+      rows: data.reflections.map((reflection) => [
+        reflection.roundNumber,
+        reflection.groupNumber,
+        reflection.participantName,
+        reflection.submitted,
+        reflection.submittedAt,
+        reflection.content,
+      ]),
+    },
+  ];
+}
+
+/**
+ * Serializes a table as CSV (RFC 4180) with a header row.
+ * Text starting with =, +, - or @ is prefixed with an apostrophe so
+ * spreadsheet applications do not evaluate participant input as formulas.
+ *
+ * @param table - Table to serialize
+ * @returns CSV text with CRLF line endings
+ */
+export function toCsv(table: ExportTable): string {
+  return [table.columns, ...table.rows]
+    .map((row) => row.map(formatCsvCell).join(","))
+    .join("\r\n");
+}
+
+/**
+ * Serializes tables as an XLSX workbook with one worksheet per table.
+ *
+ * @param tables - Tables to include
+ * @returns XLSX file contents
+ */
+export async function toXlsx(tables: ExportTable[]): Promise<ArrayBuffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  for (const table of tables) {
+    const worksheet = workbook.addWorksheet(table.title);
+    worksheet.columns = table.columns.map((header) => ({
+      header,
+      width: Math.max(12, header.length + 2),
+    }));
+    worksheet.getRow(1).font = { bold: true };
+    worksheet.views = [{ state: "frozen", ySplit: 1 }];
+    worksheet.addRows(
+      table.rows.map((row) => row.map((cell) => cell ?? undefined))
+    );
+  }
+
+  return await workbook.xlsx.writeBuffer();
+}
+
+/**
+ * Formats one CSV field, quoting it when needed
+ */
+function formatCsvCell(cell: ExportCell): string {
+  if (cell === null) {
+    return "";
+  }
+  if (cell instanceof Date) {
+    return cell.toISOString();
+  }
+  if (typeof cell === "boolean") {
+    return cell ? "Yes" : "No";
+  }
+  if (typeof cell === "number") {
+    return Number.isInteger(cell) ? cell.toString() : cell.toFixed(4);
+  }
+
+  const text = /^[=+\-@]/.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
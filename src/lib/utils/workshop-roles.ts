@@ -0,0 +1,79 @@
+/**
+ * Workshop role utilities
+ * Owners manage the workshop and its team, co-facilitators run it, and
+ * observers have read-only access
+ */
+
+import type { WorkshopRole } from "@/lib/db/schema/workshop-members";
+
+export type { WorkshopRole };
+
+export const WORKSHOP_ROLES: WorkshopRole[] = [
+  "owner",
+  "co_facilitator",
+  "observer",
+];
+
+const WORKSHOP_ROLE_LABELS: Record<WorkshopRole, string> = {
+  owner: "Owner",
+  co_facilitator: "Co-facilitator",
+  observer: "Observer",
+};
+
+export const WORKSHOP_ROLE_DESCRIPTIONS: Record<WorkshopRole, string> = {
+  owner: "Full access, including the team and deleting the workshop",
+  co_facilitator:
+    "Runs the workshop: participants, configuration, groups and state",
+  observer: "Read-only access to participants, groups and reflections",
+};
+
+// Higher rank includes the permissions of every lower rank
+const WORKSHOP_ROLE_RANKS: Record<WorkshopRole, number> = {
+  observer: 0,
+  co_facilitator: 1,
+  owner: 2,
+};
+
+/**
+ * Formats a workshop role for display, e.g. "Co-facilitator".
+ *
+ * @param role - Workshop role
+ * @returns Human-readable name
+ */
+export function formatWorkshopRole(role: WorkshopRole): string {
+  return WORKSHOP_ROLE_LABELS[role];
+}
+
+/**
+ * Checks whether a role grants at least the permissions of another role.
+ *
+ * @param role - Role of the user
+ * @param requiredRole - Minimum role needed
+ * @returns True if the role is sufficient
+ */
+export function hasWorkshopRole(
+  role: WorkshopRole,
+  requiredRole: WorkshopRole
+): boolean {
+  return WORKSHOP_ROLE_RANKS[role] >= WORKSHOP_ROLE_RANKS[requiredRole];
+}
+
+/**
+ * Resolves the effective role of a user on a workshop from their own
+ * membership and the role granted by the workshop's organization.
+ *
+ * @param memberRole - Role of the user's workshop membership, if any
+ * @param organizationRole - Workshop role granted by the organization, if any
+ * @returns The higher of both roles, or null without access
+ */
+export function resolveWorkshopRole(
+  memberRole: WorkshopRole | null,
+  organizationRole: WorkshopRole | null
+): WorkshopRole | null {
+  if (!memberRole || !organizationRole) {
+    return memberRole ?? organizationRole;
+  }
+  return hasWorkshopRole(memberRole, organizationRole)
+    ? memberRole
+    : organizationRole;
+}
@@ -4,6 +4,7 @@ import { NextResponse } from "next/server";
 const isPublicRoute = createRouteMatcher([
   "/",
   "/join(.*)",
+  "/claim(.*)",
   "/participant(.*)",
   "/sign-in(.*)",
   "/sign-up(.*)",
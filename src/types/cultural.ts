@@ -3,7 +3,15 @@
  * Single source of truth for all cultural dimension types used across the application
  */
 
-export type Framework = "lewis" | "hall" | "hofstede" | "combined";
+export type BuiltInFramework = "lewis" | "hall" | "hofstede";
+
+/**
+ * Facilitator-defined framework, identified by its database ID
+ * (e.g. "custom:3f2b...")
+ */
+export type CustomFrameworkId = `custom:${string}`;
+
+export type Framework = BuiltInFramework | "combined" | CustomFrameworkId;
 
 export type LewisScores = {
   linearActive: number;
@@ -26,12 +34,92 @@ export type HofstedeScores = {
   indulgence: number;
 };
 
+export type FrameworkDimension = {
+  key: string;
+  label: string;
+};
+
+/**
+ * Dimensions of the built-in frameworks, keyed like their score types
+ */
+export const BUILT_IN_DIMENSIONS: Record<
+  BuiltInFramework,
+  FrameworkDimension[]
+> = {
+  lewis: [
+    { key: "linearActive", label: "Linear Active" },
+    { key: "multiActive", label: "Multi Active" },
+    { key: "reactive", label: "Reactive" },
+  ],
+  hall: [
+    { key: "contextHigh", label: "Context (High)" },
+    { key: "timePolychronic", label: "Time (Polychronic)" },
+    { key: "spacePrivate", label: "Space (Private)" },
+  ],
+  hofstede: [
+    { key: "powerDistance", label: "Power Distance" },
+    { key: "individualism", label: "Individualism" },
+    { key: "masculinity", label: "Masculinity" },
+    { key: "uncertaintyAvoidance", label: "Uncertainty Avoidance" },
+    { key: "longTermOrientation", label: "Long-term Orientation" },
+    { key: "indulgence", label: "Indulgence" },
+  ],
+};
+
+/**
+ * Normalized (0-1) score of a country on one dimension of a custom framework
+ */
+export type CustomDimensionScore = FrameworkDimension & {
+  score: number;
+};
+
 export type CulturalScores = {
   lewis?: LewisScores;
   hall?: HallScores;
   hofstede?: HofstedeScores;
+  /**
+   * Scores for custom frameworks, keyed by framework ID and ordered by
+   * dimension. Only present when the country has a score for every dimension.
+   */
+  custom?: Partial<Record<CustomFrameworkId, CustomDimensionScore[]>>;
+};
+
+/**
+ * Built-in framework scores of an individual participant, derived from the
+ * self-assessment questionnaire (same 0-1 scales as country scores)
+ */
+export type PersonalScores = {
+  lewis: LewisScores;
+  hall: HallScores;
+  hofstede: HofstedeScores;
 };
 
+/**
+ * Checks whether a framework is a facilitator-defined custom framework
+ */
+export function isCustomFramework(
+  framework: string
+): framework is CustomFrameworkId {
+  return framework.startsWith("custom:");
+}
+
+/**
+ * Builds the framework identifier of a custom framework
+ *
+ * @param frameworkId - Database ID of the custom framework
+ * @returns Framework identifier usable wherever a Framework is expected
+ */
+export function toCustomFrameworkId(frameworkId: string): CustomFrameworkId {
+  return `custom:${frameworkId}`;
+}
+
+/**
+ * Extracts the database ID from a custom framework identifier
+ */
+export function getCustomFrameworkDbId(framework: CustomFrameworkId): string {
+  return framework.slice("custom:".length);
+}
+
 /**
  * Validates that a participant has the required cultural scores for a given framework.
  *
@@ -45,10 +133,7 @@ export function validateFrameworkScores(
   framework: Framework,
   countryCode: string
 ): { valid: true } | { valid: false; error: string } {
-  const frameworkScoreMap: Record<
-    Exclude<Framework, "combined">,
-    keyof CulturalScores
-  > = {
+  const frameworkScoreMap: Record<BuiltInFramework, keyof CulturalScores> = {
     lewis: "lewis",
     hall: "hall",
     hofstede: "hofstede",
@@ -65,6 +150,16 @@ export function validateFrameworkScores(
     return { valid: true };
   }
 
+  if (isCustomFramework(framework)) {
+    if (!scores.custom?.[framework]) {
+      return {
+        valid: false,
+        error: `Participant's country (${countryCode}) is missing scores for the selected custom framework`,
+      };
+    }
+    return { valid: true };
+  }
+
   const scoreKey = frameworkScoreMap[framework];
   if (!scores[scoreKey]) {
     const frameworkName =
@@ -88,5 +183,29 @@ export function hasFrameworkData(
   if (framework === "combined") {
     return !!(scores.lewis || scores.hall || scores.hofstede);
   }
+  if (isCustomFramework(framework)) {
+    return !!scores.custom?.[framework];
+  }
   return !!scores[framework];
 }
+
+/**
+ * Gets the ordered dimensions of a custom framework from the first set of
+ * scores that includes it. All complete score sets share the same dimensions.
+ *
+ * @param scoresList - Cultural scores of the countries being displayed
+ * @param framework - Custom framework identifier
+ * @returns Dimensions with keys and labels, or an empty array if unscored
+ */
+export function getCustomFrameworkDimensions(
+  scoresList: Array<CulturalScores | undefined>,
+  framework: CustomFrameworkId
+): FrameworkDimension[] {
+  for (const scores of scoresList) {
+    const frameworkScores = scores?.custom?.[framework];
+    if (frameworkScores) {
+      return frameworkScores.map(({ key, label }) => ({ key, label }));
+    }
+  }
+  return [];
+}
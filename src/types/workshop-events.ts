@@ -0,0 +1,44 @@
+/**
+ * Live workshop event types
+ * Shared between the server-side event bus and client-side SSE consumers
+ */
+
+import type { GroupingJobStatus } from "@/lib/db/schema/grouping-jobs";
+import type { WorkshopStatus } from "@/lib/db/schema/workshops";
+
+export type WorkshopEvent =
+  | { type: "participant_joined"; participantId: string }
+  | { type: "participants_imported"; participantCount: number }
+  | { type: "participant_left"; participantId: string }
+  | { type: "groups_generated"; groupCount: number }
+  | { type: "groups_updated" }
+  | { type: "grouping_job_updated"; jobId: string; status: GroupingJobStatus }
+  | { type: "candidates_generated"; candidateCount: number }
+  | { type: "status_changed"; status: WorkshopStatus }
+  | { type: "round_changed"; roundNumber: number }
+  | { type: "reflection_submitted"; participantId: string };
+
+export type WorkshopEventType = WorkshopEvent["type"];
+
+/**
+ * Events that are safe to forward to anonymous participants.
+ * Facilitator-only events (e.g. who joined or submitted) are filtered out.
+ */
+export const PARTICIPANT_EVENT_TYPES: readonly WorkshopEventType[] = [
+  "groups_generated",
+  "groups_updated",
+  "status_changed",
+  "round_changed",
+];
+
+/**
+ * Type guard for events received over the wire
+ */
+export function isWorkshopEvent(value: unknown): value is WorkshopEvent {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "type" in value &&
+    typeof (value as { type: unknown }).type === "string"
+  );
+}